@@ -1,5 +1,6 @@
 import { DatabaseConnection } from './connection.js';
 import { v4 as uuidv4 } from 'uuid';
+import { refreshCaseSearchDocuments, recordInitialApplicationRevisions } from './schema.js';
 
 export interface Migration {
   id: string;
@@ -114,11 +115,444 @@ export const initialMigrations: Migration[] = [
     },
     down: (db: DatabaseConnection) => {
       // Drop all tables
-      const tables = ['ai_interactions', 'audit_trail', 'case_notes', 'ai_summaries', 'cases'];
+      const tables = ['case_document_reviews', 'case_document_texts', 'case_documents', 'idempotency_keys', 'purged_cases', 'case_tags', 'tags', 'case_links', 'application_revisions', 'case_search', 'ai_interactions', 'audit_trail', 'note_mentions', 'case_note_revisions', 'case_notes', 'ai_summaries', 'cases'];
       tables.forEach(table => {
         db.exec(`DROP TABLE IF EXISTS ${table};`);
       });
     }
+  },
+  {
+    id: uuidv4(),
+    name: '002_add_case_step_entered_at',
+    up: (db: DatabaseConnection) => {
+      // Databases created before step SLAs lack the column; newer ones get it from schema.ts
+      const columns = db.prepare('PRAGMA table_info(cases)').all() as { name: string }[];
+      if (columns.length === 0) {
+        return;
+      }
+      if (!columns.some(column => column.name === 'step_entered_at')) {
+        db.exec('ALTER TABLE cases ADD COLUMN step_entered_at DATETIME;');
+      }
+      // The real step entry time is unknown for existing cases, so use their last update
+      db.exec('UPDATE cases SET step_entered_at = updated_at WHERE step_entered_at IS NULL;');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_cases_step_entered_at ON cases(step_entered_at);');
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP INDEX IF EXISTS idx_cases_step_entered_at;');
+      db.exec('ALTER TABLE cases DROP COLUMN step_entered_at;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '003_create_case_search_index',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(cases)').all() as { name: string }[];
+      if (columns.length === 0) {
+        return;
+      }
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS case_search USING fts5(
+          case_id UNINDEXED, application, form_data, notes, summaries, tokenize = 'unicode61 remove_diacritics 2'
+        );
+      `);
+      // Index cases written before full-text search existed
+      refreshCaseSearchDocuments(db);
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP TABLE IF EXISTS case_search;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '004_create_application_revisions',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(cases)').all() as { name: string }[];
+      if (columns.length === 0) {
+        return;
+      }
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS application_revisions (
+          id TEXT PRIMARY KEY,
+          case_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          application_data TEXT NOT NULL,
+          changes TEXT NOT NULL,
+          created_by TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          restored_from INTEGER,
+          UNIQUE (case_id, version),
+          FOREIGN KEY (case_id) REFERENCES cases(id) ON DELETE CASCADE
+        );
+      `);
+      // Existing cases start their history from their current application data
+      recordInitialApplicationRevisions(db);
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP TABLE IF EXISTS application_revisions;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '005_add_case_merged_into',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(cases)').all() as { name: string }[];
+      if (columns.length === 0) {
+        return;
+      }
+      if (!columns.some(column => column.name === 'merged_into')) {
+        db.exec('ALTER TABLE cases ADD COLUMN merged_into TEXT;');
+      }
+      // Duplicate detection looks cases up by normalized applicant email
+      db.exec("CREATE INDEX IF NOT EXISTS idx_cases_applicant_email ON cases(lower(trim(json_extract(application_data, '$.applicantEmail'))));");
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP INDEX IF EXISTS idx_cases_applicant_email;');
+      db.exec('ALTER TABLE cases DROP COLUMN merged_into;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '006_create_case_links',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(cases)').all() as { name: string }[];
+      if (columns.length === 0) {
+        return;
+      }
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS case_links (
+          id TEXT PRIMARY KEY,
+          case_id TEXT NOT NULL,
+          linked_case_id TEXT NOT NULL,
+          link_type TEXT NOT NULL CHECK (link_type IN ('appeal_of', 'renewal_of', 'related_to', 'family_member')),
+          note TEXT,
+          created_by TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (case_id, linked_case_id, link_type),
+          FOREIGN KEY (case_id) REFERENCES cases(id) ON DELETE CASCADE,
+          FOREIGN KEY (linked_case_id) REFERENCES cases(id) ON DELETE CASCADE
+        );
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_case_links_linked_case_id ON case_links(linked_case_id);');
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP TABLE IF EXISTS case_links;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '007_create_tags',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(cases)').all() as { name: string }[];
+      if (columns.length === 0) {
+        return;
+      }
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tags (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL COLLATE NOCASE UNIQUE,
+          color TEXT NOT NULL DEFAULT 'gray' CHECK (color IN ('gray', 'blue', 'green', 'yellow', 'red')),
+          description TEXT,
+          created_by TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS case_tags (
+          case_id TEXT NOT NULL,
+          tag_id TEXT NOT NULL,
+          tagged_by TEXT NOT NULL,
+          tagged_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (case_id, tag_id),
+          FOREIGN KEY (case_id) REFERENCES cases(id) ON DELETE CASCADE,
+          FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+        );
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_case_tags_tag_id ON case_tags(tag_id);');
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP TABLE IF EXISTS case_tags;');
+      db.exec('DROP TABLE IF EXISTS tags;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '008_add_case_priority',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(cases)').all() as { name: string }[];
+      if (columns.length === 0) {
+        return;
+      }
+      if (!columns.some(column => column.name === 'priority')) {
+        db.exec("ALTER TABLE cases ADD COLUMN priority TEXT CHECK (priority IN ('low', 'medium', 'high', 'urgent'));");
+      }
+      db.exec('CREATE INDEX IF NOT EXISTS idx_cases_priority ON cases(priority);');
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP INDEX IF EXISTS idx_cases_priority;');
+      db.exec('ALTER TABLE cases DROP COLUMN priority;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '009_add_case_deletion_and_retention',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(cases)').all() as { name: string }[];
+      if (columns.length === 0) {
+        return;
+      }
+      if (!columns.some(column => column.name === 'deleted_at')) {
+        db.exec('ALTER TABLE cases ADD COLUMN deleted_at DATETIME;');
+        db.exec('ALTER TABLE cases ADD COLUMN deleted_by TEXT;');
+      }
+      db.exec('CREATE INDEX IF NOT EXISTS idx_cases_deleted_at ON cases(deleted_at);');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS purged_cases (
+          case_id TEXT PRIMARY KEY,
+          application_type TEXT NOT NULL,
+          status TEXT NOT NULL,
+          created_at DATETIME NOT NULL,
+          concluded_at DATETIME NOT NULL,
+          purged_at DATETIME NOT NULL,
+          purged_by TEXT NOT NULL,
+          audit_trail TEXT NOT NULL
+        );
+      `);
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP TABLE IF EXISTS purged_cases;');
+      db.exec('DROP INDEX IF EXISTS idx_cases_deleted_at;');
+      db.exec('ALTER TABLE cases DROP COLUMN deleted_by;');
+      db.exec('ALTER TABLE cases DROP COLUMN deleted_at;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '010_add_case_version',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(cases)').all() as { name: string }[];
+      if (columns.length === 0 || columns.some(column => column.name === 'version')) {
+        return;
+      }
+      db.exec('ALTER TABLE cases ADD COLUMN version INTEGER NOT NULL DEFAULT 1;');
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('ALTER TABLE cases DROP COLUMN version;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '011_add_idempotency_keys',
+    up: (db: DatabaseConnection) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS idempotency_keys (
+          idempotency_key TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          request_hash TEXT NOT NULL,
+          status_code INTEGER,
+          response_body TEXT,
+          created_at DATETIME NOT NULL,
+          expires_at DATETIME NOT NULL,
+          PRIMARY KEY (idempotency_key, scope)
+        );
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);');
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP TABLE IF EXISTS idempotency_keys;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '012_add_note_threads_and_revisions',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(case_notes)').all() as { name: string }[];
+      if (columns.length === 0) {
+        return;
+      }
+      if (!columns.some(column => column.name === 'parent_id')) {
+        db.exec('ALTER TABLE case_notes ADD COLUMN parent_id TEXT;');
+        db.exec("ALTER TABLE case_notes ADD COLUMN category TEXT NOT NULL DEFAULT 'general' CHECK (category IN ('general', 'interview', 'phone_call', 'document_review'));");
+        db.exec("ALTER TABLE case_notes ADD COLUMN visibility TEXT NOT NULL DEFAULT 'internal' CHECK (visibility IN ('internal', 'applicant'));");
+        db.exec('ALTER TABLE case_notes ADD COLUMN updated_at DATETIME;');
+        db.exec('ALTER TABLE case_notes ADD COLUMN updated_by TEXT;');
+        db.exec('ALTER TABLE case_notes ADD COLUMN deleted_at DATETIME;');
+        db.exec('ALTER TABLE case_notes ADD COLUMN deleted_by TEXT;');
+        db.exec('ALTER TABLE case_notes ADD COLUMN deletion_reason TEXT;');
+      }
+      db.exec('CREATE INDEX IF NOT EXISTS idx_case_notes_parent_id ON case_notes(parent_id);');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS case_note_revisions (
+          id TEXT PRIMARY KEY,
+          note_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          created_by TEXT NOT NULL,
+          created_at DATETIME NOT NULL,
+          FOREIGN KEY (note_id) REFERENCES case_notes(id) ON DELETE CASCADE,
+          UNIQUE (note_id, version)
+        );
+      `);
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP TABLE IF EXISTS case_note_revisions;');
+      db.exec('DROP INDEX IF EXISTS idx_case_notes_parent_id;');
+      for (const column of ['deletion_reason', 'deleted_by', 'deleted_at', 'updated_by', 'updated_at', 'visibility', 'category', 'parent_id']) {
+        db.exec(`ALTER TABLE case_notes DROP COLUMN ${column};`);
+      }
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '013_create_note_mentions',
+    up: (db: DatabaseConnection) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS note_mentions (
+          id TEXT PRIMARY KEY,
+          note_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          mentioned_by TEXT NOT NULL,
+          created_at DATETIME NOT NULL,
+          read_at DATETIME,
+          FOREIGN KEY (note_id) REFERENCES case_notes(id) ON DELETE CASCADE,
+          UNIQUE (note_id, user_id)
+        );
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_note_mentions_user_id ON note_mentions(user_id, read_at);');
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP TABLE IF EXISTS note_mentions;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '014_create_case_documents',
+    up: (db: DatabaseConnection) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS case_documents (
+          id TEXT PRIMARY KEY,
+          case_id TEXT NOT NULL,
+          filename TEXT NOT NULL,
+          mime_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          checksum TEXT NOT NULL,
+          storage_key TEXT NOT NULL,
+          description TEXT,
+          uploaded_by TEXT NOT NULL,
+          uploaded_at DATETIME NOT NULL,
+          FOREIGN KEY (case_id) REFERENCES cases(id) ON DELETE CASCADE
+        );
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_case_documents_case_id ON case_documents(case_id);');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_case_documents_checksum ON case_documents(checksum);');
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP TABLE IF EXISTS case_documents;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '015_create_case_document_texts',
+    up: (db: DatabaseConnection) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS case_document_texts (
+          document_id TEXT PRIMARY KEY,
+          method TEXT NOT NULL CHECK (method IN ('plain_text', 'pdf_text_layer', 'docx')),
+          text TEXT NOT NULL,
+          truncated BOOLEAN NOT NULL DEFAULT 0,
+          extracted_at DATETIME NOT NULL,
+          FOREIGN KEY (document_id) REFERENCES case_documents(id) ON DELETE CASCADE
+        );
+      `);
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP TABLE IF EXISTS case_document_texts;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '016_add_document_reviews',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(case_documents)').all() as { name: string }[];
+      if (columns.length === 0) {
+        return;
+      }
+      if (!columns.some(column => column.name === 'review_status')) {
+        db.exec("ALTER TABLE case_documents ADD COLUMN review_status TEXT NOT NULL DEFAULT 'pending' CHECK (review_status IN ('pending', 'accepted', 'rejected', 'needs_replacement', 'replaced'));");
+        db.exec('ALTER TABLE case_documents ADD COLUMN review_reason TEXT;');
+        db.exec('ALTER TABLE case_documents ADD COLUMN reviewed_by TEXT;');
+        db.exec('ALTER TABLE case_documents ADD COLUMN reviewed_at DATETIME;');
+        db.exec('ALTER TABLE case_documents ADD COLUMN expiry_date TEXT;');
+        db.exec('ALTER TABLE case_documents ADD COLUMN replaces_document_id TEXT;');
+      }
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS case_document_reviews (
+          id TEXT PRIMARY KEY,
+          document_id TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('pending', 'accepted', 'rejected', 'needs_replacement', 'replaced')),
+          reason TEXT,
+          expiry_date TEXT,
+          reviewed_by TEXT NOT NULL,
+          reviewed_at DATETIME NOT NULL,
+          FOREIGN KEY (document_id) REFERENCES case_documents(id) ON DELETE CASCADE
+        );
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_case_document_reviews_document_id ON case_document_reviews(document_id);');
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('DROP TABLE IF EXISTS case_document_reviews;');
+      for (const column of ['replaces_document_id', 'expiry_date', 'reviewed_at', 'reviewed_by', 'review_reason', 'review_status']) {
+        db.exec(`ALTER TABLE case_documents DROP COLUMN ${column};`);
+      }
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '017_add_document_scan_results',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(case_documents)').all() as { name: string }[];
+      if (columns.length === 0 || columns.some(column => column.name === 'scan_status')) {
+        return;
+      }
+      // Documents uploaded before scanning was added stay marked as not scanned
+      db.exec("ALTER TABLE case_documents ADD COLUMN scan_status TEXT NOT NULL DEFAULT 'not_scanned' CHECK (scan_status IN ('not_scanned', 'clean', 'infected'));");
+      db.exec('ALTER TABLE case_documents ADD COLUMN scan_signature TEXT;');
+      db.exec('ALTER TABLE case_documents ADD COLUMN scanned_at DATETIME;');
+    },
+    down: (db: DatabaseConnection) => {
+      for (const column of ['scanned_at', 'scan_signature', 'scan_status']) {
+        db.exec(`ALTER TABLE case_documents DROP COLUMN ${column};`);
+      }
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '018_add_document_type',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(case_documents)').all() as { name: string }[];
+      if (columns.length === 0 || columns.some(column => column.name === 'document_type')) {
+        return;
+      }
+      // Earlier uploads have no type and count towards no required document
+      db.exec('ALTER TABLE case_documents ADD COLUMN document_type TEXT;');
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('ALTER TABLE case_documents DROP COLUMN document_type;');
+    }
+  },
+  {
+    id: uuidv4(),
+    name: '019_add_idempotency_response_headers',
+    up: (db: DatabaseConnection) => {
+      const columns = db.prepare('PRAGMA table_info(idempotency_keys)').all() as { name: string }[];
+      if (columns.length === 0 || columns.some(column => column.name === 'response_headers')) {
+        return;
+      }
+      // Responses stored before this migration replay without headers
+      db.exec('ALTER TABLE idempotency_keys ADD COLUMN response_headers TEXT;');
+    },
+    down: (db: DatabaseConnection) => {
+      db.exec('ALTER TABLE idempotency_keys DROP COLUMN response_headers;');
+    }
   }
 ];
 
@@ -1,4 +1,54 @@
 import { DatabaseConnection } from './connection.js';
+import { getWorkflowStepValues } from '../services/WorkflowService.js';
+
+// SQL list of the process steps defined by the workflow definitions, for CHECK constraints
+const workflowStepList = (): string => getWorkflowStepValues().map(step => `'${step}'`).join(', ');
+
+// One search document per case: application details, text form fields, notes that are not deleted and AI summaries
+const CASE_SEARCH_DOCUMENT_SELECT = `
+  SELECT
+    c.id,
+    trim(
+      COALESCE(json_extract(c.application_data, '$.applicantName'), '') || ' ' ||
+      COALESCE(json_extract(c.application_data, '$.applicantEmail'), '') || ' ' ||
+      COALESCE(json_extract(c.application_data, '$.applicationType'), '')
+    ),
+    COALESCE((SELECT group_concat(value, ' ') FROM json_each(c.application_data, '$.formData') WHERE type = 'text'), ''),
+    COALESCE((SELECT group_concat(content, ' ') FROM case_notes WHERE case_id = c.id AND deleted_at IS NULL), ''),
+    COALESCE((SELECT group_concat(content, ' ') FROM ai_summaries WHERE case_id = c.id), '')
+  FROM cases c
+`;
+
+/**
+ * Rebuild the full-text search documents for one case, or for every case when no ID is given
+ */
+export function refreshCaseSearchDocuments(db: DatabaseConnection, caseId?: string): void {
+    const insert = `INSERT INTO case_search (case_id, application, form_data, notes, summaries) ${CASE_SEARCH_DOCUMENT_SELECT}`;
+    if (caseId) {
+        db.prepare('DELETE FROM case_search WHERE case_id = ?').run(caseId);
+        db.prepare(`${insert} WHERE c.id = ?`).run(caseId);
+    } else {
+        db.exec('DELETE FROM case_search;');
+        db.exec(`${insert};`);
+    }
+}
+
+/**
+ * Store the original application data as revision 1 for cases that have no revisions yet,
+ * for one case or for every case when no ID is given
+ */
+export function recordInitialApplicationRevisions(db: DatabaseConnection, caseId?: string): void {
+    const insert = `
+    INSERT INTO application_revisions (id, case_id, version, application_data, changes, created_by, created_at)
+    SELECT lower(hex(randomblob(16))), c.id, 1, c.application_data, '[]', 'system', c.created_at
+    FROM cases c
+    WHERE NOT EXISTS (SELECT 1 FROM application_revisions r WHERE r.case_id = c.id)`;
+    if (caseId) {
+        db.prepare(`${insert} AND c.id = ?`).run(caseId);
+    } else {
+        db.exec(`${insert};`);
+    }
+}
 
 export class DatabaseSchema {
     private db: DatabaseConnection;
@@ -17,8 +67,19 @@ export class DatabaseSchema {
                 this.createCasesTable();
                 this.createAISummariesTable();
                 this.createCaseNotesTable();
+                this.createCaseNoteRevisionsTable();
+                this.createNoteMentionsTable();
                 this.createAuditTrailTable();
                 this.createAIInteractionsTable();
+                this.createCaseSearchTable();
+                this.createApplicationRevisionsTable();
+                this.createCaseLinksTable();
+                this.createTagTables();
+                this.createPurgedCasesTable();
+                this.createIdempotencyKeysTable();
+                this.createCaseDocumentsTable();
+                this.createCaseDocumentTextsTable();
+                this.createCaseDocumentReviewsTable();
                 
                 // Create indexes within the same transaction to ensure tables exist
                 this.createIndexesInTransaction();
@@ -26,7 +87,7 @@ export class DatabaseSchema {
 
             // Verify all tables were created
             const tables = this.listTables();
-            const requiredTables = ['cases', 'ai_summaries', 'case_notes', 'audit_trail', 'ai_interactions'];
+            const requiredTables = ['cases', 'ai_summaries', 'case_notes', 'audit_trail', 'ai_interactions', 'case_search', 'application_revisions', 'case_links', 'tags', 'case_tags', 'purged_cases', 'idempotency_keys', 'case_note_revisions', 'note_mentions', 'case_documents', 'case_document_texts', 'case_document_reviews'];
             const missingTables = requiredTables.filter(table => !tables.includes(table));
             
             if (missingTables.length > 0) {
@@ -46,10 +107,16 @@ export class DatabaseSchema {
         id TEXT PRIMARY KEY,
         application_data TEXT NOT NULL,
         status TEXT NOT NULL CHECK (status IN ('active', 'pending', 'approved', 'denied', 'withdrawn', 'archived')),
-        current_step TEXT NOT NULL CHECK (current_step IN ('received', 'in_review', 'additional_info_required', 'ready_for_decision', 'concluded')),
+        current_step TEXT NOT NULL CHECK (current_step IN (${workflowStepList()})),
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        assigned_to TEXT
+        step_entered_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        assigned_to TEXT,
+        merged_into TEXT,
+        priority TEXT CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+        deleted_at DATETIME,
+        deleted_by TEXT,
+        version INTEGER NOT NULL DEFAULT 1
       );
     `;
         this.db.exec(sql);
@@ -62,7 +129,7 @@ export class DatabaseSchema {
         id TEXT PRIMARY KEY,
         case_id TEXT NOT NULL,
         type TEXT NOT NULL CHECK (type IN ('overall', 'step-specific')),
-        step TEXT CHECK (step IN ('received', 'in_review', 'additional_info_required', 'ready_for_decision', 'concluded')),
+        step TEXT CHECK (step IN (${workflowStepList()})),
         content TEXT NOT NULL,
         recommendations TEXT,
         confidence REAL,
@@ -83,6 +150,14 @@ export class DatabaseSchema {
         content TEXT NOT NULL,
         created_by TEXT NOT NULL,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        parent_id TEXT,
+        category TEXT NOT NULL DEFAULT 'general' CHECK (category IN ('general', 'interview', 'phone_call', 'document_review')),
+        visibility TEXT NOT NULL DEFAULT 'internal' CHECK (visibility IN ('internal', 'applicant')),
+        updated_at DATETIME,
+        updated_by TEXT,
+        deleted_at DATETIME,
+        deleted_by TEXT,
+        deletion_reason TEXT,
         FOREIGN KEY (case_id) REFERENCES cases(id) ON DELETE CASCADE
       );
     `;
@@ -90,6 +165,107 @@ export class DatabaseSchema {
         console.log('Created case_notes table');
     }
 
+    private createCaseNoteRevisionsTable(): void {
+        // Earlier contents of edited notes; the current content stays on the note
+        const sql = `
+      CREATE TABLE IF NOT EXISTS case_note_revisions (
+        id TEXT PRIMARY KEY,
+        note_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at DATETIME NOT NULL,
+        FOREIGN KEY (note_id) REFERENCES case_notes(id) ON DELETE CASCADE,
+        UNIQUE (note_id, version)
+      );
+    `;
+        this.db.exec(sql);
+        console.log('Created case_note_revisions table');
+    }
+
+    private createNoteMentionsTable(): void {
+        // Users @mentioned in notes; a mention is unread until read_at is set
+        const sql = `
+      CREATE TABLE IF NOT EXISTS note_mentions (
+        id TEXT PRIMARY KEY,
+        note_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        mentioned_by TEXT NOT NULL,
+        created_at DATETIME NOT NULL,
+        read_at DATETIME,
+        FOREIGN KEY (note_id) REFERENCES case_notes(id) ON DELETE CASCADE,
+        UNIQUE (note_id, user_id)
+      );
+    `;
+        this.db.exec(sql);
+        console.log('Created note_mentions table');
+    }
+
+    private createCaseDocumentsTable(): void {
+        // Uploaded files; the bytes live in document storage under storage_key, named by their SHA-256 checksum
+        const sql = `
+      CREATE TABLE IF NOT EXISTS case_documents (
+        id TEXT PRIMARY KEY,
+        case_id TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        checksum TEXT NOT NULL,
+        storage_key TEXT NOT NULL,
+        description TEXT,
+        document_type TEXT,
+        uploaded_by TEXT NOT NULL,
+        uploaded_at DATETIME NOT NULL,
+        review_status TEXT NOT NULL DEFAULT 'pending' CHECK (review_status IN ('pending', 'accepted', 'rejected', 'needs_replacement', 'replaced')),
+        review_reason TEXT,
+        reviewed_by TEXT,
+        reviewed_at DATETIME,
+        expiry_date TEXT,
+        replaces_document_id TEXT,
+        scan_status TEXT NOT NULL DEFAULT 'not_scanned' CHECK (scan_status IN ('not_scanned', 'clean', 'infected')),
+        scan_signature TEXT,
+        scanned_at DATETIME,
+        FOREIGN KEY (case_id) REFERENCES cases(id) ON DELETE CASCADE
+      );
+    `;
+        this.db.exec(sql);
+        console.log('Created case_documents table');
+    }
+
+    private createCaseDocumentTextsTable(): void {
+        // Text extracted locally from an uploaded file, for AI context; one row per document
+        const sql = `
+      CREATE TABLE IF NOT EXISTS case_document_texts (
+        document_id TEXT PRIMARY KEY,
+        method TEXT NOT NULL CHECK (method IN ('plain_text', 'pdf_text_layer', 'docx')),
+        text TEXT NOT NULL,
+        truncated BOOLEAN NOT NULL DEFAULT 0,
+        extracted_at DATETIME NOT NULL,
+        FOREIGN KEY (document_id) REFERENCES case_documents(id) ON DELETE CASCADE
+      );
+    `;
+        this.db.exec(sql);
+        console.log('Created case_document_texts table');
+    }
+
+    private createCaseDocumentReviewsTable(): void {
+        // Every review decision on a document, oldest first; the current one is also kept on case_documents
+        const sql = `
+      CREATE TABLE IF NOT EXISTS case_document_reviews (
+        id TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('pending', 'accepted', 'rejected', 'needs_replacement', 'replaced')),
+        reason TEXT,
+        expiry_date TEXT,
+        reviewed_by TEXT NOT NULL,
+        reviewed_at DATETIME NOT NULL,
+        FOREIGN KEY (document_id) REFERENCES case_documents(id) ON DELETE CASCADE
+      );
+    `;
+        this.db.exec(sql);
+        console.log('Created case_document_reviews table');
+    }
+
     private createAuditTrailTable(): void {
         const sql = `
       CREATE TABLE IF NOT EXISTS audit_trail (
@@ -131,22 +307,152 @@ export class DatabaseSchema {
         console.log('Created ai_interactions table');
     }
 
+    private createCaseSearchTable(): void {
+        // case_id is stored for joins only. No stemmer: queries use prefix matching instead,
+        // which stemming would break ("relocat*" never matches the stem "reloc")
+        const sql = `
+      CREATE VIRTUAL TABLE IF NOT EXISTS case_search USING fts5(
+        case_id UNINDEXED,
+        application,
+        form_data,
+        notes,
+        summaries,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+    `;
+        this.db.exec(sql);
+        console.log('Created case_search index');
+    }
+
+    private createApplicationRevisionsTable(): void {
+        const sql = `
+      CREATE TABLE IF NOT EXISTS application_revisions (
+        id TEXT PRIMARY KEY,
+        case_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        application_data TEXT NOT NULL,
+        changes TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        restored_from INTEGER,
+        UNIQUE (case_id, version),
+        FOREIGN KEY (case_id) REFERENCES cases(id) ON DELETE CASCADE
+      );
+    `;
+        this.db.exec(sql);
+        console.log('Created application_revisions table');
+    }
+
+    private createCaseLinksTable(): void {
+        const sql = `
+      CREATE TABLE IF NOT EXISTS case_links (
+        id TEXT PRIMARY KEY,
+        case_id TEXT NOT NULL,
+        linked_case_id TEXT NOT NULL,
+        link_type TEXT NOT NULL CHECK (link_type IN ('appeal_of', 'renewal_of', 'related_to', 'family_member')),
+        note TEXT,
+        created_by TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (case_id, linked_case_id, link_type),
+        FOREIGN KEY (case_id) REFERENCES cases(id) ON DELETE CASCADE,
+        FOREIGN KEY (linked_case_id) REFERENCES cases(id) ON DELETE CASCADE
+      );
+    `;
+        this.db.exec(sql);
+        console.log('Created case_links table');
+    }
+
+    private createTagTables(): void {
+        const sql = `
+      CREATE TABLE IF NOT EXISTS tags (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL COLLATE NOCASE UNIQUE,
+        color TEXT NOT NULL DEFAULT 'gray' CHECK (color IN ('gray', 'blue', 'green', 'yellow', 'red')),
+        description TEXT,
+        created_by TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS case_tags (
+        case_id TEXT NOT NULL,
+        tag_id TEXT NOT NULL,
+        tagged_by TEXT NOT NULL,
+        tagged_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (case_id, tag_id),
+        FOREIGN KEY (case_id) REFERENCES cases(id) ON DELETE CASCADE,
+        FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+      );
+    `;
+        this.db.exec(sql);
+        console.log('Created tags and case_tags tables');
+    }
+
+    // Purged cases keep no foreign key: the case row they describe is gone
+    private createPurgedCasesTable(): void {
+        const sql = `
+      CREATE TABLE IF NOT EXISTS purged_cases (
+        case_id TEXT PRIMARY KEY,
+        application_type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at DATETIME NOT NULL,
+        concluded_at DATETIME NOT NULL,
+        purged_at DATETIME NOT NULL,
+        purged_by TEXT NOT NULL,
+        audit_trail TEXT NOT NULL
+      );
+    `;
+        this.db.exec(sql);
+        console.log('Created purged_cases table');
+    }
+
+    private createIdempotencyKeysTable(): void {
+        // Responses stored per Idempotency-Key and endpoint; a null status code marks a request still running
+        const sql = `
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        idempotency_key TEXT NOT NULL,
+        scope TEXT NOT NULL,
+        request_hash TEXT NOT NULL,
+        status_code INTEGER,
+        response_headers TEXT,
+        response_body TEXT,
+        created_at DATETIME NOT NULL,
+        expires_at DATETIME NOT NULL,
+        PRIMARY KEY (idempotency_key, scope)
+      );
+    `;
+        this.db.exec(sql);
+        console.log('Created idempotency_keys table');
+    }
+
     private createIndexesInTransaction(): void {
         const indexes = [
             'CREATE INDEX IF NOT EXISTS idx_cases_status ON cases(status);',
             'CREATE INDEX IF NOT EXISTS idx_cases_current_step ON cases(current_step);',
             'CREATE INDEX IF NOT EXISTS idx_cases_created_at ON cases(created_at);',
             'CREATE INDEX IF NOT EXISTS idx_cases_assigned_to ON cases(assigned_to);',
+            'CREATE INDEX IF NOT EXISTS idx_cases_step_entered_at ON cases(step_entered_at);',
+            'CREATE INDEX IF NOT EXISTS idx_cases_priority ON cases(priority);',
+            'CREATE INDEX IF NOT EXISTS idx_cases_deleted_at ON cases(deleted_at);',
+            "CREATE INDEX IF NOT EXISTS idx_cases_applicant_email ON cases(lower(trim(json_extract(application_data, '$.applicantEmail'))));",
             'CREATE INDEX IF NOT EXISTS idx_ai_summaries_case_id ON ai_summaries(case_id);',
             'CREATE INDEX IF NOT EXISTS idx_ai_summaries_type ON ai_summaries(type);',
             'CREATE INDEX IF NOT EXISTS idx_ai_summaries_step ON ai_summaries(step);',
             'CREATE INDEX IF NOT EXISTS idx_case_notes_case_id ON case_notes(case_id);',
             'CREATE INDEX IF NOT EXISTS idx_case_notes_created_at ON case_notes(created_at);',
+            'CREATE INDEX IF NOT EXISTS idx_case_notes_parent_id ON case_notes(parent_id);',
+            'CREATE INDEX IF NOT EXISTS idx_note_mentions_user_id ON note_mentions(user_id, read_at);',
+            'CREATE INDEX IF NOT EXISTS idx_case_documents_case_id ON case_documents(case_id);',
+            'CREATE INDEX IF NOT EXISTS idx_case_documents_checksum ON case_documents(checksum);',
+            'CREATE INDEX IF NOT EXISTS idx_case_document_reviews_document_id ON case_document_reviews(document_id);',
             'CREATE INDEX IF NOT EXISTS idx_audit_trail_case_id ON audit_trail(case_id);',
             'CREATE INDEX IF NOT EXISTS idx_audit_trail_timestamp ON audit_trail(timestamp);',
             'CREATE INDEX IF NOT EXISTS idx_ai_interactions_case_id ON ai_interactions(case_id);',
             'CREATE INDEX IF NOT EXISTS idx_ai_interactions_operation ON ai_interactions(operation);',
-            'CREATE INDEX IF NOT EXISTS idx_ai_interactions_timestamp ON ai_interactions(timestamp);'
+            'CREATE INDEX IF NOT EXISTS idx_ai_interactions_timestamp ON ai_interactions(timestamp);',
+            'CREATE INDEX IF NOT EXISTS idx_case_links_linked_case_id ON case_links(linked_case_id);',
+            'CREATE INDEX IF NOT EXISTS idx_case_tags_tag_id ON case_tags(tag_id);',
+            'CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);'
         ];
 
         indexes.forEach(indexSql => {
@@ -170,7 +476,7 @@ export class DatabaseSchema {
         try {
             // Use a transaction to ensure atomicity
             this.db.transaction(() => {
-                const tables = ['ai_interactions', 'audit_trail', 'case_notes', 'ai_summaries', 'cases'];
+                const tables = ['case_document_reviews', 'case_document_texts', 'case_documents', 'idempotency_keys', 'purged_cases', 'case_tags', 'tags', 'case_links', 'application_revisions', 'case_search', 'ai_interactions', 'audit_trail', 'note_mentions', 'case_note_revisions', 'case_notes', 'ai_summaries', 'cases'];
                 tables.forEach(table => {
                     this.db.exec(`DROP TABLE IF EXISTS ${table};`);
                 });
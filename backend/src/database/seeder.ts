@@ -1,6 +1,7 @@
 import { DatabaseConnection } from './connection.js';
 import { CaseStatus, ProcessStep, ApplicationData } from '../types/database.js';
 import { v4 as uuidv4 } from 'uuid';
+import { refreshCaseSearchDocuments, recordInitialApplicationRevisions } from './schema.js';
 
 export class DatabaseSeeder {
   private db: DatabaseConnection;
@@ -19,6 +20,8 @@ export class DatabaseSeeder {
         this.seedCaseNotes();
         this.seedAuditTrail();
         this.seedAIInteractions();
+        refreshCaseSearchDocuments(this.db);
+        recordInitialApplicationRevisions(this.db);
       });
 
       console.log('Database seeding completed successfully');
@@ -91,8 +94,8 @@ export class DatabaseSeeder {
     ];
 
     const stmt = this.db.prepare(`
-      INSERT OR IGNORE INTO cases (id, application_data, status, current_step, created_at, updated_at, assigned_to)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT OR IGNORE INTO cases (id, application_data, status, current_step, created_at, updated_at, step_entered_at, assigned_to)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     cases.forEach(caseData => {
@@ -103,6 +106,7 @@ export class DatabaseSeeder {
         caseData.current_step,
         caseData.created_at,
         caseData.updated_at,
+        caseData.updated_at,
         caseData.assigned_to
       );
     });
@@ -333,7 +337,7 @@ export class DatabaseSeeder {
   public async clearDatabase(): Promise<void> {
     console.log('Clearing database...');
 
-    const tables = ['ai_interactions', 'audit_trail', 'case_notes', 'ai_summaries', 'cases'];
+    const tables = ['case_document_reviews', 'case_document_texts', 'case_documents', 'idempotency_keys', 'purged_cases', 'case_tags', 'tags', 'case_links', 'application_revisions', 'case_search', 'ai_interactions', 'audit_trail', 'note_mentions', 'case_note_revisions', 'case_notes', 'ai_summaries', 'cases'];
     const existingTables = this.getExistingTables();
     
     this.db.transaction(() => {
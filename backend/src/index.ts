@@ -35,8 +35,9 @@ app.use(cors({
     ? process.env.FRONTEND_URL || 'https://your-domain.com'
     : ['http://localhost:3000', 'http://127.0.0.1:3000'],
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'If-Match', 'Idempotency-Key'],
+  exposedHeaders: ['ETag', 'Location', 'Idempotent-Replayed']
 }));
 
 // JSON parsing with error handling
@@ -93,10 +94,23 @@ app.get('/version', (_req: Request, res: Response) => {
 // Import routes
 import casesRouter from './routes/cases.js';
 import aiRouter from './routes/ai.js';
+import applicationTypesRouter from './routes/applicationTypes.js';
+import tagsRouter from './routes/tags.js';
+import retentionRouter from './routes/retention.js';
+import privacyRouter from './routes/privacy.js';
+import meRouter from './routes/me.js';
+import usersRouter from './routes/users.js';
+import { getServices } from './routes/serviceFactory.js';
 
 // API routes
 app.use('/api/cases', casesRouter);
 app.use('/api/ai', aiRouter);
+app.use('/api/application-types', applicationTypesRouter);
+app.use('/api/tags', tagsRouter);
+app.use('/api/retention', retentionRouter);
+app.use('/api/privacy', privacyRouter);
+app.use('/api/me', meRouter);
+app.use('/api/users', usersRouter);
 
 // Fallback for unimplemented API routes
 app.use('/api', (_req: Request, res: Response) => {
@@ -138,6 +152,18 @@ if (NODE_ENV !== 'test') {
     console.log(`📋 Version info: http://localhost:${PORT}/version`);
     console.log(`🌍 Environment: ${NODE_ENV}`);
   });
+
+  // Periodically record audit entries for cases that have overrun their step SLA
+  const { caseService, slaService } = getServices();
+  setInterval(() => {
+    caseService.recordSlaBreaches()
+      .then(count => {
+        if (count > 0) {
+          console.log(`⏰ Recorded ${count} SLA breach(es)`);
+        }
+      })
+      .catch(error => console.error('SLA breach check failed:', error));
+  }, slaService.getCheckIntervalMs());
 }
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { ErrorResponse, UserRole } from '../types/index.js';
+
+export const USER_ROLES: UserRole[] = ['caseworker', 'supervisor', 'admin'];
+
+/**
+ * Resolve the caller's role from the x-user-role header (defaults to caseworker until authentication is implemented)
+ */
+export const getUserRole = (req: Request): UserRole | null => {
+  const role = (req.headers['x-user-role'] as string | undefined) || 'caseworker';
+  return USER_ROLES.includes(role as UserRole) ? role as UserRole : null;
+};
+
+/**
+ * Error handling wrapper passing rejections of async route handlers to the error middleware
+ */
+export const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+};
+
+/**
+ * Input validation middleware: the parsed body replaces req.body, invalid input gets 400
+ */
+export const validateInput = (schema: z.ZodSchema) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    try {
+      const validated = schema.parse(req.body);
+      req.body = validated;
+      next();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorResponse: ErrorResponse = {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: (error as z.ZodError).issues
+          },
+          timestamp: new Date().toISOString(),
+          requestId: randomUUID()
+        };
+        res.status(400).json(errorResponse);
+        return;
+      }
+      next(error);
+    }
+  };
+};
+
+/**
+ * Middleware rejecting requests with an unknown x-user-role header
+ */
+export const validateUserRole = (req: Request, res: Response, next: NextFunction): void => {
+  if (!getUserRole(req)) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INVALID_USER_ROLE',
+        message: `User role must be one of: ${USER_ROLES.join(', ')}`
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+    res.status(400).json(errorResponse);
+    return;
+  }
+  next();
+};
+
+/**
+ * Middleware restricting an endpoint to admins
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const role = getUserRole(req);
+  if (role !== 'admin') {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: role ? 'INSUFFICIENT_ROLE' : 'INVALID_USER_ROLE',
+        message: role ? `Role ${role} is not permitted to perform this action` : `User role must be one of: ${USER_ROLES.join(', ')}`
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+    res.status(role ? 403 : 400).json(errorResponse);
+    return;
+  }
+  next();
+};
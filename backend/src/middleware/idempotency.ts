@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { ErrorResponse } from '../types/index.js';
+import { getServices } from '../routes/serviceFactory.js';
+
+const MAX_KEY_LENGTH = 255;
+
+// Response headers stored with the response and sent again on replay
+const REPLAYED_HEADERS = ['location', 'etag', 'content-location'];
+
+const sendError = (res: Response, status: number, code: string, message: string): void => {
+  const errorResponse: ErrorResponse = {
+    error: { code, message },
+    timestamp: new Date().toISOString(),
+    requestId: randomUUID()
+  };
+  res.status(status).json(errorResponse);
+};
+
+const getReplayedHeaders = (res: Response): Record<string, string> =>
+  Object.fromEntries(REPLAYED_HEADERS.flatMap(name => {
+    const value = res.getHeader(name);
+    return value === undefined ? [] : [[name, String(value)]];
+  }));
+
+/**
+ * Middleware honouring an optional Idempotency-Key header. The first request with a key runs and its JSON
+ * response is stored with its Location and ETag headers; retries with the same key and body get the stored
+ * response back marked Idempotent-Replayed, a different body gets 422 and a retry while the first request is
+ * still running gets 409. A request that ends without a JSON response, because the client went away or the
+ * route sent something else, releases its key. Keys are scoped to the endpoint and the calling user, so one
+ * user can never replay another user's stored response.
+ */
+export const idempotency = (req: Request, res: Response, next: NextFunction): void => {
+  const key = req.headers['idempotency-key'];
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (typeof key !== 'string' || key.trim().length === 0 || key.length > MAX_KEY_LENGTH) {
+    sendError(res, 400, 'INVALID_IDEMPOTENCY_KEY', `Idempotency-Key must be a non-empty string of at most ${MAX_KEY_LENGTH} characters`);
+    return;
+  }
+
+  const userId = req.headers['x-user-id'] as string || 'system';
+  const scope = `${req.method} ${req.baseUrl}${req.path} ${userId}`;
+  const { idempotencyService } = getServices();
+
+  idempotencyService.begin(key, scope, req.body).then(outcome => {
+    switch (outcome.type) {
+      case 'replay':
+        res.set({ ...outcome.headers, 'Idempotent-Replayed': 'true' }).status(outcome.statusCode).json(outcome.body);
+        return;
+      case 'mismatch':
+        sendError(res, 422, 'IDEMPOTENCY_KEY_REUSED', 'Idempotency-Key was already used with a different request body');
+        return;
+      case 'in_progress':
+        sendError(res, 409, 'IDEMPOTENT_REQUEST_IN_PROGRESS', 'A request with this Idempotency-Key is still being processed');
+        return;
+      case 'proceed': {
+        // Whichever happens first decides the key: a JSON response is stored, an earlier close releases it
+        let settled = false;
+
+        // Store the response before it is sent so an immediate retry already sees it
+        const sendJson = res.json.bind(res);
+        res.json = (body: unknown) => {
+          if (!settled) {
+            settled = true;
+            idempotencyService.complete(key, scope, res.statusCode, body, getReplayedHeaders(res)).catch(error => {
+              console.error(`Failed to store response for idempotency key ${key}:`, error);
+            });
+          }
+          return sendJson(body);
+        };
+
+        res.on('close', () => {
+          if (!settled) {
+            settled = true;
+            idempotencyService.release(key, scope).catch(error => {
+              console.error(`Failed to release idempotency key ${key}:`, error);
+            });
+          }
+        });
+        next();
+      }
+    }
+  }).catch(next);
+};
@@ -83,6 +83,7 @@ export function createMockServices() {
       missingFieldsAnalysis: { missingFields: [], completenessScore: 0.9 }
     }),
     updateCaseStatus: vi.fn().mockResolvedValue(mockCase),
+    getAllowedStatusTransitions: vi.fn().mockReturnValue([CaseStatus.PENDING, CaseStatus.APPROVED, CaseStatus.DENIED, CaseStatus.WITHDRAWN]),
     addCaseNote: vi.fn().mockResolvedValue(mockCase),
     getCaseById: vi.fn().mockImplementation((id: string) => {
       if (id === 'existing-case-id') {
@@ -101,6 +102,7 @@ export function createMockServices() {
       page: 1,
       limit: 10
     }),
+    findDuplicates: vi.fn().mockResolvedValue([]),
 
     // Private/utility methods that might be called
     validateApplicationData: vi.fn(),
@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { ApplicationData, ErrorResponse, CaseDocument } from '../types/index.js';
 import { randomUUID } from 'crypto';
 import { getServices } from './serviceFactory.js';
+import { idempotency } from '../middleware/idempotency.js';
+import { asyncHandler, validateInput } from '../middleware/common.js';
 
 const router = Router();
 
@@ -33,6 +35,12 @@ const analyzeApplicationSchema = z.object({
   applicationData: applicationDataSchema
 });
 
+// Either application data to analyze, or an existing case whose application is analyzed and whose priority is seeded
+const analyzeApplicationRequestSchema = z.object({
+  applicationData: applicationDataSchema.optional(),
+  caseId: z.string().uuid('Invalid case ID format').optional()
+}).refine(body => body.applicationData || body.caseId, { message: 'Either applicationData or caseId is required' });
+
 // Case data validation schema
 const caseDataSchema = z.object({
   id: z.string().min(1, 'Case ID is required'),
@@ -52,46 +60,19 @@ const validateCompletenessSchema = z.object({
   caseData: caseDataSchema
 });
 
-// Middleware for input validation
-const validateInput = (schema: z.ZodSchema) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    try {
-      const validated = schema.parse(req.body);
-      req.body = validated;
-      next();
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        const errorResponse: ErrorResponse = {
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid input data',
-            details: (error as z.ZodError).issues
-          },
-          timestamp: new Date().toISOString(),
-          requestId: randomUUID()
-        };
-        res.status(400).json(errorResponse);
-        return;
-      }
-      next(error);
-    }
-  };
-};
-
-// Error handling wrapper
-const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    Promise.resolve(fn(req, res, next)).catch(next);
-  };
-};
-
 /**
  * POST /api/ai/analyze-application
- * Analyze application data and provide AI insights
+ * Analyze application data and provide AI insights. Given a caseId instead, the case's stored application
+ * is analyzed and the suggested priority is saved on the case unless it already has one.
  * Requirements: 1.3, 1.4, 1.5
  */
-router.post('/analyze-application', logRequest, validateInput(analyzeApplicationSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
-  const { applicationData } = req.body;
+router.post('/analyze-application', logRequest, idempotency, validateInput(analyzeApplicationRequestSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { applicationData, caseId } = req.body;
+
+  if (caseId) {
+    await analyzeCase(caseId, req, res);
+    return;
+  }
 
   try {
     // Convert string dates to Date objects
@@ -140,12 +121,60 @@ router.post('/analyze-application', logRequest, validateInput(analyzeApplication
   }
 }));
 
+// Analyze an existing case and seed its priority
+const analyzeCase = async (caseId: string, req: Request, res: Response): Promise<void> => {
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(caseId);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${caseId} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const { case: analyzedCase, analysis } = await caseService.analyzeCasePriority(caseId, userId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        analysis,
+        case: analyzedCase
+      },
+      message: 'Application analysis completed successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'AI_ANALYSIS_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to analyze application',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+};
+
 /**
  * POST /api/ai/validate-completeness
  * Validate if a case is complete and ready for conclusion
  * Requirements: 3.3
  */
-router.post('/validate-completeness', logRequest, validateInput(validateCompletenessSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+router.post('/validate-completeness', logRequest, idempotency, validateInput(validateCompletenessSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { caseData } = req.body;
 
   try {
@@ -188,7 +217,7 @@ router.post('/validate-completeness', logRequest, validateInput(validateComplete
  * Detect missing fields in application data
  * Requirements: 1.5
  */
-router.post('/detect-missing-fields', logRequest, validateInput(analyzeApplicationSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+router.post('/detect-missing-fields', logRequest, idempotency, validateInput(analyzeApplicationSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { applicationData } = req.body;
 
   try {
@@ -0,0 +1,60 @@
+import { Router, Request, Response } from 'express';
+import { ErrorResponse } from '../types/index.js';
+import { randomUUID } from 'crypto';
+import { getServices } from './serviceFactory.js';
+import { asyncHandler } from '../middleware/common.js';
+
+const router = Router();
+
+/**
+ * GET /api/application-types
+ * List application type profiles: categories, required documents and fields, processing times and workflow
+ * Requirements: 1.1, 1.2
+ */
+router.get('/', asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+  const { applicationTypeService } = getServices();
+  const applicationTypes = applicationTypeService.listProfiles();
+
+  res.status(200).json({
+    success: true,
+    data: {
+      applicationTypes,
+      total: applicationTypes.length
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * GET /api/application-types/:type
+ * Retrieve a single application type profile
+ * Requirements: 1.1, 1.2
+ */
+router.get('/:type', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { type } = req.params;
+  const { applicationTypeService } = getServices();
+
+  const applicationType = applicationTypeService.getProfile(type);
+  if (!applicationType) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'APPLICATION_TYPE_NOT_FOUND',
+        message: `Application type ${type} not found`
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+    res.status(404).json(errorResponse);
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {
+      applicationType
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+export default router;
@@ -1,16 +1,14 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { ApplicationData, ErrorResponse, CaseDocument } from '../types/index.js';
+import multer from 'multer';
+import { ApplicationData, ApplicationDataUpdate, CaseNoteOptions, ErrorResponse, CaseDocument, CaseStatus, ProcessStep } from '../types/index.js';
 import { randomUUID } from 'crypto';
 import { getServices } from './serviceFactory.js';
+import { idempotency } from '../middleware/idempotency.js';
+import { asyncHandler, getUserRole, requireAdmin, validateInput, validateUserRole } from '../middleware/common.js';
 
 const router = Router();
 
-// Test-only in-memory notes store to support API tests without full persistence
-const isTestEnv = process.env.NODE_ENV === 'test';
-const testNotesStore: Map<string, Array<{ id: string; caseId: string; content: string; createdBy: string; createdAt: string }>> = new Map();
-const testCasesStore: Map<string, { applicantName: string; applicantEmail: string; applicationType: string; submissionDate?: Date; documents?: CaseDocument[]; formData?: Record<string, unknown> }> = new Map();
-
 
 // Validation schemas
 const applicationDataSchema = z.object({
@@ -33,29 +31,205 @@ const createCaseSchema = z.object({
   applicationData: applicationDataSchema
 });
 
-// Middleware for input validation
-const validateInput = (schema: z.ZodSchema) => {
+const isoDateString = z.string().refine(value => !isNaN(Date.parse(value)), { message: 'Invalid date' });
+
+const auditQuerySchema = z.object({
+  action: z.string().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  from: isoDateString.optional(),
+  to: isoDateString.optional()
+}).refine(query => !query.from || !query.to || Date.parse(query.from) <= Date.parse(query.to), {
+  message: '"from" must not be later than "to"',
+  path: ['from']
+});
+
+// Query string flags arrive as text, so only the literal values are accepted
+const booleanFlag = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const CASE_SORT_FIELDS = ['createdAt', 'updatedAt', 'stepEnteredAt', 'applicantName', 'status', 'currentStep', 'priority'] as const;
+
+const CASE_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+
+const listCasesQuerySchema = z.object({
+  status: z.nativeEnum(CaseStatus, { errorMap: () => ({ message: 'Invalid case status' }) }).optional(),
+  step: z.nativeEnum(ProcessStep, { errorMap: () => ({ message: 'Invalid process step' }) }).optional(),
+  assignedTo: z.string().trim().min(1).optional(),
+  applicationType: z.string().trim().min(1).optional(),
+  priority: z.enum(CASE_PRIORITIES).optional(),
+  createdFrom: isoDateString.optional(),
+  createdTo: isoDateString.optional(),
+  // Comma-separated tag names; cases must carry all of them
+  tags: z.string().transform(value => value.split(',').map(tag => tag.trim()).filter(Boolean)).optional(),
+  // Admins only: list soft-deleted cases instead of live ones
+  deleted: booleanFlag.optional(),
+  overdue: booleanFlag.optional(),
+  dueSoon: booleanFlag.optional(),
+  sortBy: z.enum(CASE_SORT_FIELDS).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10)
+}).refine(query => !query.createdFrom || !query.createdTo || Date.parse(query.createdFrom) <= Date.parse(query.createdTo), {
+  message: '"createdFrom" must not be later than "createdTo"',
+  path: ['createdFrom']
+});
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().max(200).refine(value => /[\p{L}\p{N}]/u.test(value), {
+    message: 'Search query must contain at least one letter or number'
+  }),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+});
+
+const updateStatusSchema = z.object({
+  status: z.nativeEnum(CaseStatus, { errorMap: () => ({ message: 'Invalid case status' }) })
+});
+
+const updatePrioritySchema = z.object({
+  priority: z.enum(CASE_PRIORITIES),
+  reason: z.string().trim().min(1, 'A reason is required to override the priority').max(1000)
+});
+
+const assignCaseSchema = z.object({
+  assignedTo: z.string().trim().min(1, 'Assignee is required').max(255),
+  reason: z.string().trim().max(1000).optional()
+});
+
+// The body is optional for deleting and restoring a case
+const caseDeletionSchema = z.object({
+  reason: z.string().trim().max(1000).optional()
+}).default({});
+
+// The body is optional for unassign
+const unassignCaseSchema = z.object({
+  reason: z.string().trim().max(1000).optional()
+}).default({});
+
+const bulkOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('update_status'),
+    status: z.nativeEnum(CaseStatus, { errorMap: () => ({ message: 'Invalid case status' }) })
+  }),
+  z.object({
+    type: z.literal('assign'),
+    assignedTo: z.string().trim().min(1, 'Assignee is required').max(255),
+    reason: z.string().trim().max(1000).optional()
+  }),
+  z.object({
+    type: z.literal('unassign'),
+    reason: z.string().trim().max(1000).optional()
+  }),
+  z.object({
+    type: z.literal('add_tag'),
+    tagId: z.string().trim().min(1, 'Tag ID is required')
+  }),
+  z.object({
+    type: z.literal('remove_tag'),
+    tagId: z.string().trim().min(1, 'Tag ID is required')
+  })
+]);
+
+const bulkCasesSchema = z.object({
+  caseIds: z.array(z.string().trim().min(1, 'Case ID is required'))
+    .min(1, 'At least one case ID is required')
+    .max(100, 'At most 100 cases can be updated at once'),
+  operation: bulkOperationSchema
+});
+
+// applicationType is fixed once a case exists because it selects the workflow
+const updateApplicationSchema = z.object({
+  applicantName: z.string().trim().min(1, 'Applicant name is required').max(255).optional(),
+  applicantEmail: z.string().trim().email('Invalid email format').max(255).optional(),
+  submissionDate: z.string().datetime().optional(),
+  formData: z.record(z.string(), z.any()).optional(),
+  reason: z.string().trim().max(1000).optional()
+}).strict().refine(
+  data => Object.keys(data).some(key => key !== 'reason'),
+  { message: 'At least one application field must be provided' }
+);
+
+const restoreRevisionSchema = z.object({
+  reason: z.string().trim().max(1000).optional()
+}).default({});
+
+const mergeCaseSchema = z.object({
+  duplicateCaseId: z.string().trim().min(1, 'Duplicate case ID is required'),
+  reason: z.string().trim().max(1000).optional()
+});
+
+const addCaseTagSchema = z.object({
+  tagId: z.string().trim().min(1, 'Tag ID is required')
+});
+
+const linkCaseSchema = z.object({
+  linkedCaseId: z.string().trim().min(1, 'Linked case ID is required'),
+  type: z.enum(['appeal_of', 'renewal_of', 'related_to', 'family_member'], { errorMap: () => ({ message: 'Invalid link type' }) }),
+  note: z.string().trim().max(1000).optional()
+});
+
+const transitionStepSchema = z.object({
+  step: z.nativeEnum(ProcessStep, { errorMap: () => ({ message: 'Invalid process step' }) }),
+  reason: z.string().trim().max(1000).optional()
+});
+
+const NOTE_CATEGORIES = ['general', 'interview', 'phone_call', 'document_review'] as const;
+const NOTE_VISIBILITIES = ['internal', 'applicant'] as const;
+
+// Content is checked in the route so a missing or blank note keeps its INVALID_NOTE_CONTENT error
+const addNoteSchema = z.object({
+  content: z.unknown(),
+  parentId: z.string().trim().min(1, 'Parent note ID is required').optional(),
+  category: z.enum(NOTE_CATEGORIES, { errorMap: () => ({ message: 'Invalid note category' }) }).optional(),
+  visibility: z.enum(NOTE_VISIBILITIES, { errorMap: () => ({ message: 'Invalid note visibility' }) }).optional()
+}).default({});
+
+const updateNoteSchema = z.object({
+  content: z.string().trim().min(1, 'Note content cannot be empty').optional(),
+  category: z.enum(NOTE_CATEGORIES, { errorMap: () => ({ message: 'Invalid note category' }) }).optional(),
+  visibility: z.enum(NOTE_VISIBILITIES, { errorMap: () => ({ message: 'Invalid note visibility' }) }).optional()
+}).strict().refine(
+  data => Object.keys(data).length > 0,
+  { message: 'At least one note field must be provided' }
+);
+
+const deleteNoteSchema = z.object({
+  reason: z.string().trim().min(1, 'Deletion reason is required').max(1000)
+});
+
+const DOCUMENT_REVIEW_DECISIONS = ['accepted', 'rejected', 'needs_replacement'] as const;
+
+const reviewDocumentSchema = z.object({
+  status: z.enum(DOCUMENT_REVIEW_DECISIONS, { errorMap: () => ({ message: 'Status must be accepted, rejected or needs_replacement' }) }),
+  reason: z.string().trim().max(1000).optional(),
+  expiryDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expiry date must be in YYYY-MM-DD format')
+    .refine(value => !Number.isNaN(Date.parse(value)), 'Expiry date is not a valid date')
+    .nullable()
+    .optional()
+}).strict().refine(
+  data => data.status === 'accepted' || Boolean(data.reason),
+  { message: 'A reason is required when a document is rejected or needs replacement', path: ['reason'] }
+);
+
+// Middleware for query string validation (Express 5 exposes req.query as read-only, so parsed values go to res.locals)
+const validateQuery = (schema: z.ZodSchema) => {
   return (req: Request, res: Response, next: NextFunction): void => {
-    try {
-      const validated = schema.parse(req.body);
-      req.body = validated;
-      next();
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        const errorResponse: ErrorResponse = {
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid input data',
-            details: (error as z.ZodError).issues
-          },
-          timestamp: new Date().toISOString(),
-          requestId: randomUUID()
-        };
-        res.status(400).json(errorResponse);
-        return;
-      }
-      next(error);
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: result.error.issues
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(400).json(errorResponse);
+      return;
     }
+    res.locals.query = result.data;
+    next();
   };
 };
 
@@ -82,11 +256,99 @@ const validateCaseId = (req: Request, res: Response, next: NextFunction): void =
   next();
 };
 
-// Error handling wrapper
-const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    Promise.resolve(fn(req, res, next)).catch(next);
+// Middleware for revision version parameter validation
+const validateRevisionVersion = (req: Request, res: Response, next: NextFunction): void => {
+  const version = Number(req.params.version);
+
+  if (!Number.isInteger(version) || version < 1) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INVALID_REVISION_VERSION',
+        message: 'Revision version must be a positive integer'
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+    res.status(400).json(errorResponse);
+    return;
+  }
+
+  next();
+};
+
+// The ETag of a case is its row version
+const caseETag = (version: number | undefined): string => `"${version ?? 1}"`;
+
+/**
+ * Middleware for optimistic concurrency: writes to a case must send the ETag they read in If-Match
+ * (or * to overwrite whatever is current). Missing headers get 428 and stale ones 412. The matched version
+ * goes to res.locals.expectedVersion so the write itself only applies to that version. Every response
+ * returning an updated case carries its new ETag.
+ *
+ * Not covered:
+ * - POST /bulk names many cases in one request and cannot carry a version for each; every case is validated
+ *   against its current state inside the write transaction instead.
+ * - Links, notes and document reviews are separate records that never change the case row or its version.
+ * - Document uploads only append to the application's documents, against the version read in the same request.
+ */
+const requireIfMatch = asyncHandler(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const ifMatch = req.headers['if-match'];
+  if (!ifMatch) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'PRECONDITION_REQUIRED',
+        message: 'If-Match header with the case ETag is required'
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+    res.status(428).json(errorResponse);
+    return;
+  }
+
+  const { caseService } = getServices();
+  const caseData = await caseService.getCaseById(req.params.id as string, { includeDeleted: true });
+  // Unknown cases fall through to the route's own 404
+  if (!caseData || ifMatch.trim() === '*') {
+    next();
+    return;
+  }
+
+  const currentETag = caseETag(caseData.version);
+  const matches = ifMatch.split(',').map(tag => tag.trim().replace(/^W\//, ''));
+  if (!matches.includes(currentETag)) {
+    sendPreconditionFailed(res, currentETag);
+    return;
+  }
+
+  res.locals.expectedVersion = caseData.version;
+  next();
+});
+
+const sendPreconditionFailed = (res: Response, currentETag: string): void => {
+  const errorResponse: ErrorResponse = {
+    error: {
+      code: 'PRECONDITION_FAILED',
+      message: 'Case has been modified since it was loaded; reload it and try again',
+      details: { currentETag }
+    },
+    timestamp: new Date().toISOString(),
+    requestId: randomUUID()
   };
+  res.set('ETag', currentETag).status(412).json(errorResponse);
+};
+
+/**
+ * Answer 412 when a write lost the race with another change to the case after its ETag was checked.
+ * Returns false for any other error.
+ */
+const handleVersionConflict = async (error: unknown, res: Response, caseId: string): Promise<boolean> => {
+  if (!(error instanceof Error && /has been modified since version/.test(error.message))) {
+    return false;
+  }
+  const caseData = await getServices().caseService.getCaseById(caseId, { includeDeleted: true });
+  sendPreconditionFailed(res, caseETag(caseData?.version));
+  return true;
 };
 
 /**
@@ -94,7 +356,7 @@ const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => P
  * Create a new case with application data
  * Requirements: 1.1, 1.2
  */
-router.post('/', validateInput(createCaseSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+router.post('/', idempotency, validateInput(createCaseSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { applicationData } = req.body;
   const userId = req.headers['x-user-id'] as string || 'system';
 
@@ -118,17 +380,15 @@ router.post('/', validateInput(createCaseSchema), asyncHandler(async (req: Reque
     // TODO: In production, implement proper AI service configuration and error handling
     const newCase = await caseService.createCaseWithoutAI(processedApplicationData, userId);
 
-    // Track created case data for API tests and reset notes to avoid cross-test leakage
-    if (isTestEnv) {
-      testNotesStore.clear();
-      testCasesStore.set(newCase.id, processedApplicationData);
-    }
+    // Duplicate detection is advisory and must never fail intake
+    const duplicates = await caseService.findDuplicates(newCase.id).catch(() => []);
 
     // Return the created case with 201 status
-    res.status(201).json({
+    res.status(201).location(`${req.baseUrl}/${newCase.id}`).set('ETag', caseETag(newCase.version)).json({
       success: true,
       data: {
-        case: newCase
+        case: newCase,
+        duplicates
       },
       message: 'Case created successfully',
       timestamp: new Date().toISOString()
@@ -146,26 +406,127 @@ router.post('/', validateInput(createCaseSchema), asyncHandler(async (req: Reque
     };
 
     // Determine appropriate status code based on error type
-    const statusCode = error instanceof Error && error.message.includes('required') ? 400 : 500;
+    const statusCode = error instanceof Error && /required|Invalid/.test(error.message) ? 400 : 500;
     res.status(statusCode).json(errorResponse);
   }
 }));
 
+// Shared by the add and remove tag routes: both cases are checked, then the change is applied and audited
+const changeCaseTag = async (req: Request, res: Response, id: string, tagId: string, action: 'add' | 'remove'): Promise<void> => {
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService, tagService } = getServices();
+
+    // Ensure case and tag exist
+    const notFound = !await caseService.getCaseById(id)
+      ? { code: 'CASE_NOT_FOUND', message: `Case with ID ${id} not found` }
+      : !await tagService.getTag(tagId)
+        ? { code: 'TAG_NOT_FOUND', message: `Tag with ID ${tagId} not found` }
+        : undefined;
+    if (notFound) {
+      res.status(404).json({
+        error: notFound,
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const updatedCase = action === 'add'
+      ? await caseService.addCaseTag(id, tagId, userId, res.locals.expectedVersion)
+      : await caseService.removeCaseTag(id, tagId, userId, res.locals.expectedVersion);
+
+    res.set('ETag', caseETag(updatedCase.version)).status(200).json({
+      success: true,
+      data: {
+        case: updatedCase
+      },
+      message: action === 'add' ? 'Tag added successfully' : 'Tag removed successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'CASE_TAG_UPDATE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to update case tags',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    const statusCode = error instanceof Error && /already tagged|not tagged/.test(error.message) ? 409 : 500;
+    res.status(statusCode).json(errorResponse);
+  }
+};
+
 /**
  * GET /api/cases
- * Retrieve all cases with optional filtering
+ * List cases filtered by status, step, assignee, application type, priority, creation date range, tags and SLA state
+ * (overdue, dueSoon), sorted and paginated in the database. Rows omit notes, summaries, audit entries and tags.
  * Requirements: 1.1, 1.2
  */
-router.get('/', asyncHandler(async (req: Request, res: Response): Promise<void> => {
-  const { status, page = 1, limit = 10 } = req.query;
+router.get('/', validateQuery(listCasesQuerySchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const query = res.locals.query as z.infer<typeof listCasesQuerySchema>;
+  const { status, step, applicationType, priority, createdFrom, createdTo, tags, deleted, overdue, dueSoon, sortBy, sortOrder, page, limit } = query;
+  let assignedTo = query.assignedTo;
+
+  // assignedTo=me lists the caller's own cases
+  if (assignedTo === 'me') {
+    assignedTo = req.headers['x-user-id'] as string | undefined;
+    if (!assignedTo) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'USER_ID_REQUIRED',
+          message: 'The x-user-id header is required to list your own cases'
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(400).json(errorResponse);
+      return;
+    }
+  }
+
+  // Soft-deleted cases are only listed for admins
+  if (deleted && getUserRole(req) !== 'admin') {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INSUFFICIENT_ROLE',
+        message: 'Only admins can list deleted cases'
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+    res.status(403).json(errorResponse);
+    return;
+  }
 
   try {
     // Get services and retrieve cases
     const { caseService } = getServices();
     const cases = await caseService.getAllCases({
-      status: status as string,
-      page: parseInt(page as string),
-      limit: parseInt(limit as string)
+      status,
+      ...(step && { currentStep: step }),
+      ...(assignedTo && { assignedTo }),
+      ...(applicationType && { applicationType }),
+      ...(priority && { priority }),
+      ...(createdFrom && { createdFrom: new Date(createdFrom) }),
+      ...(createdTo && { createdTo: new Date(createdTo) }),
+      ...(tags && tags.length > 0 && { tags }),
+      ...(deleted && { deleted }),
+      ...(overdue !== undefined && { overdue }),
+      ...(dueSoon !== undefined && { dueSoon }),
+      ...(sortBy && { sortBy }),
+      ...(sortOrder && { sortOrder }),
+      page,
+      limit
     });
 
     // Return the cases data
@@ -196,45 +557,33 @@ router.get('/', asyncHandler(async (req: Request, res: Response): Promise<void>
 }));
 
 /**
- * GET /api/cases/:id
- * Retrieve case details by ID
- * Requirements: 1.1, 1.2
+ * GET /api/cases/search?q=
+ * Full-text search over applicant details, form fields, case notes and AI summaries.
+ * Results are ranked by relevance and carry highlighted snippets of the matching fields.
  */
-router.get('/:id', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
-  const { id } = req.params;
+router.get('/search', validateQuery(searchQuerySchema), asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+  const { q, page, limit } = res.locals.query as z.infer<typeof searchQuerySchema>;
 
   try {
-    // Get services and retrieve the case
     const { caseService } = getServices();
-    const caseData = await caseService.getCaseById(id);
-
-    if (!caseData) {
-      const errorResponse: ErrorResponse = {
-        error: {
-          code: 'CASE_NOT_FOUND',
-          message: `Case with ID ${id} not found`
-        },
-        timestamp: new Date().toISOString(),
-        requestId: randomUUID()
-      };
-      res.status(404).json(errorResponse);
-      return;
-    }
+    const search = await caseService.searchCases(q, { page, limit });
 
-    // Return the case data
     res.status(200).json({
       success: true,
       data: {
-        case: caseData
+        query: q,
+        results: search.results,
+        total: search.total,
+        page: search.page,
+        limit: search.limit
       },
       timestamp: new Date().toISOString()
     });
-
   } catch (error) {
     const errorResponse: ErrorResponse = {
       error: {
-        code: 'CASE_RETRIEVAL_FAILED',
-        message: error instanceof Error ? error.message : 'Failed to retrieve case',
+        code: 'CASE_SEARCH_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to search cases',
         details: process.env.NODE_ENV === 'development' ? error : undefined
       },
       timestamp: new Date().toISOString(),
@@ -246,69 +595,59 @@ router.get('/:id', validateCaseId, asyncHandler(async (req: Request, res: Respon
 }));
 
 /**
- * GET /api/cases/:id/ai-summary
- * Retrieve AI summary for a case
- * Requirements: 1.3, 1.4, 2.1, 2.2
+ * POST /api/cases/bulk
+ * Change the status of, assign, unassign, tag or untag a list of cases. Each case is validated on its own and
+ * reported in the results, approvals and denials against the workflow for the caller's role; the valid changes
+ * are written together in one transaction.
  */
-router.get('/:id/ai-summary', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
-  const { id } = req.params;
+router.post('/bulk', validateUserRole, validateInput(bulkCasesSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { caseIds, operation } = req.body as z.infer<typeof bulkCasesSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+  const userRole = getUserRole(req)!;
 
   try {
-    // Get services and retrieve the case
-    const { caseService, aiService } = getServices();
-    const caseData = await caseService.getCaseById(id);
-
-    if (!caseData) {
-      const errorResponse: ErrorResponse = {
-        error: {
-          code: 'CASE_NOT_FOUND',
-          message: `Case with ID ${id} not found`
-        },
-        timestamp: new Date().toISOString(),
-        requestId: randomUUID()
-      };
-      res.status(404).json(errorResponse);
-      return;
-    }
-
-    // Generate AI summary
-    const aiSummary = await aiService.generateOverallSummary(caseData);
+    const { caseService } = getServices();
+    const { results, succeeded, failed } = await caseService.bulkUpdateCases(caseIds, operation, userId, userRole);
 
-    // Return the AI summary
     res.status(200).json({
       success: true,
       data: {
-        aiSummary
+        operation: operation.type,
+        results,
+        succeeded,
+        failed
       },
+      message: `Bulk operation completed: ${succeeded} succeeded, ${failed} failed`,
       timestamp: new Date().toISOString()
     });
-
   } catch (error) {
     const errorResponse: ErrorResponse = {
       error: {
-        code: 'AI_SUMMARY_GENERATION_FAILED',
-        message: error instanceof Error ? error.message : 'Failed to generate AI summary',
+        code: 'BULK_OPERATION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to apply bulk operation',
         details: process.env.NODE_ENV === 'development' ? error : undefined
       },
       timestamp: new Date().toISOString(),
       requestId: randomUUID()
     };
 
-    res.status(500).json(errorResponse);
+    // A tag operation naming an unknown tag fails as a whole
+    const statusCode = error instanceof Error && /Tag with ID .* not found/.test(error.message) ? 404 : 500;
+    res.status(statusCode).json(errorResponse);
   }
 }));
 
 /**
- * POST /api/cases/:id/ai-refresh
- * Refresh AI insights for a case
- * Requirements: 2.1, 2.4
+ * GET /api/cases/:id
+ * Retrieve case details by ID
+ * Requirements: 1.1, 1.2
  */
-router.post('/:id/ai-refresh', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+router.get('/:id', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params;
 
   try {
     // Get services and retrieve the case
-    const { caseService, aiService } = getServices();
+    const { caseService } = getServices();
     const caseData = await caseService.getCaseById(id);
 
     if (!caseData) {
@@ -324,24 +663,20 @@ router.post('/:id/ai-refresh', validateCaseId, asyncHandler(async (req: Request,
       return;
     }
 
-    // Generate fresh AI summary
-    const aiSummary = await aiService.generateOverallSummary(caseData);
-
-    // Return the refreshed AI summary
-    res.status(200).json({
+    // Return the case data
+    res.set('ETag', caseETag(caseData.version)).status(200).json({
       success: true,
       data: {
-        aiSummary
+        case: caseData
       },
-      message: 'AI insights refreshed successfully',
       timestamp: new Date().toISOString()
     });
 
   } catch (error) {
     const errorResponse: ErrorResponse = {
       error: {
-        code: 'AI_REFRESH_FAILED',
-        message: error instanceof Error ? error.message : 'Failed to refresh AI insights',
+        code: 'CASE_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve case',
         details: process.env.NODE_ENV === 'development' ? error : undefined
       },
       timestamp: new Date().toISOString(),
@@ -353,17 +688,18 @@ router.post('/:id/ai-refresh', validateCaseId, asyncHandler(async (req: Request,
 }));
 
 /**
- * GET /api/cases/:id/notes
- * Retrieve all notes for a case
- * Requirements: 2.1, 2.2
+ * DELETE /api/cases/:id
+ * Soft-delete a case (admins only); its history is kept and it can be restored
  */
-router.get('/:id/notes', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+router.delete('/:id', validateCaseId, requireAdmin, requireIfMatch, validateInput(caseDeletionSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params;
+  const { reason } = req.body as z.infer<typeof caseDeletionSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
 
   try {
-    const { dataService, caseService } = getServices();
+    const { caseService } = getServices();
 
-    // Ensure case exists
+    // Ensure case exists and is not already deleted
     const caseData = await caseService.getCaseById(id);
     if (!caseData) {
       res.status(404).json({
@@ -377,38 +713,26 @@ router.get('/:id/notes', validateCaseId, asyncHandler(async (req: Request, res:
       return;
     }
 
-    if (isTestEnv) {
-      const notes = testNotesStore.get(id) || [];
-      res.status(200).json({
-        success: true,
-        data: { notes },
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
-
-    // Get notes (non-test environment)
-    const notes = await dataService.getCaseNotes(id);
+    const deletedCase = await caseService.deleteCase(id, userId, reason, res.locals.expectedVersion);
 
-    res.status(200).json({
+    res.set('ETag', caseETag(deletedCase.version)).status(200).json({
       success: true,
       data: {
-        notes: notes.map(note => ({
-          id: note.id,
-          caseId: note.case_id,
-          content: note.content,
-          createdBy: note.created_by,
-          createdAt: note.created_at
-        }))
+        case: deletedCase
       },
+      message: 'Case deleted successfully',
       timestamp: new Date().toISOString()
     });
 
   } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
     const errorResponse: ErrorResponse = {
       error: {
-        code: 'NOTES_RETRIEVAL_FAILED',
-        message: error instanceof Error ? error.message : 'Failed to retrieve case notes',
+        code: 'CASE_DELETION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to delete case',
         details: process.env.NODE_ENV === 'development' ? error : undefined
       },
       timestamp: new Date().toISOString(),
@@ -420,34 +744,19 @@ router.get('/:id/notes', validateCaseId, asyncHandler(async (req: Request, res:
 }));
 
 /**
- * POST /api/cases/:id/notes
- * Add a new note to a case
- * Requirements: 2.1, 2.2
+ * POST /api/cases/:id/restore
+ * Restore a soft-deleted case (admins only)
  */
-router.post('/:id/notes', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+router.post('/:id/restore', validateCaseId, requireAdmin, requireIfMatch, validateInput(caseDeletionSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params;
-  const content = (req.body as { content: string })?.content;
+  const { reason } = req.body as z.infer<typeof caseDeletionSchema>;
   const userId = req.headers['x-user-id'] as string || 'system';
 
-  // Validate content
-  if (!content || typeof content !== 'string' || content.trim().length === 0) {
-    const errorResponse: ErrorResponse = {
-      error: {
-        code: 'INVALID_NOTE_CONTENT',
-        message: 'Note content is required and must be a non-empty string'
-      },
-      timestamp: new Date().toISOString(),
-      requestId: randomUUID()
-    };
-    res.status(400).json(errorResponse);
-    return;
-  }
-
   try {
-    const { dataService, caseService } = getServices();
+    const { caseService } = getServices();
 
-    // Ensure case exists
-    const caseData = await caseService.getCaseById(id);
+    // Ensure case exists, deleted or not
+    const caseData = await caseService.getCaseById(id, { includeDeleted: true });
     if (!caseData) {
       res.status(404).json({
         error: {
@@ -460,60 +769,354 @@ router.post('/:id/notes', validateCaseId, asyncHandler(async (req: Request, res:
       return;
     }
 
-    if (isTestEnv) {
-      const note = {
-        id: randomUUID(),
-        caseId: id,
-        content: String(content).trim(),
-        createdBy: userId,
-        createdAt: new Date().toISOString()
-      };
-      const existing = testNotesStore.get(id) || [];
-      existing.push(note);
-      testNotesStore.set(id, existing);
-
-      const storedApp = testCasesStore.get(id) || {
-        applicantName: 'Test User',
-        applicantEmail: 'test@example.com',
-        applicationType: 'standard'
-      };
+    const restoredCase = await caseService.restoreCase(id, userId, reason, res.locals.expectedVersion);
 
-      res.status(201).json({
-        success: true,
-        data: {
-          case: {
-            id,
-            applicationData: storedApp,
-            status: 'active',
-            currentStep: 'received'
-          }
+    res.set('ETag', caseETag(restoredCase.version)).status(200).json({
+      success: true,
+      data: {
+        case: restoredCase
+      },
+      message: 'Case restored successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'CASE_RESTORE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to restore case',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    const statusCode = error instanceof Error && /not deleted/.test(error.message) ? 409 : 500;
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * PUT /api/cases/:id/status
+ * Update case status with workflow transition validation. Approving or denying a case is the workflow's
+ * decision transition, so the case must be ready for a decision and the caller's role permitted to make it.
+ * Requirements: 1.6, 2.3
+ */
+router.put('/:id/status', validateCaseId, validateUserRole, requireIfMatch, validateInput(updateStatusSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { status } = req.body as { status: CaseStatus };
+  const userId = req.headers['x-user-id'] as string || 'system';
+  const userRole = getUserRole(req)!;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
         },
-        message: 'Note added successfully',
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
       });
       return;
     }
 
-    // Add note (non-test environment)
-    await dataService.addCaseNote(id, String(content).trim(), userId);
+    // Reject transitions the workflow does not allow, telling the client what is allowed instead
+    const allowedTransitions = caseService.getAllowedStatusTransitions(caseData.status);
+    if (!allowedTransitions.includes(status)) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'INVALID_STATUS_TRANSITION',
+          message: `Invalid status transition from ${caseData.status} to ${status}`,
+          details: {
+            currentStatus: caseData.status,
+            requestedStatus: status,
+            allowedTransitions
+          }
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(409).json(errorResponse);
+      return;
+    }
+
+    const decision = caseService.evaluateDecision(caseData, status, userRole);
+    if (decision && !decision.allowed) {
+      const blocked: Record<string, { status: number; code: string; message: string }> = {
+        invalid_transition: {
+          status: 409,
+          code: 'DECISION_NOT_ALLOWED',
+          message: `Case must be ${ProcessStep.READY_FOR_DECISION} before it can be ${status}; it is ${caseData.currentStep}`
+        },
+        forbidden: {
+          status: 403,
+          code: 'INSUFFICIENT_ROLE',
+          message: `Role ${userRole} is not permitted to record a ${status} decision`
+        },
+        guard_failed: {
+          status: 422,
+          code: 'WORKFLOW_GUARD_FAILED',
+          message: `Case does not meet the conditions to be ${status}`
+        }
+      };
+      const blockedResponse = blocked[decision.reason || 'invalid_transition'];
+
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: blockedResponse.code,
+          message: blockedResponse.message,
+          details: {
+            currentStep: caseData.currentStep,
+            requestedStatus: status,
+            failedGuards: decision.failedGuards
+          }
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(blockedResponse.status).json(errorResponse);
+      return;
+    }
 
-    // Get the updated case data via case service (mocked in tests)
-    const updatedCase = await caseService.getCaseById(id);
+    const updatedCase = await caseService.updateCaseStatus(id, status, userId, userRole, res.locals.expectedVersion);
 
-    res.status(201).json({
+    res.set('ETag', caseETag(updatedCase.version)).status(200).json({
       success: true,
       data: {
         case: updatedCase
       },
-      message: 'Note added successfully',
+      message: 'Case status updated successfully',
       timestamp: new Date().toISOString()
     });
 
   } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
     const errorResponse: ErrorResponse = {
       error: {
-        code: 'NOTE_ADDITION_FAILED',
-        message: error instanceof Error ? error.message : 'Failed to add note',
+        code: 'STATUS_UPDATE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to update case status',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * PUT /api/cases/:id/priority
+ * Override the priority suggested by the AI analysis; the reason is audited
+ */
+router.put('/:id/priority', validateCaseId, requireIfMatch, validateInput(updatePrioritySchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { priority, reason } = req.body as z.infer<typeof updatePrioritySchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const updatedCase = await caseService.updateCasePriority(id, priority, userId, reason, res.locals.expectedVersion);
+
+    res.set('ETag', caseETag(updatedCase.version)).status(200).json({
+      success: true,
+      data: {
+        case: updatedCase
+      },
+      message: 'Case priority updated successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'PRIORITY_UPDATE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to update case priority',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    const statusCode = error instanceof Error && /already/.test(error.message) ? 409 : 500;
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/cases/:id/assign
+ * Assign an unassigned case to a caseworker
+ */
+router.post('/:id/assign', validateCaseId, requireIfMatch, validateInput(assignCaseSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { assignedTo } = req.body as z.infer<typeof assignCaseSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    if (caseData.assignedTo) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'CASE_ALREADY_ASSIGNED',
+          message: `Case is already assigned to ${caseData.assignedTo}; use reassign instead`,
+          details: { assignedTo: caseData.assignedTo }
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(409).json(errorResponse);
+      return;
+    }
+
+    const updatedCase = await caseService.assignCase(id, assignedTo, userId, res.locals.expectedVersion);
+
+    res.set('ETag', caseETag(updatedCase.version)).status(200).json({
+      success: true,
+      data: {
+        case: updatedCase
+      },
+      message: 'Case assigned successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'CASE_ASSIGNMENT_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to assign case',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/cases/:id/reassign
+ * Move an assigned case to a different caseworker
+ */
+router.post('/:id/reassign', validateCaseId, requireIfMatch, validateInput(assignCaseSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { assignedTo, reason } = req.body as z.infer<typeof assignCaseSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    if (!caseData.assignedTo) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'CASE_NOT_ASSIGNED',
+          message: 'Case is not assigned; use assign instead'
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(409).json(errorResponse);
+      return;
+    }
+
+    if (caseData.assignedTo === assignedTo) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'CASE_ALREADY_ASSIGNED',
+          message: `Case is already assigned to ${assignedTo}`,
+          details: { assignedTo }
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(409).json(errorResponse);
+      return;
+    }
+
+    const updatedCase = await caseService.reassignCase(id, assignedTo, userId, reason, res.locals.expectedVersion);
+
+    res.set('ETag', caseETag(updatedCase.version)).status(200).json({
+      success: true,
+      data: {
+        case: updatedCase
+      },
+      message: 'Case reassigned successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'CASE_ASSIGNMENT_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to reassign case',
         details: process.env.NODE_ENV === 'development' ? error : undefined
       },
       timestamp: new Date().toISOString(),
@@ -524,4 +1127,1544 @@ router.post('/:id/notes', validateCaseId, asyncHandler(async (req: Request, res:
   }
 }));
 
+/**
+ * POST /api/cases/:id/unassign
+ * Return a case to the unassigned queue
+ */
+router.post('/:id/unassign', validateCaseId, requireIfMatch, validateInput(unassignCaseSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { reason } = req.body as z.infer<typeof unassignCaseSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    if (!caseData.assignedTo) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'CASE_NOT_ASSIGNED',
+          message: 'Case is not assigned'
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(409).json(errorResponse);
+      return;
+    }
+
+    const updatedCase = await caseService.unassignCase(id, userId, reason, res.locals.expectedVersion);
+
+    res.set('ETag', caseETag(updatedCase.version)).status(200).json({
+      success: true,
+      data: {
+        case: updatedCase
+      },
+      message: 'Case unassigned successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'CASE_ASSIGNMENT_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to unassign case',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * PATCH /api/cases/:id/application
+ * Correct applicant details or form data. Each change is stored as a revision and audited with a field-level diff.
+ */
+router.patch('/:id/application', validateCaseId, requireIfMatch, validateInput(updateApplicationSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { reason, submissionDate, ...fields } = req.body as z.infer<typeof updateApplicationSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const update: ApplicationDataUpdate = {
+      ...(fields.applicantName !== undefined && { applicantName: fields.applicantName }),
+      ...(fields.applicantEmail !== undefined && { applicantEmail: fields.applicantEmail }),
+      ...(submissionDate && { submissionDate: new Date(submissionDate) }),
+      ...(fields.formData && { formData: fields.formData })
+    };
+    const updatedCase = await caseService.updateApplicationData(id, update, userId, reason, res.locals.expectedVersion);
+
+    res.set('ETag', caseETag(updatedCase.version)).status(200).json({
+      success: true,
+      data: {
+        case: updatedCase
+      },
+      message: 'Application data updated successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'APPLICATION_UPDATE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to update application data',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    // Validation failures and edits that change nothing are client errors
+    const statusCode = error instanceof Error && /required|Invalid|future|No changes/.test(error.message) ? 400 : 500;
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * GET /api/cases/:id/application/revisions
+ * List every version of the application data, oldest first, with the fields each one changed
+ */
+router.get('/:id/application/revisions', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const revisions = await caseService.getApplicationRevisions(id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        caseId: id,
+        revisions,
+        total: revisions.length
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'APPLICATION_REVISIONS_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve application revisions',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * GET /api/cases/:id/application/revisions/:version
+ * Retrieve one version of the application data
+ */
+router.get('/:id/application/revisions/:version', validateCaseId, validateRevisionVersion, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const version = Number(req.params.version);
+
+  try {
+    const { caseService } = getServices();
+    const revision = (await caseService.getApplicationRevisions(id)).find(candidate => candidate.version === version);
+
+    if (!revision) {
+      res.status(404).json({
+        error: {
+          code: 'REVISION_NOT_FOUND',
+          message: `Revision ${version} not found for case ${id}`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        revision
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'APPLICATION_REVISIONS_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve application revision',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/cases/:id/application/revisions/:version/restore
+ * Restore the application data of an earlier revision; the restore is stored as a new revision
+ */
+router.post('/:id/application/revisions/:version/restore', validateCaseId, validateRevisionVersion, requireIfMatch, validateInput(restoreRevisionSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const version = Number(req.params.version);
+  const { reason } = req.body as z.infer<typeof restoreRevisionSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService } = getServices();
+
+    const revisions = await caseService.getApplicationRevisions(id);
+    if (!revisions.some(candidate => candidate.version === version)) {
+      res.status(404).json({
+        error: {
+          code: 'REVISION_NOT_FOUND',
+          message: `Revision ${version} not found for case ${id}`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const updatedCase = await caseService.restoreApplicationRevision(id, version, userId, reason, res.locals.expectedVersion);
+
+    res.set('ETag', caseETag(updatedCase.version)).status(200).json({
+      success: true,
+      data: {
+        case: updatedCase
+      },
+      message: `Application data restored from revision ${version}`,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'APPLICATION_RESTORE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to restore application revision',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    const statusCode = error instanceof Error && /No changes/.test(error.message) ? 409 : 500;
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * GET /api/cases/:id/duplicates
+ * List existing cases that may be duplicates: the same applicant by email, or by similar name and date of birth
+ */
+router.get('/:id/duplicates', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const duplicates = await caseService.findDuplicates(id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        caseId: id,
+        duplicates,
+        total: duplicates.length
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'DUPLICATE_DETECTION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to find duplicate cases',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/cases/:id/merge
+ * Merge a duplicate case into this one: notes, documents and audit history move here and the duplicate is withdrawn
+ */
+router.post('/:id/merge', validateCaseId, requireIfMatch, validateInput(mergeCaseSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { duplicateCaseId, reason } = req.body as z.infer<typeof mergeCaseSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure both cases exist
+    for (const caseId of [id, duplicateCaseId]) {
+      const caseData = await caseService.getCaseById(caseId);
+      if (!caseData) {
+        res.status(404).json({
+          error: {
+            code: 'CASE_NOT_FOUND',
+            message: `Case with ID ${caseId} not found`
+          },
+          timestamp: new Date().toISOString(),
+          requestId: randomUUID()
+        });
+        return;
+      }
+    }
+
+    const result = await caseService.mergeCases(id, duplicateCaseId, userId, reason, res.locals.expectedVersion);
+
+    res.set('ETag', caseETag(result.case.version)).status(200).json({
+      success: true,
+      data: result,
+      message: `Case ${duplicateCaseId} merged successfully`,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'CASE_MERGE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to merge cases',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    // Merges the cases' current state does not allow are conflicts
+    const statusCode = error instanceof Error && /itself|already been merged|Only open cases/.test(error.message) ? 409 : 500;
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/cases/:id/tags
+ * Put a tag on a case
+ */
+router.post('/:id/tags', validateCaseId, requireIfMatch, validateInput(addCaseTagSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { tagId } = req.body as z.infer<typeof addCaseTagSchema>;
+  await changeCaseTag(req, res, id, tagId, 'add');
+}));
+
+/**
+ * DELETE /api/cases/:id/tags/:tagId
+ * Take a tag off a case
+ */
+router.delete('/:id/tags/:tagId', validateCaseId, requireIfMatch, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, tagId } = req.params;
+  await changeCaseTag(req, res, id, tagId, 'remove');
+}));
+
+/**
+ * GET /api/cases/:id/links
+ * List appeals, renewals and other cases linked to this case, in both directions
+ */
+router.get('/:id/links', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const links = await caseService.getLinkedCases(id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        caseId: id,
+        links,
+        total: links.length
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'CASE_LINKS_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve linked cases',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/cases/:id/links
+ * Link this case to another case as an appeal of it, a renewal of it, a related case or a family member's case
+ */
+router.post('/:id/links', validateCaseId, validateInput(linkCaseSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { linkedCaseId, type, note } = req.body as z.infer<typeof linkCaseSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure both cases exist
+    for (const caseId of [id, linkedCaseId]) {
+      const caseData = await caseService.getCaseById(caseId);
+      if (!caseData) {
+        res.status(404).json({
+          error: {
+            code: 'CASE_NOT_FOUND',
+            message: `Case with ID ${caseId} not found`
+          },
+          timestamp: new Date().toISOString(),
+          requestId: randomUUID()
+        });
+        return;
+      }
+    }
+
+    const link = await caseService.linkCases(id, linkedCaseId, type, userId, note);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        link
+      },
+      message: `Case ${id} linked to case ${linkedCaseId}`,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'CASE_LINK_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to link cases',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    // Links the cases' current state or existing links do not allow are conflicts
+    const statusCode = error instanceof Error && /itself|already linked|no final decision/.test(error.message) ? 409 : 500;
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * GET /api/cases/:id/workflow
+ * Retrieve the workflow definition governing a case and the step transitions available to the caller
+ * Requirements: 1.6, 2.3
+ */
+router.get('/:id/workflow', validateCaseId, validateUserRole, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const userRole = getUserRole(req)!;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        workflow: caseService.getWorkflowForCase(caseData),
+        currentStep: caseData.currentStep,
+        availableTransitions: caseService.getAvailableStepTransitions(caseData, userRole)
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'WORKFLOW_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve case workflow',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/cases/:id/step
+ * Move a case to another process step as allowed by its workflow definition
+ * Requirements: 1.6, 2.3
+ */
+router.post('/:id/step', validateCaseId, validateUserRole, requireIfMatch, validateInput(transitionStepSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { step, reason } = req.body as z.infer<typeof transitionStepSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+  const userRole = getUserRole(req)!;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const evaluation = caseService.evaluateStepTransition(caseData, step, userRole);
+    if (!evaluation.allowed) {
+      const blocked: Record<string, { status: number; code: string; message: string }> = {
+        invalid_transition: {
+          status: 409,
+          code: 'INVALID_STEP_TRANSITION',
+          message: `Invalid step transition from ${caseData.currentStep} to ${step}`
+        },
+        forbidden: {
+          status: 403,
+          code: 'INSUFFICIENT_ROLE',
+          message: `Role ${userRole} is not permitted to move this case to ${step}`
+        },
+        guard_failed: {
+          status: 422,
+          code: 'WORKFLOW_GUARD_FAILED',
+          message: `Case does not meet the conditions to move to ${step}`
+        }
+      };
+      const { status, code, message } = blocked[evaluation.reason || 'invalid_transition'];
+
+      const errorResponse: ErrorResponse = {
+        error: {
+          code,
+          message,
+          details: {
+            currentStep: caseData.currentStep,
+            requestedStep: step,
+            failedGuards: evaluation.failedGuards,
+            availableTransitions: caseService.getAvailableStepTransitions(caseData, userRole)
+          }
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(status).json(errorResponse);
+      return;
+    }
+
+    const updatedCase = await caseService.transitionStep(id, step, userId, userRole, reason, res.locals.expectedVersion);
+
+    res.set('ETag', caseETag(updatedCase.version)).status(200).json({
+      success: true,
+      data: {
+        case: updatedCase
+      },
+      message: 'Case step updated successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'STEP_TRANSITION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to transition case step',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * GET /api/cases/:id/audit
+ * Retrieve the audit trail for a case, filterable by action (comma-separated), user and date range
+ * Requirements: 2.3, 4.3
+ */
+router.get('/:id/audit', validateCaseId, validateQuery(auditQuerySchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { action, userId, from, to } = res.locals.query as z.infer<typeof auditQuerySchema>;
+
+  try {
+    const { dataService, caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const entries = await dataService.getAuditTrail(id, {
+      ...(action && { actions: action.split(',').map(value => value.trim()).filter(Boolean) }),
+      ...(userId && { userId }),
+      ...(from && { from: new Date(from) }),
+      ...(to && { to: new Date(to) })
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        auditTrail: entries.map(entry => ({
+          id: entry.id,
+          caseId: entry.case_id,
+          action: entry.action,
+          details: entry.details ? JSON.parse(entry.details) : undefined,
+          userId: entry.user_id,
+          timestamp: entry.timestamp
+        })),
+        total: entries.length
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'AUDIT_TRAIL_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve audit trail',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * GET /api/cases/:id/ai-summary
+ * Retrieve AI summary for a case
+ * Requirements: 1.3, 1.4, 2.1, 2.2
+ */
+router.get('/:id/ai-summary', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    // Get services and retrieve the case
+    const { caseService, aiService } = getServices();
+    const caseData = await caseService.getCaseById(id);
+
+    if (!caseData) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(404).json(errorResponse);
+      return;
+    }
+
+    // Generate AI summary
+    const aiSummary = await aiService.generateOverallSummary(caseData);
+
+    // Return the AI summary
+    res.status(200).json({
+      success: true,
+      data: {
+        aiSummary
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'AI_SUMMARY_GENERATION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to generate AI summary',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/cases/:id/ai-refresh
+ * Refresh AI insights for a case
+ * Requirements: 2.1, 2.4
+ */
+router.post('/:id/ai-refresh', validateCaseId, idempotency, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    // Get services and retrieve the case
+    const { caseService, aiService } = getServices();
+    const caseData = await caseService.getCaseById(id);
+
+    if (!caseData) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(404).json(errorResponse);
+      return;
+    }
+
+    // Generate fresh AI summary
+    const aiSummary = await aiService.generateOverallSummary(caseData);
+
+    // Return the refreshed AI summary
+    res.status(200).json({
+      success: true,
+      data: {
+        aiSummary
+      },
+      message: 'AI insights refreshed successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'AI_REFRESH_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to refresh AI insights',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * GET /api/cases/:id/notes
+ * Retrieve all notes for a case, newest first; deleted notes are included with their deletion details
+ * Requirements: 2.1, 2.2
+ */
+router.get('/:id/notes', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        notes: caseData.notes
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'NOTES_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve case notes',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/cases/:id/notes
+ * Add a new note to a case, optionally as a reply (parentId) with a category and visibility
+ * Requirements: 2.1, 2.2
+ */
+router.post('/:id/notes', validateCaseId, idempotency, validateInput(addNoteSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { content, parentId, category, visibility } = req.body as z.infer<typeof addNoteSchema>;
+  const options: CaseNoteOptions = {
+    ...(parentId && { parentId }),
+    ...(category && { category }),
+    ...(visibility && { visibility })
+  };
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  // Validate content
+  if (!content || typeof content !== 'string' || content.trim().length === 0) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'INVALID_NOTE_CONTENT',
+        message: 'Note content is required and must be a non-empty string'
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+    res.status(400).json(errorResponse);
+    return;
+  }
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const updatedCase = await caseService.addCaseNote(id, String(content).trim(), userId, options);
+
+    res.set('ETag', caseETag(updatedCase.version)).status(201).json({
+      success: true,
+      data: {
+        case: updatedCase
+      },
+      message: 'Note added successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'NOTE_ADDITION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to add note',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    // An unknown or deleted parent note is a client error
+    const statusCode = error instanceof Error && /Note with ID .* not found|deleted note/.test(error.message) ? 400 : 500;
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+// Status for a failed note change: unknown notes, the caller's permissions and deleted notes are client errors
+const noteErrorStatus = (error: unknown): number => {
+  const message = error instanceof Error ? error.message : '';
+  if (/Note with ID .* not found/.test(message)) return 404;
+  if (/Only the note author/.test(message)) return 403;
+  if (/has been deleted/.test(message)) return 409;
+  if (/No changes|cannot be empty|required/.test(message)) return 400;
+  return 500;
+};
+
+/**
+ * PATCH /api/cases/:id/notes/:noteId
+ * Edit a note's content, category or visibility; only the author may edit and content changes are kept as revisions
+ */
+router.patch('/:id/notes/:noteId', validateCaseId, validateInput(updateNoteSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, noteId } = req.params;
+  const update = req.body as z.infer<typeof updateNoteSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const updatedCase = await caseService.editCaseNote(id, noteId, {
+      ...(update.content !== undefined && { content: update.content }),
+      ...(update.category && { category: update.category }),
+      ...(update.visibility && { visibility: update.visibility })
+    }, userId);
+
+    res.set('ETag', caseETag(updatedCase.version)).status(200).json({
+      success: true,
+      data: {
+        case: updatedCase
+      },
+      message: 'Note updated successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const statusCode = noteErrorStatus(error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: statusCode === 404 ? 'NOTE_NOT_FOUND' : 'NOTE_UPDATE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to update note',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * DELETE /api/cases/:id/notes/:noteId
+ * Soft delete a note with a reason; authors may delete their own notes, supervisors and admins any note
+ */
+router.delete('/:id/notes/:noteId', validateCaseId, validateUserRole, validateInput(deleteNoteSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, noteId } = req.params;
+  const { reason } = req.body as z.infer<typeof deleteNoteSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+  const userRole = getUserRole(req)!;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const updatedCase = await caseService.deleteCaseNote(id, noteId, userId, userRole, reason);
+
+    res.set('ETag', caseETag(updatedCase.version)).status(200).json({
+      success: true,
+      data: {
+        case: updatedCase
+      },
+      message: 'Note deleted successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const statusCode = noteErrorStatus(error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: statusCode === 404 ? 'NOTE_NOT_FOUND' : 'NOTE_DELETION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to delete note',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * GET /api/cases/:id/notes/:noteId/revisions
+ * List the earlier contents of an edited note, oldest first
+ */
+router.get('/:id/notes/:noteId/revisions', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, noteId } = req.params;
+
+  try {
+    const { caseService } = getServices();
+    const revisions = await caseService.getCaseNoteRevisions(id, noteId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        noteId,
+        revisions,
+        total: revisions.length
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const statusCode = noteErrorStatus(error);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: statusCode === 404 ? 'NOTE_NOT_FOUND' : 'NOTE_REVISIONS_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve note revisions',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+// Multipart parsing for document uploads: one file in the "file" field, held in memory until storage has checked it
+const parseDocumentUpload = (req: Request, res: Response, next: NextFunction): void => {
+  const { documentStorageService } = getServices();
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    // Browsers send non-ASCII filenames as raw UTF-8 rather than the latin1 multipart assumes
+    defParamCharset: 'utf8',
+    limits: { fileSize: documentStorageService.maxSizeBytes, files: 1 }
+  }).single('file');
+
+  upload(req, res, (error?: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: tooLarge ? 'FILE_TOO_LARGE' : 'VALIDATION_ERROR',
+          message: error.message
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(tooLarge ? 413 : 400).json(errorResponse);
+      return;
+    }
+    next(error);
+  });
+};
+
+/**
+ * GET /api/cases/:id/documents
+ * List the files uploaded to a case
+ */
+router.get('/:id/documents', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const documents = await caseService.getCaseDocuments(id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        caseId: id,
+        documents,
+        total: documents.length
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'DOCUMENTS_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve documents',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/cases/:id/documents
+ * Upload a file (multipart field "file", optional "description"). The file is checked against the size and
+ * type limits, stored by checksum and added to the application documents as a new revision.
+ * An optional "replacesDocumentId" field marks an earlier document of the case as replaced by this upload, and
+ * an optional "documentType" names the required document of the application type that the file provides.
+ * Files the malware scanner flags are quarantined and rejected with 422.
+ */
+router.post('/:id/documents', validateCaseId, parseDocumentUpload, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const userId = req.headers['x-user-id'] as string || 'system';
+  const description = typeof req.body?.description === 'string' ? req.body.description : undefined;
+  const documentType = typeof req.body?.documentType === 'string' ? req.body.documentType : undefined;
+  const replacesDocumentId = typeof req.body?.replacesDocumentId === 'string' && req.body.replacesDocumentId
+    ? req.body.replacesDocumentId
+    : undefined;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    if (!req.file) {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'A file is required in the "file" field of a multipart/form-data request'
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(400).json(errorResponse);
+      return;
+    }
+
+    const result = await caseService.uploadDocument(id, {
+      content: req.file.buffer,
+      filename: req.file.originalname,
+      description,
+      documentType,
+      replacesDocumentId
+    }, userId);
+
+    if (result.document.scanStatus === 'infected') {
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: 'MALWARE_DETECTED',
+          message: `${result.document.filename} was quarantined because malware was detected`,
+          details: { document: result.document }
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(422).json(errorResponse);
+      return;
+    }
+
+    res.set('ETag', caseETag(result.case.version)).status(201).json({
+      success: true,
+      data: result,
+      message: 'Document uploaded successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (await handleVersionConflict(error, res, id)) {
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : 'Failed to upload document';
+    let statusCode = 500;
+    let code = 'DOCUMENT_UPLOAD_FAILED';
+    if (/maximum size/i.test(message)) {
+      statusCode = 413;
+      code = 'FILE_TOO_LARGE';
+    } else if (/unsupported file type/i.test(message)) {
+      statusCode = 415;
+      code = 'UNSUPPORTED_FILE_TYPE';
+    } else if (/file is empty|filename is required|unknown document type/i.test(message)) {
+      statusCode = 400;
+      code = 'VALIDATION_ERROR';
+    } else if (/malware scan failed/i.test(message)) {
+      statusCode = 503;
+      code = 'MALWARE_SCAN_UNAVAILABLE';
+    } else if (/already been replaced/i.test(message)) {
+      statusCode = 409;
+      code = 'DOCUMENT_ALREADY_REPLACED';
+    } else if (/document with id .* not found/i.test(message)) {
+      statusCode = 404;
+      code = 'DOCUMENT_NOT_FOUND';
+    } else if (/not found/i.test(message)) {
+      statusCode = 404;
+      code = 'CASE_NOT_FOUND';
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code,
+        message,
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+// Allowed upload types a browser can show in the document viewer; anything else is always downloaded
+const isPreviewable = (mimeType: string): boolean =>
+  mimeType === 'application/pdf' || mimeType === 'text/plain' || /^image\/(png|jpeg)$/.test(mimeType);
+
+// Content-Disposition with an ASCII fallback filename and the exact UTF-8 name for clients that support it (RFC 6266)
+const contentDisposition = (type: 'inline' | 'attachment', filename: string): string => {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+/**
+ * GET /api/cases/:id/documents/:docId/content
+ * Stream a stored file with its sniffed type. PDFs, images and text open inline unless ?download=true;
+ * single byte ranges are served as 206 Partial Content. Quarantined files are never served.
+ * Access is not restricted by case assignment: like the case itself, a document can be read by any caller
+ * with a valid x-user-role. There is no authentication yet, and the viewer loads the file by URL without
+ * identity headers, so per-case access checks wait for authenticated sessions.
+ */
+router.get('/:id/documents/:docId/content', validateCaseId, validateUserRole, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, docId } = req.params;
+
+  try {
+    const { caseService } = getServices();
+
+    // Documents of deleted cases are not served
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const { document, filePath } = await caseService.getDocumentContent(id, docId);
+    const disposition = req.query.download !== 'true' && isPreviewable(document.mimeType) ? 'inline' : 'attachment';
+
+    res.setHeader('Content-Type', document.mimeType);
+    res.setHeader('Content-Disposition', contentDisposition(disposition, document.filename));
+    // Stored files never change, so the checksum is a strong validator for conditional and If-Range requests
+    res.setHeader('ETag', `"${document.checksum}"`);
+    res.setHeader('Cache-Control', 'private, no-cache');
+
+    res.sendFile(filePath, { acceptRanges: true, cacheControl: false, lastModified: false }, (error?: Error & { status?: number }) => {
+      if (!error || res.headersSent) {
+        return;
+      }
+
+      const rangeNotSatisfiable = error.status === 416;
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      res.removeHeader('ETag');
+      const errorResponse: ErrorResponse = {
+        error: {
+          code: rangeNotSatisfiable ? 'RANGE_NOT_SATISFIABLE' : 'DOCUMENT_CONTENT_UNAVAILABLE',
+          message: rangeNotSatisfiable ? `Requested range is outside the ${document.size} byte document` : 'Document content is not available in storage'
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      };
+      res.status(rangeNotSatisfiable ? 416 : 500).json(errorResponse);
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to retrieve document content';
+    let statusCode = 500;
+    let code = 'DOCUMENT_CONTENT_RETRIEVAL_FAILED';
+    if (/not found/i.test(message)) {
+      statusCode = 404;
+      code = 'DOCUMENT_NOT_FOUND';
+    } else if (/quarantined/i.test(message)) {
+      statusCode = 403;
+      code = 'DOCUMENT_QUARANTINED';
+    } else if (/was erased/i.test(message)) {
+      statusCode = 410;
+      code = 'DOCUMENT_ERASED';
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code,
+        message,
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * PUT /api/cases/:id/documents/:docId/review
+ * Accept, reject or request a replacement of a document, optionally setting its expiry date
+ * (null clears it). Each review is kept in the document's review history.
+ */
+router.put('/:id/documents/:docId/review', validateCaseId, validateUserRole, validateInput(reviewDocumentSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, docId } = req.params;
+  const userId = req.headers['x-user-id'] as string || 'system';
+  const { status, reason, expiryDate } = req.body as z.infer<typeof reviewDocumentSchema>;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const document = await caseService.reviewDocument(id, docId, { status, reason, expiryDate }, userId);
+
+    res.status(200).json({
+      success: true,
+      data: { document },
+      message: 'Document review recorded',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to review document';
+    let statusCode = 500;
+    let code = 'DOCUMENT_REVIEW_FAILED';
+    if (/not found/i.test(message)) {
+      statusCode = 404;
+      code = 'DOCUMENT_NOT_FOUND';
+    } else if (/has been replaced/i.test(message)) {
+      statusCode = 409;
+      code = 'DOCUMENT_REPLACED';
+    } else if (/quarantined/i.test(message)) {
+      statusCode = 409;
+      code = 'DOCUMENT_QUARANTINED';
+    } else if (/no changes|reason is required/i.test(message)) {
+      statusCode = 400;
+      code = 'VALIDATION_ERROR';
+    }
+
+    const errorResponse: ErrorResponse = {
+      error: {
+        code,
+        message,
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * GET /api/cases/:id/documents/:docId/reviews
+ * Review history of a document, oldest first
+ */
+router.get('/:id/documents/:docId/reviews', validateCaseId, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, docId } = req.params;
+
+  try {
+    const { caseService } = getServices();
+
+    // Ensure case exists
+    const caseData = await caseService.getCaseById(id);
+    if (!caseData) {
+      res.status(404).json({
+        error: {
+          code: 'CASE_NOT_FOUND',
+          message: `Case with ID ${id} not found`
+        },
+        timestamp: new Date().toISOString(),
+        requestId: randomUUID()
+      });
+      return;
+    }
+
+    const reviews = await caseService.getDocumentReviews(id, docId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        documentId: docId,
+        reviews,
+        total: reviews.length
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to retrieve document reviews';
+    const notFound = /not found/i.test(message);
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: notFound ? 'DOCUMENT_NOT_FOUND' : 'DOCUMENT_REVIEWS_RETRIEVAL_FAILED',
+        message,
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(notFound ? 404 : 500).json(errorResponse);
+  }
+}));
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ErrorResponse } from '../types/index.js';
+import { randomUUID } from 'crypto';
+import { getServices } from './serviceFactory.js';
+import { asyncHandler, validateInput } from '../middleware/common.js';
+
+const router = Router();
+
+const mentionsQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+
+const markMentionsReadSchema = z.object({
+  // Omitted to mark every unread mention read
+  mentionIds: z.array(z.string().min(1)).min(1).max(100).optional()
+});
+
+/**
+ * GET /api/me/mentions
+ * Notes in which the current user was @mentioned, newest first; ?unread=true leaves out read mentions
+ */
+router.get('/mentions', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  const query = mentionsQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid query parameters',
+        details: query.error.issues
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+    res.status(400).json(errorResponse);
+    return;
+  }
+
+  try {
+    const { caseService } = getServices();
+    const { mentions, unreadCount } = await caseService.getUserMentions(userId, {
+      unreadOnly: query.data.unread ?? false,
+      limit: query.data.limit
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        mentions,
+        unreadCount,
+        total: mentions.length
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'MENTIONS_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve mentions',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/me/mentions/read
+ * Mark the given mentions of the current user read, or all of them when no IDs are sent
+ */
+router.post('/mentions/read', validateInput(markMentionsReadSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { mentionIds } = req.body as z.infer<typeof markMentionsReadSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { caseService } = getServices();
+    const updated = await caseService.markMentionsRead(userId, mentionIds);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        updated
+      },
+      message: 'Mentions marked as read',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'MENTIONS_UPDATE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to mark mentions as read',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+export default router;
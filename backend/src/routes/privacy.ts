@@ -0,0 +1,89 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ErrorResponse } from '../types/index.js';
+import { randomUUID } from 'crypto';
+import { getServices } from './serviceFactory.js';
+import { asyncHandler, requireAdmin, validateInput } from '../middleware/common.js';
+
+const router = Router();
+
+// The applicant email goes in the body rather than the URL so it stays out of access logs
+const subjectExportSchema = z.object({
+  email: z.string().trim().email('A valid applicant email is required')
+});
+
+const subjectErasureSchema = subjectExportSchema.extend({
+  reason: z.string().trim().min(1, 'A reason is required').max(1000)
+});
+
+router.use(requireAdmin);
+
+/**
+ * POST /api/privacy/export
+ * Subject access request: every case, note, AI summary, revision and AI interaction held for an applicant email
+ */
+router.post('/export', validateInput(subjectExportSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { email } = req.body as z.infer<typeof subjectExportSchema>;
+
+  try {
+    const { privacyService } = getServices();
+    const bundle = await privacyService.exportSubjectData(email);
+
+    res.status(200).json({
+      success: true,
+      data: bundle,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to export subject data';
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: /No cases found/.test(message) ? 'SUBJECT_NOT_FOUND' : 'SUBJECT_EXPORT_FAILED',
+        message,
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(/No cases found/.test(message) ? 404 : 500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/privacy/erase
+ * Redact an applicant's data on all their cases, keeping the cases and an audit entry of the erasure
+ */
+router.post('/erase', validateInput(subjectErasureSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { email, reason } = req.body as z.infer<typeof subjectErasureSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { privacyService } = getServices();
+    const result = await privacyService.eraseSubjectData(email, userId, reason);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: `Applicant data erased from ${result.caseIds.length} case(s)`,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to erase subject data';
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: /No cases found/.test(message) ? 'SUBJECT_NOT_FOUND' : 'SUBJECT_ERASURE_FAILED',
+        message,
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(/No cases found/.test(message) ? 404 : 500).json(errorResponse);
+  }
+}));
+
+export default router;
@@ -0,0 +1,110 @@
+import { Router, Request, Response } from 'express';
+import { ErrorResponse } from '../types/index.js';
+import { randomUUID } from 'crypto';
+import { getServices } from './serviceFactory.js';
+import { asyncHandler, requireAdmin } from '../middleware/common.js';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+/**
+ * GET /api/retention/report
+ * Dry run of the retention policy: the cases a purge would remove now
+ */
+router.get('/report', asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const { retentionService } = getServices();
+    const report = await retentionService.getReport();
+
+    res.status(200).json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'RETENTION_REPORT_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to build retention report',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/retention/purge
+ * Purge every case past its retention period, keeping only anonymized stubs
+ */
+router.post('/purge', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { retentionService } = getServices();
+    const purged = await retentionService.purge(userId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        purged,
+        total: purged.length
+      },
+      message: `${purged.length} case(s) purged`,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'RETENTION_PURGE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to purge cases',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * GET /api/retention/purged
+ * Anonymized stubs of purged cases
+ */
+router.get('/purged', asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const { retentionService } = getServices();
+    const purged = await retentionService.getPurgedCases();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        purged,
+        total: purged.length
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'PURGED_CASES_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve purged cases',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+export default router;
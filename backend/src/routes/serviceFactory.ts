@@ -3,11 +3,32 @@ import { DataService } from '../services/DataService.js';
 import { AIService } from '../services/AIService.js';
 import { OpenRouterClient } from '../services/OpenRouterClient.js';
 import { PromptTemplateService } from '../services/PromptTemplateService.js';
+import { WorkflowService } from '../services/WorkflowService.js';
+import { ApplicationTypeService } from '../services/ApplicationTypeService.js';
+import { AssignmentService, getAssignmentConfigFromEnv } from '../services/AssignmentService.js';
+import { SlaService, getSlaConfigFromEnv } from '../services/SlaService.js';
+import { DuplicateDetectionService, getDuplicateConfigFromEnv } from '../services/DuplicateDetectionService.js';
+import { TagService } from '../services/TagService.js';
+import { RetentionService, getRetentionConfigFromEnv } from '../services/RetentionService.js';
+import { PrivacyService } from '../services/PrivacyService.js';
+import { IdempotencyService, getIdempotencyConfigFromEnv } from '../services/IdempotencyService.js';
+import { UserDirectoryService, getUserDirectoryConfigFromEnv } from '../services/UserDirectoryService.js';
+import { DocumentStorageService, getDocumentStorageConfigFromEnv } from '../services/DocumentStorageService.js';
+import { TextExtractionService } from '../services/TextExtractionService.js';
+import { EicarTestScanner, getMalwareScannerFromEnv } from '../services/MalwareScanner.js';
 
 export interface ServiceContainer {
   caseService: CaseService;
   dataService: DataService;
   aiService: AIService;
+  applicationTypeService: ApplicationTypeService;
+  slaService: SlaService;
+  tagService: TagService;
+  retentionService: RetentionService;
+  privacyService: PrivacyService;
+  idempotencyService: IdempotencyService;
+  userDirectoryService: UserDirectoryService;
+  documentStorageService: DocumentStorageService;
 }
 
 export function createServices(): ServiceContainer {
@@ -26,12 +47,45 @@ export function createServices(): ServiceContainer {
   const openRouterClient = new OpenRouterClient(openRouterConfig, process.env.NODE_ENV === 'test');
   const promptTemplateService = new PromptTemplateService();
   const aiService = new AIService(openRouterClient, dataService, promptTemplateService);
-  const caseService = new CaseService(dataService, aiService);
+  const applicationTypeService = new ApplicationTypeService();
+  const workflowService = new WorkflowService(applicationTypeService);
+  const assignmentService = new AssignmentService(dataService, getAssignmentConfigFromEnv());
+  const slaService = new SlaService(applicationTypeService, getSlaConfigFromEnv());
+  const duplicateDetectionService = new DuplicateDetectionService(dataService, getDuplicateConfigFromEnv());
+  const userDirectoryService = new UserDirectoryService(getUserDirectoryConfigFromEnv());
+  const documentStorageService = new DocumentStorageService(getDocumentStorageConfigFromEnv());
+  // Tests flag the EICAR test string instead of needing a clamd daemon
+  const malwareScanner = process.env.NODE_ENV === 'test' ? new EicarTestScanner() : getMalwareScannerFromEnv();
+  const caseService = new CaseService(
+    dataService,
+    aiService,
+    workflowService,
+    applicationTypeService,
+    assignmentService,
+    slaService,
+    duplicateDetectionService,
+    userDirectoryService,
+    documentStorageService,
+    new TextExtractionService(),
+    malwareScanner
+  );
+  const tagService = new TagService(dataService);
+  const retentionService = new RetentionService(dataService, getRetentionConfigFromEnv(), documentStorageService);
+  const privacyService = new PrivacyService(dataService, documentStorageService);
+  const idempotencyService = new IdempotencyService(dataService, getIdempotencyConfigFromEnv());
 
   return {
     caseService,
     dataService,
-    aiService
+    aiService,
+    applicationTypeService,
+    slaService,
+    tagService,
+    retentionService,
+    privacyService,
+    idempotencyService,
+    userDirectoryService,
+    documentStorageService
   };
 }
 
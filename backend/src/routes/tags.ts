@@ -0,0 +1,234 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ErrorResponse } from '../types/index.js';
+import { randomUUID } from 'crypto';
+import { getServices } from './serviceFactory.js';
+import { asyncHandler, validateInput } from '../middleware/common.js';
+
+const router = Router();
+
+const TAG_COLORS = ['gray', 'blue', 'green', 'yellow', 'red'] as const;
+
+const tagNameSchema = z.string().trim().min(1, 'Tag name is required').max(50)
+  .regex(/^[\p{L}\p{N}][\p{L}\p{N} _-]*$/u, 'Tag names may only contain letters, numbers, spaces, hyphens and underscores');
+
+const createTagSchema = z.object({
+  name: tagNameSchema,
+  color: z.enum(TAG_COLORS).optional(),
+  description: z.string().trim().max(500).optional()
+});
+
+const updateTagSchema = z.object({
+  name: tagNameSchema.optional(),
+  color: z.enum(TAG_COLORS).optional(),
+  description: z.string().trim().max(500).optional()
+}).strict().refine(update => Object.keys(update).length > 0, {
+  message: 'At least one field must be provided'
+});
+
+const sendTagNotFound = (res: Response, id: string | undefined): void => {
+  const errorResponse: ErrorResponse = {
+    error: {
+      code: 'TAG_NOT_FOUND',
+      message: `Tag with ID ${id} not found`
+    },
+    timestamp: new Date().toISOString(),
+    requestId: randomUUID()
+  };
+  res.status(404).json(errorResponse);
+};
+
+/**
+ * GET /api/tags
+ * List all tags with the number of cases carrying each
+ */
+router.get('/', asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const { tagService } = getServices();
+    const tags = await tagService.listTags();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        tags,
+        total: tags.length
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'TAGS_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve tags',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * POST /api/tags
+ * Create a tag; names are unique ignoring case
+ */
+router.post('/', validateInput(createTagSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const input = req.body as z.infer<typeof createTagSchema>;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { tagService } = getServices();
+    const tag = await tagService.createTag(input, userId);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        tag
+      },
+      message: 'Tag created successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'TAG_CREATION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to create tag',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    const statusCode = error instanceof Error && /already exists/.test(error.message) ? 409 : 500;
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * GET /api/tags/:id
+ * Retrieve a single tag
+ */
+router.get('/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  try {
+    const { tagService } = getServices();
+    const tag = await tagService.getTag(id);
+    if (!tag) {
+      sendTagNotFound(res, id);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        tag
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'TAG_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve tag',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+/**
+ * PATCH /api/tags/:id
+ * Rename, recolour or describe a tag; an empty description clears it
+ */
+router.patch('/:id', validateInput(updateTagSchema), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const update = req.body as z.infer<typeof updateTagSchema>;
+
+  try {
+    const { tagService } = getServices();
+
+    // Ensure tag exists
+    if (!await tagService.getTag(id)) {
+      sendTagNotFound(res, id);
+      return;
+    }
+
+    const tag = await tagService.updateTag(id, update);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        tag
+      },
+      message: 'Tag updated successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'TAG_UPDATE_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to update tag',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    const statusCode = error instanceof Error && /already exists/.test(error.message) ? 409 : 500;
+    res.status(statusCode).json(errorResponse);
+  }
+}));
+
+/**
+ * DELETE /api/tags/:id
+ * Delete a tag and take it off every case carrying it
+ */
+router.delete('/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const userId = req.headers['x-user-id'] as string || 'system';
+
+  try {
+    const { tagService } = getServices();
+
+    // Ensure tag exists
+    if (!await tagService.getTag(id)) {
+      sendTagNotFound(res, id);
+      return;
+    }
+
+    const result = await tagService.deleteTag(id, userId);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Tag deleted successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'TAG_DELETION_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to delete tag',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+export default router;
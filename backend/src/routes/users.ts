@@ -0,0 +1,44 @@
+import { Router, Request, Response } from 'express';
+import { ErrorResponse } from '../types/index.js';
+import { randomUUID } from 'crypto';
+import { getServices } from './serviceFactory.js';
+import { asyncHandler } from '../middleware/common.js';
+
+const router = Router();
+
+/**
+ * GET /api/users
+ * Users who can be @mentioned in case notes; ?q= filters by ID prefix
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const query = typeof req.query.q === 'string' ? req.query.q : undefined;
+
+  try {
+    const { userDirectoryService } = getServices();
+    const users = userDirectoryService.listUsers(query);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        users,
+        total: users.length
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: {
+        code: 'USERS_RETRIEVAL_FAILED',
+        message: error instanceof Error ? error.message : 'Failed to retrieve users',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      timestamp: new Date().toISOString(),
+      requestId: randomUUID()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+}));
+
+export default router;
@@ -4,6 +4,7 @@ import { DataService } from './DataService.js';
 import { PromptTemplateService } from './PromptTemplateService.js';
 import {
   Case,
+  CaseNote,
   ApplicationData,
   AISummary,
   AIRecommendation,
@@ -12,9 +13,25 @@ import {
   CompletenessValidation,
   MissingFieldsAnalysis,
   ProcessStep,
-  AIInteraction
+  AIInteraction,
+  CaseLinkType,
+  LinkedCase,
+  CaseDocument,
+  DocumentText
 } from '../types/index.js';
 
+// How a link reads from the case it was created on and from the case it points at
+const LINK_LABELS: Record<CaseLinkType, { outgoing: string; incoming: string }> = {
+  appeal_of: { outgoing: 'Appeal of', incoming: 'Appealed by' },
+  renewal_of: { outgoing: 'Renewal of', incoming: 'Renewed by' },
+  related_to: { outgoing: 'Related to', incoming: 'Related to' },
+  family_member: { outgoing: 'Family member', incoming: 'Family member' }
+};
+
+// Extracted document text shown to the model: an excerpt per file, within an overall budget for the prompt
+const DOCUMENT_EXCERPT_LENGTH = 1500;
+const DOCUMENT_EXCERPTS_BUDGET = 6000;
+
 export class AIService {
   private openRouterClient: OpenRouterClient;
   private dataService: DataService;
@@ -32,10 +49,11 @@ export class AIService {
   async generateOverallSummary(caseData: Case): Promise<AISummary> {
     const startTime = Date.now();
     const interactionId = randomUUID();
-    const templateId = 'overall_summary_v1';
+    const templateId = 'overall_summary_v2';
+    const documentTexts = await this.loadDocumentTexts(caseData.applicationData.documents);
 
     try {
-      const templateData = this.buildOverallSummaryData(caseData);
+      const templateData = this.buildOverallSummaryData(caseData, documentTexts);
       const prompt = this.promptTemplateService.generatePrompt(templateId, templateData);
       const parameters = this.promptTemplateService.getTemplateParameters(templateId);
 
@@ -67,12 +85,12 @@ export class AIService {
         success: true,
         timestamp: new Date(),
         promptTemplate: templateId,
-        promptVersion: '1.0'
+        promptVersion: '2.0'
       });
 
       return summary;
     } catch (error) {
-      const templateData = this.buildOverallSummaryData(caseData);
+      const templateData = this.buildOverallSummaryData(caseData, documentTexts);
       const prompt = this.promptTemplateService.generatePrompt(templateId, templateData);
 
       // Log failed AI interaction
@@ -89,7 +107,7 @@ export class AIService {
         error: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date(),
         promptTemplate: templateId,
-        promptVersion: '1.0'
+        promptVersion: '2.0'
       });
 
 
@@ -427,10 +445,11 @@ export class AIService {
   async validateCaseCompleteness(caseData: Case): Promise<CompletenessValidation> {
     const startTime = Date.now();
     const interactionId = randomUUID();
-    const templateId = 'completeness_validation_v1';
+    const templateId = 'completeness_validation_v2';
+    const documentTexts = await this.loadDocumentTexts(caseData.applicationData?.documents || []);
 
     try {
-      const templateData = this.buildCompletenessValidationData(caseData);
+      const templateData = this.buildCompletenessValidationData(caseData, documentTexts);
       const prompt = this.promptTemplateService.generatePrompt(templateId, templateData);
       const parameters = this.promptTemplateService.getTemplateParameters(templateId);
 
@@ -464,12 +483,12 @@ export class AIService {
         success: true,
         timestamp: new Date(),
         promptTemplate: templateId,
-        promptVersion: '1.0'
+        promptVersion: '2.0'
       });
 
       return completenessValidation;
     } catch (error) {
-      const templateData = this.buildCompletenessValidationData(caseData);
+      const templateData = this.buildCompletenessValidationData(caseData, documentTexts);
       const prompt = this.promptTemplateService.generatePrompt(templateId, templateData);
 
       // Log failed AI interaction
@@ -486,7 +505,7 @@ export class AIService {
         error: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date(),
         promptTemplate: templateId,
-        promptVersion: '1.0'
+        promptVersion: '2.0'
       });
 
       // In development or test mode, provide fallback data if AI service is unavailable
@@ -635,7 +654,7 @@ export class AIService {
 
   // Private helper methods for building template data
 
-  private buildOverallSummaryData(caseData: Case): Record<string, unknown> {
+  private buildOverallSummaryData(caseData: Case, documentTexts: Map<string, DocumentText>): Record<string, unknown> {
     return {
       caseId: caseData.id,
       status: caseData.status,
@@ -643,12 +662,67 @@ export class AIService {
       applicationType: caseData.applicationData.applicationType,
       applicantName: caseData.applicationData.applicantName,
       submissionDate: caseData.applicationData.submissionDate.toISOString(),
-      documents: caseData.applicationData.documents.map(doc => doc.filename).join(', '),
+      documents: this.formatDocuments(caseData.applicationData.documents, documentTexts),
       formData: JSON.stringify(caseData.applicationData.formData, null, 2),
-      caseNotes: caseData.notes.map(note => `${note.createdAt.toISOString()}: ${note.content}`).join('\n')
+      caseNotes: this.formatNotes(caseData.notes),
+      linkedCases: caseData.linkedCases?.map(linkedCase => this.describeLinkedCase(linkedCase)).join('\n') || 'none'
     };
   }
 
+  /**
+   * Extracted text of a case's documents by document ID. Prompts fall back to file names when it cannot be read.
+   */
+  private async loadDocumentTexts(documents: CaseDocument[]): Promise<Map<string, DocumentText>> {
+    try {
+      const texts = await this.dataService.getDocumentTexts(documents.map(doc => doc.id));
+      return new Map(texts.map(text => [text.documentId, text]));
+    } catch (error) {
+      console.warn('Failed to load document texts for AI context:', error);
+      return new Map();
+    }
+  }
+
+  // One entry per document with an excerpt of its text; later documents get what is left of the budget
+  private formatDocuments(documents: CaseDocument[], documentTexts: Map<string, DocumentText>): string {
+    if (documents.length === 0) {
+      return 'none';
+    }
+
+    let budget = DOCUMENT_EXCERPTS_BUDGET;
+    return documents.map(doc => {
+      const heading = `- ${doc.filename} (${doc.mimeType}, ${Math.max(1, Math.round(doc.size / 1024))} KB)`;
+      const documentText = documentTexts.get(doc.id);
+      if (!documentText) {
+        return `${heading}\n  No extracted text`;
+      }
+      if (budget <= 0) {
+        return `${heading}\n  Text omitted to keep the prompt short`;
+      }
+
+      const text = documentText.text.replace(/\s+/g, ' ');
+      const excerpt = text.slice(0, Math.min(DOCUMENT_EXCERPT_LENGTH, budget));
+      budget -= excerpt.length;
+      const truncated = excerpt.length < text.length || documentText.truncated;
+      return `${heading}\n  Text: "${excerpt}${truncated ? ' [truncated]' : ''}"`;
+    }).join('\n');
+  }
+
+  // Deleted notes are left out of prompts
+  private formatNotes(notes: CaseNote[]): string {
+    return notes
+      .filter(note => !note.deletedAt)
+      .map(note => `${note.createdAt.toISOString()}: ${note.content}`)
+      .join('\n');
+  }
+
+  // Appeals and renewals are read in light of the earlier case's final decision
+  private describeLinkedCase({ link, direction, case: linked }: LinkedCase): string {
+    const outcome = linked.decision
+      ? `final decision ${linked.decision.status} on ${linked.decision.decidedAt.toISOString()}`
+      : `no final decision, currently ${linked.status}`;
+    return `${LINK_LABELS[link.type][direction]} case ${linked.id} (${linked.applicationType}, ${linked.applicantName}): ${outcome}`;
+  }
+
   private buildStepRecommendationData(caseData: Case, step: ProcessStep): Record<string, unknown> {
     return {
       step,
@@ -657,7 +731,7 @@ export class AIService {
       applicationType: caseData.applicationData.applicationType,
       applicantName: caseData.applicationData.applicantName,
       recentSummaries: caseData.aiSummaries.slice(0, 3).map(summary => summary.content).join('\n---\n'),
-      recentNotes: caseData.notes.slice(-5).map(note => `${note.createdAt.toISOString()}: ${note.content}`).join('\n')
+      recentNotes: this.formatNotes(caseData.notes.filter(note => !note.deletedAt).slice(-5))
     };
   }
 
@@ -693,17 +767,17 @@ export class AIService {
       applicantName: caseData.applicationData.applicantName,
       processHistory: caseData.auditTrail.map(entry => `${entry.timestamp.toISOString()}: ${entry.action}`).join('\n'),
       aiSummaries: caseData.aiSummaries.map(summary => `${summary.generatedAt.toISOString()} (${summary.type}): ${summary.content}`).join('\n---\n'),
-      caseNotes: caseData.notes.map(note => `${note.createdAt.toISOString()}: ${note.content}`).join('\n')
+      caseNotes: this.formatNotes(caseData.notes)
     };
   }
 
-  private buildCompletenessValidationData(caseData: Case): Record<string, unknown> {
+  private buildCompletenessValidationData(caseData: Case, documentTexts: Map<string, DocumentText>): Record<string, unknown> {
     return {
       caseId: caseData.id,
       status: caseData.status,
       currentStep: caseData.currentStep,
       applicationType: caseData.applicationData?.applicationType || 'standard',
-      documents: caseData.applicationData?.documents?.map(doc => doc.filename).join(', ') || 'none',
+      documents: this.formatDocuments(caseData.applicationData?.documents || [], documentTexts),
       formDataFields: caseData.applicationData?.formData ? Object.keys(caseData.applicationData.formData).join(', ') : 'none',
       completedSteps: caseData.auditTrail?.map(entry => entry.action).join(', ') || 'none'
     };
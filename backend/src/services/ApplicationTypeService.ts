@@ -0,0 +1,185 @@
+import { ApplicationData, ApplicationTypeProfile, ProcessStep } from '../types/index.js';
+
+// Profile registry type
+type ProfileRegistry = Map<string, ApplicationTypeProfile>;
+
+// Fields every profiled application must provide in formData
+const COMMON_REQUIRED_FIELDS = [
+  { field: 'applicationCategory', label: 'Application Category' },
+  { field: 'caseSummary', label: 'Case Summary' }
+];
+
+const IDENTITY_DOCUMENT = {
+  type: 'passport',
+  label: 'Passport or national ID',
+  description: 'Clear copy of the photo page'
+};
+
+/**
+ * Built-in application types offered on the new case form
+ */
+export const BUILT_IN_APPLICATION_TYPES: ApplicationTypeProfile[] = [
+  {
+    type: 'visa',
+    label: 'Visa Application',
+    description: 'Short and long stay visas for tourism, business, study, work and family visits',
+    categories: [
+      { value: 'tourist', label: 'Tourist Visa', processingTime: '2-4 weeks' },
+      { value: 'business', label: 'Business Visa', processingTime: '4-8 weeks' },
+      { value: 'student', label: 'Student Visa', processingTime: '6-12 weeks' },
+      { value: 'work', label: 'Work Visa', processingTime: '8-16 weeks' },
+      { value: 'family', label: 'Family Visa' }
+    ],
+    requiredDocuments: [
+      IDENTITY_DOCUMENT,
+      { type: 'photo', label: 'Passport photo' },
+      { type: 'travel_itinerary', label: 'Travel itinerary', description: 'Planned dates of entry and exit' }
+    ],
+    requiredFields: COMMON_REQUIRED_FIELDS,
+    defaultProcessingTime: '2-16 weeks',
+    workflowId: 'standard_v1'
+  },
+  {
+    type: 'work_permit',
+    label: 'Work Permit',
+    description: 'Permission to work for a sponsoring employer',
+    categories: [
+      { value: 'skilled_worker', label: 'Skilled Worker', processingTime: '8-16 weeks' },
+      { value: 'temporary_worker', label: 'Temporary Worker', processingTime: '4-8 weeks' },
+      { value: 'seasonal_worker', label: 'Seasonal Worker', processingTime: '2-6 weeks' },
+      { value: 'intracompany', label: 'Intra-company Transfer', processingTime: '6-12 weeks' }
+    ],
+    requiredDocuments: [
+      IDENTITY_DOCUMENT,
+      { type: 'employment_offer', label: 'Employment offer', description: 'Signed offer or contract from the sponsoring employer' },
+      { type: 'qualifications', label: 'Proof of qualifications' }
+    ],
+    requiredFields: [...COMMON_REQUIRED_FIELDS, { field: 'applicantFirm', label: 'Applicant Firm' }],
+    defaultProcessingTime: '2-16 weeks',
+    workflowId: 'standard_v1'
+  },
+  {
+    type: 'residence_permit',
+    label: 'Residence Permit',
+    description: 'Temporary or permanent permission to reside',
+    categories: [
+      { value: 'permanent', label: 'Permanent Residence', processingTime: '12-24 months' },
+      { value: 'temporary', label: 'Temporary Residence', processingTime: '6-12 months' },
+      { value: 'family', label: 'Family Residence', processingTime: '8-16 months' },
+      { value: 'refugee', label: 'Refugee Status', processingTime: '18-36 months' }
+    ],
+    requiredDocuments: [
+      IDENTITY_DOCUMENT,
+      { type: 'proof_of_address', label: 'Proof of address' },
+      { type: 'financial_statement', label: 'Proof of financial means' }
+    ],
+    requiredFields: [...COMMON_REQUIRED_FIELDS, { field: 'country', label: 'Country' }],
+    defaultProcessingTime: '6-36 months',
+    workflowId: 'enhanced_review_v1',
+    stepSlaHours: { [ProcessStep.IN_REVIEW]: 480 }
+  },
+  {
+    type: 'citizenship',
+    label: 'Citizenship',
+    description: 'Acquisition of citizenship by naturalization, birth, marriage or investment',
+    categories: [
+      { value: 'naturalization', label: 'Naturalization', processingTime: '12-18 months' },
+      { value: 'birth', label: 'Birth Right', processingTime: '6-12 months' },
+      { value: 'marriage', label: 'Marriage', processingTime: '8-16 months' },
+      { value: 'investment', label: 'Investment', processingTime: '12-24 months' }
+    ],
+    requiredDocuments: [
+      IDENTITY_DOCUMENT,
+      { type: 'birth_certificate', label: 'Birth certificate' },
+      { type: 'residence_history', label: 'Residence history', description: 'Evidence of lawful residence for the qualifying period' }
+    ],
+    requiredFields: [...COMMON_REQUIRED_FIELDS, { field: 'dateOfBirth', label: 'Date of Birth' }],
+    defaultProcessingTime: '6-24 months',
+    workflowId: 'enhanced_review_v1',
+    stepSlaHours: { [ProcessStep.IN_REVIEW]: 480 }
+  },
+  {
+    type: 'other',
+    label: 'Other',
+    description: 'Appeals, renewals and cases that do not fit another type',
+    categories: [
+      { value: 'special_case', label: 'Special Case', processingTime: 'Varies' },
+      { value: 'appeal', label: 'Appeal', processingTime: '6-12 months' },
+      { value: 'renewal', label: 'Renewal', processingTime: '2-4 weeks' }
+    ],
+    requiredDocuments: [IDENTITY_DOCUMENT],
+    requiredFields: COMMON_REQUIRED_FIELDS,
+    defaultProcessingTime: 'Varies',
+    workflowId: 'standard_v1'
+  }
+];
+
+export class ApplicationTypeService {
+  private profiles: ProfileRegistry = new Map();
+
+  constructor() {
+    BUILT_IN_APPLICATION_TYPES.forEach(profile => this.registerProfile(profile));
+  }
+
+  /**
+   * Register or replace an application type profile
+   */
+  registerProfile(profile: ApplicationTypeProfile): void {
+    if (profile.categories.length === 0) {
+      throw new Error(`Application type ${profile.type} must define at least one category`);
+    }
+    this.profiles.set(profile.type, profile);
+  }
+
+  /**
+   * Get the profile for an application type
+   */
+  getProfile(type: string): ApplicationTypeProfile | undefined {
+    return this.profiles.get(type);
+  }
+
+  /**
+   * List all registered application types
+   */
+  listProfiles(): ApplicationTypeProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * Get the expected processing time for a type and category
+   */
+  getProcessingTime(type: string, category?: string): string | undefined {
+    const profile = this.profiles.get(type);
+    if (!profile) {
+      return undefined;
+    }
+    const categoryDef = profile.categories.find(c => c.value === category);
+    return categoryDef?.processingTime || profile.defaultProcessingTime;
+  }
+
+  /**
+   * Check application data against its type profile, returning one message per problem.
+   * Types without a profile are not checked so cases created before profiles existed stay valid.
+   */
+  validateApplication(applicationData: ApplicationData): string[] {
+    const profile = this.profiles.get(applicationData.applicationType);
+    if (!profile) {
+      return [];
+    }
+
+    const formData = applicationData.formData || {};
+    const errors = profile.requiredFields
+      .filter(({ field }) => {
+        const value = formData[field];
+        return value === undefined || value === null || (typeof value === 'string' && !value.trim());
+      })
+      .map(({ label }) => `${label} is required for ${profile.label}`);
+
+    const category = formData.applicationCategory;
+    if (category && !profile.categories.some(c => c.value === category)) {
+      errors.push(`Invalid application category for ${profile.label}: ${category}`);
+    }
+
+    return errors;
+  }
+}
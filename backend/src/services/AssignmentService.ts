@@ -0,0 +1,67 @@
+import { DataService } from './DataService.js';
+import { AssignmentConfig, AssignmentStrategy } from '../types/index.js';
+
+export const ASSIGNMENT_STRATEGIES: AssignmentStrategy[] = ['round_robin', 'least_open_cases'];
+
+/**
+ * Build the assignment configuration from AUTO_ASSIGN_STRATEGY and CASEWORKER_IDS
+ */
+export function getAssignmentConfigFromEnv(env: Record<string, string | undefined> = process.env): AssignmentConfig {
+  const strategy = env.AUTO_ASSIGN_STRATEGY as AssignmentStrategy | undefined;
+  if (strategy && !ASSIGNMENT_STRATEGIES.includes(strategy)) {
+    throw new Error(`Unknown auto-assignment strategy: ${strategy}`);
+  }
+
+  return {
+    strategy,
+    caseworkerIds: (env.CASEWORKER_IDS || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean)
+  };
+}
+
+export class AssignmentService {
+  private dataService: DataService;
+  private config: AssignmentConfig;
+  private nextRoundRobinIndex = 0;
+
+  constructor(dataService: DataService, config: AssignmentConfig) {
+    this.dataService = dataService;
+    this.config = config;
+  }
+
+  /**
+   * Whether new cases should be assigned automatically
+   */
+  isAutoAssignEnabled(): boolean {
+    return !!this.config.strategy && this.config.caseworkerIds.length > 0;
+  }
+
+  getStrategy(): AssignmentStrategy | undefined {
+    return this.config.strategy;
+  }
+
+  /**
+   * Pick the caseworker a new case should be assigned to, or null when auto-assignment is disabled
+   */
+  async selectAssignee(): Promise<string | null> {
+    if (!this.isAutoAssignEnabled()) {
+      return null;
+    }
+
+    const { caseworkerIds } = this.config;
+
+    if (this.config.strategy === 'round_robin') {
+      const assignee = caseworkerIds[this.nextRoundRobinIndex % caseworkerIds.length];
+      this.nextRoundRobinIndex = (this.nextRoundRobinIndex + 1) % caseworkerIds.length;
+      return assignee;
+    }
+
+    // least_open_cases: ties go to the caseworker listed first
+    const openCases = await this.dataService.getOpenCaseCountsByAssignee();
+    return caseworkerIds.reduce((best, candidate) =>
+      (openCases[candidate] || 0) < (openCases[best] || 0) ? candidate : best
+    );
+  }
+}
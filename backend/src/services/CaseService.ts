@@ -1,21 +1,145 @@
 import { randomUUID } from 'crypto';
 import { DataService } from './DataService.js';
 import { AIService } from './AIService.js';
+import { WorkflowService } from './WorkflowService.js';
+import { ApplicationTypeService } from './ApplicationTypeService.js';
+import { AssignmentService } from './AssignmentService.js';
+import { SlaService } from './SlaService.js';
+import { DuplicateDetectionService } from './DuplicateDetectionService.js';
+import { UserDirectoryService } from './UserDirectoryService.js';
+import { DocumentStorageService } from './DocumentStorageService.js';
+import { TextExtractionService } from './TextExtractionService.js';
+import { REDACTED } from './PrivacyService.js';
 import {
   Case,
+  CaseNote,
+  CaseNoteOptions,
+  CaseNoteUpdate,
+  CaseNoteRevision,
   ApplicationData,
   CaseStatus,
   ProcessStep,
-  ActivityLog
+  ActivityLog,
+  UserRole,
+  WorkflowDefinition,
+  StepTransitionEvaluation,
+  CaseListItem,
+  CaseSortField,
+  CasePriority,
+  SortOrder,
+  CaseSearchResult,
+  CaseChange,
+  BulkCaseOperation,
+  BulkCaseItemResult,
+  BulkCaseResult,
+  ApplicationDataUpdate,
+  ApplicationFieldChange,
+  ApplicationRevision,
+  CaseDocument,
+  CaseMergeResult,
+  DuplicateMatch,
+  CaseLink,
+  CaseLinkType,
+  LinkedCase,
+  Tag,
+  MentionNotification,
+  CaseDocumentRecord,
+  CaseDocumentReview,
+  DocumentReviewInput,
+  MalwareScanner,
+  MalwareScanResult
 } from '../types/index.js';
 
+// Roles that may delete notes written by someone else
+const NOTE_MODERATOR_ROLES: UserRole[] = ['supervisor', 'admin'];
+
+// Link types that read the same from both cases
+const SYMMETRIC_LINK_TYPES: CaseLinkType[] = ['related_to', 'family_member'];
+
+// Link types that continue a concluded case; a case can only appeal or renew one case
+const DECISION_LINK_TYPES: CaseLinkType[] = ['appeal_of', 'renewal_of'];
+
+// Statuses recording the decision; they conclude the case through the workflow's decision transition
+const DECISION_STATUSES: CaseStatus[] = [CaseStatus.APPROVED, CaseStatus.DENIED];
+
+// Allowed case status transitions, keyed by the current status
+const STATUS_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  [CaseStatus.ACTIVE]: [CaseStatus.PENDING, CaseStatus.APPROVED, CaseStatus.DENIED, CaseStatus.WITHDRAWN],
+  [CaseStatus.PENDING]: [CaseStatus.ACTIVE, CaseStatus.APPROVED, CaseStatus.DENIED, CaseStatus.WITHDRAWN],
+  [CaseStatus.APPROVED]: [CaseStatus.ARCHIVED],
+  [CaseStatus.DENIED]: [CaseStatus.ARCHIVED],
+  [CaseStatus.WITHDRAWN]: [CaseStatus.ARCHIVED],
+  [CaseStatus.ARCHIVED]: [] // No transitions from archived
+};
+
+// Application data fields compared when diffing revisions, besides the individual formData fields
+const APPLICATION_DIFF_FIELDS = ['applicantName', 'applicantEmail', 'applicationType', 'submissionDate', 'documents'] as const;
+
+// JSON form of a value so dates, arrays and objects compare by content
+const toComparable = (value: unknown): unknown => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Field-level differences between two versions of application data
+ */
+export function diffApplicationData(before: ApplicationData, after: ApplicationData): ApplicationFieldChange[] {
+  const changes: ApplicationFieldChange[] = [];
+  const compare = (field: string, from: unknown, to: unknown) => {
+    const fromValue = toComparable(from);
+    const toValue = toComparable(to);
+    if (JSON.stringify(fromValue) !== JSON.stringify(toValue)) {
+      changes.push({
+        field,
+        ...(fromValue !== undefined && { from: fromValue }),
+        ...(toValue !== undefined && { to: toValue })
+      });
+    }
+  };
+
+  APPLICATION_DIFF_FIELDS.forEach(field => compare(field, before[field], after[field]));
+
+  const formFields = new Set([...Object.keys(before.formData || {}), ...Object.keys(after.formData || {})]);
+  [...formFields].sort().forEach(field => compare(`formData.${field}`, before.formData?.[field], after.formData?.[field]));
+
+  return changes;
+}
+
 export class CaseService {
   private dataService: DataService;
   private aiService: AIService;
-
-  constructor(dataService: DataService, aiService: AIService) {
+  private workflowService: WorkflowService;
+  private applicationTypeService: ApplicationTypeService;
+  private assignmentService: AssignmentService | undefined;
+  private slaService: SlaService;
+  private duplicateDetectionService: DuplicateDetectionService;
+  private userDirectoryService: UserDirectoryService;
+  private documentStorageService: DocumentStorageService;
+  private textExtractionService: TextExtractionService;
+  private malwareScanner: MalwareScanner | undefined;
+
+  constructor(
+    dataService: DataService,
+    aiService: AIService,
+    workflowService?: WorkflowService,
+    applicationTypeService?: ApplicationTypeService,
+    assignmentService?: AssignmentService,
+    slaService?: SlaService,
+    duplicateDetectionService?: DuplicateDetectionService,
+    userDirectoryService?: UserDirectoryService,
+    documentStorageService?: DocumentStorageService,
+    textExtractionService?: TextExtractionService,
+    malwareScanner?: MalwareScanner
+  ) {
     this.dataService = dataService;
     this.aiService = aiService;
+    this.applicationTypeService = applicationTypeService || new ApplicationTypeService();
+    this.workflowService = workflowService || new WorkflowService(this.applicationTypeService);
+    this.assignmentService = assignmentService;
+    this.slaService = slaService || new SlaService(this.applicationTypeService);
+    this.duplicateDetectionService = duplicateDetectionService || new DuplicateDetectionService(dataService);
+    this.userDirectoryService = userDirectoryService || new UserDirectoryService();
+    this.documentStorageService = documentStorageService || new DocumentStorageService();
+    this.textExtractionService = textExtractionService || new TextExtractionService();
+    this.malwareScanner = malwareScanner;
   }
 
   /**
@@ -39,12 +163,17 @@ export class CaseService {
         currentStep: ProcessStep.RECEIVED,
         createdAt: now,
         updatedAt: now,
+        stepEnteredAt: now,
         notes: [],
         aiSummaries: [],
         auditTrail: []
       };
 
-
+      // Pick an assignee before saving so the case is never visible unassigned
+      const assignee = await this.assignmentService?.selectAssignee();
+      if (assignee) {
+        newCase.assignedTo = assignee;
+      }
 
       // Save the case to database
       await this.dataService.saveCase(newCase);
@@ -56,6 +185,15 @@ export class CaseService {
         submissionDate: applicationData.submissionDate
       }, userId);
 
+      if (assignee) {
+        await this.logActivity(caseId, 'case_assigned', {
+          assignedTo: assignee,
+          strategy: this.assignmentService!.getStrategy()
+        }, 'system');
+      }
+
+      await this.flagDuplicates(newCase);
+
       return newCase;
     } catch (error) {
       throw new Error(`Failed to create case: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -83,12 +221,17 @@ export class CaseService {
         currentStep: ProcessStep.RECEIVED,
         createdAt: now,
         updatedAt: now,
+        stepEnteredAt: now,
         notes: [],
         aiSummaries: [],
         auditTrail: []
       };
 
-
+      // Pick an assignee before saving so the case is never visible unassigned
+      const assignee = await this.assignmentService?.selectAssignee();
+      if (assignee) {
+        newCase.assignedTo = assignee;
+      }
 
       // Save the case to database
       await this.dataService.saveCase(newCase);
@@ -100,6 +243,15 @@ export class CaseService {
         submissionDate: applicationData.submissionDate
       }, userId);
 
+      if (assignee) {
+        await this.logActivity(caseId, 'case_assigned', {
+          assignedTo: assignee,
+          strategy: this.assignmentService!.getStrategy()
+        }, 'system');
+      }
+
+      await this.flagDuplicates(newCase);
+
       // Generate initial AI analysis
       try {
         const aiSummary = await this.aiService.generateOverallSummary(newCase);
@@ -139,8 +291,9 @@ export class CaseService {
       // Step 3: Analyze application using AI
       const applicationAnalysis = await this.aiService.analyzeApplication(extractedData);
 
-      // Step 4: Create case using the standard createCase method
+      // Step 4: Create case using the standard createCase method, seeding its priority from the analysis
       const newCase = await this.createCase(extractedData, userId);
+      await this.seedPriority(newCase, applicationAnalysis, userId);
 
       // Step 5: Log application processing activity
       await this.logActivity(newCase.id, 'application_processed', {
@@ -192,10 +345,17 @@ export class CaseService {
   }
 
   /**
-   * Update case status with validation and workflow logic
+   * Update case status with validation and workflow logic. Approving or denying a case takes the workflow's
+   * transition into the concluded step, so it is only allowed when that transition passes for the user's role.
    * Requirements: 1.6, 2.3
    */
-  async updateCaseStatus(caseId: string, newStatus: CaseStatus, userId: string): Promise<Case> {
+  async updateCaseStatus(
+    caseId: string,
+    newStatus: CaseStatus,
+    userId: string,
+    userRole: UserRole = 'caseworker',
+    expectedVersion?: number
+  ): Promise<Case> {
     try {
       // Get current case
       const currentCase = await this.dataService.getCase(caseId);
@@ -205,15 +365,17 @@ export class CaseService {
 
       // Validate status transition
       this.validateStatusTransition(currentCase.status, newStatus);
+      this.validateDecision(currentCase, newStatus, userRole);
 
       // Determine new process step based on status
-      const newStep = this.determineProcessStep(newStatus, currentCase.currentStep);
+      const newStep = this.determineProcessStep(currentCase, newStatus);
 
       // Update case in database
       await this.dataService.updateCase(caseId, {
         status: newStatus,
         currentStep: newStep,
-        updatedAt: new Date()
+        updatedAt: new Date(),
+        expectedVersion
       });
 
       // Log status change activity
@@ -241,6 +403,9 @@ export class CaseService {
             error: aiError instanceof Error ? aiError.message : 'Unknown AI error'
           }, userId);
         }
+
+        // Re-read so the returned case includes the new summary and any audit entries written above
+        return (await this.dataService.getCase(caseId)) || updatedCase;
       }
 
       return updatedCase;
@@ -250,10 +415,91 @@ export class CaseService {
   }
 
   /**
-   * Add a note to a case with automatic AI summary update
+   * Move a case to another process step according to its workflow definition
+   * Requirements: 1.6, 2.3
+   */
+  async transitionStep(caseId: string, targetStep: ProcessStep, userId: string, userRole: UserRole, reason?: string, expectedVersion?: number): Promise<Case> {
+    try {
+      // Get current case
+      const currentCase = await this.dataService.getCase(caseId);
+      if (!currentCase) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
+
+      // Enforce the workflow definition: transition exists, role is permitted and guards pass
+      const evaluation = this.evaluateStepTransition(currentCase, targetStep, userRole);
+      if (!evaluation.allowed) {
+        throw new Error(this.describeBlockedTransition(currentCase.currentStep, evaluation, userRole));
+      }
+
+      await this.dataService.updateCase(caseId, {
+        currentStep: targetStep,
+        expectedVersion
+      });
+
+      // Log step transition activity
+      await this.logActivity(caseId, 'step_transitioned', {
+        workflowId: this.workflowService.getWorkflowForCase(currentCase).id,
+        previousStep: currentCase.currentStep,
+        newStep: targetStep,
+        userRole,
+        ...(reason && { reason })
+      }, userId);
+
+      const updatedCase = await this.dataService.getCase(caseId);
+      if (!updatedCase) {
+        throw new Error('Failed to retrieve updated case');
+      }
+
+      return updatedCase;
+    } catch (error) {
+      throw new Error(`Failed to transition case step: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the workflow definition that governs a case
+   */
+  getWorkflowForCase(caseData: Case): WorkflowDefinition {
+    return this.workflowService.getWorkflowForCase(caseData);
+  }
+
+  /**
+   * Evaluate a single step transition for a user role without performing it. Terminal steps are reached
+   * by recording a decision status, never by a step move.
+   */
+  evaluateStepTransition(caseData: Case, targetStep: ProcessStep, userRole: UserRole): StepTransitionEvaluation {
+    const evaluation = this.workflowService.evaluateTransition(caseData, targetStep, userRole);
+    return this.isTerminalStep(caseData, targetStep)
+      ? { ...evaluation, allowed: false, reason: 'invalid_transition', failedGuards: [] }
+      : evaluation;
+  }
+
+  /**
+   * Evaluate every step transition leaving the case's current step for a user role, except the decision
+   */
+  getAvailableStepTransitions(caseData: Case, userRole: UserRole): StepTransitionEvaluation[] {
+    return this.workflowService.getAvailableTransitions(caseData, userRole)
+      .filter(evaluation => !this.isTerminalStep(caseData, evaluation.to));
+  }
+
+  /**
+   * Evaluate recording a decision status for a user role: the case must be able to take the workflow
+   * transition into the step the decision maps to. Null for statuses that are not decisions.
+   */
+  evaluateDecision(caseData: Case, status: CaseStatus, userRole: UserRole): StepTransitionEvaluation | null {
+    if (!DECISION_STATUSES.includes(status)) {
+      return null;
+    }
+    return this.workflowService.evaluateTransition(caseData, this.determineProcessStep(caseData, status), userRole);
+  }
+
+  /**
+   * Add a note to a case with automatic AI summary update. A reply joins the thread of the note it answers,
+   * and users @mentioned in the note are notified.
    * Requirements: 2.4
    */
-  async addCaseNote(caseId: string, note: string, userId: string): Promise<Case> {
+  async addCaseNote(caseId: string, note: string, userId: string, options: CaseNoteOptions = {}): Promise<Case> {
     try {
       // Validate inputs
       if (!note.trim()) {
@@ -266,13 +512,35 @@ export class CaseService {
         throw new Error(`Case with ID ${caseId} not found`);
       }
 
+      // Threads are one level deep: replying to a reply answers its thread
+      let parentId: string | undefined;
+      if (options.parentId) {
+        const parent = await this.getRequiredNote(caseId, options.parentId);
+        if (parent.deletedAt) {
+          throw new Error('Cannot reply to a deleted note');
+        }
+        parentId = parent.parentId ?? parent.id;
+      }
+
       // Add note to database
-      await this.dataService.addCaseNote(caseId, note.trim(), userId);
+      const noteId = await this.dataService.addCaseNote(caseId, note.trim(), userId, {
+        ...options,
+        ...(parentId && { parentId })
+      });
+      const mentions = await this.dataService.addNoteMentions(
+        noteId,
+        this.userDirectoryService.resolveMentions(note, userId),
+        userId
+      );
 
       // Log note addition activity
       await this.logActivity(caseId, 'note_added', {
         noteLength: note.trim().length,
-        addedBy: userId
+        addedBy: userId,
+        ...(parentId && { parentId }),
+        ...(options.category && { category: options.category }),
+        ...(options.visibility && { visibility: options.visibility }),
+        ...(mentions.length > 0 && { mentions })
       }, userId);
 
       // Get updated case with new note
@@ -305,240 +573,1514 @@ export class CaseService {
   }
 
   /**
-   * Get a case by ID
-   * Requirements: 4.3
+   * Edit a note's content, category or visibility. Only the author may edit a note;
+   * content changes are kept as note revisions.
    */
-  async getCaseById(caseId: string): Promise<Case | null> {
+  async editCaseNote(caseId: string, noteId: string, update: CaseNoteUpdate, userId: string): Promise<Case> {
     try {
-      return await this.dataService.getCase(caseId);
+      const note = await this.getRequiredNote(caseId, noteId);
+      if (note.deletedAt) {
+        throw new Error('Note has been deleted');
+      }
+      if (note.createdBy !== userId) {
+        throw new Error('Only the note author can edit it');
+      }
+
+      const content = update.content?.trim();
+      if (content !== undefined && !content) {
+        throw new Error('Note content cannot be empty');
+      }
+
+      const changed = {
+        ...(content !== undefined && content !== note.content && { content }),
+        ...(update.category && update.category !== note.category && { category: update.category }),
+        ...(update.visibility && update.visibility !== note.visibility && { visibility: update.visibility })
+      };
+      if (Object.keys(changed).length === 0) {
+        throw new Error('No changes to note');
+      }
+
+      await this.dataService.updateCaseNote(note, changed, this.createActivity(caseId, 'note_edited', {
+        noteId,
+        fields: Object.keys(changed),
+        ...(changed.category && { category: changed.category }),
+        ...(changed.visibility && { visibility: changed.visibility })
+      }, userId));
+
+      // Users first mentioned in the edited content are notified too
+      if (changed.content) {
+        await this.dataService.addNoteMentions(noteId, this.userDirectoryService.resolveMentions(changed.content, userId), userId);
+      }
+
+      return await this.getRequiredCase(caseId);
     } catch (error) {
-      throw new Error(`Failed to get case: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to edit case note: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get cases by status
-   * Requirements: 4.3
+   * Soft delete a note with a reason. Authors may delete their own notes, supervisors and admins any note.
    */
-  async getCasesByStatus(status: CaseStatus): Promise<Case[]> {
+  async deleteCaseNote(caseId: string, noteId: string, userId: string, userRole: UserRole, reason: string): Promise<Case> {
     try {
-      return await this.dataService.getCasesByStatus(status);
+      const note = await this.getRequiredNote(caseId, noteId);
+      if (note.deletedAt) {
+        throw new Error('Note has been deleted');
+      }
+      if (note.createdBy !== userId && !NOTE_MODERATOR_ROLES.includes(userRole)) {
+        throw new Error('Only the note author, a supervisor or an admin can delete it');
+      }
+      if (!reason.trim()) {
+        throw new Error('Deletion reason is required');
+      }
+
+      await this.dataService.deleteCaseNote(note, reason.trim(), this.createActivity(caseId, 'note_deleted', {
+        noteId,
+        reason: reason.trim()
+      }, userId));
+
+      return await this.getRequiredCase(caseId);
     } catch (error) {
-      throw new Error(`Failed to get cases by status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to delete case note: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get all cases with optional filtering and pagination
-   * Requirements: 1.1, 1.2
+   * Get the content history of a note, oldest first; notes that were never edited have none
    */
-  async getAllCases(params?: {
-    status?: string;
-    page?: number;
-    limit?: number;
-  }): Promise<{ cases: Case[]; total: number; page: number; limit: number }> {
+  async getCaseNoteRevisions(caseId: string, noteId: string): Promise<CaseNoteRevision[]> {
     try {
-      const { status, page = 1, limit = 10 } = params || {};
-      
-      // Get all cases from database
-      const allCases = await this.dataService.getAllCases();
-      
-      // Filter by status if provided
-      let filteredCases = allCases;
-      if (status) {
-        const statusEnum = status as CaseStatus;
-        filteredCases = allCases.filter(case_ => case_.status === statusEnum);
-      }
-      
-      // Calculate pagination
-      const total = filteredCases.length;
-      const startIndex = (page - 1) * limit;
-      const endIndex = startIndex + limit;
-      const paginatedCases = filteredCases.slice(startIndex, endIndex);
-      
-      return {
-        cases: paginatedCases,
-        total,
-        page,
-        limit
-      };
+      await this.getRequiredNote(caseId, noteId);
+      return await this.dataService.getCaseNoteRevisions(noteId);
     } catch (error) {
-      throw new Error(`Failed to get all cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to get case note revisions: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Private helper methods
-
   /**
-   * Extract and normalize application data
-   * Requirements: 1.1, 1.2
+   * Notes in which a user was @mentioned, newest first, with the number still unread
    */
-  private extractApplicationData(rawApplicationData: ApplicationData): ApplicationData {
-    // Normalize and clean application data
-    const extractedData: ApplicationData = {
-      applicantName: rawApplicationData.applicantName?.trim() || '',
-      applicantEmail: rawApplicationData.applicantEmail?.trim().toLowerCase() || '',
-      applicationType: rawApplicationData.applicationType?.trim() || '',
-      submissionDate: rawApplicationData.submissionDate || new Date(),
-      documents: rawApplicationData.documents || [],
-      formData: this.normalizeFormData(rawApplicationData.formData || {})
-    };
-
-    return extractedData;
+  async getUserMentions(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<{
+    mentions: MentionNotification[];
+    unreadCount: number;
+  }> {
+    return this.dataService.getMentionsForUser(userId, options);
   }
 
   /**
-   * Normalize form data by cleaning and standardizing values
+   * Mark a user's mentions read, or all of them when no IDs are given
    */
-  private normalizeFormData(formData: Record<string, unknown>): Record<string, unknown> {
-    const normalized: Record<string, unknown> = {};
-
-    for (const [key, value] of Object.entries(formData)) {
-      if (value !== null && value !== undefined) {
-        if (typeof value === 'string') {
-          const trimmed = value.trim();
-          if (trimmed.length > 0) {
-            normalized[key] = trimmed;
-          }
-        } else if (typeof value === 'number' && !isNaN(value)) {
-          normalized[key] = value;
-        } else if (typeof value === 'boolean') {
-          normalized[key] = value;
-        } else if (Array.isArray(value) && value.length > 0) {
-          normalized[key] = value;
-        } else if (typeof value === 'object' && Object.keys(value).length > 0) {
-          normalized[key] = value;
-        }
-      }
-    }
-
-    return normalized;
+  async markMentionsRead(userId: string, mentionIds?: string[]): Promise<number> {
+    return this.dataService.markMentionsRead(userId, mentionIds);
   }
 
   /**
-   * Generate a case note for missing fields
-   * Requirements: 1.5, 2.6
+   * Assign an unassigned case to a caseworker
    */
-  private generateMissingFieldsNote(missingFieldsAnalysis: import('../types/index.js').MissingFieldsAnalysis): string {
-    const requiredFields = missingFieldsAnalysis.missingFields.filter(f => f.importance === 'required');
-    const recommendedFields = missingFieldsAnalysis.missingFields.filter(f => f.importance === 'recommended');
-    const optionalFields = missingFieldsAnalysis.missingFields.filter(f => f.importance === 'optional');
-
-    let note = `**Missing Fields Analysis** (Completeness Score: ${(missingFieldsAnalysis.completenessScore * 100).toFixed(1)}%)\n\n`;
+  async assignCase(caseId: string, assigneeId: string, userId: string, expectedVersion?: number): Promise<Case> {
+    try {
+      const currentCase = await this.dataService.getCase(caseId);
+      if (!currentCase) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
 
-    if (requiredFields.length > 0) {
-      note += `**Required Fields Missing:**\n`;
-      requiredFields.forEach(field => {
-        note += `- ${field.fieldName} (${field.fieldType}): ${field.suggestedAction}\n`;
-      });
-      note += '\n';
-    }
+      if (currentCase.assignedTo) {
+        throw new Error(`Case is already assigned to ${currentCase.assignedTo}`);
+      }
 
-    if (recommendedFields.length > 0) {
-      note += `**Recommended Fields Missing:**\n`;
-      recommendedFields.forEach(field => {
-        note += `- ${field.fieldName} (${field.fieldType}): ${field.suggestedAction}\n`;
-      });
-      note += '\n';
-    }
+      await this.dataService.updateCase(caseId, { assignedTo: assigneeId, expectedVersion });
 
-    if (optionalFields.length > 0) {
-      note += `**Optional Fields Missing:**\n`;
-      optionalFields.forEach(field => {
-        note += `- ${field.fieldName} (${field.fieldType}): ${field.suggestedAction}\n`;
-      });
-      note += '\n';
-    }
+      await this.logActivity(caseId, 'case_assigned', {
+        assignedTo: assigneeId
+      }, userId);
 
-    if (missingFieldsAnalysis.priorityActions.length > 0) {
-      note += `**Priority Actions:**\n`;
-      missingFieldsAnalysis.priorityActions.forEach(action => {
-        note += `- ${action}\n`;
-      });
-      note += '\n';
+      return await this.getRequiredCase(caseId);
+    } catch (error) {
+      throw new Error(`Failed to assign case: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-
-    note += `**Estimated Completion Time:** ${missingFieldsAnalysis.estimatedCompletionTime}\n`;
-    note += `**Analysis Generated:** ${missingFieldsAnalysis.analysisTimestamp.toISOString()}`;
-
-    return note;
   }
 
   /**
-   * Validate application data before case creation
+   * Move an assigned case to a different caseworker
    */
-  private validateApplicationData(applicationData: ApplicationData): void {
-    if (!applicationData.applicantName?.trim()) {
-      throw new Error('Applicant name is required');
-    }
+  async reassignCase(caseId: string, assigneeId: string, userId: string, reason?: string, expectedVersion?: number): Promise<Case> {
+    try {
+      const currentCase = await this.dataService.getCase(caseId);
+      if (!currentCase) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
 
-    if (!applicationData.applicantEmail?.trim()) {
-      throw new Error('Applicant email is required');
-    }
+      if (!currentCase.assignedTo) {
+        throw new Error('Case is not assigned');
+      }
 
-    if (!this.isValidEmail(applicationData.applicantEmail)) {
-      throw new Error('Invalid email format');
-    }
+      if (currentCase.assignedTo === assigneeId) {
+        throw new Error(`Case is already assigned to ${assigneeId}`);
+      }
 
-    if (!applicationData.applicationType?.trim()) {
-      throw new Error('Application type is required');
-    }
+      await this.dataService.updateCase(caseId, { assignedTo: assigneeId, expectedVersion });
 
-    if (!applicationData.submissionDate) {
-      throw new Error('Submission date is required');
-    }
+      await this.logActivity(caseId, 'case_reassigned', {
+        previousAssignee: currentCase.assignedTo,
+        assignedTo: assigneeId,
+        ...(reason && { reason })
+      }, userId);
 
-    if (applicationData.submissionDate > new Date()) {
-      throw new Error('Submission date cannot be in the future');
+      return await this.getRequiredCase(caseId);
+    } catch (error) {
+      throw new Error(`Failed to reassign case: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Validate email format
+   * Analyze the application of an existing case and seed its priority from the analysis. Cases created
+   * without AI get their priority this way; a priority already set is never overwritten.
    */
-  private isValidEmail(email: string): boolean {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
+  async analyzeCasePriority(caseId: string, userId: string): Promise<{
+    case: Case;
+    analysis: import('../types/index.js').ApplicationAnalysis;
+  }> {
+    try {
+      const currentCase = await this.dataService.getCase(caseId);
+      if (!currentCase) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
+
+      const analysis = await this.aiService.analyzeApplication(currentCase.applicationData);
+      await this.seedPriority(currentCase, analysis, userId);
+
+      return { case: await this.getRequiredCase(caseId), analysis };
+    } catch (error) {
+      throw new Error(`Failed to analyze case priority: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
   /**
-   * Validate case status transitions based on workflow logic
+   * Override the priority of a case; the reason is kept in the audit trail
    */
-  private validateStatusTransition(currentStatus: CaseStatus, newStatus: CaseStatus): void {
-    const validTransitions: Record<CaseStatus, CaseStatus[]> = {
-      [CaseStatus.ACTIVE]: [CaseStatus.PENDING, CaseStatus.APPROVED, CaseStatus.DENIED, CaseStatus.WITHDRAWN],
-      [CaseStatus.PENDING]: [CaseStatus.ACTIVE, CaseStatus.APPROVED, CaseStatus.DENIED, CaseStatus.WITHDRAWN],
-      [CaseStatus.APPROVED]: [CaseStatus.ARCHIVED],
-      [CaseStatus.DENIED]: [CaseStatus.ARCHIVED],
-      [CaseStatus.WITHDRAWN]: [CaseStatus.ARCHIVED],
-      [CaseStatus.ARCHIVED]: [] // No transitions from archived
-    };
+  async updateCasePriority(caseId: string, priority: CasePriority, userId: string, reason: string, expectedVersion?: number): Promise<Case> {
+    try {
+      const currentCase = await this.dataService.getCase(caseId);
+      if (!currentCase) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
 
-    const allowedTransitions = validTransitions[currentStatus] || [];
+      if (currentCase.priority === priority) {
+        throw new Error(`Case priority is already ${priority}`);
+      }
 
-    if (!allowedTransitions.includes(newStatus)) {
-      throw new Error(`Invalid status transition from ${currentStatus} to ${newStatus}`);
+      await this.dataService.updateCase(caseId, { priority, expectedVersion });
+
+      await this.logActivity(caseId, 'priority_changed', {
+        ...(currentCase.priority && { previousPriority: currentCase.priority }),
+        priority,
+        reason
+      }, userId);
+
+      return await this.getRequiredCase(caseId);
+    } catch (error) {
+      throw new Error(`Failed to update case priority: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  /**
-   * Determine process step based on case status
+  // Set the priority suggested by an application analysis on a case that has none yet
+  private async seedPriority(caseData: Case, analysis: import('../types/index.js').ApplicationAnalysis, userId: string): Promise<void> {
+    if (caseData.priority) {
+      return;
+    }
+
+    await this.dataService.updateCase(caseData.id, { priority: analysis.priorityLevel });
+    await this.logActivity(caseData.id, 'priority_changed', {
+      priority: analysis.priorityLevel,
+      reason: 'Seeded from the application analysis'
+    }, userId);
+  }
+
+  /**
+   * Soft-delete a case: it disappears from lists, search and lookups but keeps its history until restored
+   */
+  async deleteCase(caseId: string, userId: string, reason?: string, expectedVersion?: number): Promise<Case> {
+    try {
+      const currentCase = await this.dataService.getCase(caseId);
+      if (!currentCase) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
+
+      if (currentCase.deletedAt) {
+        throw new Error('Case is already deleted');
+      }
+
+      await this.dataService.updateCase(caseId, { deletedAt: new Date(), deletedBy: userId, expectedVersion });
+
+      await this.logActivity(caseId, 'case_deleted', {
+        ...(reason && { reason })
+      }, userId);
+
+      return await this.getRequiredCase(caseId);
+    } catch (error) {
+      throw new Error(`Failed to delete case: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Restore a soft-deleted case
+   */
+  async restoreCase(caseId: string, userId: string, reason?: string, expectedVersion?: number): Promise<Case> {
+    try {
+      const currentCase = await this.dataService.getCase(caseId);
+      if (!currentCase) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
+
+      if (!currentCase.deletedAt) {
+        throw new Error('Case is not deleted');
+      }
+
+      await this.dataService.updateCase(caseId, { deletedAt: null, deletedBy: null, expectedVersion });
+
+      await this.logActivity(caseId, 'case_restored', {
+        deletedAt: currentCase.deletedAt.toISOString(),
+        deletedBy: currentCase.deletedBy,
+        ...(reason && { reason })
+      }, userId);
+
+      return await this.getRequiredCase(caseId);
+    } catch (error) {
+      throw new Error(`Failed to restore case: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove the assignment from a case, returning it to the unassigned queue
+   */
+  async unassignCase(caseId: string, userId: string, reason?: string, expectedVersion?: number): Promise<Case> {
+    try {
+      const currentCase = await this.dataService.getCase(caseId);
+      if (!currentCase) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
+
+      if (!currentCase.assignedTo) {
+        throw new Error('Case is not assigned');
+      }
+
+      await this.dataService.updateCase(caseId, { assignedTo: null, expectedVersion });
+
+      await this.logActivity(caseId, 'case_unassigned', {
+        previousAssignee: currentCase.assignedTo,
+        ...(reason && { reason })
+      }, userId);
+
+      return await this.getRequiredCase(caseId);
+    } catch (error) {
+      throw new Error(`Failed to unassign case: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Put a tag on a case
+   */
+  async addCaseTag(caseId: string, tagId: string, userId: string, expectedVersion?: number): Promise<Case> {
+    try {
+      return await this.changeCaseTag(caseId, tagId, 'add', userId, expectedVersion);
+    } catch (error) {
+      throw new Error(`Failed to add tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Take a tag off a case
+   */
+  async removeCaseTag(caseId: string, tagId: string, userId: string, expectedVersion?: number): Promise<Case> {
+    try {
+      return await this.changeCaseTag(caseId, tagId, 'remove', userId, expectedVersion);
+    } catch (error) {
+      throw new Error(`Failed to remove tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Apply a status change, assignment or tag change to many cases at once.
+   * Every case is validated like a single update, including the workflow check on decisions; the valid changes are then written in one
+   * transaction and each case gets its own result. Bulk status changes do not regenerate AI summaries.
+   */
+  async bulkUpdateCases(
+    caseIds: string[],
+    operation: BulkCaseOperation,
+    userId: string,
+    userRole: UserRole = 'caseworker'
+  ): Promise<BulkCaseResult> {
+    try {
+      const uniqueIds = [...new Set(caseIds)];
+      const errors = new Map<string, string>();
+      const changes: CaseChange[] = [];
+      const tag = operation.type === 'add_tag' || operation.type === 'remove_tag'
+        ? await this.getRequiredTag(operation.tagId)
+        : undefined;
+
+      for (const caseId of uniqueIds) {
+        try {
+          const currentCase = await this.dataService.getCase(caseId);
+          if (!currentCase || currentCase.deletedAt) {
+            throw new Error(`Case with ID ${caseId} not found`);
+          }
+          changes.push(this.planBulkChange(currentCase, operation, userId, userRole, tag));
+        } catch (error) {
+          errors.set(caseId, error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+
+      if (changes.length > 0) {
+        try {
+          await this.dataService.applyCaseChanges(changes);
+        } catch (error) {
+          // The transaction was rolled back, so none of the planned changes were kept
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          changes.forEach(change => errors.set(change.caseId, message));
+        }
+      }
+
+      const results: BulkCaseItemResult[] = uniqueIds.map(caseId => {
+        const error = errors.get(caseId);
+        return error ? { caseId, success: false, error } : { caseId, success: true };
+      });
+
+      return {
+        results,
+        succeeded: results.filter(result => result.success).length,
+        failed: errors.size
+      };
+    } catch (error) {
+      throw new Error(`Failed to apply bulk operation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Correct the applicant's details or form data. The merged data is validated like a new application,
+   * stored as a new revision and audited with a field-level diff.
+   */
+  async updateApplicationData(caseId: string, update: ApplicationDataUpdate, userId: string, reason?: string, expectedVersion?: number): Promise<Case> {
+    try {
+      const currentCase = await this.dataService.getCase(caseId);
+      if (!currentCase) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
+
+      // Only the edited values are normalized; a null or blank form value removes the field
+      const formData: Record<string, unknown> = { ...currentCase.applicationData.formData };
+      const formDataUpdate = update.formData || {};
+      const normalizedFormData = this.normalizeFormData(formDataUpdate);
+      Object.keys(formDataUpdate).forEach(key => {
+        if (key in normalizedFormData) {
+          formData[key] = normalizedFormData[key];
+        } else {
+          delete formData[key];
+        }
+      });
+
+      const applicationData: ApplicationData = {
+        ...currentCase.applicationData,
+        ...(update.applicantName !== undefined && { applicantName: update.applicantName.trim() }),
+        ...(update.applicantEmail !== undefined && { applicantEmail: update.applicantEmail.trim().toLowerCase() }),
+        ...(update.submissionDate && { submissionDate: update.submissionDate }),
+        formData
+      };
+      this.validateApplicationData(applicationData);
+
+      return await this.saveApplicationRevision(currentCase, applicationData, 'application_updated', userId, { reason, expectedVersion });
+    } catch (error) {
+      throw new Error(`Failed to update application data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Store an uploaded file and add it to the case's application documents as a new revision.
+   * The file must pass the storage size and type checks; its recorded type is the one sniffed from its contents.
+   * Files the malware scanner flags are quarantined instead: the returned document is marked infected and
+   * the application data is left unchanged. The document type must be one of the application type's required
+   * documents; a replacement keeps the type of the upload it replaces unless another is given.
+   */
+  async uploadDocument(
+    caseId: string,
+    file: {
+      content: Buffer;
+      filename: string;
+      description?: string | undefined;
+      documentType?: string | undefined;
+      replacesDocumentId?: string | undefined;
+    },
+    userId: string
+  ): Promise<{ case: Case; document: CaseDocumentRecord }> {
+    try {
+      const currentCase = await this.dataService.getCase(caseId);
+      if (!currentCase) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
+
+      const replaced = file.replacesDocumentId ? await this.getRequiredDocument(caseId, file.replacesDocumentId) : undefined;
+      if (replaced?.reviewStatus === 'replaced') {
+        throw new Error(`Document ${replaced.filename} has already been replaced`);
+      }
+
+      // Keep only the base name; browsers may send a full client path
+      const filename = file.filename.split(/[\\/]/).pop()?.trim().slice(0, 255);
+      if (!filename) {
+        throw new Error('Filename is required');
+      }
+
+      const documentType = file.documentType?.trim() || replaced?.documentType;
+      if (documentType) {
+        this.validateDocumentType(documentType, currentCase.applicationData.applicationType);
+      }
+
+      const scan = await this.scanForMalware(file.content);
+      if (scan?.infected) {
+        return await this.quarantineDocument(caseId, { ...file, filename, documentType }, scan, userId);
+      }
+
+      const stored = await this.documentStorageService.store(file.content);
+      const document: CaseDocumentRecord = {
+        id: randomUUID(),
+        caseId,
+        filename,
+        mimeType: stored.mimeType,
+        size: stored.size,
+        checksum: stored.checksum,
+        storageKey: stored.storageKey,
+        ...(file.description?.trim() && { description: file.description.trim() }),
+        ...(documentType && { documentType }),
+        uploadedBy: userId,
+        uploadedAt: new Date(),
+        reviewStatus: 'pending',
+        ...(replaced && { replacesDocumentId: replaced.id }),
+        scanStatus: scan ? 'clean' : 'not_scanned',
+        ...(scan && { scannedAt: new Date() })
+      };
+
+      const applicationData: ApplicationData = {
+        ...currentCase.applicationData,
+        documents: [...currentCase.applicationData.documents, {
+          id: document.id,
+          filename,
+          path: document.storageKey,
+          uploadedAt: document.uploadedAt,
+          size: document.size,
+          mimeType: document.mimeType
+        }]
+      };
+
+      // The replaced upload stays on the case for the record but no longer needs review
+      const replacedReview: CaseDocumentReview | undefined = replaced && {
+        id: randomUUID(),
+        documentId: replaced.id,
+        status: 'replaced',
+        reason: `Replaced by ${filename}`,
+        ...(replaced.expiryDate && { expiryDate: replaced.expiryDate }),
+        reviewedBy: userId,
+        reviewedAt: document.uploadedAt
+      };
+
+      const updatedCase = await this.saveApplicationRevision(currentCase, applicationData, 'document_uploaded', userId, {
+        document,
+        ...(replacedReview && { replacedReview })
+      });
+      await this.storeDocumentText(document, file.content);
+      return { case: updatedCase, document };
+    } catch (error) {
+      throw new Error(`Failed to upload document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * An uploaded file and where its contents are stored. The document must belong to the case.
+   */
+  async getDocumentContent(caseId: string, documentId: string): Promise<{ document: CaseDocumentRecord; filePath: string }> {
+    try {
+      const document = await this.getRequiredDocument(caseId, documentId);
+      if (document.scanStatus === 'infected') {
+        throw new Error(`Document ${document.filename} is quarantined because malware was detected`);
+      }
+      if (document.storageKey === REDACTED) {
+        throw new Error(`Document ${document.id} was erased on a data subject request`);
+      }
+      return { document, filePath: this.documentStorageService.getFilePath(document.storageKey) };
+    } catch (error) {
+      throw new Error(`Failed to get document content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Accept, reject or ask for a replacement of an uploaded document, optionally recording its expiry date.
+   * Rejections and replacement requests need a reason.
+   */
+  async reviewDocument(caseId: string, documentId: string, input: DocumentReviewInput, userId: string): Promise<CaseDocumentRecord> {
+    try {
+      const document = await this.getRequiredDocument(caseId, documentId);
+      if (document.reviewStatus === 'replaced') {
+        throw new Error(`Document ${document.filename} has been replaced and can no longer be reviewed`);
+      }
+      if (document.scanStatus === 'infected') {
+        throw new Error(`Document ${document.filename} is quarantined and cannot be reviewed`);
+      }
+
+      const reason = input.reason?.trim();
+      if (input.status !== 'accepted' && !reason) {
+        throw new Error(`A reason is required when a document is ${input.status === 'rejected' ? 'rejected' : 'sent back for replacement'}`);
+      }
+      const expiryDate = input.expiryDate === undefined ? document.expiryDate : input.expiryDate ?? undefined;
+
+      if (input.status === document.reviewStatus && reason === document.reviewReason && expiryDate === document.expiryDate) {
+        throw new Error('No changes to document review');
+      }
+
+      const review: CaseDocumentReview = {
+        id: randomUUID(),
+        documentId,
+        status: input.status,
+        ...(reason && { reason }),
+        ...(expiryDate && { expiryDate }),
+        reviewedBy: userId,
+        reviewedAt: new Date()
+      };
+
+      await this.dataService.reviewDocument(review, this.createActivity(caseId, 'document_reviewed', {
+        documentId,
+        filename: document.filename,
+        previousStatus: document.reviewStatus,
+        status: review.status,
+        ...(reason && { reason }),
+        ...(expiryDate !== document.expiryDate && { expiryDate: expiryDate ?? null })
+      }, userId));
+
+      return await this.getRequiredDocument(caseId, documentId);
+    } catch (error) {
+      throw new Error(`Failed to review document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Review history of a document of the case, oldest first
+   */
+  async getDocumentReviews(caseId: string, documentId: string): Promise<CaseDocumentReview[]> {
+    try {
+      await this.getRequiredDocument(caseId, documentId);
+      return await this.dataService.getDocumentReviews(documentId);
+    } catch (error) {
+      throw new Error(`Failed to get document reviews: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Files uploaded to a case, oldest first
+   */
+  async getCaseDocuments(caseId: string): Promise<CaseDocumentRecord[]> {
+    try {
+      return await this.dataService.getCaseDocuments(caseId);
+    } catch (error) {
+      throw new Error(`Failed to get case documents: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the stored versions of a case's application data, oldest first
+   */
+  async getApplicationRevisions(caseId: string): Promise<ApplicationRevision[]> {
+    try {
+      return await this.dataService.getApplicationRevisions(caseId);
+    } catch (error) {
+      throw new Error(`Failed to get application revisions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Bring back the application data of an earlier revision. The restore is itself stored as a new revision,
+   * so history is never rewritten. Restored data is not re-validated: it was accepted when first saved.
+   * Documents are not restored: files uploaded since that revision stay on the case.
+   */
+  async restoreApplicationRevision(caseId: string, version: number, userId: string, reason?: string, expectedVersion?: number): Promise<Case> {
+    try {
+      const currentCase = await this.dataService.getCase(caseId);
+      if (!currentCase) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
+
+      const revisions = await this.dataService.getApplicationRevisions(caseId);
+      const revision = revisions.find(candidate => candidate.version === version);
+      if (!revision) {
+        throw new Error(`Revision ${version} not found for case ${caseId}`);
+      }
+
+      const applicationData: ApplicationData = { ...revision.applicationData, documents: currentCase.applicationData.documents };
+      return await this.saveApplicationRevision(currentCase, applicationData, 'application_restored', userId, {
+        reason,
+        restoredFrom: version,
+        expectedVersion
+      });
+    } catch (error) {
+      throw new Error(`Failed to restore application revision: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find existing cases that may be duplicates of this one: same applicant by email or by similar name
+   * and date of birth, with resubmissions of the same application type listed first
+   */
+  async findDuplicates(caseId: string): Promise<DuplicateMatch[]> {
+    try {
+      const caseData = await this.dataService.getCase(caseId);
+      if (!caseData) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
+
+      const now = new Date();
+      const matches = await this.duplicateDetectionService.findDuplicates(caseData.applicationData, caseData.createdAt, caseId);
+      return matches.map(match => ({ ...match, case: this.withSla(match.case, now) }));
+    } catch (error) {
+      throw new Error(`Failed to find duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Merge a duplicate case into the surviving case. The duplicate's notes, uploads with their reviews, tags,
+   * links and audit history move to the surviving case, documents it lacks are added as a new application
+   * revision, and the duplicate is withdrawn and marked as merged.
+   */
+  async mergeCases(survivingCaseId: string, mergedCaseId: string, userId: string, reason?: string, expectedVersion?: number): Promise<CaseMergeResult> {
+    try {
+      if (survivingCaseId === mergedCaseId) {
+        throw new Error('A case cannot be merged into itself');
+      }
+
+      const survivingCase = await this.dataService.getCase(survivingCaseId);
+      if (!survivingCase) {
+        throw new Error(`Case with ID ${survivingCaseId} not found`);
+      }
+      const mergedCase = await this.dataService.getCase(mergedCaseId);
+      if (!mergedCase) {
+        throw new Error(`Case with ID ${mergedCaseId} not found`);
+      }
+
+      for (const caseData of [survivingCase, mergedCase]) {
+        if (caseData.mergedInto) {
+          throw new Error(`Case ${caseData.id} has already been merged into ${caseData.mergedInto}`);
+        }
+      }
+      if (![CaseStatus.ACTIVE, CaseStatus.PENDING].includes(mergedCase.status)) {
+        throw new Error(`Only open cases can be merged; case ${mergedCaseId} is ${mergedCase.status}`);
+      }
+
+      const documentKey = (document: CaseDocument) => document.id || `${document.filename}:${document.size}`;
+      const existingDocuments = new Set(survivingCase.applicationData.documents.map(documentKey));
+      const addedDocuments = mergedCase.applicationData.documents.filter(document => !existingDocuments.has(documentKey(document)));
+
+      const notesMoved = mergedCase.notes.length;
+      const auditEntriesMoved = mergedCase.auditTrail.length;
+      let revision: ApplicationRevision | undefined;
+
+      if (addedDocuments.length > 0) {
+        const applicationData: ApplicationData = {
+          ...survivingCase.applicationData,
+          documents: [...survivingCase.applicationData.documents, ...addedDocuments]
+        };
+        const revisions = await this.dataService.getApplicationRevisions(survivingCaseId);
+        revision = {
+          id: randomUUID(),
+          caseId: survivingCaseId,
+          version: (revisions[revisions.length - 1]?.version || 0) + 1,
+          applicationData,
+          changes: diffApplicationData(survivingCase.applicationData, applicationData),
+          createdBy: userId,
+          createdAt: new Date()
+        };
+      }
+
+      await this.dataService.mergeCases({
+        survivingCaseId,
+        mergedCaseId,
+        expectedVersion,
+        ...(revision && { survivingCaseUpdates: { applicationData: revision.applicationData }, revision }),
+        mergedCaseUpdates: {
+          status: CaseStatus.WITHDRAWN,
+          currentStep: this.determineProcessStep(mergedCase, CaseStatus.WITHDRAWN),
+          mergedInto: survivingCaseId
+        },
+        activities: [
+          this.createActivity(survivingCaseId, 'case_merged', {
+            mergedCaseId,
+            notesMoved,
+            documentsAdded: addedDocuments.length,
+            auditEntriesMoved,
+            ...(revision && { revision: revision.version }),
+            ...(reason && { reason })
+          }, userId),
+          this.createActivity(mergedCaseId, 'case_merged_into', {
+            survivingCaseId,
+            previousStatus: mergedCase.status,
+            ...(reason && { reason })
+          }, userId)
+        ]
+      });
+
+      return {
+        case: this.withSla(await this.getRequiredCase(survivingCaseId)),
+        mergedCaseId,
+        notesMoved,
+        documentsAdded: addedDocuments.length,
+        auditEntriesMoved
+      };
+    } catch (error) {
+      throw new Error(`Failed to merge cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Links created on a case and links pointing at it, with the linked cases' final decisions
+   */
+  async getLinkedCases(caseId: string): Promise<LinkedCase[]> {
+    try {
+      const caseData = await this.dataService.getCase(caseId);
+      if (!caseData) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
+
+      return await this.dataService.getLinkedCases(caseId);
+    } catch (error) {
+      throw new Error(`Failed to get linked cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Link a case to another case, e.g. as an appeal or renewal of it. Appeals and renewals need a concluded
+   * case to continue, and the link is audited on both cases.
+   */
+  async linkCases(caseId: string, linkedCaseId: string, type: CaseLinkType, userId: string, note?: string): Promise<LinkedCase> {
+    try {
+      if (caseId === linkedCaseId) {
+        throw new Error('A case cannot be linked to itself');
+      }
+
+      const caseData = await this.dataService.getCase(caseId);
+      if (!caseData) {
+        throw new Error(`Case with ID ${caseId} not found`);
+      }
+      const linkedCase = await this.dataService.getCase(linkedCaseId);
+      if (!linkedCase) {
+        throw new Error(`Case with ID ${linkedCaseId} not found`);
+      }
+
+      const existingLinks = caseData.linkedCases || [];
+      const alreadyLinked = existingLinks.some(existing =>
+        existing.case.id === linkedCaseId &&
+        existing.link.type === type &&
+        (existing.direction === 'outgoing' || SYMMETRIC_LINK_TYPES.includes(type))
+      );
+      if (alreadyLinked) {
+        throw new Error(`Case ${caseId} is already linked to case ${linkedCaseId} as ${type}`);
+      }
+
+      if (DECISION_LINK_TYPES.includes(type)) {
+        if ([CaseStatus.ACTIVE, CaseStatus.PENDING].includes(linkedCase.status)) {
+          throw new Error(`Case ${linkedCaseId} has no final decision yet; it is ${linkedCase.status}`);
+        }
+        const continued = existingLinks.find(existing => existing.direction === 'outgoing' && existing.link.type === type);
+        if (continued) {
+          throw new Error(`Case ${caseId} is already linked as ${type} case ${continued.case.id}`);
+        }
+      }
+
+      const link: CaseLink = {
+        id: randomUUID(),
+        caseId,
+        linkedCaseId,
+        type,
+        ...(note && { note }),
+        createdBy: userId,
+        createdAt: new Date()
+      };
+
+      await this.dataService.saveCaseLink(link, [
+        this.createActivity(caseId, 'case_linked', {
+          linkId: link.id,
+          linkedCaseId,
+          linkType: type,
+          direction: 'outgoing',
+          ...(note && { note })
+        }, userId),
+        this.createActivity(linkedCaseId, 'case_linked', {
+          linkId: link.id,
+          linkedCaseId: caseId,
+          linkType: type,
+          direction: 'incoming',
+          ...(note && { note })
+        }, userId)
+      ]);
+
+      const savedLink = (await this.dataService.getLinkedCases(caseId)).find(existing => existing.link.id === link.id);
+      if (!savedLink) {
+        throw new Error('Failed to retrieve case link');
+      }
+      return savedLink;
+    } catch (error) {
+      throw new Error(`Failed to link cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a case by ID
+   * Requirements: 4.3
+   */
+  async getCaseById(caseId: string, options: { includeDeleted?: boolean } = {}): Promise<Case | null> {
+    try {
+      const caseData = await this.dataService.getCase(caseId);
+      if (!caseData || (caseData.deletedAt && !options.includeDeleted)) {
+        return null;
+      }
+      return this.withSla(caseData);
+    } catch (error) {
+      throw new Error(`Failed to get case: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get cases by status
+   * Requirements: 4.3
+   */
+  async getCasesByStatus(status: CaseStatus): Promise<Case[]> {
+    try {
+      return await this.dataService.getCasesByStatus(status);
+    } catch (error) {
+      throw new Error(`Failed to get cases by status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get all cases with optional filtering and pagination
+   * Requirements: 1.1, 1.2
+   */
+  async getAllCases(params?: {
+    status?: CaseStatus | undefined;
+    currentStep?: ProcessStep;
+    assignedTo?: string;
+    applicationType?: string;
+    priority?: CasePriority;
+    createdFrom?: Date;
+    createdTo?: Date;
+    tags?: string[];
+    deleted?: boolean;
+    overdue?: boolean;
+    dueSoon?: boolean;
+    sortBy?: CaseSortField;
+    sortOrder?: SortOrder;
+    page?: number;
+    limit?: number;
+  }): Promise<{ cases: CaseListItem[]; total: number; page: number; limit: number }> {
+    try {
+      const { status, overdue, dueSoon, page = 1, limit = 10, ...filters } = params || {};
+
+      // Evaluate every SLA against the same instant
+      const now = new Date();
+      const { cases, total } = await this.dataService.listCases({
+        ...filters,
+        ...(status && { status }),
+        ...((overdue !== undefined || dueSoon !== undefined) && {
+          sla: {
+            rules: this.slaService.getSlaRules(),
+            dueSoonHours: this.slaService.getDueSoonHours(),
+            now,
+            ...(overdue !== undefined && { overdue }),
+            ...(dueSoon !== undefined && { dueSoon })
+          }
+        }),
+        limit,
+        offset: (page - 1) * limit
+      });
+
+      return {
+        cases: cases.map(case_ => this.withSla(case_, now)),
+        total,
+        page,
+        limit
+      };
+    } catch (error) {
+      throw new Error(`Failed to get all cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Full-text search across applications, notes and AI summaries, ranked by relevance
+   */
+  async searchCases(query: string, params?: { page?: number; limit?: number }): Promise<{
+    results: CaseSearchResult[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    try {
+      const { page = 1, limit = 20 } = params || {};
+      const { results, total } = await this.dataService.searchCases(query, { limit, offset: (page - 1) * limit });
+
+      const now = new Date();
+      return {
+        results: results.map(result => ({ ...result, case: this.withSla(result.case, now) })),
+        total,
+        page,
+        limit
+      };
+    } catch (error) {
+      throw new Error(`Failed to search cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record an sla_breached audit entry for every open case that has overrun its step SLA.
+   * Each visit to a step is reported once; returns the number of new breaches.
+   */
+  async recordSlaBreaches(now: Date = new Date()): Promise<number> {
+    try {
+      const { cases } = await this.dataService.listCases({
+        sla: {
+          rules: this.slaService.getSlaRules(),
+          dueSoonHours: this.slaService.getDueSoonHours(),
+          now,
+          overdue: true
+        }
+      });
+      let recorded = 0;
+
+      for (const caseData of cases) {
+        const sla = this.slaService.getCaseSla(caseData, now);
+        if (!sla?.overdue) {
+          continue;
+        }
+
+        const stepEnteredAt = sla.stepEnteredAt.toISOString();
+        const previousBreaches = await this.dataService.getAuditTrail(caseData.id, { actions: ['sla_breached'] });
+        const alreadyRecorded = previousBreaches.some(entry => {
+          const details = entry.details ? JSON.parse(entry.details) : {};
+          return details.step === sla.step && details.stepEnteredAt === stepEnteredAt;
+        });
+        if (alreadyRecorded) {
+          continue;
+        }
+
+        await this.logActivity(caseData.id, 'sla_breached', {
+          step: sla.step,
+          stepEnteredAt,
+          dueAt: sla.dueAt.toISOString(),
+          slaHours: sla.slaHours,
+          assignedTo: caseData.assignedTo
+        }, 'system');
+        recorded++;
+      }
+
+      return recorded;
+    } catch (error) {
+      throw new Error(`Failed to record SLA breaches: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the statuses a case may move to from its current status
+   * Requirements: 1.6
+   */
+  getAllowedStatusTransitions(currentStatus: CaseStatus): CaseStatus[] {
+    return [...(STATUS_TRANSITIONS[currentStatus] || [])];
+  }
+
+  // Private helper methods
+
+  /**
+   * Attach the computed SLA state to a case
+   */
+  private withSla<T extends CaseListItem>(caseData: T, now: Date = new Date()): T {
+    const sla = this.slaService.getCaseSla(caseData, now);
+    return sla ? { ...caseData, sla } : caseData;
+  }
+
+  /**
+   * Validate one case of a bulk operation and describe the update and audit entry it needs
+   */
+  private planBulkChange(currentCase: Case, operation: BulkCaseOperation, userId: string, userRole: UserRole, tag?: Tag): CaseChange {
+    const caseId = currentCase.id;
+
+    switch (operation.type) {
+      case 'update_status': {
+        this.validateStatusTransition(currentCase.status, operation.status);
+        this.validateDecision(currentCase, operation.status, userRole);
+        const newStep = this.determineProcessStep(currentCase, operation.status);
+        return {
+          caseId,
+          updates: { status: operation.status, currentStep: newStep },
+          activities: [this.createActivity(caseId, 'status_updated', {
+            previousStatus: currentCase.status,
+            newStatus: operation.status,
+            previousStep: currentCase.currentStep,
+            newStep,
+            bulk: true
+          }, userId)]
+        };
+      }
+      case 'assign': {
+        if (currentCase.assignedTo === operation.assignedTo) {
+          throw new Error(`Case is already assigned to ${operation.assignedTo}`);
+        }
+        const activity = currentCase.assignedTo
+          ? this.createActivity(caseId, 'case_reassigned', {
+            previousAssignee: currentCase.assignedTo,
+            assignedTo: operation.assignedTo,
+            ...(operation.reason && { reason: operation.reason }),
+            bulk: true
+          }, userId)
+          : this.createActivity(caseId, 'case_assigned', {
+            assignedTo: operation.assignedTo,
+            bulk: true
+          }, userId);
+        return { caseId, updates: { assignedTo: operation.assignedTo }, activities: [activity] };
+      }
+      case 'unassign': {
+        if (!currentCase.assignedTo) {
+          throw new Error('Case is not assigned');
+        }
+        return {
+          caseId,
+          updates: { assignedTo: null },
+          activities: [this.createActivity(caseId, 'case_unassigned', {
+            previousAssignee: currentCase.assignedTo,
+            ...(operation.reason && { reason: operation.reason }),
+            bulk: true
+          }, userId)]
+        };
+      }
+      case 'add_tag':
+        return this.planTagChange(currentCase, tag!, 'add', userId, { bulk: true });
+      case 'remove_tag':
+        return this.planTagChange(currentCase, tag!, 'remove', userId, { bulk: true });
+    }
+  }
+
+  /**
+   * Check a case can gain or lose the tag and describe the change and its audit entry
+   */
+  private planTagChange(
+    currentCase: Case,
+    tag: Tag,
+    action: 'add' | 'remove',
+    userId: string,
+    details: Record<string, unknown> = {}
+  ): CaseChange {
+    const hasTag = (currentCase.tags || []).some(caseTag => caseTag.id === tag.id);
+    if (action === 'add' && hasTag) {
+      throw new Error(`Case is already tagged ${tag.name}`);
+    }
+    if (action === 'remove' && !hasTag) {
+      throw new Error(`Case is not tagged ${tag.name}`);
+    }
+
+    return {
+      caseId: currentCase.id,
+      tagChange: { tagId: tag.id, action, userId },
+      activities: [this.createActivity(currentCase.id, action === 'add' ? 'tag_added' : 'tag_removed', {
+        tagId: tag.id,
+        tagName: tag.name,
+        ...details
+      }, userId)]
+    };
+  }
+
+  private async changeCaseTag(
+    caseId: string,
+    tagId: string,
+    action: 'add' | 'remove',
+    userId: string,
+    expectedVersion?: number
+  ): Promise<Case> {
+    const currentCase = await this.dataService.getCase(caseId);
+    if (!currentCase) {
+      throw new Error(`Case with ID ${caseId} not found`);
+    }
+    const tag = await this.getRequiredTag(tagId);
+
+    const change = this.planTagChange(currentCase, tag, action, userId);
+    await this.dataService.applyCaseChanges([{ ...change, tagChange: { ...change.tagChange!, expectedVersion } }]);
+    return await this.getRequiredCase(caseId);
+  }
+
+  private async getRequiredTag(tagId: string): Promise<Tag> {
+    const tag = await this.dataService.getTag(tagId);
+    if (!tag) {
+      throw new Error(`Tag with ID ${tagId} not found`);
+    }
+    return tag;
+  }
+
+  /**
+   * Store new application data as the next revision with an audit entry listing the changed fields.
+   * The write is based on the case as read here, so it fails if the case changed in the meantime.
+   */
+  private async saveApplicationRevision(
+    currentCase: Case,
+    applicationData: ApplicationData,
+    action: 'application_updated' | 'application_restored' | 'document_uploaded',
+    userId: string,
+    options: {
+      reason?: string | undefined;
+      restoredFrom?: number;
+      document?: CaseDocumentRecord;
+      replacedReview?: CaseDocumentReview;
+      expectedVersion?: number | undefined;
+    }
+  ): Promise<Case> {
+    const changes = diffApplicationData(currentCase.applicationData, applicationData);
+    if (changes.length === 0) {
+      throw new Error('No changes to application data');
+    }
+
+    const revisions = await this.dataService.getApplicationRevisions(currentCase.id);
+    const version = (revisions[revisions.length - 1]?.version || 0) + 1;
+    const { reason, restoredFrom, document, replacedReview, expectedVersion } = options;
+
+    await this.dataService.saveApplicationRevision({
+      id: randomUUID(),
+      caseId: currentCase.id,
+      version,
+      applicationData,
+      changes,
+      createdBy: userId,
+      createdAt: new Date(),
+      ...(restoredFrom !== undefined && { restoredFrom })
+    }, this.createActivity(currentCase.id, action, {
+      revision: version,
+      ...(restoredFrom !== undefined && { restoredFrom }),
+      changes,
+      ...(reason && { reason }),
+      ...(document && {
+        documentId: document.id,
+        filename: document.filename,
+        mimeType: document.mimeType,
+        size: document.size,
+        checksum: document.checksum,
+        ...(document.documentType && { documentType: document.documentType }),
+        ...(document.replacesDocumentId && { replacesDocumentId: document.replacesDocumentId })
+      })
+    }, userId), expectedVersion ?? currentCase.version, document, replacedReview);
+
+    return await this.getRequiredCase(currentCase.id);
+  }
+
+  /**
+   * Keep the text of an uploaded file for AI context; extraction problems never fail the upload
+   */
+  private async storeDocumentText(document: CaseDocumentRecord, content: Buffer): Promise<void> {
+    try {
+      const extracted = this.textExtractionService.extract(content, document.mimeType);
+      if (extracted) {
+        await this.dataService.saveDocumentText({ documentId: document.id, ...extracted, extractedAt: new Date() });
+      }
+    } catch (error) {
+      console.warn(`Text extraction failed for document ${document.id}:`, error);
+    }
+  }
+
+  /**
+   * Check an upload with the configured malware scanner; undefined when scanning is disabled.
+   * A failed scan rejects the upload rather than letting an unchecked file through.
+   */
+  private async scanForMalware(content: Buffer): Promise<MalwareScanResult | undefined> {
+    if (!this.malwareScanner) {
+      return undefined;
+    }
+    try {
+      return await this.malwareScanner.scan(content);
+    } catch (error) {
+      throw new Error(`Malware scan failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Keep an infected upload in quarantine with an audit entry. It is recorded on the case so caseworkers
+   * can see what was blocked, but it is not added to the application documents and is never served.
+   */
+  private async quarantineDocument(
+    caseId: string,
+    file: { content: Buffer; filename: string; description?: string | undefined; documentType?: string | undefined },
+    scan: MalwareScanResult,
+    userId: string
+  ): Promise<{ case: Case; document: CaseDocumentRecord }> {
+    const stored = await this.documentStorageService.quarantine(file.content);
+    const document: CaseDocumentRecord = {
+      id: randomUUID(),
+      caseId,
+      filename: file.filename,
+      mimeType: stored.mimeType,
+      size: stored.size,
+      checksum: stored.checksum,
+      storageKey: stored.storageKey,
+      ...(file.description?.trim() && { description: file.description.trim() }),
+      ...(file.documentType && { documentType: file.documentType }),
+      uploadedBy: userId,
+      uploadedAt: new Date(),
+      reviewStatus: 'pending',
+      scanStatus: 'infected',
+      ...(scan.signature && { scanSignature: scan.signature }),
+      scannedAt: new Date()
+    };
+
+    await this.dataService.saveQuarantinedDocument(document, this.createActivity(caseId, 'document_quarantined', {
+      documentId: document.id,
+      filename: document.filename,
+      checksum: document.checksum,
+      size: document.size,
+      scanner: this.malwareScanner?.name,
+      ...(scan.signature && { signature: scan.signature })
+    }, userId));
+
+    return { case: await this.getRequiredCase(caseId), document };
+  }
+
+  /**
+   * Record potential duplicates of a new case in its audit trail; detection problems never block intake
+   */
+  private async flagDuplicates(newCase: Case): Promise<void> {
+    try {
+      const matches = await this.duplicateDetectionService.findDuplicates(newCase.applicationData, newCase.createdAt, newCase.id);
+      if (matches.length > 0) {
+        await this.logActivity(newCase.id, 'duplicates_detected', {
+          matches: matches.map(match => ({ caseId: match.case.id, reasons: match.reasons }))
+        }, 'system');
+      }
+    } catch (error) {
+      console.warn(`Duplicate detection failed for case ${newCase.id}:`, error);
+    }
+  }
+
+  /**
+   * An uploaded document that must belong to the case
+   */
+  private async getRequiredDocument(caseId: string, documentId: string): Promise<CaseDocumentRecord> {
+    const document = await this.dataService.getCaseDocument(documentId);
+    if (!document || document.caseId !== caseId) {
+      throw new Error(`Document with ID ${documentId} not found`);
+    }
+    return document;
+  }
+
+  /**
+   * A note that must belong to the case
+   */
+  private async getRequiredNote(caseId: string, noteId: string): Promise<CaseNote> {
+    const note = await this.dataService.getCaseNote(noteId);
+    if (!note || note.caseId !== caseId) {
+      throw new Error(`Note with ID ${noteId} not found`);
+    }
+    return note;
+  }
+
+  /**
+   * Re-read a case after an update
+   */
+  private async getRequiredCase(caseId: string): Promise<Case> {
+    const updatedCase = await this.dataService.getCase(caseId);
+    if (!updatedCase) {
+      throw new Error('Failed to retrieve updated case');
+    }
+    return updatedCase;
+  }
+
+  /**
+   * Extract and normalize application data
+   * Requirements: 1.1, 1.2
+   */
+  private extractApplicationData(rawApplicationData: ApplicationData): ApplicationData {
+    // Normalize and clean application data
+    const extractedData: ApplicationData = {
+      applicantName: rawApplicationData.applicantName?.trim() || '',
+      applicantEmail: rawApplicationData.applicantEmail?.trim().toLowerCase() || '',
+      applicationType: rawApplicationData.applicationType?.trim() || '',
+      submissionDate: rawApplicationData.submissionDate || new Date(),
+      documents: rawApplicationData.documents || [],
+      formData: this.normalizeFormData(rawApplicationData.formData || {})
+    };
+
+    return extractedData;
+  }
+
+  /**
+   * Normalize form data by cleaning and standardizing values
+   */
+  private normalizeFormData(formData: Record<string, unknown>): Record<string, unknown> {
+    const normalized: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(formData)) {
+      if (value !== null && value !== undefined) {
+        if (typeof value === 'string') {
+          const trimmed = value.trim();
+          if (trimmed.length > 0) {
+            normalized[key] = trimmed;
+          }
+        } else if (typeof value === 'number' && !isNaN(value)) {
+          normalized[key] = value;
+        } else if (typeof value === 'boolean') {
+          normalized[key] = value;
+        } else if (Array.isArray(value) && value.length > 0) {
+          normalized[key] = value;
+        } else if (typeof value === 'object' && Object.keys(value).length > 0) {
+          normalized[key] = value;
+        }
+      }
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Generate a case note for missing fields
+   * Requirements: 1.5, 2.6
+   */
+  private generateMissingFieldsNote(missingFieldsAnalysis: import('../types/index.js').MissingFieldsAnalysis): string {
+    const requiredFields = missingFieldsAnalysis.missingFields.filter(f => f.importance === 'required');
+    const recommendedFields = missingFieldsAnalysis.missingFields.filter(f => f.importance === 'recommended');
+    const optionalFields = missingFieldsAnalysis.missingFields.filter(f => f.importance === 'optional');
+
+    let note = `**Missing Fields Analysis** (Completeness Score: ${(missingFieldsAnalysis.completenessScore * 100).toFixed(1)}%)\n\n`;
+
+    if (requiredFields.length > 0) {
+      note += `**Required Fields Missing:**\n`;
+      requiredFields.forEach(field => {
+        note += `- ${field.fieldName} (${field.fieldType}): ${field.suggestedAction}\n`;
+      });
+      note += '\n';
+    }
+
+    if (recommendedFields.length > 0) {
+      note += `**Recommended Fields Missing:**\n`;
+      recommendedFields.forEach(field => {
+        note += `- ${field.fieldName} (${field.fieldType}): ${field.suggestedAction}\n`;
+      });
+      note += '\n';
+    }
+
+    if (optionalFields.length > 0) {
+      note += `**Optional Fields Missing:**\n`;
+      optionalFields.forEach(field => {
+        note += `- ${field.fieldName} (${field.fieldType}): ${field.suggestedAction}\n`;
+      });
+      note += '\n';
+    }
+
+    if (missingFieldsAnalysis.priorityActions.length > 0) {
+      note += `**Priority Actions:**\n`;
+      missingFieldsAnalysis.priorityActions.forEach(action => {
+        note += `- ${action}\n`;
+      });
+      note += '\n';
+    }
+
+    note += `**Estimated Completion Time:** ${missingFieldsAnalysis.estimatedCompletionTime}\n`;
+    note += `**Analysis Generated:** ${missingFieldsAnalysis.analysisTimestamp.toISOString()}`;
+
+    return note;
+  }
+
+  /**
+   * Validate application data before case creation
+   */
+  private validateApplicationData(applicationData: ApplicationData): void {
+    if (!applicationData.applicantName?.trim()) {
+      throw new Error('Applicant name is required');
+    }
+
+    if (!applicationData.applicantEmail?.trim()) {
+      throw new Error('Applicant email is required');
+    }
+
+    if (!this.isValidEmail(applicationData.applicantEmail)) {
+      throw new Error('Invalid email format');
+    }
+
+    if (!applicationData.applicationType?.trim()) {
+      throw new Error('Application type is required');
+    }
+
+    // Required fields and categories come from the application type profile
+    const profileErrors = this.applicationTypeService.validateApplication(applicationData);
+    if (profileErrors.length > 0) {
+      throw new Error(profileErrors.join('; '));
+    }
+
+    if (!applicationData.submissionDate) {
+      throw new Error('Submission date is required');
+    }
+
+    if (applicationData.submissionDate > new Date()) {
+      throw new Error('Submission date cannot be in the future');
+    }
+  }
+
+  /**
+   * A document type must be one of the required documents of the case's application type
+   */
+  private validateDocumentType(documentType: string, applicationType: string): void {
+    const requiredDocuments = this.applicationTypeService.getProfile(applicationType)?.requiredDocuments || [];
+    if (!requiredDocuments.some(required => required.type === documentType)) {
+      throw new Error(`Unknown document type ${documentType} for application type ${applicationType}`);
+    }
+  }
+
+  /**
+   * Validate email format
+   */
+  private isValidEmail(email: string): boolean {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    return emailRegex.test(email);
+  }
+
+  /**
+   * Validate case status transitions based on workflow logic
+   */
+  private validateStatusTransition(currentStatus: CaseStatus, newStatus: CaseStatus): void {
+    const allowedTransitions = this.getAllowedStatusTransitions(currentStatus);
+
+    if (!allowedTransitions.includes(newStatus)) {
+      throw new Error(`Invalid status transition from ${currentStatus} to ${newStatus}`);
+    }
+  }
+
+  /**
+   * Reject a decision status the workflow does not allow yet, e.g. approving a case still in review
    */
-  private determineProcessStep(status: CaseStatus, currentStep: ProcessStep): ProcessStep {
-    switch (status) {
-      case CaseStatus.ACTIVE:
-        // Keep current step or default to received
-        return currentStep === ProcessStep.CONCLUDED ? ProcessStep.RECEIVED : currentStep;
-      case CaseStatus.PENDING:
-        return ProcessStep.ADDITIONAL_INFO_REQUIRED;
-      case CaseStatus.APPROVED:
-      case CaseStatus.DENIED:
-      case CaseStatus.WITHDRAWN:
-        return ProcessStep.CONCLUDED;
-      case CaseStatus.ARCHIVED:
-        return ProcessStep.CONCLUDED;
+  private validateDecision(caseData: Case, status: CaseStatus, userRole: UserRole): void {
+    const evaluation = this.evaluateDecision(caseData, status, userRole);
+    if (evaluation && !evaluation.allowed) {
+      throw new Error(`Case cannot be ${status}: ${this.describeBlockedTransition(caseData.currentStep, evaluation, userRole)}`);
+    }
+  }
+
+  /**
+   * Whether a step ends the case's workflow
+   */
+  private isTerminalStep(caseData: Case, step: ProcessStep): boolean {
+    return Boolean(this.workflowService.getWorkflowForCase(caseData).steps.find(stepDef => stepDef.step === step)?.terminal);
+  }
+
+  /**
+   * Determine process step based on case status, using the workflow's status-to-step mapping
+   */
+  private determineProcessStep(caseData: Case, status: CaseStatus): ProcessStep {
+    const workflow = this.workflowService.getWorkflowForCase(caseData);
+    return this.workflowService.getStepForStatus(workflow, status, caseData.currentStep);
+  }
+
+  /**
+   * Build an error message explaining why a step transition was blocked
+   */
+  private describeBlockedTransition(currentStep: ProcessStep, evaluation: StepTransitionEvaluation, userRole: UserRole): string {
+    switch (evaluation.reason) {
+      case 'forbidden':
+        return `Role ${userRole} is not permitted to move a case from ${currentStep} to ${evaluation.to}`;
+      case 'guard_failed':
+        return `Transition from ${currentStep} to ${evaluation.to} blocked: ${evaluation.failedGuards.map(g => g.message).join('; ')}`;
       default:
-        return currentStep;
+        return `Invalid step transition from ${currentStep} to ${evaluation.to}`;
     }
   }
 
@@ -560,7 +2102,11 @@ export class CaseService {
    * Log activity to audit trail
    */
   private async logActivity(caseId: string, action: string, details: Record<string, unknown>, userId: string): Promise<void> {
-    const activity: ActivityLog = {
+    await this.dataService.logActivity(this.createActivity(caseId, action, details, userId));
+  }
+
+  private createActivity(caseId: string, action: string, details: Record<string, unknown>, userId: string): ActivityLog {
+    return {
       id: randomUUID(),
       caseId,
       action,
@@ -568,7 +2114,5 @@ export class CaseService {
       userId,
       timestamp: new Date()
     };
-
-    await this.dataService.logActivity(activity);
   }
 }
\ No newline at end of file
@@ -3,19 +3,98 @@ import {
     Case,
     AISummary,
     CaseNote,
+    CaseNoteRevision,
+    NoteMention,
+    CaseDocumentRecord,
+    CaseDocumentText,
+    CaseDocumentReview,
     AuditEntry,
     AIInteraction,
+    ApplicationRevision,
+    LinkedCaseRow,
+    Tag,
+    PurgedCase,
+    RetentionCandidateRow,
+    IdempotencyKey,
     CaseStatus,
     ProcessStep
 } from '../types/database.js';
 import {
     Case as CaseModel,
     AISummary as AISummaryModel,
+    CaseNote as CaseNoteModel,
+    CaseNoteOptions,
+    CaseNoteUpdate,
+    CaseNoteRevision as CaseNoteRevisionModel,
+    MentionNotification,
+    CaseDocumentRecord as CaseDocumentRecordModel,
+    CaseDocumentReview as CaseDocumentReviewModel,
+    DocumentText,
     ActivityLog,
-    AIInteraction as AIInteractionModel
+    AIInteraction as AIInteractionModel,
+    AuditTrailFilters,
+    CaseListFilters,
+    CaseListItem,
+    CaseSlaFilter,
+    CaseSortField,
+    CaseSearchField,
+    CaseSearchResult,
+    CaseUpdates,
+    CaseChange,
+    ApplicationRevision as ApplicationRevisionModel,
+    CaseMerge,
+    DuplicateCandidateCriteria,
+    CaseLink as CaseLinkModel,
+    LinkedCase,
+    CaseTagChange,
+    Tag as TagModel,
+    TagUpdate,
+    PurgedCase as PurgedCaseModel,
+    SubjectErasure,
+    SubjectErasureCounts,
+    IdempotencyRecord
 } from '../types/index.js';
+import { refreshCaseSearchDocuments, recordInitialApplicationRevisions } from '../database/schema.js';
 import { randomUUID } from 'crypto';
 
+// SQL expressions for each sortable case list field
+const CASE_SORT_COLUMNS: Record<CaseSortField, string> = {
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    stepEnteredAt: 'step_entered_at',
+    applicantName: "json_extract(application_data, '$.applicantName') COLLATE NOCASE",
+    status: 'status',
+    currentStep: 'current_step',
+    // Rank priorities by urgency; cases without one sort below low
+    priority: "CASE priority WHEN 'urgent' THEN 4 WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END"
+};
+
+// Statuses that conclude a case with a decision
+const FINAL_DECISION_STATUSES: CaseStatus[] = [CaseStatus.APPROVED, CaseStatus.DENIED, CaseStatus.WITHDRAWN];
+
+// Tags with the number of cases carrying them
+const TAG_WITH_COUNT_SQL = 'SELECT t.*, (SELECT COUNT(*) FROM case_tags ct WHERE ct.tag_id = t.id) AS case_count FROM tags t';
+
+const APPLICATION_TYPE_SQL = "json_extract(application_data, '$.applicationType')";
+
+// case_search columns after case_id, in table order
+const SEARCH_FIELDS: CaseSearchField[] = ['application', 'formData', 'notes', 'summaries'];
+
+// Control characters mark matches in snippets so the text can be HTML-escaped before adding <mark> tags
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+/**
+ * Turn free text into an FTS5 query: every word must match, as a prefix, so "acme perm" finds "Acme permit"
+ */
+export function toCaseSearchQuery(text: string): string {
+    const terms = text.match(/[\p{L}\p{N}]+/gu) || [];
+    return terms.map(term => `"${term}"*`).join(' ');
+}
+
 export class DataService {
     private db: DatabaseConnection;
 
@@ -28,19 +107,30 @@ export class DataService {
     }
 
     /**
-     * Save a case to the database
+     * Save a case to the database. Saving an existing case updates its row in place and bumps its version,
+     * so clients holding the previous ETag can no longer overwrite it.
      */
     public async saveCase(caseData: CaseModel): Promise<void> {
         try {
             const stmt = this.getDatabase().prepare(`
-        INSERT OR REPLACE INTO cases (
+        INSERT INTO cases (
           id, application_data, status, current_step, 
-          created_at, updated_at, assigned_to
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+          created_at, updated_at, step_entered_at, assigned_to, priority
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          application_data = excluded.application_data,
+          status = excluded.status,
+          current_step = excluded.current_step,
+          updated_at = excluded.updated_at,
+          step_entered_at = excluded.step_entered_at,
+          assigned_to = excluded.assigned_to,
+          priority = excluded.priority,
+          version = version + 1
       `);
 
             const createdAtISO = caseData.createdAt.toISOString();
             const updatedAtISO = caseData.updatedAt.toISOString();
+            const stepEnteredAtISO = (caseData.stepEnteredAt || caseData.createdAt).toISOString();
 
             const result = stmt.run(
                 caseData.id,
@@ -49,7 +139,9 @@ export class DataService {
                 caseData.currentStep,
                 createdAtISO,
                 updatedAtISO,
-                caseData.assignedTo || null
+                stepEnteredAtISO,
+                caseData.assignedTo || null,
+                caseData.priority || null
             );
 
             if (result.changes === 0) {
@@ -68,6 +160,9 @@ export class DataService {
                 }
             }
 
+            refreshCaseSearchDocuments(this.getDatabase(), caseData.id);
+            recordInitialApplicationRevisions(this.getDatabase(), caseData.id);
+
             // Save audit trail if it exists
             if (caseData.auditTrail && caseData.auditTrail.length > 0) {
                 for (const entry of caseData.auditTrail) {
@@ -104,13 +199,21 @@ export class DataService {
             }
 
             // Get related data
-            const [notes, aiSummaries, auditTrail] = await Promise.all([
+            const [notes, aiSummaries, auditTrail, linkedCases, tags, documents] = await Promise.all([
                 this.getCaseNotes(caseId),
                 this.getCaseSummaries(caseId),
-                this.getAuditTrail(caseId)
+                this.getAuditTrail(caseId),
+                this.getLinkedCases(caseId),
+                this.getCaseTags(caseId),
+                this.getCaseDocuments(caseId)
             ]);
 
-            return this.mapDatabaseCaseToModel(caseRow, notes, aiSummaries, auditTrail);
+            return {
+                ...this.mapDatabaseCaseToModel(caseRow, notes, aiSummaries, auditTrail),
+                linkedCases,
+                tags,
+                documents
+            };
         } catch (error) {
             throw new Error(`Failed to get case: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
@@ -119,61 +222,166 @@ export class DataService {
     /**
      * Update a case with new data
      */
-    public async updateCase(caseId: string, updates: Partial<CaseModel>): Promise<void> {
+    public async updateCase(caseId: string, updates: CaseUpdates): Promise<void> {
         try {
-            const updateFields: string[] = [];
-            const updateValues: any[] = [];
+            this.writeCaseUpdate(caseId, updates);
+        } catch (error) {
+            throw new Error(`Failed to update case: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
 
-            if (updates.applicationData !== undefined) {
-                updateFields.push('application_data = ?');
-                updateValues.push(JSON.stringify(updates.applicationData));
-            }
+    /**
+     * Apply case updates and their audit entries in a single transaction; if any write fails none are kept
+     */
+    public async applyCaseChanges(changes: CaseChange[]): Promise<void> {
+        try {
+            this.transaction(() => {
+                changes.forEach(change => {
+                    if (change.updates) {
+                        this.writeCaseUpdate(change.caseId, change.updates);
+                    }
+                    if (change.tagChange) {
+                        this.writeCaseTagChange(change.caseId, change.tagChange);
+                    }
+                    change.activities.forEach(activity => this.insertActivity(activity));
+                });
+            });
+        } catch (error) {
+            throw new Error(`Failed to apply case changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
 
-            if (updates.status !== undefined) {
-                updateFields.push('status = ?');
-                updateValues.push(updates.status);
-            }
+    /**
+     * Write case column updates synchronously so callers can group them in a transaction
+     */
+    private writeCaseUpdate(caseId: string, updates: CaseUpdates): void {
+        const updateFields: string[] = [];
+        const updateValues: (string | number | null)[] = [];
 
-            if (updates.currentStep !== undefined) {
-                updateFields.push('current_step = ?');
-                updateValues.push(updates.currentStep);
-            }
+        if (updates.applicationData !== undefined) {
+            updateFields.push('application_data = ?');
+            updateValues.push(JSON.stringify(updates.applicationData));
+        }
 
-            if (updates.assignedTo !== undefined) {
-                updateFields.push('assigned_to = ?');
-                updateValues.push(updates.assignedTo);
-            }
+        if (updates.status !== undefined) {
+            updateFields.push('status = ?');
+            updateValues.push(updates.status);
+        }
 
-            // Always update the updated_at timestamp (strictly monotonic)
-            const currentRow = this.db.prepare(`SELECT updated_at FROM cases WHERE id = ?`).get(caseId) as { updated_at: string } | undefined;
-            const prevMs = currentRow ? new Date(currentRow.updated_at).getTime() : 0;
-            const nowMs = Date.now();
-            const nextMs = Math.max(nowMs, prevMs + 1);
-            const nextIso = new Date(nextMs).toISOString();
+        if (updates.currentStep !== undefined) {
+            updateFields.push('current_step = ?');
+            updateValues.push(updates.currentStep);
+        }
 
-            updateFields.push('updated_at = ?');
-            updateValues.push(nextIso);
+        // assignedTo: null clears the assignment
+        if (updates.assignedTo !== undefined) {
+            updateFields.push('assigned_to = ?');
+            updateValues.push(updates.assignedTo);
+        }
 
-            if (updateFields.length === 1) { // Only updated_at was added
-                throw new Error('No valid fields to update');
-            }
+        if (updates.mergedInto !== undefined) {
+            updateFields.push('merged_into = ?');
+            updateValues.push(updates.mergedInto);
+        }
 
-            updateValues.push(caseId); // For WHERE clause
+        if (updates.priority !== undefined) {
+            updateFields.push('priority = ?');
+            updateValues.push(updates.priority);
+        }
 
-            const stmt = this.db.prepare(`
-        UPDATE cases 
-        SET ${updateFields.join(', ')} 
-        WHERE id = ?
-      `);
+        // deletedAt/deletedBy: null restores a soft-deleted case
+        if (updates.deletedAt !== undefined) {
+            updateFields.push('deleted_at = ?');
+            updateValues.push(updates.deletedAt && updates.deletedAt.toISOString());
+        }
 
-            const result = stmt.run(...updateValues);
+        if (updates.deletedBy !== undefined) {
+            updateFields.push('deleted_by = ?');
+            updateValues.push(updates.deletedBy);
+        }
 
-            if (result.changes === 0) {
-                throw new Error(`Case with ID ${caseId} not found`);
-            }
-        } catch (error) {
-            throw new Error(`Failed to update case: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        // Always update the updated_at timestamp
+        const nextIso = this.nextUpdatedAt(caseId);
+
+        updateFields.push('updated_at = ?');
+        updateValues.push(nextIso);
+        updateFields.push('version = version + 1');
+
+        // Restart the step clock only when the step actually changes
+        if (updates.currentStep !== undefined) {
+            updateFields.push('step_entered_at = CASE WHEN current_step = ? THEN step_entered_at ELSE ? END');
+            updateValues.push(updates.currentStep, nextIso);
+        }
+
+        if (updateFields.length === 2) { // Only updated_at and version were added
+            throw new Error('No valid fields to update');
+        }
+
+        updateValues.push(caseId); // For WHERE clause
+        if (updates.expectedVersion !== undefined) {
+            updateValues.push(updates.expectedVersion);
+        }
+
+        const stmt = this.db.prepare(`
+    UPDATE cases 
+    SET ${updateFields.join(', ')} 
+    WHERE id = ?${updates.expectedVersion !== undefined ? ' AND version = ?' : ''}
+  `);
+
+        const result = stmt.run(...updateValues);
+
+        if (result.changes === 0) {
+            this.checkCaseVersion(caseId, updates.expectedVersion);
+            throw new Error(`Case with ID ${caseId} not found`);
+        }
+
+        if (updates.applicationData !== undefined) {
+            refreshCaseSearchDocuments(this.getDatabase(), caseId);
+        }
+    }
+
+    /**
+     * Throw if the case exists but is no longer at the version the caller read
+     */
+    private checkCaseVersion(caseId: string, expectedVersion: number | undefined): void {
+        if (expectedVersion === undefined) {
+            return;
+        }
+        const row = this.db.prepare('SELECT version FROM cases WHERE id = ?').get(caseId) as { version: number } | undefined;
+        if (row && row.version !== expectedVersion) {
+            throw new Error(`Case ${caseId} has been modified since version ${expectedVersion}`);
+        }
+    }
+
+    /**
+     * The next updated_at for a case, kept strictly monotonic so every change is visible
+     */
+    private nextUpdatedAt(caseId: string): string {
+        const currentRow = this.db.prepare(`SELECT updated_at FROM cases WHERE id = ?`).get(caseId) as { updated_at: string } | undefined;
+        const prevMs = currentRow ? new Date(currentRow.updated_at).getTime() : 0;
+        const nowMs = Date.now();
+        const nextMs = Math.max(nowMs, prevMs + 1);
+        return new Date(nextMs).toISOString();
+    }
+
+    /**
+     * Add or remove a tag on a case; tagging counts as an update to the case
+     */
+    private writeCaseTagChange(caseId: string, tagChange: CaseTagChange): void {
+        const db = this.getDatabase();
+        this.checkCaseVersion(caseId, tagChange.expectedVersion);
+        const result = tagChange.action === 'add'
+            ? db.prepare('INSERT OR IGNORE INTO case_tags (case_id, tag_id, tagged_by, tagged_at) VALUES (?, ?, ?, ?)')
+                .run(caseId, tagChange.tagId, tagChange.userId, new Date().toISOString())
+            : db.prepare('DELETE FROM case_tags WHERE case_id = ? AND tag_id = ?').run(caseId, tagChange.tagId);
+
+        if (result.changes === 0) {
+            throw new Error(tagChange.action === 'add'
+                ? `Case ${caseId} already has tag ${tagChange.tagId}`
+                : `Case ${caseId} does not have tag ${tagChange.tagId}`);
         }
+
+        db.prepare('UPDATE cases SET updated_at = ?, version = version + 1 WHERE id = ?').run(this.nextUpdatedAt(caseId), caseId);
     }
 
     /**
@@ -182,7 +390,7 @@ export class DataService {
     public async getCasesByStatus(status: CaseStatus): Promise<CaseModel[]> {
         try {
             const stmt = this.getDatabase().prepare(`
-        SELECT * FROM cases WHERE status = ? ORDER BY created_at DESC
+        SELECT * FROM cases WHERE status = ? AND deleted_at IS NULL ORDER BY created_at DESC
       `);
 
             const caseRows = stmt.all(status) as Case[];
@@ -210,7 +418,7 @@ export class DataService {
     public async getAllCases(): Promise<CaseModel[]> {
         try {
             const stmt = this.getDatabase().prepare(`
-        SELECT * FROM cases ORDER BY created_at DESC
+        SELECT * FROM cases WHERE deleted_at IS NULL ORDER BY created_at DESC
       `);
 
             const caseRows = stmt.all() as Case[];
@@ -232,6 +440,151 @@ export class DataService {
         }
     }
 
+    /**
+     * List cases matching the filters, sorted and paginated in SQL.
+     * Rows are returned without notes, summaries or audit entries.
+     */
+    public async listCases(filters: CaseListFilters = {}): Promise<{ cases: CaseListItem[]; total: number }> {
+        try {
+            const conditions: string[] = [filters.deleted ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL'];
+            const params: unknown[] = [];
+
+            if (filters.status) {
+                conditions.push('status = ?');
+                params.push(filters.status);
+            }
+
+            if (filters.currentStep) {
+                conditions.push('current_step = ?');
+                params.push(filters.currentStep);
+            }
+
+            if (filters.assignedTo) {
+                conditions.push('assigned_to = ?');
+                params.push(filters.assignedTo);
+            }
+
+            if (filters.applicationType) {
+                conditions.push(`${APPLICATION_TYPE_SQL} = ?`);
+                params.push(filters.applicationType);
+            }
+
+            if (filters.priority) {
+                conditions.push('priority = ?');
+                params.push(filters.priority);
+            }
+
+            // julianday() copes with both ISO strings and SQLite's CURRENT_TIMESTAMP format
+            if (filters.createdFrom) {
+                conditions.push('julianday(created_at) >= julianday(?)');
+                params.push(filters.createdFrom.toISOString());
+            }
+
+            if (filters.createdTo) {
+                conditions.push('julianday(created_at) <= julianday(?)');
+                params.push(filters.createdTo.toISOString());
+            }
+
+            filters.tags?.forEach(tagName => {
+                conditions.push(`EXISTS (
+          SELECT 1 FROM case_tags ct JOIN tags t ON t.id = ct.tag_id
+          WHERE ct.case_id = cases.id AND t.name = ?
+        )`);
+                params.push(tagName);
+            });
+
+            if (filters.sla) {
+                this.addSlaConditions(filters.sla, conditions, params);
+            }
+
+            const where = `WHERE ${conditions.join(' AND ')}`;
+            const countRow = this.getDatabase().prepare(`SELECT COUNT(*) as total FROM cases ${where}`).get(...params) as { total: number };
+
+            const direction = filters.sortOrder === 'asc' ? 'ASC' : 'DESC';
+            const sortColumn = CASE_SORT_COLUMNS[filters.sortBy || 'createdAt'];
+            let sql = `SELECT * FROM cases ${where} ORDER BY ${sortColumn} ${direction}, id ${direction}`;
+            const pageParams: number[] = [];
+            if (filters.limit !== undefined) {
+                sql += ' LIMIT ? OFFSET ?';
+                pageParams.push(filters.limit, filters.offset || 0);
+            }
+
+            const caseRows = this.getDatabase().prepare(sql).all(...params, ...pageParams) as Case[];
+
+            return {
+                cases: caseRows.map(caseRow => this.mapDatabaseCaseToListItem(caseRow)),
+                total: countRow.total
+            };
+        } catch (error) {
+            throw new Error(`Failed to list cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Full-text search over application details, form fields, notes and AI summaries,
+     * best matches first. Application details weigh most, then form fields, notes and summaries.
+     */
+    public async searchCases(text: string, options: { limit?: number; offset?: number } = {}): Promise<{ results: CaseSearchResult[]; total: number }> {
+        try {
+            const query = toCaseSearchQuery(text);
+            if (!query) {
+                return { results: [], total: 0 };
+            }
+
+            const from = 'FROM case_search JOIN cases ON cases.id = case_search.case_id WHERE case_search MATCH ? AND cases.deleted_at IS NULL';
+            const countRow = this.getDatabase().prepare(`SELECT COUNT(*) as total ${from}`).get(query) as { total: number };
+
+            const snippets = SEARCH_FIELDS
+                .map((_field, index) => `snippet(case_search, ${index + 1}, ?, ?, '…', 12) AS snippet_${index}`)
+                .join(', ');
+            const snippetParams = SEARCH_FIELDS.flatMap(() => [MATCH_START, MATCH_END]);
+
+            const rows = this.getDatabase().prepare(`
+        SELECT cases.*, bm25(case_search, 0.0, 10.0, 5.0, 2.0, 1.0) AS rank, ${snippets}
+        ${from}
+        ORDER BY rank, cases.id
+        LIMIT ? OFFSET ?
+      `).all(...snippetParams, query, options.limit ?? 20, options.offset ?? 0) as Array<Case & Record<string, unknown> & { rank: number }>;
+
+            return {
+                results: rows.map(row => ({
+                    case: this.mapDatabaseCaseToListItem(row),
+                    score: -row.rank,
+                    highlights: SEARCH_FIELDS
+                        .map((field, index) => ({ field, snippet: String(row[`snippet_${index}`] ?? '') }))
+                        .filter(({ snippet }) => snippet.includes(MATCH_START))
+                        .map(({ field, snippet }) => ({
+                            field,
+                            snippet: escapeHtml(snippet)
+                                .split(MATCH_START).join('<mark>')
+                                .split(MATCH_END).join('</mark>')
+                        }))
+                })),
+                total: countRow.total
+            };
+        } catch (error) {
+            throw new Error(`Failed to search cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Count open (active or pending) cases per assignee
+     */
+    public async getOpenCaseCountsByAssignee(): Promise<Record<string, number>> {
+        try {
+            const stmt = this.getDatabase().prepare(`
+        SELECT assigned_to, COUNT(*) as open_cases FROM cases
+        WHERE assigned_to IS NOT NULL AND status IN (?, ?)
+        GROUP BY assigned_to
+      `);
+
+            const rows = stmt.all(CaseStatus.ACTIVE, CaseStatus.PENDING) as { assigned_to: string; open_cases: number }[];
+            return Object.fromEntries(rows.map(row => [row.assigned_to, row.open_cases]));
+        } catch (error) {
+            throw new Error(`Failed to get open case counts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
     /**
      * Save an AI summary
      */
@@ -258,6 +611,8 @@ export class DataService {
             if (result.changes === 0) {
                 throw new Error(`Failed to save AI summary with ID: ${summary.id}`);
             }
+
+            refreshCaseSearchDocuments(this.getDatabase(), summary.caseId);
         } catch (error) {
             throw new Error(`Failed to save AI summary: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
@@ -269,7 +624,7 @@ export class DataService {
     public async getSummaries(caseId: string, type?: 'overall' | 'step-specific'): Promise<AISummaryModel[]> {
         try {
             let sql = 'SELECT * FROM ai_summaries WHERE case_id = ?';
-            const params: any[] = [caseId];
+            const params: (string | number | null)[] = [caseId];
 
             if (type) {
                 sql += ' AND type = ?';
@@ -292,29 +647,33 @@ export class DataService {
      */
     public async logActivity(activity: ActivityLog): Promise<void> {
         try {
-            const stmt = this.getDatabase().prepare(`
-        INSERT INTO audit_trail (
-          id, case_id, action, details, user_id, timestamp
-        ) VALUES (?, ?, ?, ?, ?, ?)
-      `);
-
-            const result = stmt.run(
-                activity.id,
-                activity.caseId,
-                activity.action,
-                activity.details ? JSON.stringify(activity.details) : null,
-                activity.userId,
-                activity.timestamp.toISOString()
-            );
-
-            if (result.changes === 0) {
-                throw new Error(`Failed to log activity with ID: ${activity.id}`);
-            }
+            this.insertActivity(activity);
         } catch (error) {
             throw new Error(`Failed to log activity: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
+    private insertActivity(activity: ActivityLog): void {
+        const stmt = this.getDatabase().prepare(`
+      INSERT INTO audit_trail (
+        id, case_id, action, details, user_id, timestamp
+      ) VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+        const result = stmt.run(
+            activity.id,
+            activity.caseId,
+            activity.action,
+            activity.details ? JSON.stringify(activity.details) : null,
+            activity.userId,
+            activity.timestamp.toISOString()
+        );
+
+        if (result.changes === 0) {
+            throw new Error(`Failed to log activity with ID: ${activity.id}`);
+        }
+    }
+
     /**
      * Log an AI interaction
      */
@@ -371,167 +730,1145 @@ export class DataService {
     }
 
     /**
-     * Get audit trail for a case
+     * Get audit trail for a case, optionally filtered by action, user and date range
      */
-    public async getAuditTrail(caseId: string): Promise<AuditEntry[]> {
+    public async getAuditTrail(caseId: string, filters: AuditTrailFilters = {}): Promise<AuditEntry[]> {
         try {
-            const stmt = this.getDatabase().prepare(`
-        SELECT * FROM audit_trail 
-        WHERE case_id = ? 
-        ORDER BY timestamp DESC
-      `);
+            let sql = 'SELECT * FROM audit_trail WHERE case_id = ?';
+            const params: (string | number | null)[] = [caseId];
+
+            if (filters.actions && filters.actions.length > 0) {
+                sql += ` AND action IN (${filters.actions.map(() => '?').join(', ')})`;
+                params.push(...filters.actions);
+            }
+
+            if (filters.userId) {
+                sql += ' AND user_id = ?';
+                params.push(filters.userId);
+            }
+
+            if (filters.from) {
+                sql += ' AND timestamp >= ?';
+                params.push(filters.from.toISOString());
+            }
+
+            if (filters.to) {
+                sql += ' AND timestamp <= ?';
+                params.push(filters.to.toISOString());
+            }
+
+            sql += ' ORDER BY timestamp DESC';
 
-            return stmt.all(caseId) as AuditEntry[];
+            const stmt = this.getDatabase().prepare(sql);
+            return stmt.all(...params) as AuditEntry[];
         } catch (error) {
             throw new Error(`Failed to get audit trail: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
     /**
-     * Add a case note
+     * Add a case note and return its ID
      */
-    public async addCaseNote(caseId: string, content: string, userId: string): Promise<void> {
+    public async addCaseNote(caseId: string, content: string, userId: string, options: CaseNoteOptions = {}): Promise<string> {
         try {
+            const noteId = randomUUID();
             const stmt = this.getDatabase().prepare(`
         INSERT INTO case_notes (
-          id, case_id, content, created_by, created_at
-        ) VALUES (?, ?, ?, ?, ?)
+          id, case_id, content, created_by, created_at, parent_id, category, visibility
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
             const result = stmt.run(
-                randomUUID(),
+                noteId,
                 caseId,
                 content,
                 userId,
-                new Date().toISOString()
+                new Date().toISOString(),
+                options.parentId ?? null,
+                options.category ?? 'general',
+                options.visibility ?? 'internal'
             );
 
             if (result.changes === 0) {
                 throw new Error(`Failed to add case note for case: ${caseId}`);
             }
+
+            refreshCaseSearchDocuments(this.getDatabase(), caseId);
+            return noteId;
         } catch (error) {
             throw new Error(`Failed to add case note: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
     /**
-     * Execute operations in a transaction
+     * Record the users mentioned in a note; users already mentioned in it are skipped. Returns the users added.
      */
-    public transaction<T>(operations: () => T): T {
-        return this.getDatabase().transaction(operations);
+    public async addNoteMentions(noteId: string, userIds: string[], mentionedBy: string): Promise<string[]> {
+        try {
+            const db = this.getDatabase();
+            return this.transaction(() => {
+                const insert = db.prepare(`
+          INSERT OR IGNORE INTO note_mentions (id, note_id, user_id, mentioned_by, created_at)
+          VALUES (?, ?, ?, ?, ?)
+        `);
+                const createdAt = new Date().toISOString();
+                return userIds.filter(userId => insert.run(randomUUID(), noteId, userId, mentionedBy, createdAt).changes > 0);
+            });
+        } catch (error) {
+            throw new Error(`Failed to add note mentions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
     }
 
-    // Private helper methods
-
     /**
-     * Get case notes for a case
+     * Mentions of a user, newest first, leaving out deleted notes and deleted cases
      */
-    public async getCaseNotes(caseId: string): Promise<CaseNote[]> {
+    public async getMentionsForUser(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<{
+        mentions: MentionNotification[];
+        unreadCount: number;
+    }> {
         try {
-            const stmt = this.getDatabase().prepare(`
-        SELECT * FROM case_notes 
-        WHERE case_id = ? 
-        ORDER BY created_at DESC
-      `);
-
-            return stmt.all(caseId) as CaseNote[];
+            const db = this.getDatabase();
+            const visibleMentions = `
+        FROM note_mentions m
+        JOIN case_notes n ON n.id = m.note_id
+        JOIN cases c ON c.id = n.case_id
+        WHERE m.user_id = ? AND n.deleted_at IS NULL AND c.deleted_at IS NULL
+      `;
+
+            const rows = db.prepare(`
+        SELECT m.*, n.case_id, substr(n.content, 1, 200) AS excerpt
+        ${visibleMentions} ${options.unreadOnly ? 'AND m.read_at IS NULL' : ''}
+        ORDER BY m.created_at DESC
+        LIMIT ?
+      `).all(userId, options.limit ?? 50) as Array<NoteMention & { case_id: string; excerpt: string }>;
+
+            const { unread } = db.prepare(`SELECT COUNT(*) AS unread ${visibleMentions} AND m.read_at IS NULL`)
+                .get(userId) as { unread: number };
+
+            return {
+                mentions: rows.map(row => ({
+                    id: row.id,
+                    noteId: row.note_id,
+                    caseId: row.case_id,
+                    userId: row.user_id,
+                    mentionedBy: row.mentioned_by,
+                    createdAt: new Date(row.created_at),
+                    ...(row.read_at && { readAt: new Date(row.read_at) }),
+                    excerpt: row.excerpt
+                })),
+                unreadCount: unread
+            };
         } catch (error) {
-            throw new Error(`Failed to get case notes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw new Error(`Failed to get mentions: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
     /**
-     * Get AI summaries for a case (private method)
+     * Mark a user's mentions read, all unread ones when no IDs are given; returns how many changed
      */
-    private async getCaseSummaries(caseId: string): Promise<AISummary[]> {
+    public async markMentionsRead(userId: string, mentionIds?: string[], now: Date = new Date()): Promise<number> {
         try {
-            const stmt = this.getDatabase().prepare(`
-        SELECT * FROM ai_summaries 
-        WHERE case_id = ? 
-        ORDER BY generated_at DESC
-      `);
+            const idFilter = mentionIds ? `AND id IN (${mentionIds.map(() => '?').join(', ')})` : '';
+            return this.getDatabase().prepare(`
+        UPDATE note_mentions SET read_at = ?
+        WHERE user_id = ? AND read_at IS NULL ${idFilter}
+      `).run(now.toISOString(), userId, ...(mentionIds || [])).changes;
+        } catch (error) {
+            throw new Error(`Failed to mark mentions read: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
 
-            return stmt.all(caseId) as AISummary[];
+    /**
+     * Get a single case note, including deleted notes
+     */
+    public async getCaseNote(noteId: string): Promise<CaseNoteModel | null> {
+        try {
+            const noteRow = this.getDatabase().prepare('SELECT * FROM case_notes WHERE id = ?').get(noteId) as CaseNote | undefined;
+            return noteRow ? this.mapDatabaseNoteToModel(noteRow) : null;
         } catch (error) {
-            throw new Error(`Failed to get case summaries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw new Error(`Failed to get case note: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
     /**
-     * Save case notes (private method)
+     * Edit a note and record its audit entry in one transaction. A content change is stored as a new revision;
+     * the first one also stores the original content as revision 1.
      */
-    private saveCaseNotes(caseId: string, notes: Array<{ id?: string; content: string; createdBy?: string; createdAt?: Date }>): void {
-        const stmt = this.getDatabase().prepare(`
-        INSERT OR REPLACE INTO case_notes (
-          id, case_id, content, created_by, created_at
-        ) VALUES (?, ?, ?, ?, ?)
-      `);
+    public async updateCaseNote(note: CaseNoteModel, update: CaseNoteUpdate, activity: ActivityLog): Promise<void> {
+        try {
+            const db = this.getDatabase();
+            this.transaction(() => {
+                if (update.content !== undefined && update.content !== note.content) {
+                    const { latest } = db.prepare('SELECT COALESCE(MAX(version), 0) AS latest FROM case_note_revisions WHERE note_id = ?')
+                        .get(note.id) as { latest: number };
+                    const insertRevision = db.prepare(`
+            INSERT INTO case_note_revisions (id, note_id, version, content, created_by, created_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+          `);
+                    if (latest === 0) {
+                        insertRevision.run(randomUUID(), note.id, 1, note.content, note.createdBy, note.createdAt.toISOString());
+                    }
+                    insertRevision.run(randomUUID(), note.id, Math.max(latest, 1) + 1, update.content, activity.userId, activity.timestamp.toISOString());
+                }
 
-        for (const note of notes) {
-            stmt.run(
-                note.id || randomUUID(),
-                caseId,
-                note.content,
-                note.createdBy || 'system',
-                note.createdAt ? note.createdAt.toISOString() : new Date().toISOString()
-            );
+                const result = db.prepare(`
+          UPDATE case_notes
+          SET content = ?, category = ?, visibility = ?, updated_at = ?, updated_by = ?
+          WHERE id = ? AND deleted_at IS NULL
+        `).run(
+                    update.content ?? note.content,
+                    update.category ?? note.category,
+                    update.visibility ?? note.visibility,
+                    activity.timestamp.toISOString(),
+                    activity.userId,
+                    note.id
+                );
+                if (result.changes === 0) {
+                    throw new Error(`Note with ID ${note.id} not found`);
+                }
+
+                this.insertActivity(activity);
+                refreshCaseSearchDocuments(db, note.caseId);
+            });
+        } catch (error) {
+            throw new Error(`Failed to update case note: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
     /**
-     * Save audit entry (private method)
+     * Soft delete a note and record its audit entry in one transaction; the note leaves the search index
      */
-    private saveAuditEntry(entry: AuditEntry): void {
-        const stmt = this.getDatabase().prepare(`
-        INSERT OR REPLACE INTO audit_trail (
-          id, case_id, action, details, user_id, timestamp
-        ) VALUES (?, ?, ?, ?, ?, ?)
-      `);
+    public async deleteCaseNote(note: CaseNoteModel, reason: string, activity: ActivityLog): Promise<void> {
+        try {
+            const db = this.getDatabase();
+            this.transaction(() => {
+                const result = db.prepare(`
+          UPDATE case_notes
+          SET deleted_at = ?, deleted_by = ?, deletion_reason = ?
+          WHERE id = ? AND deleted_at IS NULL
+        `).run(activity.timestamp.toISOString(), activity.userId, reason, note.id);
+                if (result.changes === 0) {
+                    throw new Error(`Note with ID ${note.id} not found`);
+                }
 
-        stmt.run(
-            entry.id,
-            entry.case_id,
-            entry.action,
-            entry.details || null,
-            entry.user_id,
-            entry.timestamp
-        );
+                this.insertActivity(activity);
+                refreshCaseSearchDocuments(db, note.caseId);
+            });
+        } catch (error) {
+            throw new Error(`Failed to delete case note: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
     }
 
-    private mapDatabaseCaseToModel(
-        caseRow: Case,
-        notes: CaseNote[],
-        aiSummaries: AISummary[],
-        auditTrail: AuditEntry[]
-    ): CaseModel {
-        const createdAt = new Date(caseRow.created_at);
-        const updatedAt = new Date(caseRow.updated_at);
+    /**
+     * Get every stored content of an edited note, oldest first
+     */
+    public async getCaseNoteRevisions(noteId: string): Promise<CaseNoteRevisionModel[]> {
+        try {
+            const revisionRows = this.getDatabase().prepare(`
+        SELECT * FROM case_note_revisions
+        WHERE note_id = ?
+        ORDER BY version ASC
+      `).all(noteId) as CaseNoteRevision[];
+
+            return revisionRows.map(revision => ({
+                id: revision.id,
+                noteId: revision.note_id,
+                version: revision.version,
+                content: revision.content,
+                createdBy: revision.created_by,
+                createdAt: new Date(revision.created_at)
+            }));
+        } catch (error) {
+            throw new Error(`Failed to get case note revisions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
 
-        return {
-            id: caseRow.id,
-            applicationData: this.mapDatabaseApplicationDataToModel(JSON.parse(caseRow.application_data)),
-            status: caseRow.status,
-            currentStep: caseRow.current_step,
-            createdAt,
-            updatedAt,
-            ...(caseRow.assigned_to && { assignedTo: caseRow.assigned_to }),
-            notes: notes.map(note => ({
-                id: note.id,
-                caseId: note.case_id,
-                content: note.content,
-                createdBy: note.created_by,
-                createdAt: new Date(note.created_at)
-            })),
-            aiSummaries: aiSummaries.map(this.mapDatabaseSummaryToModel),
-            auditTrail: auditTrail.map(entry => ({
-                id: entry.id,
-                caseId: entry.case_id,
-                action: entry.action,
-                details: entry.details ? JSON.parse(entry.details) : undefined,
-                userId: entry.user_id,
-                timestamp: new Date(entry.timestamp)
-            }))
-        };
+    /**
+     * Get one uploaded file's record
+     */
+    public async getCaseDocument(documentId: string): Promise<CaseDocumentRecordModel | null> {
+        try {
+            const row = this.getDatabase().prepare('SELECT * FROM case_documents WHERE id = ?')
+                .get(documentId) as CaseDocumentRecord | undefined;
+            return row ? this.mapDatabaseDocumentToModel(row) : null;
+        } catch (error) {
+            throw new Error(`Failed to get case document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Files uploaded to a case, oldest first
+     */
+    public async getCaseDocuments(caseId: string): Promise<CaseDocumentRecordModel[]> {
+        try {
+            const rows = this.getDatabase().prepare(`
+        SELECT * FROM case_documents WHERE case_id = ? ORDER BY uploaded_at ASC, rowid ASC
+      `).all(caseId) as CaseDocumentRecord[];
+            return rows.map(row => this.mapDatabaseDocumentToModel(row));
+        } catch (error) {
+            throw new Error(`Failed to get case documents: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Record a review decision on a document: its current review state, the history entry and the audit entry,
+     * in one transaction
+     */
+    public async reviewDocument(review: CaseDocumentReviewModel, activity: ActivityLog): Promise<void> {
+        try {
+            this.transaction(() => {
+                this.applyDocumentReview(review);
+                this.insertActivity(activity);
+            });
+        } catch (error) {
+            throw new Error(`Failed to review document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Record an upload the malware scanner flagged, with its audit entry, in one transaction.
+     * The case's application data is not changed.
+     */
+    public async saveQuarantinedDocument(document: CaseDocumentRecordModel, activity: ActivityLog): Promise<void> {
+        try {
+            this.transaction(() => {
+                this.insertCaseDocument(document);
+                this.insertActivity(activity);
+            });
+        } catch (error) {
+            throw new Error(`Failed to save quarantined document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Review decisions on a document, oldest first
+     */
+    public async getDocumentReviews(documentId: string): Promise<CaseDocumentReviewModel[]> {
+        try {
+            const rows = this.getDatabase().prepare(`
+        SELECT * FROM case_document_reviews WHERE document_id = ? ORDER BY reviewed_at ASC, rowid ASC
+      `).all(documentId) as CaseDocumentReview[];
+            return rows.map(row => ({
+                id: row.id,
+                documentId: row.document_id,
+                status: row.status,
+                ...(row.reason && { reason: row.reason }),
+                ...(row.expiry_date && { expiryDate: row.expiry_date }),
+                reviewedBy: row.reviewed_by,
+                reviewedAt: new Date(row.reviewed_at)
+            }));
+        } catch (error) {
+            throw new Error(`Failed to get document reviews: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Store the text extracted from an uploaded file, replacing any earlier extraction
+     */
+    public async saveDocumentText(documentText: DocumentText): Promise<void> {
+        try {
+            this.getDatabase().prepare(`
+        INSERT INTO case_document_texts (document_id, method, text, truncated, extracted_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (document_id) DO UPDATE SET
+          method = excluded.method, text = excluded.text, truncated = excluded.truncated, extracted_at = excluded.extracted_at
+      `).run(
+                documentText.documentId,
+                documentText.method,
+                documentText.text,
+                documentText.truncated ? 1 : 0,
+                documentText.extractedAt.toISOString()
+            );
+        } catch (error) {
+            throw new Error(`Failed to save document text: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Extracted text of the given documents; documents without extracted text are left out
+     */
+    public async getDocumentTexts(documentIds: string[]): Promise<DocumentText[]> {
+        if (documentIds.length === 0) {
+            return [];
+        }
+
+        try {
+            const rows = this.getDatabase().prepare(`
+        SELECT * FROM case_document_texts WHERE document_id IN (${documentIds.map(() => '?').join(', ')})
+      `).all(...documentIds) as CaseDocumentText[];
+            return rows.map(row => ({
+                documentId: row.document_id,
+                method: row.method,
+                text: row.text,
+                truncated: Boolean(row.truncated),
+                extractedAt: new Date(row.extracted_at)
+            }));
+        } catch (error) {
+            throw new Error(`Failed to get document texts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Get every stored version of a case's application data, oldest first
+     */
+    public async getApplicationRevisions(caseId: string): Promise<ApplicationRevisionModel[]> {
+        try {
+            const stmt = this.getDatabase().prepare(`
+        SELECT * FROM application_revisions
+        WHERE case_id = ?
+        ORDER BY version ASC
+      `);
+
+            const revisionRows = stmt.all(caseId) as ApplicationRevision[];
+            return revisionRows.map(revision => this.mapDatabaseRevisionToModel(revision));
+        } catch (error) {
+            throw new Error(`Failed to get application revisions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Replace a case's application data with a new revision, recording the revision and its audit entry in one transaction.
+     * A revision adding an uploaded file stores its document record with it, and marks the document it replaces.
+     * Fails if the case has changed since the version the revision was based on.
+     */
+    public async saveApplicationRevision(
+        revision: ApplicationRevisionModel,
+        activity: ActivityLog,
+        expectedVersion: number | undefined,
+        document?: CaseDocumentRecordModel,
+        replacedReview?: CaseDocumentReviewModel
+    ): Promise<void> {
+        try {
+            this.transaction(() => {
+                this.writeCaseUpdate(revision.caseId, { applicationData: revision.applicationData, expectedVersion });
+                this.insertApplicationRevision(revision);
+                if (document) {
+                    this.insertCaseDocument(document);
+                }
+                if (replacedReview) {
+                    this.applyDocumentReview(replacedReview);
+                }
+                this.insertActivity(activity);
+            });
+        } catch (error) {
+            throw new Error(`Failed to save application revision: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Cases not merged into another case that share the applicant's normalized email or date of birth
+     */
+    public async findDuplicateCandidates(criteria: DuplicateCandidateCriteria): Promise<CaseListItem[]> {
+        try {
+            const conditions = ["lower(trim(json_extract(application_data, '$.applicantEmail'))) = ?"];
+            const params: unknown[] = [criteria.email];
+
+            if (criteria.dateOfBirth) {
+                conditions.push("date(json_extract(application_data, '$.formData.dateOfBirth')) = date(?)");
+                params.push(criteria.dateOfBirth);
+            }
+
+            let sql = `SELECT * FROM cases WHERE merged_into IS NULL AND deleted_at IS NULL AND (${conditions.join(' OR ')})`;
+            if (criteria.excludeCaseId) {
+                sql += ' AND id != ?';
+                params.push(criteria.excludeCaseId);
+            }
+
+            const caseRows = this.getDatabase().prepare(`${sql} ORDER BY created_at DESC`).all(...params) as Case[];
+            return caseRows.map(caseRow => this.mapDatabaseCaseToListItem(caseRow));
+        } catch (error) {
+            throw new Error(`Failed to find duplicate candidates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Merge a duplicate case into the surviving case in one transaction: its notes, uploaded documents, tags,
+     * links and audit history move over, both cases are updated and the merge is audited
+     */
+    public async mergeCases(merge: CaseMerge): Promise<void> {
+        try {
+            this.transaction(() => {
+                const db = this.getDatabase();
+                const { survivingCaseId, mergedCaseId } = merge;
+                this.checkCaseVersion(survivingCaseId, merge.expectedVersion);
+
+                db.prepare('UPDATE case_notes SET case_id = ? WHERE case_id = ?').run(survivingCaseId, mergedCaseId);
+                // Reviews and extracted text are keyed by document and move with it
+                db.prepare('UPDATE case_documents SET case_id = ? WHERE case_id = ?').run(survivingCaseId, mergedCaseId);
+
+                db.prepare(`
+          INSERT OR IGNORE INTO case_tags (case_id, tag_id, tagged_by, tagged_at)
+          SELECT ?, tag_id, tagged_by, tagged_at FROM case_tags WHERE case_id = ?
+        `).run(survivingCaseId, mergedCaseId);
+                db.prepare('DELETE FROM case_tags WHERE case_id = ?').run(mergedCaseId);
+
+                // Links between the two cases, or ones the surviving case already has, stay on the merged case
+                db.prepare('UPDATE OR IGNORE case_links SET case_id = ? WHERE case_id = ? AND linked_case_id != ?')
+                    .run(survivingCaseId, mergedCaseId, survivingCaseId);
+                db.prepare('UPDATE OR IGNORE case_links SET linked_case_id = ? WHERE linked_case_id = ? AND case_id != ?')
+                    .run(survivingCaseId, mergedCaseId, survivingCaseId);
+
+                // Moved entries remember which case they were recorded on
+                db.prepare(`
+          UPDATE audit_trail
+          SET case_id = ?, details = json_set(COALESCE(details, '{}'), '$.mergedFrom', ?)
+          WHERE case_id = ?
+        `).run(survivingCaseId, mergedCaseId, mergedCaseId);
+
+                this.writeCaseUpdate(mergedCaseId, merge.mergedCaseUpdates);
+                // The surviving case only changes when the duplicate brings documents it lacks
+                if (merge.survivingCaseUpdates && merge.revision) {
+                    this.writeCaseUpdate(survivingCaseId, merge.survivingCaseUpdates);
+                    this.insertApplicationRevision(merge.revision);
+                }
+                merge.activities.forEach(activity => this.insertActivity(activity));
+
+                refreshCaseSearchDocuments(db, survivingCaseId);
+                refreshCaseSearchDocuments(db, mergedCaseId);
+            });
+        } catch (error) {
+            throw new Error(`Failed to merge cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Links created on the case and links pointing at it, oldest first, each with the case on the other side
+     * and its final decision when it has one
+     */
+    public async getLinkedCases(caseId: string): Promise<LinkedCase[]> {
+        try {
+            const stmt = this.getDatabase().prepare(`
+        SELECT l.*,
+          CASE WHEN l.case_id = @caseId THEN 'outgoing' ELSE 'incoming' END AS direction,
+          c.id AS other_case_id,
+          c.application_data AS other_application_data,
+          c.status AS other_status,
+          c.current_step AS other_current_step,
+          c.updated_at AS other_updated_at,
+          (
+            SELECT json_object('status', json_extract(a.details, '$.newStatus'), 'decidedAt', a.timestamp)
+            FROM audit_trail a
+            WHERE a.case_id = c.id
+              AND a.action = 'status_updated'
+              AND json_extract(a.details, '$.newStatus') IN (${FINAL_DECISION_STATUSES.map(() => '?').join(', ')})
+            ORDER BY a.timestamp DESC
+            LIMIT 1
+          ) AS decision
+        FROM case_links l
+        JOIN cases c ON c.id = CASE WHEN l.case_id = @caseId THEN l.linked_case_id ELSE l.case_id END
+        WHERE (l.case_id = @caseId OR l.linked_case_id = @caseId) AND c.deleted_at IS NULL
+        ORDER BY l.created_at ASC
+      `);
+
+            const linkRows = stmt.all(...FINAL_DECISION_STATUSES, { caseId }) as LinkedCaseRow[];
+            return linkRows.map(linkRow => this.mapDatabaseLinkedCaseToModel(linkRow));
+        } catch (error) {
+            throw new Error(`Failed to get linked cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Store a case link together with its audit entries in one transaction
+     */
+    public async saveCaseLink(link: CaseLinkModel, activities: ActivityLog[]): Promise<void> {
+        try {
+            this.transaction(() => {
+                this.getDatabase().prepare(`
+          INSERT INTO case_links (id, case_id, linked_case_id, link_type, note, created_by, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(
+                    link.id,
+                    link.caseId,
+                    link.linkedCaseId,
+                    link.type,
+                    link.note || null,
+                    link.createdBy,
+                    link.createdAt.toISOString()
+                );
+                activities.forEach(activity => this.insertActivity(activity));
+            });
+        } catch (error) {
+            throw new Error(`Failed to save case link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Every tag with the number of cases carrying it, by name
+     */
+    public async listTags(): Promise<TagModel[]> {
+        try {
+            const tagRows = this.getDatabase().prepare(`${TAG_WITH_COUNT_SQL} ORDER BY t.name ASC`).all() as Tag[];
+            return tagRows.map(tag => this.mapDatabaseTagToModel(tag));
+        } catch (error) {
+            throw new Error(`Failed to list tags: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    public async getTag(tagId: string): Promise<TagModel | null> {
+        try {
+            const tagRow = this.getDatabase().prepare(`${TAG_WITH_COUNT_SQL} WHERE t.id = ?`).get(tagId) as Tag | undefined;
+            return tagRow ? this.mapDatabaseTagToModel(tagRow) : null;
+        } catch (error) {
+            throw new Error(`Failed to get tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Find a tag by name; names are compared ignoring case
+     */
+    public async getTagByName(name: string): Promise<TagModel | null> {
+        try {
+            const tagRow = this.getDatabase().prepare(`${TAG_WITH_COUNT_SQL} WHERE t.name = ?`).get(name) as Tag | undefined;
+            return tagRow ? this.mapDatabaseTagToModel(tagRow) : null;
+        } catch (error) {
+            throw new Error(`Failed to get tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Tags on a case, by name
+     */
+    public async getCaseTags(caseId: string): Promise<TagModel[]> {
+        try {
+            const stmt = this.getDatabase().prepare(`
+        SELECT t.* FROM tags t
+        JOIN case_tags ct ON ct.tag_id = t.id
+        WHERE ct.case_id = ?
+        ORDER BY t.name ASC
+      `);
+
+            const tagRows = stmt.all(caseId) as Tag[];
+            return tagRows.map(tag => this.mapDatabaseTagToModel(tag));
+        } catch (error) {
+            throw new Error(`Failed to get case tags: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * IDs of the cases carrying a tag
+     */
+    public async getTaggedCaseIds(tagId: string): Promise<string[]> {
+        try {
+            const rows = this.getDatabase().prepare('SELECT case_id FROM case_tags WHERE tag_id = ? ORDER BY tagged_at ASC')
+                .all(tagId) as { case_id: string }[];
+            return rows.map(row => row.case_id);
+        } catch (error) {
+            throw new Error(`Failed to get tagged cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    public async saveTag(tag: TagModel): Promise<void> {
+        try {
+            this.getDatabase().prepare(`
+        INSERT INTO tags (id, name, color, description, created_by, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+                tag.id,
+                tag.name,
+                tag.color,
+                tag.description || null,
+                tag.createdBy,
+                tag.createdAt.toISOString(),
+                tag.updatedAt.toISOString()
+            );
+        } catch (error) {
+            throw new Error(`Failed to save tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    public async updateTag(tagId: string, updates: TagUpdate): Promise<void> {
+        try {
+            const updateFields: string[] = [];
+            const updateValues: unknown[] = [];
+
+            if (updates.name !== undefined) {
+                updateFields.push('name = ?');
+                updateValues.push(updates.name);
+            }
+            if (updates.color !== undefined) {
+                updateFields.push('color = ?');
+                updateValues.push(updates.color);
+            }
+            // An empty description clears it
+            if (updates.description !== undefined) {
+                updateFields.push('description = ?');
+                updateValues.push(updates.description || null);
+            }
+
+            updateFields.push('updated_at = ?');
+            updateValues.push(new Date().toISOString());
+
+            const result = this.getDatabase().prepare(`UPDATE tags SET ${updateFields.join(', ')} WHERE id = ?`)
+                .run(...updateValues, tagId);
+            if (result.changes === 0) {
+                throw new Error(`Tag with ID ${tagId} not found`);
+            }
+        } catch (error) {
+            throw new Error(`Failed to update tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Delete a tag, removing it from every case, and record the removals in one transaction
+     */
+    public async deleteTag(tagId: string, activities: ActivityLog[]): Promise<void> {
+        try {
+            this.transaction(() => {
+                const db = this.getDatabase();
+                const caseIds = db.prepare('SELECT case_id FROM case_tags WHERE tag_id = ?').all(tagId) as { case_id: string }[];
+                caseIds.forEach(({ case_id }) => {
+                    db.prepare('UPDATE cases SET updated_at = ?, version = version + 1 WHERE id = ?').run(this.nextUpdatedAt(case_id), case_id);
+                });
+
+                // case_tags rows go with the tag
+                const result = db.prepare('DELETE FROM tags WHERE id = ?').run(tagId);
+                if (result.changes === 0) {
+                    throw new Error(`Tag with ID ${tagId} not found`);
+                }
+                activities.forEach(activity => this.insertActivity(activity));
+            });
+        } catch (error) {
+            throw new Error(`Failed to delete tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Cases in the given statuses whose final decision is no later than the cutoff, longest concluded first.
+     * Soft-deleted cases are included: retention applies to them as well.
+     */
+    public async findRetentionCandidates(statuses: CaseStatus[], cutoff: Date): Promise<RetentionCandidateRow[]> {
+        try {
+            if (statuses.length === 0) {
+                return [];
+            }
+
+            const stmt = this.getDatabase().prepare(`
+        SELECT * FROM (
+          SELECT c.id, c.status, c.created_at,
+            ${APPLICATION_TYPE_SQL} AS application_type,
+            COALESCE((
+              SELECT MAX(a.timestamp) FROM audit_trail a
+              WHERE a.case_id = c.id
+                AND a.action = 'status_updated'
+                AND json_extract(a.details, '$.newStatus') IN (${FINAL_DECISION_STATUSES.map(() => '?').join(', ')})
+            ), c.updated_at) AS concluded_at
+          FROM cases c
+          WHERE c.status IN (${statuses.map(() => '?').join(', ')})
+        )
+        WHERE julianday(concluded_at) <= julianday(?)
+        ORDER BY julianday(concluded_at) ASC, id ASC
+      `);
+
+            return stmt.all(...FINAL_DECISION_STATUSES, ...statuses, cutoff.toISOString()) as RetentionCandidateRow[];
+        } catch (error) {
+            throw new Error(`Failed to find retention candidates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Hard-delete cases, leaving only their anonymized stubs. Notes, summaries, revisions, links, tags,
+     * document records and audit entries go with the case row; stored files are left for the caller to remove.
+     */
+    public async purgeCases(stubs: PurgedCaseModel[]): Promise<void> {
+        try {
+            this.transaction(() => {
+                const db = this.getDatabase();
+                stubs.forEach(stub => {
+                    db.prepare(`
+            INSERT INTO purged_cases (case_id, application_type, status, created_at, concluded_at, purged_at, purged_by, audit_trail)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          `).run(
+                        stub.caseId,
+                        stub.applicationType,
+                        stub.status,
+                        stub.createdAt.toISOString(),
+                        stub.concludedAt.toISOString(),
+                        stub.purgedAt.toISOString(),
+                        stub.purgedBy,
+                        JSON.stringify(stub.auditTrail)
+                    );
+
+                    // The search index is a virtual table without foreign keys
+                    db.prepare('DELETE FROM case_search WHERE case_id = ?').run(stub.caseId);
+                    const result = db.prepare('DELETE FROM cases WHERE id = ?').run(stub.caseId);
+                    if (result.changes === 0) {
+                        throw new Error(`Case with ID ${stub.caseId} not found`);
+                    }
+                });
+            });
+        } catch (error) {
+            throw new Error(`Failed to purge cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Stubs of purged cases, most recently purged first
+     */
+    public async getPurgedCases(): Promise<PurgedCaseModel[]> {
+        try {
+            const rows = this.getDatabase().prepare('SELECT * FROM purged_cases ORDER BY purged_at DESC, case_id ASC').all() as PurgedCase[];
+            return rows.map(row => this.mapDatabasePurgedCaseToModel(row));
+        } catch (error) {
+            throw new Error(`Failed to get purged cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * IDs of every case, deleted and merged ones included, whose applicant has the given normalized email,
+     * oldest first
+     */
+    public async findCaseIdsByApplicantEmail(email: string): Promise<string[]> {
+        try {
+            const rows = this.getDatabase().prepare(`
+        SELECT id FROM cases
+        WHERE lower(trim(json_extract(application_data, '$.applicantEmail'))) = ?
+        ORDER BY created_at ASC, id ASC
+      `).all(email) as Array<{ id: string }>;
+            return rows.map(row => row.id);
+        } catch (error) {
+            throw new Error(`Failed to find cases by applicant email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Overwrite an applicant's data in one transaction: the redacted application data, revisions and audit
+     * details are written as given, while notes, AI summaries and AI prompts and responses are replaced
+     * with the redaction marker and text extracted from documents is deleted. Uploaded documents keep their
+     * records with the file name, description, review reasons and storage location redacted; the stored files
+     * are left for the caller to remove. Stored responses of idempotent requests for the case are deleted.
+     * Returns how many notes, summaries, interactions, document texts, documents and idempotency keys were
+     * redacted or deleted.
+     */
+    public async eraseSubjectData(erasures: SubjectErasure[], redaction: string): Promise<SubjectErasureCounts> {
+        try {
+            return this.transaction(() => {
+                const db = this.getDatabase();
+                const counts: SubjectErasureCounts = {
+                    notes: 0, summaries: 0, aiInteractions: 0, documentTexts: 0, documents: 0, idempotencyKeys: 0
+                };
+
+                erasures.forEach(erasure => {
+                    const { caseId } = erasure;
+                    const result = db.prepare('UPDATE cases SET application_data = ?, updated_at = ?, version = version + 1 WHERE id = ?')
+                        .run(JSON.stringify(erasure.applicationData), this.nextUpdatedAt(caseId), caseId);
+                    if (result.changes === 0) {
+                        throw new Error(`Case with ID ${caseId} not found`);
+                    }
+
+                    erasure.revisions.forEach(revision => {
+                        db.prepare('UPDATE application_revisions SET application_data = ?, changes = ? WHERE id = ?')
+                            .run(JSON.stringify(revision.applicationData), JSON.stringify(revision.changes), revision.id);
+                    });
+                    erasure.auditDetails.forEach(entry => {
+                        db.prepare('UPDATE audit_trail SET details = ? WHERE id = ?').run(JSON.stringify(entry.details), entry.id);
+                    });
+
+                    counts.notes += db.prepare('UPDATE case_notes SET content = ? WHERE case_id = ?').run(redaction, caseId).changes;
+                    db.prepare('UPDATE case_note_revisions SET content = ? WHERE note_id IN (SELECT id FROM case_notes WHERE case_id = ?)')
+                        .run(redaction, caseId);
+                    counts.summaries += db.prepare(`UPDATE ai_summaries SET content = ?, recommendations = '[]' WHERE case_id = ?`)
+                        .run(redaction, caseId).changes;
+                    counts.aiInteractions += db.prepare('UPDATE ai_interactions SET prompt = ?, response = ? WHERE case_id = ?')
+                        .run(redaction, redaction, caseId).changes;
+                    counts.documentTexts += db.prepare(`
+            DELETE FROM case_document_texts WHERE document_id IN (SELECT id FROM case_documents WHERE case_id = ?)
+          `).run(caseId).changes;
+                    db.prepare(`
+            UPDATE case_document_reviews SET reason = ?
+            WHERE reason IS NOT NULL AND document_id IN (SELECT id FROM case_documents WHERE case_id = ?)
+          `).run(redaction, caseId);
+                    counts.documents += db.prepare(`
+            UPDATE case_documents
+            SET filename = ?,
+                description = CASE WHEN description IS NULL THEN NULL ELSE ? END,
+                review_reason = CASE WHEN review_reason IS NULL THEN NULL ELSE ? END,
+                checksum = ?, storage_key = ?
+            WHERE case_id = ?
+          `).run(redaction, redaction, redaction, redaction, redaction, caseId).changes;
+                    // Keys have no case column; case IDs are UUIDs, so matching them in the path or stored response is exact
+                    counts.idempotencyKeys += db.prepare(`
+            DELETE FROM idempotency_keys WHERE instr(scope, ?) > 0 OR instr(response_body, ?) > 0
+          `).run(`/cases/${caseId}`, caseId).changes;
+
+                    this.insertActivity(erasure.activity);
+                    refreshCaseSearchDocuments(db, caseId);
+                });
+
+                return counts;
+            });
+        } catch (error) {
+            throw new Error(`Failed to erase subject data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * The given storage keys that no document references any more, so their files can be deleted
+     */
+    public async findUnreferencedStorageKeys(storageKeys: string[]): Promise<string[]> {
+        try {
+            const stmt = this.getDatabase().prepare('SELECT 1 FROM case_documents WHERE storage_key = ? LIMIT 1');
+            return [...new Set(storageKeys)].filter(storageKey => !stmt.get(storageKey));
+        } catch (error) {
+            throw new Error(`Failed to find unreferenced storage keys: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Get the stored request for an idempotency key on one endpoint, ignoring expired keys
+     */
+    public async getIdempotencyRecord(key: string, scope: string, now: Date): Promise<IdempotencyRecord | null> {
+        try {
+            const row = this.getDatabase().prepare(`
+        SELECT * FROM idempotency_keys WHERE idempotency_key = ? AND scope = ? AND expires_at > ?
+      `).get(key, scope, now.toISOString()) as IdempotencyKey | undefined;
+            return row ? this.mapDatabaseIdempotencyKeyToModel(row) : null;
+        } catch (error) {
+            throw new Error(`Failed to get idempotency key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Claim an idempotency key for a request that is about to run, clearing out expired keys first.
+     * Returns false when the key is already claimed.
+     */
+    public async createIdempotencyRecord(record: IdempotencyRecord): Promise<boolean> {
+        try {
+            return this.transaction(() => {
+                const db = this.getDatabase();
+                db.prepare('DELETE FROM idempotency_keys WHERE expires_at <= ?').run(record.createdAt.toISOString());
+                const result = db.prepare(`
+          INSERT OR IGNORE INTO idempotency_keys (idempotency_key, scope, request_hash, created_at, expires_at)
+          VALUES (?, ?, ?, ?, ?)
+        `).run(record.key, record.scope, record.requestHash, record.createdAt.toISOString(), record.expiresAt.toISOString());
+                return result.changes > 0;
+            });
+        } catch (error) {
+            throw new Error(`Failed to create idempotency key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Store the response of the request that claimed an idempotency key
+     */
+    public async saveIdempotencyResponse(
+        key: string,
+        scope: string,
+        statusCode: number,
+        body: unknown,
+        headers: Record<string, string> = {}
+    ): Promise<void> {
+        try {
+            this.getDatabase().prepare(`
+        UPDATE idempotency_keys SET status_code = ?, response_headers = ?, response_body = ?
+        WHERE idempotency_key = ? AND scope = ?
+      `).run(statusCode, JSON.stringify(headers), JSON.stringify(body ?? null), key, scope);
+        } catch (error) {
+            throw new Error(`Failed to save idempotency response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Release an idempotency key so the request can be retried
+     */
+    public async deleteIdempotencyRecord(key: string, scope: string): Promise<void> {
+        try {
+            this.getDatabase().prepare('DELETE FROM idempotency_keys WHERE idempotency_key = ? AND scope = ?').run(key, scope);
+        } catch (error) {
+            throw new Error(`Failed to delete idempotency key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Execute operations in a transaction
+     */
+    public transaction<T>(operations: () => T): T {
+        return this.getDatabase().transaction(operations);
+    }
+
+    // Private helper methods
+
+    /**
+     * Get case notes for a case
+     */
+    public async getCaseNotes(caseId: string): Promise<CaseNote[]> {
+        try {
+            const stmt = this.getDatabase().prepare(`
+        SELECT * FROM case_notes 
+        WHERE case_id = ? 
+        ORDER BY created_at DESC
+      `);
+
+            return stmt.all(caseId) as CaseNote[];
+        } catch (error) {
+            throw new Error(`Failed to get case notes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Get AI summaries for a case (private method)
+     */
+    private async getCaseSummaries(caseId: string): Promise<AISummary[]> {
+        try {
+            const stmt = this.getDatabase().prepare(`
+        SELECT * FROM ai_summaries 
+        WHERE case_id = ? 
+        ORDER BY generated_at DESC
+      `);
+
+            return stmt.all(caseId) as AISummary[];
+        } catch (error) {
+            throw new Error(`Failed to get case summaries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Save case notes (private method)
+     */
+    private saveCaseNotes(caseId: string, notes: Array<Partial<CaseNoteModel> & { content: string }>): void {
+        // Upsert so saving a case keeps the revision history of its notes
+        const stmt = this.getDatabase().prepare(`
+        INSERT INTO case_notes (
+          id, case_id, content, created_by, created_at, parent_id, category, visibility,
+          updated_at, updated_by, deleted_at, deleted_by, deletion_reason
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          case_id = excluded.case_id,
+          content = excluded.content,
+          parent_id = excluded.parent_id,
+          category = excluded.category,
+          visibility = excluded.visibility,
+          updated_at = excluded.updated_at,
+          updated_by = excluded.updated_by,
+          deleted_at = excluded.deleted_at,
+          deleted_by = excluded.deleted_by,
+          deletion_reason = excluded.deletion_reason
+      `);
+
+        for (const note of notes) {
+            stmt.run(
+                note.id || randomUUID(),
+                caseId,
+                note.content,
+                note.createdBy || 'system',
+                note.createdAt ? note.createdAt.toISOString() : new Date().toISOString(),
+                note.parentId ?? null,
+                note.category ?? 'general',
+                note.visibility ?? 'internal',
+                note.updatedAt ? note.updatedAt.toISOString() : null,
+                note.updatedBy ?? null,
+                note.deletedAt ? note.deletedAt.toISOString() : null,
+                note.deletedBy ?? null,
+                note.deletionReason ?? null
+            );
+        }
+    }
+
+    /**
+     * Save audit entry (private method)
+     */
+    private saveAuditEntry(entry: AuditEntry): void {
+        const stmt = this.getDatabase().prepare(`
+        INSERT OR REPLACE INTO audit_trail (
+          id, case_id, action, details, user_id, timestamp
+        ) VALUES (?, ?, ?, ?, ?, ?)
+      `);
+
+        stmt.run(
+            entry.id,
+            entry.case_id,
+            entry.action,
+            entry.details || null,
+            entry.user_id,
+            entry.timestamp
+        );
+    }
+
+    /**
+     * Add overdue / due soon conditions. The due date is the step entry time plus the hours of the
+     * first matching SLA rule; open cases in a step without a rule are never overdue or due soon.
+     */
+    private addSlaConditions(sla: CaseSlaFilter, conditions: string[], params: unknown[]): void {
+        const openStatuses = [CaseStatus.ACTIVE, CaseStatus.PENDING];
+        const now = sla.now.toISOString();
+
+        const buildDueAt = (): { sql: string; params: unknown[] } => {
+            if (sla.rules.length === 0) {
+                return { sql: 'NULL', params: [] };
+            }
+            const whens: string[] = [];
+            const ruleParams: unknown[] = [];
+            sla.rules.forEach(rule => {
+                if (rule.applicationType) {
+                    whens.push(`WHEN current_step = ? AND ${APPLICATION_TYPE_SQL} = ? THEN ?`);
+                    ruleParams.push(rule.step, rule.applicationType, rule.hours);
+                } else {
+                    whens.push('WHEN current_step = ? THEN ?');
+                    ruleParams.push(rule.step, rule.hours);
+                }
+            });
+            return {
+                sql: `julianday(COALESCE(step_entered_at, updated_at)) + (CASE ${whens.join(' ')} END) / 24.0`,
+                params: ruleParams
+            };
+        };
+
+        // COALESCE turns the NULL from steps without a rule into "not flagged"
+        const addFlag = (expected: boolean, comparison: (dueAt: string) => string, comparisonParams: unknown[]): void => {
+            const dueAt = buildDueAt();
+            conditions.push(`COALESCE((status IN (?, ?) AND ${comparison(dueAt.sql)}), 0) = ?`);
+            params.push(...openStatuses, ...dueAt.params, ...comparisonParams, expected ? 1 : 0);
+        };
+
+        if (sla.overdue !== undefined) {
+            addFlag(sla.overdue, dueAt => `${dueAt} < julianday(?)`, [now]);
+        }
+
+        if (sla.dueSoon !== undefined) {
+            addFlag(
+                sla.dueSoon,
+                dueAt => `${dueAt} BETWEEN julianday(?) AND julianday(?) + ? / 24.0`,
+                [now, now, sla.dueSoonHours]
+            );
+        }
+    }
+
+    private mapDatabaseCaseToListItem(caseRow: Case): CaseListItem {
+        return {
+            id: caseRow.id,
+            applicationData: this.mapDatabaseApplicationDataToModel(JSON.parse(caseRow.application_data)),
+            status: caseRow.status,
+            currentStep: caseRow.current_step,
+            createdAt: new Date(caseRow.created_at),
+            updatedAt: new Date(caseRow.updated_at),
+            ...(caseRow.step_entered_at && { stepEnteredAt: new Date(caseRow.step_entered_at) }),
+            ...(caseRow.assigned_to && { assignedTo: caseRow.assigned_to }),
+            ...(caseRow.merged_into && { mergedInto: caseRow.merged_into }),
+            ...(caseRow.priority && { priority: caseRow.priority }),
+            ...(caseRow.deleted_at && { deletedAt: new Date(caseRow.deleted_at) }),
+            ...(caseRow.deleted_by && { deletedBy: caseRow.deleted_by }),
+            version: caseRow.version
+        };
+    }
+
+    private mapDatabaseCaseToModel(
+        caseRow: Case,
+        notes: CaseNote[],
+        aiSummaries: AISummary[],
+        auditTrail: AuditEntry[]
+    ): CaseModel {
+        return {
+            ...this.mapDatabaseCaseToListItem(caseRow),
+            notes: notes.map(note => this.mapDatabaseNoteToModel(note)),
+            aiSummaries: aiSummaries.map(this.mapDatabaseSummaryToModel),
+            auditTrail: auditTrail.map(entry => ({
+                id: entry.id,
+                caseId: entry.case_id,
+                action: entry.action,
+                details: entry.details ? JSON.parse(entry.details) : undefined,
+                userId: entry.user_id,
+                timestamp: new Date(entry.timestamp)
+            }))
+        };
     }
 
 
@@ -552,6 +1889,218 @@ export class DataService {
         return mappedSummary;
     }
 
+    private insertApplicationRevision(revision: ApplicationRevisionModel): void {
+        // UNIQUE (case_id, version) rejects a concurrent edit based on the same version
+        this.getDatabase().prepare(`
+      INSERT INTO application_revisions (
+        id, case_id, version, application_data, changes, created_by, created_at, restored_from
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+            revision.id,
+            revision.caseId,
+            revision.version,
+            JSON.stringify(revision.applicationData),
+            JSON.stringify(revision.changes),
+            revision.createdBy,
+            revision.createdAt.toISOString(),
+            revision.restoredFrom ?? null
+        );
+    }
+
+    private insertCaseDocument(document: CaseDocumentRecordModel): void {
+        this.getDatabase().prepare(`
+      INSERT INTO case_documents (
+        id, case_id, filename, mime_type, size, checksum, storage_key, description, document_type, uploaded_by, uploaded_at,
+        review_status, replaces_document_id, scan_status, scan_signature, scanned_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+            document.id,
+            document.caseId,
+            document.filename,
+            document.mimeType,
+            document.size,
+            document.checksum,
+            document.storageKey,
+            document.description ?? null,
+            document.documentType ?? null,
+            document.uploadedBy,
+            document.uploadedAt.toISOString(),
+            document.reviewStatus,
+            document.replacesDocumentId ?? null,
+            document.scanStatus,
+            document.scanSignature ?? null,
+            document.scannedAt?.toISOString() ?? null
+        );
+    }
+
+    // The review becomes the document's current state and is appended to its history
+    private applyDocumentReview(review: CaseDocumentReviewModel): void {
+        const result = this.getDatabase().prepare(`
+      UPDATE case_documents
+      SET review_status = ?, review_reason = ?, reviewed_by = ?, reviewed_at = ?, expiry_date = ?
+      WHERE id = ?
+    `).run(
+            review.status,
+            review.reason ?? null,
+            review.reviewedBy,
+            review.reviewedAt.toISOString(),
+            review.expiryDate ?? null,
+            review.documentId
+        );
+        if (result.changes === 0) {
+            throw new Error(`Document with ID ${review.documentId} not found`);
+        }
+
+        this.getDatabase().prepare(`
+      INSERT INTO case_document_reviews (id, document_id, status, reason, expiry_date, reviewed_by, reviewed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+            review.id,
+            review.documentId,
+            review.status,
+            review.reason ?? null,
+            review.expiryDate ?? null,
+            review.reviewedBy,
+            review.reviewedAt.toISOString()
+        );
+    }
+
+    private mapDatabaseDocumentToModel(row: CaseDocumentRecord): CaseDocumentRecordModel {
+        return {
+            id: row.id,
+            caseId: row.case_id,
+            filename: row.filename,
+            mimeType: row.mime_type,
+            size: row.size,
+            checksum: row.checksum,
+            storageKey: row.storage_key,
+            ...(row.description && { description: row.description }),
+            ...(row.document_type && { documentType: row.document_type }),
+            uploadedBy: row.uploaded_by,
+            uploadedAt: new Date(row.uploaded_at),
+            reviewStatus: row.review_status,
+            ...(row.review_reason && { reviewReason: row.review_reason }),
+            ...(row.reviewed_by && { reviewedBy: row.reviewed_by }),
+            ...(row.reviewed_at && { reviewedAt: new Date(row.reviewed_at) }),
+            ...(row.expiry_date && { expiryDate: row.expiry_date }),
+            ...(row.replaces_document_id && { replacesDocumentId: row.replaces_document_id }),
+            scanStatus: row.scan_status,
+            ...(row.scan_signature && { scanSignature: row.scan_signature }),
+            ...(row.scanned_at && { scannedAt: new Date(row.scanned_at) })
+        };
+    }
+
+    private mapDatabaseNoteToModel(noteRow: CaseNote): CaseNoteModel {
+        return {
+            id: noteRow.id,
+            caseId: noteRow.case_id,
+            content: noteRow.content,
+            createdBy: noteRow.created_by,
+            createdAt: new Date(noteRow.created_at),
+            ...(noteRow.parent_id && { parentId: noteRow.parent_id }),
+            category: noteRow.category,
+            visibility: noteRow.visibility,
+            ...(noteRow.updated_at && { updatedAt: new Date(noteRow.updated_at) }),
+            ...(noteRow.updated_by && { updatedBy: noteRow.updated_by }),
+            ...(noteRow.deleted_at && { deletedAt: new Date(noteRow.deleted_at) }),
+            ...(noteRow.deleted_by && { deletedBy: noteRow.deleted_by }),
+            ...(noteRow.deletion_reason && { deletionReason: noteRow.deletion_reason })
+        };
+    }
+
+    private mapDatabaseRevisionToModel(revisionRow: ApplicationRevision): ApplicationRevisionModel {
+        return {
+            id: revisionRow.id,
+            caseId: revisionRow.case_id,
+            version: revisionRow.version,
+            applicationData: this.mapDatabaseApplicationDataToModel(JSON.parse(revisionRow.application_data)),
+            changes: JSON.parse(revisionRow.changes || '[]'),
+            createdBy: revisionRow.created_by,
+            createdAt: new Date(revisionRow.created_at),
+            ...(revisionRow.restored_from != null && { restoredFrom: revisionRow.restored_from })
+        };
+    }
+
+    private mapDatabasePurgedCaseToModel(row: PurgedCase): PurgedCaseModel {
+        const auditTrail = JSON.parse(row.audit_trail) as Array<{ action: string; userId: string; timestamp: string }>;
+        return {
+            caseId: row.case_id,
+            applicationType: row.application_type,
+            status: row.status,
+            createdAt: new Date(row.created_at),
+            concludedAt: new Date(row.concluded_at),
+            purgedAt: new Date(row.purged_at),
+            purgedBy: row.purged_by,
+            auditTrail: auditTrail.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+        };
+    }
+
+    private mapDatabaseIdempotencyKeyToModel(row: IdempotencyKey): IdempotencyRecord {
+        return {
+            key: row.idempotency_key,
+            scope: row.scope,
+            requestHash: row.request_hash,
+            ...(row.status_code !== null && {
+                response: {
+                    statusCode: row.status_code,
+                    headers: row.response_headers ? JSON.parse(row.response_headers) : {},
+                    body: row.response_body ? JSON.parse(row.response_body) : null
+                }
+            }),
+            createdAt: new Date(row.created_at),
+            expiresAt: new Date(row.expires_at)
+        };
+    }
+
+    private mapDatabaseTagToModel(tagRow: Tag): TagModel {
+        return {
+            id: tagRow.id,
+            name: tagRow.name,
+            color: tagRow.color,
+            ...(tagRow.description && { description: tagRow.description }),
+            createdBy: tagRow.created_by,
+            createdAt: new Date(tagRow.created_at),
+            updatedAt: new Date(tagRow.updated_at),
+            ...(tagRow.case_count !== undefined && { caseCount: tagRow.case_count })
+        };
+    }
+
+    private mapDatabaseLinkedCaseToModel(linkRow: LinkedCaseRow): LinkedCase {
+        const applicationData = JSON.parse(linkRow.other_application_data);
+        const auditedDecision = linkRow.decision ? JSON.parse(linkRow.decision) as { status: CaseStatus; decidedAt: string } : undefined;
+        // Cases concluded without a recorded status change fall back to their last update
+        const decision = auditedDecision
+            || (FINAL_DECISION_STATUSES.includes(linkRow.other_status)
+                ? { status: linkRow.other_status, decidedAt: linkRow.other_updated_at }
+                : undefined);
+
+        return {
+            link: {
+                id: linkRow.id,
+                caseId: linkRow.case_id,
+                linkedCaseId: linkRow.linked_case_id,
+                type: linkRow.link_type,
+                ...(linkRow.note && { note: linkRow.note }),
+                createdBy: linkRow.created_by,
+                createdAt: new Date(linkRow.created_at)
+            },
+            direction: linkRow.direction,
+            case: {
+                id: linkRow.other_case_id,
+                applicantName: applicationData.applicantName,
+                applicationType: applicationData.applicationType,
+                status: linkRow.other_status,
+                currentStep: linkRow.other_current_step,
+                ...(decision && {
+                    decision: {
+                        status: decision.status,
+                        decidedAt: new Date(decision.decidedAt)
+                    }
+                })
+            }
+        };
+    }
+
     private mapDatabaseInteractionToModel(interactionRow: AIInteraction): AIInteractionModel {
         const mappedInteraction = {
             id: interactionRow.id,
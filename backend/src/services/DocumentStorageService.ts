@@ -0,0 +1,199 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DocumentStorageConfig, StoredFile } from '../types/index.js';
+
+const MB = 1024 * 1024;
+
+// Storage keys are <first two checksum characters>/<checksum>
+const STORAGE_KEY_PATTERN = /^[0-9a-f]{2}\/[0-9a-f]{64}$/;
+
+// Infected files are kept apart under quarantine/<checksum>, a key getFilePath never resolves
+const QUARANTINE_DIRECTORY = 'quarantine';
+const QUARANTINE_KEY_PATTERN = /^quarantine\/[0-9a-f]{64}$/;
+
+export const DEFAULT_DOCUMENT_STORAGE_CONFIG: DocumentStorageConfig = {
+  directory: path.join(process.cwd(), 'data', 'documents'),
+  maxSizeBytes: 10 * MB,
+  allowedMimeTypes: [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'image/jpeg',
+    'image/png',
+    'text/plain'
+  ]
+};
+
+const isUtf8 = (content: Buffer): boolean => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(content);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const startsWith = (content: Buffer, signature: number[]): boolean =>
+  content.length >= signature.length && signature.every((byte, index) => content[index] === byte);
+
+/**
+ * Identify a file by its leading bytes rather than its name or the type the client declared.
+ * Returns undefined when the contents match no known type.
+ */
+export function sniffMimeType(content: Buffer): string | undefined {
+  if (startsWith(content, [0x25, 0x50, 0x44, 0x46, 0x2d])) {
+    return 'application/pdf';
+  }
+  if (startsWith(content, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWith(content, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (startsWith(content, [0x47, 0x49, 0x46, 0x38])) {
+    return 'image/gif';
+  }
+  // Legacy Office documents are OLE compound files
+  if (startsWith(content, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return 'application/msword';
+  }
+  // DOCX files are ZIP archives whose entries live under word/
+  if (startsWith(content, [0x50, 0x4b, 0x03, 0x04])) {
+    return content.includes('word/') ? 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' : 'application/zip';
+  }
+  // Anything else is text only when it is valid UTF-8 without control characters other than whitespace
+  const hasControlCharacters = content.some(byte => byte < 0x09 || (byte > 0x0d && byte < 0x20));
+  if (content.length > 0 && !hasControlCharacters && isUtf8(content)) {
+    return 'text/plain';
+  }
+  return undefined;
+}
+
+/**
+ * Build the storage settings from DOCUMENT_STORAGE_DIR, DOCUMENT_MAX_SIZE_MB and
+ * DOCUMENT_ALLOWED_TYPES (comma-separated mime types)
+ */
+export function getDocumentStorageConfigFromEnv(env: Record<string, string | undefined> = process.env): DocumentStorageConfig {
+  const config = { ...DEFAULT_DOCUMENT_STORAGE_CONFIG };
+
+  if (env.DOCUMENT_STORAGE_DIR) {
+    config.directory = path.resolve(env.DOCUMENT_STORAGE_DIR);
+  }
+
+  if (env.DOCUMENT_MAX_SIZE_MB) {
+    const maxSizeMb = Number(env.DOCUMENT_MAX_SIZE_MB);
+    if (!Number.isFinite(maxSizeMb) || maxSizeMb <= 0) {
+      throw new Error(`Invalid value for DOCUMENT_MAX_SIZE_MB: ${env.DOCUMENT_MAX_SIZE_MB}`);
+    }
+    config.maxSizeBytes = Math.floor(maxSizeMb * MB);
+  }
+
+  if (env.DOCUMENT_ALLOWED_TYPES) {
+    const mimeTypes = env.DOCUMENT_ALLOWED_TYPES.split(',').map(type => type.trim().toLowerCase()).filter(Boolean);
+    if (mimeTypes.length === 0 || mimeTypes.some(type => !/^[\w.+-]+\/[\w.+-]+$/.test(type))) {
+      throw new Error(`Invalid value for DOCUMENT_ALLOWED_TYPES: ${env.DOCUMENT_ALLOWED_TYPES}`);
+    }
+    config.allowedMimeTypes = mimeTypes;
+  }
+
+  return config;
+}
+
+/**
+ * Keeps uploaded files on local disk, content-addressed by their SHA-256 checksum so identical
+ * uploads share one file
+ */
+export class DocumentStorageService {
+  private config: DocumentStorageConfig;
+
+  constructor(config: DocumentStorageConfig = DEFAULT_DOCUMENT_STORAGE_CONFIG) {
+    this.config = config;
+  }
+
+  get maxSizeBytes(): number {
+    return this.config.maxSizeBytes;
+  }
+
+  /**
+   * Check a file against the size and type limits and write it to storage. The stored type is the sniffed one.
+   */
+  async store(content: Buffer): Promise<StoredFile> {
+    if (content.length === 0) {
+      throw new Error('File is empty');
+    }
+    if (content.length > this.config.maxSizeBytes) {
+      throw new Error(`File exceeds the maximum size of ${this.formatLimit()}`);
+    }
+
+    const mimeType = sniffMimeType(content);
+    if (!mimeType || !this.config.allowedMimeTypes.includes(mimeType)) {
+      throw new Error(`Unsupported file type: ${mimeType || 'unknown'}`);
+    }
+
+    const checksum = createHash('sha256').update(content).digest('hex');
+    const storageKey = path.posix.join(checksum.slice(0, 2), checksum);
+    await this.write(storageKey, content);
+
+    return { checksum, storageKey, mimeType, size: content.length };
+  }
+
+  /**
+   * Keep a file the malware scanner flagged out of regular storage. Quarantined files are never served,
+   * so they are kept whatever their size or type.
+   */
+  async quarantine(content: Buffer): Promise<StoredFile> {
+    const checksum = createHash('sha256').update(content).digest('hex');
+    const storageKey = path.posix.join(QUARANTINE_DIRECTORY, checksum);
+    await this.write(storageKey, content);
+
+    return { checksum, storageKey, mimeType: sniffMimeType(content) || 'application/octet-stream', size: content.length };
+  }
+
+  /**
+   * Absolute path of a stored file. Keys that are not checksum paths are rejected so a tampered
+   * record can never point outside the storage directory.
+   */
+  getFilePath(storageKey: string): string {
+    if (!STORAGE_KEY_PATTERN.test(storageKey)) {
+      throw new Error(`Invalid storage key: ${storageKey}`);
+    }
+    return this.resolve(storageKey);
+  }
+
+  /**
+   * Delete a stored or quarantined file. Callers must make sure no document still references it,
+   * since identical uploads share one file.
+   */
+  async remove(storageKey: string): Promise<void> {
+    if (!STORAGE_KEY_PATTERN.test(storageKey) && !QUARANTINE_KEY_PATTERN.test(storageKey)) {
+      throw new Error(`Invalid storage key: ${storageKey}`);
+    }
+    await fs.rm(this.resolve(storageKey), { force: true });
+  }
+
+  private async write(storageKey: string, content: Buffer): Promise<void> {
+    const filePath = this.resolve(storageKey);
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      // Write under a temporary name first so a partially written file is never visible under its checksum
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.${randomUUID()}.tmp`;
+      await fs.writeFile(tempPath, content);
+      await fs.rename(tempPath, filePath);
+    }
+  }
+
+  private resolve(storageKey: string): string {
+    return path.join(this.config.directory, ...storageKey.split('/'));
+  }
+
+  private formatLimit(): string {
+    const { maxSizeBytes } = this.config;
+    return maxSizeBytes >= MB
+      ? `${Number((maxSizeBytes / MB).toFixed(2))} MB`
+      : `${Number((maxSizeBytes / 1024).toFixed(2))} KB`;
+  }
+}
@@ -0,0 +1,144 @@
+import { DataService } from './DataService.js';
+import { ApplicationData, DuplicateConfig, DuplicateMatch, DuplicateMatchReason } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_DUPLICATE_CONFIG: DuplicateConfig = {
+  windowDays: 90,
+  nameSimilarityThreshold: 0.85
+};
+
+/**
+ * Build the duplicate detection configuration from DUPLICATE_WINDOW_DAYS and DUPLICATE_NAME_SIMILARITY
+ */
+export function getDuplicateConfigFromEnv(env: Record<string, string | undefined> = process.env): DuplicateConfig {
+  const config = { ...DEFAULT_DUPLICATE_CONFIG };
+
+  if (env.DUPLICATE_WINDOW_DAYS) {
+    const windowDays = Number(env.DUPLICATE_WINDOW_DAYS);
+    if (!Number.isFinite(windowDays) || windowDays <= 0) {
+      throw new Error(`Invalid value for DUPLICATE_WINDOW_DAYS: ${env.DUPLICATE_WINDOW_DAYS}`);
+    }
+    config.windowDays = windowDays;
+  }
+
+  if (env.DUPLICATE_NAME_SIMILARITY) {
+    const threshold = Number(env.DUPLICATE_NAME_SIMILARITY);
+    if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+      throw new Error(`Invalid value for DUPLICATE_NAME_SIMILARITY: ${env.DUPLICATE_NAME_SIMILARITY}`);
+    }
+    config.nameSimilarityThreshold = threshold;
+  }
+
+  return config;
+}
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Lowercase, strip accents and punctuation and sort the name parts so "Doe, Jöhn" matches "John Doe"
+ */
+export const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+
+/**
+ * Date of birth from the form data as YYYY-MM-DD, or undefined when missing or unparseable
+ */
+export const normalizeDateOfBirth = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' && !(value instanceof Date)) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+};
+
+const levenshteinDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity between two applicant names from 0 (unrelated) to 1 (identical after normalization)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) {
+    return 0;
+  }
+  return 1 - levenshteinDistance(left, right) / longest;
+}
+
+export class DuplicateDetectionService {
+  private dataService: DataService;
+  private config: DuplicateConfig;
+
+  constructor(dataService: DataService, config: DuplicateConfig = DEFAULT_DUPLICATE_CONFIG) {
+    this.dataService = dataService;
+    this.config = config;
+  }
+
+  /**
+   * Find existing cases that may belong to the same applicant: the same normalized email, or a similar
+   * name with the same date of birth. Matches of the same application type submitted within the
+   * configured window are flagged as likely resubmissions and listed first.
+   */
+  async findDuplicates(applicationData: ApplicationData, submittedAt: Date, excludeCaseId?: string): Promise<DuplicateMatch[]> {
+    const email = normalizeEmail(applicationData.applicantEmail || '');
+    const dateOfBirth = normalizeDateOfBirth(applicationData.formData?.dateOfBirth);
+
+    const candidates = await this.dataService.findDuplicateCandidates({
+      email,
+      ...(dateOfBirth && { dateOfBirth }),
+      ...(excludeCaseId && { excludeCaseId })
+    });
+
+    const matches = candidates.flatMap(candidate => {
+      const reasons: DuplicateMatchReason[] = [];
+      const similarity = nameSimilarity(applicationData.applicantName || '', candidate.applicationData.applicantName || '');
+
+      if (normalizeEmail(candidate.applicationData.applicantEmail || '') === email) {
+        reasons.push('email');
+      }
+      if (dateOfBirth
+        && normalizeDateOfBirth(candidate.applicationData.formData?.dateOfBirth) === dateOfBirth
+        && similarity >= this.config.nameSimilarityThreshold) {
+        reasons.push('name_and_date_of_birth');
+      }
+      if (reasons.length === 0) {
+        return [];
+      }
+
+      const withinWindow = Math.abs(submittedAt.getTime() - candidate.createdAt.getTime()) <= this.config.windowDays * DAY_MS;
+      if (candidate.applicationData.applicationType === applicationData.applicationType && withinWindow) {
+        reasons.push('same_type_within_window');
+      }
+
+      return [{ case: candidate, reasons, nameSimilarity: Math.round(similarity * 100) / 100 }];
+    });
+
+    return matches.sort((a, b) =>
+      b.reasons.length - a.reasons.length || b.case.createdAt.getTime() - a.case.createdAt.getTime()
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { createHash } from 'crypto';
+import { DataService } from './DataService.js';
+import { IdempotencyConfig } from '../types/index.js';
+
+export const DEFAULT_IDEMPOTENCY_CONFIG: IdempotencyConfig = {
+  ttlHours: 24
+};
+
+/**
+ * Build the idempotency configuration from IDEMPOTENCY_KEY_TTL_HOURS
+ */
+export function getIdempotencyConfigFromEnv(env: Record<string, string | undefined> = process.env): IdempotencyConfig {
+  const config = { ...DEFAULT_IDEMPOTENCY_CONFIG };
+
+  if (env.IDEMPOTENCY_KEY_TTL_HOURS) {
+    const ttlHours = Number(env.IDEMPOTENCY_KEY_TTL_HOURS);
+    if (!Number.isFinite(ttlHours) || ttlHours <= 0) {
+      throw new Error(`Invalid value for IDEMPOTENCY_KEY_TTL_HOURS: ${env.IDEMPOTENCY_KEY_TTL_HOURS}`);
+    }
+    config.ttlHours = ttlHours;
+  }
+
+  return config;
+}
+
+// What to do with a request carrying an Idempotency-Key
+export type IdempotencyOutcome =
+  | { type: 'proceed' }
+  | { type: 'replay'; statusCode: number; headers: Record<string, string>; body: unknown }
+  | { type: 'in_progress' }
+  | { type: 'mismatch' };
+
+/**
+ * Makes retried POSTs safe: the first request with a key runs and its response is stored,
+ * retries with the same key and body get that response back until the key expires
+ */
+export class IdempotencyService {
+  private dataService: DataService;
+  private config: IdempotencyConfig;
+
+  constructor(dataService: DataService, config: IdempotencyConfig = DEFAULT_IDEMPOTENCY_CONFIG) {
+    this.dataService = dataService;
+    this.config = config;
+  }
+
+  /**
+   * Look up the key for this endpoint and claim it when it is new
+   */
+  async begin(key: string, scope: string, body: unknown, now: Date = new Date()): Promise<IdempotencyOutcome> {
+    try {
+      const requestHash = this.hashRequest(body);
+      const existing = await this.dataService.getIdempotencyRecord(key, scope, now);
+
+      if (!existing) {
+        const claimed = await this.dataService.createIdempotencyRecord({
+          key,
+          scope,
+          requestHash,
+          createdAt: now,
+          expiresAt: new Date(now.getTime() + this.config.ttlHours * 60 * 60 * 1000)
+        });
+        return claimed ? { type: 'proceed' } : { type: 'in_progress' };
+      }
+
+      if (existing.requestHash !== requestHash) {
+        return { type: 'mismatch' };
+      }
+      return existing.response
+        ? { type: 'replay', ...existing.response }
+        : { type: 'in_progress' };
+    } catch (error) {
+      throw new Error(`Failed to check idempotency key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Store the response and its replayed headers. Server errors are not stored: the key is released so the
+   * request can be retried.
+   */
+  async complete(key: string, scope: string, statusCode: number, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+    try {
+      if (statusCode >= 500) {
+        await this.dataService.deleteIdempotencyRecord(key, scope);
+        return;
+      }
+      await this.dataService.saveIdempotencyResponse(key, scope, statusCode, body, headers);
+    } catch (error) {
+      throw new Error(`Failed to complete idempotency key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Release a key whose request ended without a stored response, so a retry runs it again
+   */
+  async release(key: string, scope: string): Promise<void> {
+    try {
+      await this.dataService.deleteIdempotencyRecord(key, scope);
+    } catch (error) {
+      throw new Error(`Failed to release idempotency key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private hashRequest(body: unknown): string {
+    return createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+  }
+}
@@ -0,0 +1,160 @@
+import net from 'net';
+import { ClamdConfig, MalwareScanner, MalwareScanResult } from '../types/index.js';
+
+// clamd reads INSTREAM data in chunks, each prefixed with its length
+const CLAMD_CHUNK_SIZE = 64 * 1024;
+
+export const DEFAULT_CLAMD_CONFIG: ClamdConfig = {
+  host: '127.0.0.1',
+  port: 3310,
+  timeoutMs: 30000
+};
+
+/**
+ * The standard antivirus test file. Every scanner flags it, so it stands in for real malware in tests.
+ */
+export const EICAR_TEST_STRING = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Scans files with a clamd daemon (ClamAV or a compatible scanner) using the INSTREAM command
+ */
+export class ClamdScanner implements MalwareScanner {
+  readonly name = 'clamd';
+  private config: ClamdConfig;
+
+  constructor(config: ClamdConfig = DEFAULT_CLAMD_CONFIG) {
+    this.config = config;
+  }
+
+  scan(content: Buffer): Promise<MalwareScanResult> {
+    return new Promise((resolve, reject) => {
+      const { socketPath, host, port, timeoutMs } = this.config;
+      const socket = socketPath ? net.createConnection(socketPath) : net.createConnection(port, host);
+      const reply: Buffer[] = [];
+      let settled = false;
+
+      const finish = (error: Error | null, result?: MalwareScanResult) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        socket.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result!);
+        }
+      };
+
+      // The reply ends with a null byte; clamd closes the connection after it
+      const parseReply = () => {
+        try {
+          finish(null, parseClamdReply(Buffer.concat(reply).toString('utf8')));
+        } catch (error) {
+          finish(error instanceof Error ? error : new Error(String(error)));
+        }
+      };
+
+      socket.setTimeout(timeoutMs, () => finish(new Error(`clamd did not reply within ${timeoutMs} ms`)));
+      socket.on('error', error => finish(new Error(`clamd connection failed: ${error.message}`)));
+      socket.on('data', chunk => {
+        reply.push(chunk);
+        if (chunk.includes(0)) {
+          parseReply();
+        }
+      });
+      socket.on('end', parseReply);
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < content.length; offset += CLAMD_CHUNK_SIZE) {
+          const chunk = content.subarray(offset, offset + CLAMD_CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        // A zero-length chunk ends the stream
+        socket.write(Buffer.alloc(4));
+      });
+    });
+  }
+}
+
+/**
+ * Local stand-in for a real scanner that flags files containing the EICAR test string. Used by the
+ * tests and for development without a clamd daemon.
+ */
+export class EicarTestScanner implements MalwareScanner {
+  readonly name = 'eicar';
+
+  async scan(content: Buffer): Promise<MalwareScanResult> {
+    return content.includes(EICAR_TEST_STRING)
+      ? { infected: true, signature: 'Eicar-Test-Signature' }
+      : { infected: false };
+  }
+}
+
+/**
+ * Interpret a clamd scan reply: "stream: OK", "stream: <signature> FOUND" or "<message> ERROR"
+ */
+export function parseClamdReply(reply: string): MalwareScanResult {
+  const text = reply.replace(/\0/g, '').trim();
+
+  if (/^stream: OK$/.test(text)) {
+    return { infected: false };
+  }
+  const found = /^stream: (.+) FOUND$/.exec(text);
+  if (found) {
+    return { infected: true, signature: found[1] };
+  }
+  throw new Error(text ? `clamd reported an error: ${text}` : 'clamd closed the connection without a reply');
+}
+
+/**
+ * Build the clamd connection settings from CLAMD_SOCKET, or CLAMD_HOST and CLAMD_PORT, and CLAMD_TIMEOUT_MS
+ */
+export function getClamdConfigFromEnv(env: Record<string, string | undefined> = process.env): ClamdConfig {
+  const config: ClamdConfig = { ...DEFAULT_CLAMD_CONFIG };
+
+  if (env.CLAMD_SOCKET) {
+    config.socketPath = env.CLAMD_SOCKET;
+  }
+  if (env.CLAMD_HOST) {
+    config.host = env.CLAMD_HOST;
+  }
+  if (env.CLAMD_PORT) {
+    const port = Number(env.CLAMD_PORT);
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+      throw new Error(`Invalid value for CLAMD_PORT: ${env.CLAMD_PORT}`);
+    }
+    config.port = port;
+  }
+  if (env.CLAMD_TIMEOUT_MS) {
+    const timeoutMs = Number(env.CLAMD_TIMEOUT_MS);
+    if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+      throw new Error(`Invalid value for CLAMD_TIMEOUT_MS: ${env.CLAMD_TIMEOUT_MS}`);
+    }
+    config.timeoutMs = timeoutMs;
+  }
+
+  return config;
+}
+
+/**
+ * Select the upload scanner from MALWARE_SCANNER: clamd (default), eicar for the local test scanner,
+ * or none to store uploads unscanned
+ */
+export function getMalwareScannerFromEnv(env: Record<string, string | undefined> = process.env): MalwareScanner | undefined {
+  const scanner = env.MALWARE_SCANNER?.trim().toLowerCase() || 'clamd';
+
+  switch (scanner) {
+    case 'clamd':
+      return new ClamdScanner(getClamdConfigFromEnv(env));
+    case 'eicar':
+      return new EicarTestScanner();
+    case 'none':
+      return undefined;
+    default:
+      throw new Error(`Invalid value for MALWARE_SCANNER: ${env.MALWARE_SCANNER}`);
+  }
+}
@@ -0,0 +1,208 @@
+import { randomUUID } from 'crypto';
+import { DataService } from './DataService.js';
+import { DocumentStorageService } from './DocumentStorageService.js';
+import {
+  ApplicationData,
+  ApplicationFieldChange,
+  SubjectAccessExport,
+  SubjectCaseRecord,
+  SubjectErasure,
+  SubjectErasureResult
+} from '../types/index.js';
+
+// Replaces erased personal data wherever it was stored
+export const REDACTED = '[REDACTED]';
+
+// Audit actions whose details carry before and after values of the application data
+const APPLICATION_CHANGE_ACTIONS = ['application_updated', 'application_restored', 'document_uploaded'];
+
+// Audit actions on uploaded documents and the detail keys that name the file or explain a decision on it
+const DOCUMENT_ACTIONS = ['document_uploaded', 'document_reviewed', 'document_quarantined'];
+const DOCUMENT_DETAIL_KEYS = ['filename', 'reason'];
+
+// Audit detail keys that copy the applicant's identity, e.g. on case_created
+const APPLICANT_DETAIL_KEYS = ['applicantName', 'applicantEmail'];
+
+/**
+ * Answers data subject requests: exports everything held about an applicant and erases it on request.
+ * Applicants are identified by their normalized email, across deleted and merged cases too.
+ */
+export class PrivacyService {
+  private dataService: DataService;
+  private documentStorageService: DocumentStorageService;
+
+  constructor(dataService: DataService, documentStorageService: DocumentStorageService = new DocumentStorageService()) {
+    this.dataService = dataService;
+    this.documentStorageService = documentStorageService;
+  }
+
+  /**
+   * Bundle every case of the applicant with its notes, AI summaries, audit trail, application revisions,
+   * AI interactions, including the prompts sent to the model, and the text extracted from its documents
+   */
+  async exportSubjectData(email: string): Promise<SubjectAccessExport> {
+    try {
+      const applicantEmail = this.normalizeEmail(email);
+      const caseIds = await this.findCaseIds(applicantEmail);
+      const cases: SubjectCaseRecord[] = [];
+
+      for (const caseId of caseIds) {
+        const caseData = await this.dataService.getCase(caseId);
+        if (!caseData) {
+          continue;
+        }
+        cases.push({
+          case: caseData,
+          applicationRevisions: await this.dataService.getApplicationRevisions(caseId),
+          aiInteractions: await this.dataService.getAIInteractionHistory(caseId),
+          documentTexts: await this.dataService.getDocumentTexts((caseData.documents || []).map(document => document.id))
+        });
+      }
+
+      return {
+        applicantEmail,
+        generatedAt: new Date(),
+        cases,
+        total: cases.length
+      };
+    } catch (error) {
+      throw new Error(`Failed to export subject data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Redact the applicant's data on all their cases while keeping the cases, their decisions and the
+   * shape of their history. Each case gets a subject_data_erased audit entry. Uploaded files are deleted
+   * unless a document of another case shares them.
+   */
+  async eraseSubjectData(email: string, userId: string, reason?: string): Promise<SubjectErasureResult> {
+    try {
+      const caseIds = await this.findCaseIds(this.normalizeEmail(email));
+      const erasedAt = new Date();
+      const erasures: SubjectErasure[] = [];
+      const storageKeys: string[] = [];
+
+      for (const caseId of caseIds) {
+        const caseData = await this.dataService.getCase(caseId);
+        if (!caseData) {
+          continue;
+        }
+        const revisions = await this.dataService.getApplicationRevisions(caseId);
+        storageKeys.push(...(caseData.documents || []).map(document => document.storageKey));
+
+        erasures.push({
+          caseId,
+          applicationData: this.redactApplicationData(caseData.applicationData),
+          revisions: revisions.map(revision => ({
+            id: revision.id,
+            applicationData: this.redactApplicationData(revision.applicationData),
+            changes: this.redactChanges(revision.changes)
+          })),
+          auditDetails: caseData.auditTrail.flatMap(entry => {
+            const details = this.redactAuditDetails(entry.action, entry.details);
+            return details ? [{ id: entry.id, details }] : [];
+          }),
+          activity: {
+            id: randomUUID(),
+            caseId,
+            action: 'subject_data_erased',
+            details: {
+              revisionsRedacted: revisions.length,
+              ...(reason && { reason })
+            },
+            userId,
+            timestamp: erasedAt
+          }
+        });
+      }
+
+      const counts = await this.dataService.eraseSubjectData(erasures, REDACTED);
+      await this.removeUnreferencedFiles(storageKeys);
+
+      return {
+        caseIds: erasures.map(erasure => erasure.caseId),
+        ...counts,
+        erasedAt,
+        erasedBy: userId
+      };
+    } catch (error) {
+      throw new Error(`Failed to erase subject data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete the files no document references after the erasure; a file that cannot be deleted is logged
+   * rather than failing an erasure that has already been committed
+   */
+  private async removeUnreferencedFiles(storageKeys: string[]): Promise<void> {
+    for (const storageKey of await this.dataService.findUnreferencedStorageKeys(storageKeys)) {
+      try {
+        await this.documentStorageService.remove(storageKey);
+      } catch (error) {
+        console.warn(`Failed to delete erased document file ${storageKey}:`, error);
+      }
+    }
+  }
+
+  private async findCaseIds(applicantEmail: string): Promise<string[]> {
+    const caseIds = await this.dataService.findCaseIdsByApplicantEmail(applicantEmail);
+    if (caseIds.length === 0) {
+      throw new Error('No cases found for applicant email');
+    }
+    return caseIds;
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  /**
+   * Keep only what describes the application rather than the person: its type, submission date
+   * and which form fields were filled in
+   */
+  private redactApplicationData(applicationData: ApplicationData): ApplicationData {
+    return {
+      ...applicationData,
+      applicantName: REDACTED,
+      applicantEmail: REDACTED,
+      documents: [],
+      formData: Object.fromEntries(Object.keys(applicationData.formData || {}).map(key => [key, REDACTED]))
+    };
+  }
+
+  /**
+   * Redacted copy of an audit entry's details, or null when they hold no applicant data
+   */
+  private redactAuditDetails(action: string, details: Record<string, unknown> | undefined): Record<string, unknown> | null {
+    if (!details) {
+      return null;
+    }
+    const redacted: Record<string, unknown> = { ...details };
+    let changed = false;
+
+    APPLICANT_DETAIL_KEYS.filter(key => key in details).forEach(key => {
+      redacted[key] = REDACTED;
+      changed = true;
+    });
+    if (APPLICATION_CHANGE_ACTIONS.includes(action) && Array.isArray(details.changes)) {
+      redacted.changes = this.redactChanges(details.changes);
+      changed = true;
+    }
+    if (DOCUMENT_ACTIONS.includes(action)) {
+      DOCUMENT_DETAIL_KEYS.filter(key => key in details).forEach(key => {
+        redacted[key] = REDACTED;
+        changed = true;
+      });
+    }
+
+    return changed ? redacted : null;
+  }
+
+  private redactChanges(changes: ApplicationFieldChange[]): ApplicationFieldChange[] {
+    return changes.map(change => ({
+      field: change.field,
+      ...(change.from !== undefined && { from: REDACTED }),
+      ...(change.to !== undefined && { to: REDACTED })
+    }));
+  }
+}
@@ -83,9 +83,9 @@ export class PromptTemplateService {
   private initializeDefaultTemplates(): void {
     // Overall Summary Template
     this.registerTemplate({
-      id: 'overall_summary_v1',
+      id: 'overall_summary_v2',
       name: 'Overall Case Summary',
-      version: '1.0',
+      version: '2.0',
       description: 'Generate comprehensive case summary with recommendations',
       operation: 'generate_summary',
       template: `Please analyze the following case data and provide an overall summary.
@@ -97,14 +97,17 @@ Application Type: {{applicationType}}
 Applicant: {{applicantName}}
 Submission Date: {{submissionDate}}
 
-Documents: {{documents}}
+Documents (excerpts of text extracted from the files, possibly truncated):
+{{documents}}
 
 Form Data: {{formData}}
 
 Case Notes: {{caseNotes}}
 
+Linked Cases: {{linkedCases}}
+
 Please provide:
-1. A comprehensive summary of the case
+1. A comprehensive summary of the case, including what the documents show where their text is available
 2. Key recommendations for next steps
 3. Your confidence level (0-1) in the analysis
 
@@ -258,9 +261,9 @@ Format as JSON:
 
     // Completeness Validation Template
     this.registerTemplate({
-      id: 'completeness_validation_v1',
+      id: 'completeness_validation_v2',
       name: 'Case Completeness Validation',
-      version: '1.0',
+      version: '2.0',
       description: 'Validate case completeness before conclusion',
       operation: 'validate_completeness',
       template: `Please validate the completeness of this case:
@@ -270,7 +273,9 @@ Current Status: {{status}}
 Current Step: {{currentStep}}
 Application Type: {{applicationType}}
 
-Documents: {{documents}}
+Documents (excerpts of text extracted from the files, possibly truncated):
+{{documents}}
+
 Form Data Fields: {{formDataFields}}
 
 Process Steps Completed: {{completedSteps}}
@@ -278,7 +283,7 @@ Process Steps Completed: {{completedSteps}}
 Please evaluate:
 1. Is the case complete for its current status?
 2. What steps might be missing?
-3. What documents might be missing?
+3. What documents might be missing? Judge a document by its extracted text where available, not only its filename
 4. Recommendations for completion
 5. Confidence in assessment (0-1)
 
@@ -400,19 +405,10 @@ Format as JSON:
       throw new Error(`Template not found: ${templateId}`);
     }
 
-    let prompt = template.template;
-    
-    // Replace template variables with actual data
-    for (const [key, value] of Object.entries(data)) {
-      const placeholder = `{{${key}}}`;
-      const replacement = this.formatValue(value);
-      prompt = prompt.replace(new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), replacement);
-    }
-
-    // Replace any remaining placeholders with empty strings
-    prompt = prompt.replace(/\{\{[^}]+\}\}/g, '');
-
-    return prompt;
+    // Replace template variables in a single pass so values such as document text are inserted verbatim,
+    // even when they contain $ replacement patterns or {{...}}; placeholders without data become empty
+    return template.template.replace(/\{\{([^}]+)\}\}/g, (_placeholder, key: string) =>
+      Object.prototype.hasOwnProperty.call(data, key) ? this.formatValue(data[key]) : '');
   }
 
   /**
@@ -0,0 +1,160 @@
+import { DataService } from './DataService.js';
+import { DocumentStorageService } from './DocumentStorageService.js';
+import { CaseStatus, PurgedCase, RetentionCandidate, RetentionConfig, RetentionReport } from '../types/index.js';
+
+export const DEFAULT_RETENTION_CONFIG: RetentionConfig = {
+  statuses: [CaseStatus.ARCHIVED],
+  retentionYears: 7
+};
+
+/**
+ * Build the retention policy from RETENTION_YEARS and RETENTION_STATUSES (comma-separated case statuses)
+ */
+export function getRetentionConfigFromEnv(env: Record<string, string | undefined> = process.env): RetentionConfig {
+  const config = { ...DEFAULT_RETENTION_CONFIG };
+
+  if (env.RETENTION_YEARS) {
+    const retentionYears = Number(env.RETENTION_YEARS);
+    if (!Number.isInteger(retentionYears) || retentionYears <= 0) {
+      throw new Error(`Invalid value for RETENTION_YEARS: ${env.RETENTION_YEARS}`);
+    }
+    config.retentionYears = retentionYears;
+  }
+
+  if (env.RETENTION_STATUSES) {
+    const statuses = env.RETENTION_STATUSES.split(',').map(status => status.trim()).filter(Boolean);
+    const validStatuses = Object.values(CaseStatus) as string[];
+    if (statuses.length === 0 || statuses.some(status => !validStatuses.includes(status))) {
+      throw new Error(`Invalid value for RETENTION_STATUSES: ${env.RETENTION_STATUSES}`);
+    }
+    config.statuses = statuses as CaseStatus[];
+  }
+
+  return config;
+}
+
+/**
+ * Applies the retention policy: concluded cases older than the retention period are purged,
+ * leaving an anonymized stub that records only the shape of their history
+ */
+export class RetentionService {
+  private dataService: DataService;
+  private config: RetentionConfig;
+  private documentStorageService: DocumentStorageService;
+
+  constructor(
+    dataService: DataService,
+    config: RetentionConfig = DEFAULT_RETENTION_CONFIG,
+    documentStorageService: DocumentStorageService = new DocumentStorageService()
+  ) {
+    this.dataService = dataService;
+    this.config = config;
+    this.documentStorageService = documentStorageService;
+  }
+
+  getPolicy(): RetentionConfig {
+    return { ...this.config, statuses: [...this.config.statuses] };
+  }
+
+  /**
+   * Dry run: list the cases a purge would remove right now, without changing anything
+   */
+  async getReport(now: Date = new Date()): Promise<RetentionReport> {
+    try {
+      const cases = await this.findCandidates(now);
+      return {
+        policy: this.getPolicy(),
+        asOf: now,
+        cases,
+        total: cases.length
+      };
+    } catch (error) {
+      throw new Error(`Failed to build retention report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Purge every case past its retention period, returning the stubs left behind. Uploaded files are
+   * deleted unless a document of a remaining case shares them.
+   */
+  async purge(userId: string, now: Date = new Date()): Promise<PurgedCase[]> {
+    try {
+      const candidates = await this.findCandidates(now);
+      const stubs: PurgedCase[] = [];
+      const storageKeys: string[] = [];
+
+      for (const candidate of candidates) {
+        const auditTrail = await this.dataService.getAuditTrail(candidate.caseId);
+        const documents = await this.dataService.getCaseDocuments(candidate.caseId);
+        storageKeys.push(...documents.map(document => document.storageKey));
+        stubs.push({
+          caseId: candidate.caseId,
+          applicationType: candidate.applicationType,
+          status: candidate.status,
+          createdAt: candidate.createdAt,
+          concludedAt: candidate.concludedAt,
+          purgedAt: now,
+          purgedBy: userId,
+          // Details can hold applicant data, so only who did what and when is kept
+          auditTrail: auditTrail
+            .map(entry => ({ action: entry.action, userId: entry.user_id, timestamp: new Date(entry.timestamp) }))
+            .reverse()
+        });
+      }
+
+      if (stubs.length > 0) {
+        await this.dataService.purgeCases(stubs);
+        await this.removeUnreferencedFiles(storageKeys);
+      }
+
+      return stubs;
+    } catch (error) {
+      throw new Error(`Failed to purge cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getPurgedCases(): Promise<PurgedCase[]> {
+    try {
+      return await this.dataService.getPurgedCases();
+    } catch (error) {
+      throw new Error(`Failed to get purged cases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete the files no document references after the purge; a file that cannot be deleted is logged
+   * rather than failing a purge that has already been committed
+   */
+  private async removeUnreferencedFiles(storageKeys: string[]): Promise<void> {
+    for (const storageKey of await this.dataService.findUnreferencedStorageKeys(storageKeys)) {
+      try {
+        await this.documentStorageService.remove(storageKey);
+      } catch (error) {
+        console.warn(`Failed to delete purged document file ${storageKey}:`, error);
+      }
+    }
+  }
+
+  private async findCandidates(now: Date): Promise<RetentionCandidate[]> {
+    const cutoff = this.addYears(now, -this.config.retentionYears);
+    const rows = await this.dataService.findRetentionCandidates(this.config.statuses, cutoff);
+
+    return rows.map(row => {
+      const concludedAt = new Date(row.concluded_at);
+      return {
+        caseId: row.id,
+        applicationType: row.application_type,
+        status: row.status as CaseStatus,
+        createdAt: new Date(row.created_at),
+        concludedAt,
+        purgeableSince: this.addYears(concludedAt, this.config.retentionYears)
+      };
+    });
+  }
+
+  private addYears(date: Date, years: number): Date {
+    const result = new Date(date);
+    result.setUTCFullYear(result.getUTCFullYear() + years);
+    return result;
+  }
+}
@@ -0,0 +1,129 @@
+import { ApplicationTypeService } from './ApplicationTypeService.js';
+import { CaseListItem, CaseSla, CaseStatus, ProcessStep, SlaConfig, SlaRule, StepSlaHours } from '../types/index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Only cases still being worked on are held to an SLA
+const OPEN_STATUSES: CaseStatus[] = [CaseStatus.ACTIVE, CaseStatus.PENDING];
+
+/**
+ * Default hours allowed in each step; concluded cases have no SLA
+ */
+export const DEFAULT_STEP_SLA_HOURS: StepSlaHours = {
+  [ProcessStep.RECEIVED]: 48,
+  [ProcessStep.IN_REVIEW]: 240,
+  [ProcessStep.ADDITIONAL_INFO_REQUIRED]: 336,
+  [ProcessStep.READY_FOR_DECISION]: 72
+};
+
+export const DEFAULT_SLA_CONFIG: SlaConfig = {
+  stepSlaHours: DEFAULT_STEP_SLA_HOURS,
+  dueSoonHours: 24,
+  checkIntervalMinutes: 15
+};
+
+const parsePositiveNumber = (name: string, value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid value for ${name}: ${value}`);
+  }
+  return parsed;
+};
+
+/**
+ * Build the SLA configuration from SLA_HOURS_<STEP>, SLA_DUE_SOON_HOURS and SLA_CHECK_INTERVAL_MINUTES
+ */
+export function getSlaConfigFromEnv(env: Record<string, string | undefined> = process.env): SlaConfig {
+  const stepSlaHours: StepSlaHours = { ...DEFAULT_STEP_SLA_HOURS };
+  Object.values(ProcessStep).forEach(step => {
+    const name = `SLA_HOURS_${step.toUpperCase()}`;
+    const value = env[name];
+    if (value) {
+      stepSlaHours[step] = parsePositiveNumber(name, value);
+    }
+  });
+
+  return {
+    stepSlaHours,
+    dueSoonHours: env.SLA_DUE_SOON_HOURS
+      ? parsePositiveNumber('SLA_DUE_SOON_HOURS', env.SLA_DUE_SOON_HOURS)
+      : DEFAULT_SLA_CONFIG.dueSoonHours,
+    checkIntervalMinutes: env.SLA_CHECK_INTERVAL_MINUTES
+      ? parsePositiveNumber('SLA_CHECK_INTERVAL_MINUTES', env.SLA_CHECK_INTERVAL_MINUTES)
+      : DEFAULT_SLA_CONFIG.checkIntervalMinutes
+  };
+}
+
+export class SlaService {
+  private applicationTypeService: ApplicationTypeService;
+  private config: SlaConfig;
+
+  constructor(applicationTypeService?: ApplicationTypeService, config: SlaConfig = DEFAULT_SLA_CONFIG) {
+    this.applicationTypeService = applicationTypeService || new ApplicationTypeService();
+    this.config = config;
+  }
+
+  /**
+   * Hours allowed in a step for an application type: the type's override, then the configured default
+   */
+  getSlaHours(applicationType: string, step: ProcessStep): number | undefined {
+    const profile = this.applicationTypeService.getProfile(applicationType);
+    return profile?.stepSlaHours?.[step] ?? this.config.stepSlaHours[step];
+  }
+
+  /**
+   * All SLA durations as rules for SQL filtering, application type overrides first
+   */
+  getSlaRules(): SlaRule[] {
+    const overrides = this.applicationTypeService.listProfiles().flatMap(profile =>
+      Object.entries(profile.stepSlaHours || {}).map(([step, hours]) => ({
+        step: step as ProcessStep,
+        applicationType: profile.type,
+        hours
+      }))
+    );
+    const defaults = Object.entries(this.config.stepSlaHours).map(([step, hours]) => ({
+      step: step as ProcessStep,
+      hours
+    }));
+    return [...overrides, ...defaults];
+  }
+
+  getDueSoonHours(): number {
+    return this.config.dueSoonHours;
+  }
+
+  getCheckIntervalMs(): number {
+    return this.config.checkIntervalMinutes * 60 * 1000;
+  }
+
+  /**
+   * Compute the due date and overdue / due soon flags for the case's current step.
+   * Returns undefined for closed cases and steps without an SLA.
+   */
+  getCaseSla(caseData: CaseListItem, now: Date = new Date()): CaseSla | undefined {
+    if (!OPEN_STATUSES.includes(caseData.status)) {
+      return undefined;
+    }
+
+    const slaHours = this.getSlaHours(caseData.applicationData.applicationType, caseData.currentStep);
+    if (slaHours === undefined) {
+      return undefined;
+    }
+
+    // Cases saved before step tracking existed fall back to their last update
+    const stepEnteredAt = caseData.stepEnteredAt || caseData.updatedAt;
+    const dueAt = new Date(stepEnteredAt.getTime() + slaHours * HOUR_MS);
+    const remainingMs = dueAt.getTime() - now.getTime();
+    const overdue = remainingMs < 0;
+
+    return {
+      step: caseData.currentStep,
+      stepEnteredAt,
+      slaHours,
+      dueAt,
+      overdue,
+      dueSoon: !overdue && remainingMs <= this.config.dueSoonHours * HOUR_MS
+    };
+  }
+}
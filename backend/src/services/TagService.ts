@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto';
+import { DataService } from './DataService.js';
+import { ActivityLog, Tag, TagInput, TagUpdate } from '../types/index.js';
+
+// Tag names are trimmed and inner whitespace collapsed so "VIP " and "VIP" are the same tag
+const normalizeTagName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+export class TagService {
+  private dataService: DataService;
+
+  constructor(dataService: DataService) {
+    this.dataService = dataService;
+  }
+
+  async listTags(): Promise<Tag[]> {
+    try {
+      return await this.dataService.listTags();
+    } catch (error) {
+      throw new Error(`Failed to list tags: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getTag(tagId: string): Promise<Tag | null> {
+    try {
+      return await this.dataService.getTag(tagId);
+    } catch (error) {
+      throw new Error(`Failed to get tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async createTag(input: TagInput, userId: string): Promise<Tag> {
+    try {
+      const name = normalizeTagName(input.name);
+      await this.ensureNameAvailable(name);
+
+      const now = new Date();
+      const tag: Tag = {
+        id: randomUUID(),
+        name,
+        color: input.color || 'gray',
+        ...(input.description && { description: input.description }),
+        createdBy: userId,
+        createdAt: now,
+        updatedAt: now
+      };
+      await this.dataService.saveTag(tag);
+
+      return await this.getRequiredTag(tag.id);
+    } catch (error) {
+      throw new Error(`Failed to create tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Rename, recolour or describe a tag; cases carrying it show the change straight away
+   */
+  async updateTag(tagId: string, update: TagUpdate): Promise<Tag> {
+    try {
+      await this.getRequiredTag(tagId);
+
+      const name = update.name !== undefined ? normalizeTagName(update.name) : undefined;
+      if (name !== undefined) {
+        await this.ensureNameAvailable(name, tagId);
+      }
+
+      await this.dataService.updateTag(tagId, {
+        ...(name !== undefined && { name }),
+        ...(update.color !== undefined && { color: update.color }),
+        ...(update.description !== undefined && { description: update.description })
+      });
+
+      return await this.getRequiredTag(tagId);
+    } catch (error) {
+      throw new Error(`Failed to update tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a tag; it is taken off every case carrying it and each removal is audited on the case
+   */
+  async deleteTag(tagId: string, userId: string): Promise<{ tagId: string; casesUntagged: number }> {
+    try {
+      const tag = await this.getRequiredTag(tagId);
+      const caseIds = await this.dataService.getTaggedCaseIds(tagId);
+
+      const activities: ActivityLog[] = caseIds.map(caseId => ({
+        id: randomUUID(),
+        caseId,
+        action: 'tag_removed',
+        details: { tagId, tagName: tag.name, tagDeleted: true },
+        userId,
+        timestamp: new Date()
+      }));
+      await this.dataService.deleteTag(tagId, activities);
+
+      return { tagId, casesUntagged: caseIds.length };
+    } catch (error) {
+      throw new Error(`Failed to delete tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async ensureNameAvailable(name: string, tagId?: string): Promise<void> {
+    const existing = await this.dataService.getTagByName(name);
+    if (existing && existing.id !== tagId) {
+      throw new Error(`Tag "${existing.name}" already exists`);
+    }
+  }
+
+  private async getRequiredTag(tagId: string): Promise<Tag> {
+    const tag = await this.dataService.getTag(tagId);
+    if (!tag) {
+      throw new Error(`Tag with ID ${tagId} not found`);
+    }
+    return tag;
+  }
+}
@@ -0,0 +1,381 @@
+import { inflateRawSync, inflateSync } from 'zlib';
+import { ExtractedText } from '../types/index.js';
+
+// Longest text kept per document; prompts only ever use a short excerpt
+export const MAX_EXTRACTED_TEXT_LENGTH = 100_000;
+
+// Upper bound on any one decompressed stream or archive entry, so a small crafted file cannot exhaust memory
+const MAX_INFLATED_SIZE = 50 * 1024 * 1024;
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Collapse runs of spaces and blank lines and drop control characters other than line breaks and tabs
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\p{Cc}/gu, char => (char === '\n' || char === '\t' ? char : ''))
+    .replace(/[^\S\n]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Text decoded with the wrong encoding is mostly symbols; real text is mostly letters and digits
+function looksLikeText(text: string): boolean {
+  const visible = text.replace(/\s/g, '');
+  const alphanumeric = visible.match(/[\p{L}\p{N}]/gu)?.length || 0;
+  return visible.length > 0 && alphanumeric / visible.length >= 0.5;
+}
+
+const decodeXmlEntities = (xml: string): string =>
+  xml.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    if (name[0] !== '#') {
+      return named[name.toLowerCase()] ?? entity;
+    }
+    const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+
+/**
+ * Read one entry from a ZIP archive through its central directory. Only stored and deflated entries are supported.
+ */
+function readZipEntry(archive: Buffer, entryName: string): Buffer | undefined {
+  // The end of central directory record is in the last 22 bytes plus an optional comment of up to 64 KB
+  const searchStart = Math.max(0, archive.length - 22 - 0xffff);
+  let endRecord = -1;
+  for (let offset = archive.length - 22; offset >= searchStart; offset--) {
+    if (archive.readUInt32LE(offset) === 0x06054b50) {
+      endRecord = offset;
+      break;
+    }
+  }
+  if (endRecord < 0) {
+    return undefined;
+  }
+
+  const entryCount = archive.readUInt16LE(endRecord + 10);
+  let offset = archive.readUInt32LE(endRecord + 16);
+
+  for (let entry = 0; entry < entryCount && offset + 46 <= archive.length; entry++) {
+    if (archive.readUInt32LE(offset) !== 0x02014b50) {
+      return undefined;
+    }
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeader = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (name === entryName) {
+      if (localHeader + 30 > archive.length || archive.readUInt32LE(localHeader) !== 0x04034b50) {
+        return undefined;
+      }
+      const dataStart = localHeader + 30 + archive.readUInt16LE(localHeader + 26) + archive.readUInt16LE(localHeader + 28);
+      const data = archive.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        return data;
+      }
+      return method === 8 ? inflateRawSync(data, { maxOutputLength: MAX_INFLATED_SIZE }) : undefined;
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return undefined;
+}
+
+/**
+ * Paragraph text of a DOCX file's main document part
+ */
+function extractDocxText(content: Buffer): string | undefined {
+  const documentXml = readZipEntry(content, 'word/document.xml');
+  if (!documentXml) {
+    return undefined;
+  }
+
+  const parts: string[] = [];
+  const runs = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:(?:br|cr)\b[^>]*\/>|<\/w:p>/g;
+  for (const match of documentXml.toString('utf8').matchAll(runs)) {
+    if (match[1] !== undefined) {
+      parts.push(decodeXmlEntities(match[1]));
+    } else {
+      parts.push(match[0] === '<w:tab/>' ? '\t' : '\n');
+    }
+  }
+  return parts.join('');
+}
+
+type PdfToken =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'array'; items: PdfToken[] }
+  | { type: 'operator'; value: string }
+  | { type: 'other' };
+
+const PDF_WHITESPACE = new Set(['\0', '\t', '\n', '\f', '\r', ' ']);
+const PDF_DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/**
+ * Split a content stream into operands and operators. The source is a latin1 string, one character per byte,
+ * and string operands keep their raw bytes.
+ */
+function tokenizePdfContent(source: string): PdfToken[] {
+  const tokens: PdfToken[] = [];
+  const arrays: PdfToken[][] = [];
+  const push = (token: PdfToken) => (arrays.length > 0 ? arrays[arrays.length - 1] : tokens).push(token);
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (PDF_WHITESPACE.has(char)) {
+      i++;
+    } else if (char === '%') {
+      while (i < source.length && source[i] !== '\n' && source[i] !== '\r') i++;
+    } else if (char === '(') {
+      // Literal string; unescaped parentheses must balance
+      let value = '';
+      let depth = 1;
+      i++;
+      while (i < source.length && depth > 0) {
+        const current = source[i++];
+        if (current === '\\') {
+          const escaped = source[i++];
+          if (escaped === undefined) break;
+          if (/[0-7]/.test(escaped)) {
+            let octal = escaped;
+            while (octal.length < 3 && /[0-7]/.test(source[i] ?? '')) octal += source[i++];
+            value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+          } else if (escaped === '\r' || escaped === '\n') {
+            // A backslash at the end of a line continues the string
+            if (escaped === '\r' && source[i] === '\n') i++;
+          } else {
+            value += PDF_ESCAPES[escaped] ?? escaped;
+          }
+        } else {
+          if (current === '(') depth++;
+          if (current === ')') depth--;
+          if (depth > 0) value += current;
+        }
+      }
+      push({ type: 'string', value });
+    } else if (char === '<' && source[i + 1] !== '<') {
+      const end = source.indexOf('>', i);
+      const hex = source.slice(i + 1, end < 0 ? source.length : end).replace(/[^0-9a-fA-F]/g, '');
+      const bytes = Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+      push({ type: 'string', value: bytes.toString('latin1') });
+      i = end < 0 ? source.length : end + 1;
+    } else if (char === '<' || char === '>') {
+      i += source[i + 1] === char ? 2 : 1;
+      push({ type: 'other' });
+    } else if (char === '[') {
+      arrays.push([]);
+      i++;
+    } else if (char === ']') {
+      const items = arrays.pop();
+      if (items) push({ type: 'array', items });
+      i++;
+    } else {
+      let end = i + 1;
+      while (end < source.length && !PDF_WHITESPACE.has(source[end]) && !PDF_DELIMITERS.has(source[end])) end++;
+      const word = source.slice(i, end);
+      i = end;
+
+      if (char === '/' || char === '{' || char === '}' || char === ')') {
+        push({ type: 'other' });
+      } else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        push({ type: 'number', value: Number(word) });
+      } else {
+        push({ type: 'operator', value: word });
+        // Inline image data is binary; skip to the end of the image
+        if (word === 'ID') {
+          const imageEnd = source.slice(i).search(/\sEI(?=\s|$)/);
+          i = imageEnd < 0 ? source.length : i + imageEnd + 3;
+        }
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// PDF strings are UTF-16BE when they start with a byte order mark, otherwise single-byte (close to Windows-1252)
+function decodePdfString(value: string): string {
+  const bytes = Buffer.from(value, 'latin1');
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+  return new TextDecoder('windows-1252').decode(bytes);
+}
+
+/**
+ * The text shown by a content stream's text objects, with line breaks where the text moves to a new line
+ */
+function extractContentStreamText(source: string): string {
+  let text = '';
+  let inText = false;
+  let lineY: number | undefined;
+  let operands: PdfToken[] = [];
+
+  const show = (token: PdfToken | undefined) => {
+    if (token?.type === 'string') {
+      text += decodePdfString(token.value);
+    }
+  };
+
+  for (const token of tokenizePdfContent(source)) {
+    if (token.type !== 'operator') {
+      operands.push(token);
+      continue;
+    }
+
+    const numbers = operands.map(operand => (operand.type === 'number' ? operand.value : 0));
+    switch (token.value) {
+      case 'BT':
+        inText = true;
+        break;
+      case 'ET':
+        inText = false;
+        text += '\n';
+        break;
+      case 'Tj':
+        if (inText) show(operands[operands.length - 1]);
+        break;
+      case "'":
+      case '"':
+        if (inText) {
+          text += '\n';
+          show(operands[operands.length - 1]);
+        }
+        break;
+      case 'TJ': {
+        const array = operands[operands.length - 1];
+        if (inText && array?.type === 'array') {
+          for (const item of array.items) {
+            // Large negative adjustments (in thousandths of an em) are gaps between words
+            if (item.type === 'number' && item.value < -200) {
+              text += ' ';
+            } else {
+              show(item);
+            }
+          }
+        }
+        break;
+      }
+      case 'T*':
+        text += '\n';
+        break;
+      case 'Td':
+      case 'TD':
+        text += numbers[1] ? '\n' : ' ';
+        break;
+      case 'Tm':
+        text += lineY !== undefined && numbers[5] !== lineY ? '\n' : ' ';
+        lineY = numbers[5];
+        break;
+    }
+    operands = [];
+  }
+
+  return text;
+}
+
+/**
+ * Text of the content streams of an unencrypted PDF. Only uncompressed and Flate-compressed streams are read,
+ * and fonts whose byte codes are not a standard encoding produce no usable text.
+ */
+function extractPdfText(content: Buffer): string | undefined {
+  const source = content.toString('latin1');
+  if (/\/Encrypt\b/.test(source)) {
+    return undefined;
+  }
+
+  const texts: string[] = [];
+  const streamStart = /\bstream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamStart.exec(source)) !== null) {
+    const dataStart = match.index + match[0].length;
+    const dictionary = source.slice(source.lastIndexOf('obj', match.index), match.index);
+    const directLength = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(dictionary);
+    const dataEnd = directLength ? dataStart + Number(directLength[1]) : source.indexOf('endstream', dataStart);
+    if (dataEnd < dataStart) {
+      break;
+    }
+    streamStart.lastIndex = dataEnd;
+
+    // Images, fonts and cross-reference data never hold page text
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(XRef|ObjStm)|\/Length[123]\b/.test(dictionary)) {
+      continue;
+    }
+    const filters = /\/Filter\s*(\/\w+|\[[^\]]*\])/.exec(dictionary)?.[1].match(/\/\w+/g) || [];
+    if (filters.length > 1 || (filters.length === 1 && filters[0] !== '/FlateDecode')) {
+      continue;
+    }
+
+    let data = content.subarray(dataStart, dataEnd);
+    if (filters.length === 1) {
+      try {
+        data = inflateSync(data, { maxOutputLength: MAX_INFLATED_SIZE });
+      } catch {
+        continue;
+      }
+    }
+
+    const stream = data.toString('latin1');
+    if (/\bBT\b/.test(stream)) {
+      texts.push(extractContentStreamText(stream));
+    }
+  }
+
+  return texts.join('\n');
+}
+
+/**
+ * Reads the text of uploaded files locally, without any network calls, so AI prompts can see what a document
+ * actually says. Plain text, PDF text layers and DOCX are supported; scanned images are not (there is no OCR).
+ */
+export class TextExtractionService {
+  /**
+   * Extract the text of a file of the given (sniffed) type. Returns null when the type is not supported or
+   * the file holds no readable text.
+   */
+  extract(content: Buffer, mimeType: string): ExtractedText | null {
+    let method: ExtractedText['method'];
+    let raw: string | undefined;
+
+    try {
+      if (mimeType === 'text/plain') {
+        method = 'plain_text';
+        raw = content.toString('utf8').replace(/^\uFEFF/, '');
+      } else if (mimeType === 'application/pdf') {
+        method = 'pdf_text_layer';
+        raw = extractPdfText(content);
+      } else if (mimeType === DOCX_MIME_TYPE) {
+        method = 'docx';
+        raw = extractDocxText(content);
+      } else {
+        return null;
+      }
+    } catch {
+      // Damaged archives and streams are treated like files without text
+      return null;
+    }
+
+    const text = normalizeText(raw || '');
+    if (!looksLikeText(text)) {
+      return null;
+    }
+
+    const truncated = text.length > MAX_EXTRACTED_TEXT_LENGTH;
+    return { method, text: truncated ? text.slice(0, MAX_EXTRACTED_TEXT_LENGTH) : text, truncated };
+  }
+}
@@ -0,0 +1,74 @@
+import { DirectoryUser, UserDirectoryConfig, UserRole } from '../types/index.js';
+
+const USER_ROLES: UserRole[] = ['caseworker', 'supervisor', 'admin'];
+
+// An @handle not preceded by a word character, so email addresses are not mentions
+const MENTION_PATTERN = /(?<![\w@])@([A-Za-z0-9][\w.-]*)/g;
+
+/**
+ * Build the user directory from USER_DIRECTORY (comma-separated id:role entries) and CASEWORKER_IDS,
+ * whose users are caseworkers unless USER_DIRECTORY gives them another role
+ */
+export function getUserDirectoryConfigFromEnv(env: Record<string, string | undefined> = process.env): UserDirectoryConfig {
+  const users = new Map<string, DirectoryUser>();
+
+  (env.CASEWORKER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+    .forEach(id => users.set(id.toLowerCase(), { id, role: 'caseworker' }));
+
+  (env.USER_DIRECTORY || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .forEach(entry => {
+      const [id, role] = entry.split(':').map(part => part.trim());
+      if (!id || !USER_ROLES.includes(role as UserRole)) {
+        throw new Error(`Invalid USER_DIRECTORY entry: ${entry}`);
+      }
+      users.set(id.toLowerCase(), { id, role: role as UserRole });
+    });
+
+  return { users: [...users.values()] };
+}
+
+/**
+ * The users known to the application, for @mentions in case notes
+ */
+export class UserDirectoryService {
+  private config: UserDirectoryConfig;
+
+  constructor(config: UserDirectoryConfig = { users: [] }) {
+    this.config = config;
+  }
+
+  /**
+   * Users whose ID starts with the query, ignoring case, sorted by ID
+   */
+  listUsers(query?: string): DirectoryUser[] {
+    const prefix = query?.trim().toLowerCase() || '';
+    return this.config.users
+      .filter(user => user.id.toLowerCase().startsWith(prefix))
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * IDs of the users mentioned in note content: @<user id> mentions that user and @<role> everyone with the role.
+   * Unknown handles and the author are ignored.
+   */
+  resolveMentions(content: string, authorId: string): string[] {
+    const mentioned = new Set<string>();
+
+    for (const match of content.matchAll(MENTION_PATTERN)) {
+      // Sentence punctuation after a handle is not part of it
+      const handle = match[1].replace(/[.-]+$/, '').toLowerCase();
+      this.config.users
+        .filter(user => user.id.toLowerCase() === handle || user.role === handle)
+        .forEach(user => mentioned.add(user.id));
+    }
+
+    mentioned.delete(authorId);
+    return [...mentioned];
+  }
+}
@@ -0,0 +1,242 @@
+import {
+  Case,
+  CaseStatus,
+  ProcessStep,
+  UserRole,
+  WorkflowDefinition,
+  WorkflowTransition,
+  StepTransitionEvaluation
+} from '../types/index.js';
+import { ApplicationTypeService } from './ApplicationTypeService.js';
+
+// A guard returns a failure message when the transition must be blocked, or null when it may proceed
+export type WorkflowGuard = (caseData: Case) => string | null;
+
+// Workflow registry type
+type WorkflowRegistry = Map<string, WorkflowDefinition>;
+
+const DECIDED_STATUSES = [CaseStatus.APPROVED, CaseStatus.DENIED, CaseStatus.WITHDRAWN, CaseStatus.ARCHIVED];
+
+export const DEFAULT_WORKFLOW_ID = 'standard_v1';
+
+/**
+ * Standard case workflow: intake, review, optional request for more information, decision.
+ * The transition into the concluded step is taken by recording an approved or denied status.
+ */
+export const STANDARD_WORKFLOW: WorkflowDefinition = {
+  id: DEFAULT_WORKFLOW_ID,
+  name: 'Standard Case Workflow',
+  version: '1.0',
+  initialStep: ProcessStep.RECEIVED,
+  steps: [
+    { step: ProcessStep.RECEIVED, label: 'Received', description: 'Application received and awaiting review' },
+    { step: ProcessStep.IN_REVIEW, label: 'In Review', description: 'A caseworker is reviewing the application' },
+    { step: ProcessStep.ADDITIONAL_INFO_REQUIRED, label: 'Additional Info Required', description: 'Waiting for the applicant to provide more information' },
+    { step: ProcessStep.READY_FOR_DECISION, label: 'Ready for Decision', description: 'Review complete, awaiting a decision' },
+    { step: ProcessStep.CONCLUDED, label: 'Concluded', description: 'A decision has been made', terminal: true }
+  ],
+  transitions: [
+    { from: ProcessStep.RECEIVED, to: ProcessStep.IN_REVIEW, label: 'Start Review', guards: ['case_open'] },
+    { from: ProcessStep.IN_REVIEW, to: ProcessStep.ADDITIONAL_INFO_REQUIRED, label: 'Request Additional Info', guards: ['case_open'] },
+    { from: ProcessStep.ADDITIONAL_INFO_REQUIRED, to: ProcessStep.IN_REVIEW, label: 'Resume Review', guards: ['case_open'] },
+    { from: ProcessStep.IN_REVIEW, to: ProcessStep.READY_FOR_DECISION, label: 'Mark Ready for Decision', guards: ['case_open', 'has_case_note', 'documents_reviewed'] },
+    {
+      from: ProcessStep.READY_FOR_DECISION,
+      to: ProcessStep.IN_REVIEW,
+      label: 'Return to Review',
+      requiredRoles: ['supervisor', 'admin'],
+      guards: ['case_open']
+    },
+    // Documents can still arrive while a case waits for its decision
+    { from: ProcessStep.READY_FOR_DECISION, to: ProcessStep.CONCLUDED, label: 'Record Decision', guards: ['case_open', 'documents_reviewed'] }
+  ],
+  statusSteps: {
+    [CaseStatus.PENDING]: ProcessStep.ADDITIONAL_INFO_REQUIRED,
+    [CaseStatus.APPROVED]: ProcessStep.CONCLUDED,
+    [CaseStatus.DENIED]: ProcessStep.CONCLUDED,
+    [CaseStatus.WITHDRAWN]: ProcessStep.CONCLUDED,
+    [CaseStatus.ARCHIVED]: ProcessStep.CONCLUDED
+  }
+};
+
+/**
+ * Enhanced review workflow for long-term status applications: a supervisor signs off before decision
+ */
+export const ENHANCED_REVIEW_WORKFLOW: WorkflowDefinition = {
+  ...STANDARD_WORKFLOW,
+  id: 'enhanced_review_v1',
+  name: 'Enhanced Review Workflow',
+  transitions: STANDARD_WORKFLOW.transitions.map(transition =>
+    transition.to === ProcessStep.READY_FOR_DECISION
+      ? { ...transition, label: 'Sign Off for Decision', requiredRoles: ['supervisor', 'admin'] }
+      : transition
+  )
+};
+
+export const BUILT_IN_WORKFLOWS: WorkflowDefinition[] = [STANDARD_WORKFLOW, ENHANCED_REVIEW_WORKFLOW];
+
+/**
+ * All process steps used by the built-in workflows, in declaration order.
+ * The database CHECK constraints are generated from this list.
+ */
+export function getWorkflowStepValues(): ProcessStep[] {
+  const steps = BUILT_IN_WORKFLOWS.flatMap(workflow => workflow.steps.map(stepDef => stepDef.step));
+  return Array.from(new Set(steps));
+}
+
+export class WorkflowService {
+  private workflows: WorkflowRegistry = new Map();
+  private guards: Map<string, WorkflowGuard> = new Map();
+  private applicationTypeService: ApplicationTypeService;
+
+  constructor(applicationTypeService?: ApplicationTypeService) {
+    this.applicationTypeService = applicationTypeService || new ApplicationTypeService();
+    this.initializeDefaultGuards();
+    BUILT_IN_WORKFLOWS.forEach(workflow => this.registerWorkflow(workflow));
+  }
+
+  /**
+   * Register the guards referenced by the built-in workflows
+   */
+  private initializeDefaultGuards(): void {
+    this.registerGuard('case_open', caseData =>
+      DECIDED_STATUSES.includes(caseData.status)
+        ? `Case is ${caseData.status} and can no longer move through the workflow`
+        : null
+    );
+
+    // Deleted notes no longer document anything
+    this.registerGuard('has_case_note', caseData =>
+      !caseData.notes.some(note => !note.deletedAt)
+        ? 'At least one case note documenting the review is required'
+        : null
+    );
+
+    // Every current upload needs a review decision before the decision; rejected documents count as reviewed
+    // and quarantined ones are never reviewed. Each document the application type requires must also have
+    // an accepted upload, so a case without uploads cannot pass.
+    this.registerGuard('documents_reviewed', caseData => {
+      const documents = (caseData.documents || []).filter(document => document.scanStatus !== 'infected');
+      const outstanding = documents
+        .filter(document => document.reviewStatus === 'pending' || document.reviewStatus === 'needs_replacement');
+      if (outstanding.length > 0) {
+        return `Documents awaiting review or replacement: ${outstanding.map(document => document.filename).join(', ')}`;
+      }
+
+      const requiredDocuments = this.applicationTypeService.getProfile(caseData.applicationData.applicationType)?.requiredDocuments || [];
+      const missing = requiredDocuments.filter(required =>
+        !documents.some(document => document.documentType === required.type && document.reviewStatus === 'accepted')
+      );
+      return missing.length > 0
+        ? `Required documents missing or not accepted: ${missing.map(required => required.label).join(', ')}`
+        : null;
+    });
+  }
+
+  /**
+   * Register a workflow definition, validating that it is internally consistent
+   */
+  registerWorkflow(workflow: WorkflowDefinition): void {
+    const stepValues = workflow.steps.map(stepDef => stepDef.step);
+
+    if (!stepValues.includes(workflow.initialStep)) {
+      throw new Error(`Workflow ${workflow.id} initial step ${workflow.initialStep} is not one of its steps`);
+    }
+
+    for (const transition of workflow.transitions) {
+      if (!stepValues.includes(transition.from) || !stepValues.includes(transition.to)) {
+        throw new Error(`Workflow ${workflow.id} transition ${transition.from} -> ${transition.to} references an unknown step`);
+      }
+      for (const guard of transition.guards || []) {
+        if (!this.guards.has(guard)) {
+          throw new Error(`Workflow ${workflow.id} references unknown guard: ${guard}`);
+        }
+      }
+    }
+
+    this.workflows.set(workflow.id, workflow);
+  }
+
+  /**
+   * Register a named guard that workflow transitions can reference
+   */
+  registerGuard(name: string, guard: WorkflowGuard): void {
+    this.guards.set(name, guard);
+  }
+
+  /**
+   * Get a workflow definition by ID
+   */
+  getWorkflow(workflowId: string): WorkflowDefinition | undefined {
+    return this.workflows.get(workflowId);
+  }
+
+  /**
+   * List all registered workflows
+   */
+  listWorkflows(): WorkflowDefinition[] {
+    return Array.from(this.workflows.values());
+  }
+
+  /**
+   * Get the workflow that governs a case, as selected by its application type profile
+   */
+  getWorkflowForCase(caseData: Case): WorkflowDefinition {
+    const workflowId = this.applicationTypeService.getProfile(caseData.applicationData.applicationType)?.workflowId;
+    return (workflowId && this.workflows.get(workflowId)) || this.workflows.get(DEFAULT_WORKFLOW_ID)!;
+  }
+
+  /**
+   * Determine the step a case moves to when its status changes
+   */
+  getStepForStatus(workflow: WorkflowDefinition, status: CaseStatus, currentStep: ProcessStep): ProcessStep {
+    return workflow.statusSteps[status] ?? currentStep;
+  }
+
+  /**
+   * Evaluate whether a case may move to the target step for a user with the given role
+   */
+  evaluateTransition(caseData: Case, to: ProcessStep, role: UserRole): StepTransitionEvaluation {
+    const workflow = this.getWorkflowForCase(caseData);
+    const transition = workflow.transitions.find(t => t.from === caseData.currentStep && t.to === to);
+
+    if (!transition) {
+      return {
+        to,
+        label: workflow.steps.find(stepDef => stepDef.step === to)?.label || to,
+        allowed: false,
+        reason: 'invalid_transition',
+        failedGuards: []
+      };
+    }
+
+    return this.evaluateDefinedTransition(caseData, transition, role);
+  }
+
+  /**
+   * Evaluate every transition leaving the case's current step
+   */
+  getAvailableTransitions(caseData: Case, role: UserRole): StepTransitionEvaluation[] {
+    const workflow = this.getWorkflowForCase(caseData);
+    return workflow.transitions
+      .filter(transition => transition.from === caseData.currentStep)
+      .map(transition => this.evaluateDefinedTransition(caseData, transition, role));
+  }
+
+  private evaluateDefinedTransition(caseData: Case, transition: WorkflowTransition, role: UserRole): StepTransitionEvaluation {
+    if (transition.requiredRoles && !transition.requiredRoles.includes(role)) {
+      return { to: transition.to, label: transition.label, allowed: false, reason: 'forbidden', failedGuards: [] };
+    }
+
+    const failedGuards = (transition.guards || []).flatMap(guardName => {
+      const message = this.guards.get(guardName)!(caseData);
+      return message ? [{ guard: guardName, message }] : [];
+    });
+
+    if (failedGuards.length > 0) {
+      return { to: transition.to, label: transition.label, allowed: false, reason: 'guard_failed', failedGuards };
+    }
+
+    return { to: transition.to, label: transition.label, allowed: true, failedGuards: [] };
+  }
+}
@@ -1,4 +1,7 @@
 export { DataService } from './DataService.js';
 export { OpenRouterClient, createOpenRouterClient } from './OpenRouterClient.js';
 export { AIService } from './AIService.js';
-export { CaseService } from './CaseService.js';
\ No newline at end of file
+export { CaseService } from './CaseService.js';
+export { WorkflowService } from './WorkflowService.js';
+export { ApplicationTypeService } from './ApplicationTypeService.js';
+export { AssignmentService } from './AssignmentService.js';export { SlaService } from './SlaService.js';
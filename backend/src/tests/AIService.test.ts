@@ -60,7 +60,9 @@ describe('AIService', () => {
                 caseId: 'case-123',
                 content: 'Initial review completed',
                 createdBy: 'user-456',
-                createdAt: new Date('2024-01-16')
+                createdAt: new Date('2024-01-16'),
+                category: 'general',
+                visibility: 'internal'
             }
         ],
         aiSummaries: [
@@ -116,6 +118,7 @@ describe('AIService', () => {
             getAIInteractionHistory: vi.fn(),
             getAuditTrail: vi.fn(),
             addCaseNote: vi.fn(),
+            getDocumentTexts: vi.fn().mockResolvedValue([]),
             transaction: vi.fn()
         } as any;
 
@@ -152,7 +155,7 @@ describe('AIService', () => {
                     caseId: 'case-123',
                     operation: 'generate_summary',
                     success: true,
-                    promptTemplate: 'overall_summary_v1'
+                    promptTemplate: 'overall_summary_v2'
                 })
             );
         });
@@ -425,7 +428,7 @@ describe('AIService', () => {
             expect(mockDataService.logAIInteraction).toHaveBeenCalledWith(
                 expect.objectContaining({
                     operation: 'validate_completeness',
-                    promptTemplate: 'completeness_validation_v1'
+                    promptTemplate: 'completeness_validation_v2'
                 })
             );
         });
@@ -609,8 +612,8 @@ describe('AIService', () => {
                     model: 'grok-beta',
                     tokensUsed: 150, // input + output
                     success: true,
-                    promptTemplate: 'overall_summary_v1',
-                    promptVersion: '1.0'
+                    promptTemplate: 'overall_summary_v2',
+                    promptVersion: '2.0'
                 })
             );
         });
@@ -632,6 +635,86 @@ describe('AIService', () => {
             expect(prompt).toContain('Application Type: permit');
             expect(prompt).toContain('Applicant: John Doe');
             expect(prompt).toContain('application.pdf');
+            expect(prompt).toContain('Linked Cases: none');
+        });
+
+        it('should include the final decision of linked cases', async () => {
+            mockOpenRouterClient.makeRequest.mockResolvedValue(mockModelResponse);
+            mockDataService.logAIInteraction.mockResolvedValue();
+
+            await aiService.generateOverallSummary({
+                ...mockCaseData,
+                linkedCases: [{
+                    link: {
+                        id: 'link-1',
+                        caseId: 'case-123',
+                        linkedCaseId: 'case-100',
+                        type: 'appeal_of',
+                        createdBy: 'user-456',
+                        createdAt: new Date('2024-01-16')
+                    },
+                    direction: 'outgoing',
+                    case: {
+                        id: 'case-100',
+                        applicantName: 'John Doe',
+                        applicationType: 'permit',
+                        status: CaseStatus.DENIED,
+                        currentStep: ProcessStep.CONCLUDED,
+                        decision: { status: CaseStatus.DENIED, decidedAt: new Date('2023-12-01T00:00:00.000Z') }
+                    }
+                }]
+            });
+
+            const prompt = mockOpenRouterClient.makeRequest.mock.calls[0][0];
+            expect(prompt).toContain('Linked Cases: Appeal of case case-100 (permit, John Doe): final decision denied on 2023-12-01T00:00:00.000Z');
+        });
+
+        it('should include excerpts of extracted document text', async () => {
+            mockOpenRouterClient.makeRequest.mockResolvedValue(mockModelResponse);
+            mockDataService.logAIInteraction.mockResolvedValue();
+            mockDataService.getDocumentTexts.mockResolvedValue([{
+                documentId: 'doc1',
+                method: 'pdf_text_layer',
+                text: 'Statement period\nJanuary 2024   Closing balance $1,250.00 $&',
+                truncated: false,
+                extractedAt: new Date('2024-01-15')
+            }]);
+
+            await aiService.generateOverallSummary(mockCaseData);
+
+            expect(mockDataService.getDocumentTexts).toHaveBeenCalledWith(['doc1']);
+            const prompt = mockOpenRouterClient.makeRequest.mock.calls[0][0];
+            expect(prompt).toContain('- application.pdf (application/pdf, 1 KB)\n  Text: "Statement period January 2024 Closing balance $1,250.00 $&"');
+        });
+
+        it('should truncate long document text and note documents without text', async () => {
+            mockOpenRouterClient.makeRequest.mockResolvedValue({
+                ...mockModelResponse,
+                content: '{"isComplete": true, "missingSteps": [], "missingDocuments": [], "recommendations": ["None"], "confidence": 0.9}'
+            });
+            mockDataService.logAIInteraction.mockResolvedValue();
+            mockDataService.getDocumentTexts.mockResolvedValue([{
+                documentId: 'doc1',
+                method: 'docx',
+                text: 'x'.repeat(5000),
+                truncated: false,
+                extractedAt: new Date('2024-01-15')
+            }]);
+
+            await aiService.validateCaseCompleteness({
+                ...mockCaseData,
+                applicationData: {
+                    ...mockApplicationData,
+                    documents: [
+                        ...mockApplicationData.documents,
+                        { id: 'doc2', filename: 'photo.jpg', path: 'ab/cd', uploadedAt: new Date('2024-01-15'), size: 2048, mimeType: 'image/jpeg' }
+                    ]
+                }
+            });
+
+            const prompt = mockOpenRouterClient.makeRequest.mock.calls[0][0];
+            expect(prompt).toContain(`Text: "${'x'.repeat(1500)} [truncated]"`);
+            expect(prompt).toContain('- photo.jpg (image/jpeg, 2 KB)\n  No extracted text');
         });
 
         it('should format responses as JSON requests', async () => {
@@ -682,7 +765,9 @@ describe('AIService', () => {
             caseId: 'case-1',
             content: 'Initial review completed',
             createdBy: 'user-1',
-            createdAt: new Date('2023-01-02')
+            createdAt: new Date('2023-01-02'),
+            category: 'general',
+            visibility: 'internal'
         };
 
         const mockEnhancedAuditEntry: AuditEntry = {
@@ -772,8 +857,8 @@ describe('AIService', () => {
                         caseId: 'case-1',
                         operation: 'generate_summary',
                         success: true,
-                        promptTemplate: 'overall_summary_v1',
-                        promptVersion: '1.0'
+                        promptTemplate: 'overall_summary_v2',
+                        promptVersion: '2.0'
                     })
                 );
             });
@@ -1015,7 +1100,7 @@ describe('AIService', () => {
                 expect(calledPrompt).toContain('Current Step: in_review');
                 expect(calledPrompt).toContain('Application Type: visa');
                 expect(calledPrompt).toContain('Applicant: John Doe');
-                expect(calledPrompt).toContain('Documents: application.pdf');
+                expect(calledPrompt).toContain('- application.pdf (application/pdf, 1 KB)\n  No extracted text');
                 expect(calledPrompt).toContain('Initial review completed');
             });
 
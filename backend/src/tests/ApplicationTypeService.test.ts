@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ApplicationTypeService } from '../services/ApplicationTypeService.js';
+import { ApplicationData } from '../types/index.js';
+
+const createApplicationData = (overrides: Partial<ApplicationData> = {}): ApplicationData => ({
+  applicantName: 'Jane Doe',
+  applicantEmail: 'jane@example.com',
+  applicationType: 'work_permit',
+  submissionDate: new Date(),
+  documents: [],
+  formData: {
+    applicationCategory: 'skilled_worker',
+    caseSummary: 'Software engineer joining a sponsoring employer',
+    applicantFirm: 'Acme Ltd'
+  },
+  ...overrides
+});
+
+describe('ApplicationTypeService', () => {
+  let service: ApplicationTypeService;
+
+  beforeEach(() => {
+    service = new ApplicationTypeService();
+  });
+
+  describe('Profile Registry', () => {
+    it('should register the built-in application types', () => {
+      expect(service.listProfiles().map(profile => profile.type)).toEqual([
+        'visa', 'work_permit', 'residence_permit', 'citizenship', 'other'
+      ]);
+      expect(service.getProfile('citizenship')?.workflowId).toBe('enhanced_review_v1');
+      expect(service.getProfile('standard')).toBeUndefined();
+    });
+
+    it('should reject profiles without categories', () => {
+      const profile = { ...service.getProfile('other')!, type: 'empty', categories: [] };
+      expect(() => service.registerProfile(profile)).toThrow('must define at least one category');
+    });
+  });
+
+  describe('getProcessingTime', () => {
+    it('should prefer the category processing time and fall back to the profile default', () => {
+      expect(service.getProcessingTime('visa', 'student')).toBe('6-12 weeks');
+      expect(service.getProcessingTime('visa', 'family')).toBe('2-16 weeks');
+      expect(service.getProcessingTime('standard', 'any')).toBeUndefined();
+    });
+  });
+
+  describe('validateApplication', () => {
+    it('should accept applications meeting the profile requirements', () => {
+      expect(service.validateApplication(createApplicationData())).toEqual([]);
+    });
+
+    it('should report missing required fields and unknown categories', () => {
+      const applicationData = createApplicationData({
+        formData: { applicationCategory: 'tourist', caseSummary: '  ' }
+      });
+
+      expect(service.validateApplication(applicationData)).toEqual([
+        'Case Summary is required for Work Permit',
+        'Applicant Firm is required for Work Permit',
+        'Invalid application category for Work Permit: tourist'
+      ]);
+    });
+
+    it('should not check application types without a profile', () => {
+      expect(service.validateApplication(createApplicationData({ applicationType: 'standard', formData: {} }))).toEqual([]);
+    });
+  });
+});
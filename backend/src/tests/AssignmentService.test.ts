@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AssignmentService, getAssignmentConfigFromEnv } from '../services/AssignmentService.js';
+import { DataService } from '../services/DataService.js';
+
+const createMockDataService = (openCases: Record<string, number> = {}) => ({
+  getOpenCaseCountsByAssignee: vi.fn().mockResolvedValue(openCases)
+}) as unknown as DataService;
+
+describe('AssignmentService', () => {
+  describe('getAssignmentConfigFromEnv', () => {
+    it('should parse the strategy and caseworker list', () => {
+      expect(getAssignmentConfigFromEnv({ AUTO_ASSIGN_STRATEGY: 'round_robin', CASEWORKER_IDS: ' alice, bob ,,' })).toEqual({
+        strategy: 'round_robin',
+        caseworkerIds: ['alice', 'bob']
+      });
+    });
+
+    it('should disable auto-assignment by default', () => {
+      expect(getAssignmentConfigFromEnv({})).toEqual({ strategy: undefined, caseworkerIds: [] });
+    });
+
+    it('should reject unknown strategies', () => {
+      expect(() => getAssignmentConfigFromEnv({ AUTO_ASSIGN_STRATEGY: 'random' })).toThrow('Unknown auto-assignment strategy: random');
+    });
+  });
+
+  describe('selectAssignee', () => {
+    it('should return null when auto-assignment is disabled', async () => {
+      const service = new AssignmentService(createMockDataService(), { caseworkerIds: ['alice'] });
+
+      expect(service.isAutoAssignEnabled()).toBe(false);
+      expect(await service.selectAssignee()).toBeNull();
+    });
+
+    it('should rotate through caseworkers with round_robin', async () => {
+      const service = new AssignmentService(createMockDataService(), {
+        strategy: 'round_robin',
+        caseworkerIds: ['alice', 'bob', 'carol']
+      });
+
+      const assignees = [];
+      for (let i = 0; i < 4; i++) {
+        assignees.push(await service.selectAssignee());
+      }
+
+      expect(assignees).toEqual(['alice', 'bob', 'carol', 'alice']);
+    });
+
+    it('should pick the caseworker with the fewest open cases with least_open_cases', async () => {
+      const dataService = createMockDataService({ alice: 3, bob: 1 });
+      const service = new AssignmentService(dataService, {
+        strategy: 'least_open_cases',
+        caseworkerIds: ['alice', 'bob', 'carol']
+      });
+
+      expect(await service.selectAssignee()).toBe('carol');
+      expect(dataService.getOpenCaseCountsByAssignee).toHaveBeenCalled();
+    });
+
+    it('should break least_open_cases ties by roster order', async () => {
+      const service = new AssignmentService(createMockDataService({ alice: 2, bob: 2 }), {
+        strategy: 'least_open_cases',
+        caseworkerIds: ['alice', 'bob']
+      });
+
+      expect(await service.selectAssignee()).toBe('alice');
+    });
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, beforeAll, afterAll, vi } from 'vites
 import { CaseService } from '../services/CaseService.js';
 import { DataService } from '../services/DataService.js';
 import { AIService } from '../services/AIService.js';
+import { AssignmentService } from '../services/AssignmentService.js';
+import { TagService } from '../services/TagService.js';
 import { DatabaseManager } from '../database/index.js';
 import {
   Case,
@@ -117,6 +119,14 @@ describe('CaseService', () => {
       await expect(caseService.createCase(invalidData, 'user123')).rejects.toThrow('Submission date cannot be in the future');
     });
 
+    it('should validate application data against the application type profile', async () => {
+      const invalidData = createTestApplicationData();
+      invalidData.applicationType = 'citizenship';
+      invalidData.formData = { applicationCategory: 'marriage', caseSummary: 'Spouse of a citizen' };
+
+      await expect(caseService.createCase(invalidData, 'user123')).rejects.toThrow('Date of Birth is required for Citizenship');
+    });
+
     it('should log case creation activity', async () => {
       const applicationData = createTestApplicationData();
       const mockAISummary = createTestAISummary('test-case-id');
@@ -170,6 +180,7 @@ describe('CaseService', () => {
       const createdCase = await caseService.createCase(applicationData, 'user123');
       
       // First transition to APPROVED
+      await readyForDecision(createdCase.id);
       await caseService.updateCaseStatus(createdCase.id, CaseStatus.APPROVED, 'user123');
       
       // Then to ARCHIVED
@@ -194,6 +205,7 @@ describe('CaseService', () => {
       (aiService.generateOverallSummary as any).mockResolvedValue(mockAISummary);
 
       // Update to APPROVED (significant change)
+      await readyForDecision(createdCase.id);
       await caseService.updateCaseStatus(createdCase.id, CaseStatus.APPROVED, 'user456');
 
       expect(aiService.generateOverallSummary).toHaveBeenCalledTimes(1);
@@ -239,6 +251,24 @@ describe('CaseService', () => {
       });
     });
 
+    it('should only record a decision through the workflow transition into the concluded step', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+
+      await expect(caseService.updateCaseStatus(createdCase.id, CaseStatus.APPROVED, 'user123'))
+        .rejects.toThrow('Case cannot be approved: Invalid step transition from received to concluded');
+      expect((await dataService.getCase(createdCase.id))!).toMatchObject({ status: CaseStatus.ACTIVE, currentStep: ProcessStep.RECEIVED });
+
+      // Only a decision concludes the case; it is never offered as a step move
+      await readyForDecision(createdCase.id);
+      expect(caseService.getAvailableStepTransitions((await dataService.getCase(createdCase.id))!, 'admin').map(evaluation => evaluation.to))
+        .toEqual([ProcessStep.IN_REVIEW]);
+      await expect(caseService.transitionStep(createdCase.id, ProcessStep.CONCLUDED, 'user123', 'admin'))
+        .rejects.toThrow('Invalid step transition from ready_for_decision to concluded');
+
+      const decided = await caseService.updateCaseStatus(createdCase.id, CaseStatus.DENIED, 'user123');
+      expect(decided).toMatchObject({ status: CaseStatus.DENIED, currentStep: ProcessStep.CONCLUDED });
+    });
+
     it('should throw error for non-existent case', async () => {
       await expect(
         caseService.updateCaseStatus('non-existent-id', CaseStatus.APPROVED, 'user123')
@@ -364,6 +394,70 @@ describe('CaseService', () => {
         caseService.addCaseNote('non-existent-id', 'Test note', 'user123')
       ).rejects.toThrow('Case with ID non-existent-id not found');
     });
+
+    it('should thread replies under the top-level note', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const withNote = await caseService.addCaseNote(createdCase.id, 'Interviewed the applicant', 'user123', {
+        category: 'interview',
+        visibility: 'applicant'
+      });
+      const rootNote = withNote.notes[0];
+      expect(rootNote).toMatchObject({ category: 'interview', visibility: 'applicant' });
+
+      const withReply = await caseService.addCaseNote(createdCase.id, 'Follow-up booked', 'user456', { parentId: rootNote.id });
+      const reply = withReply.notes.find(note => note.content === 'Follow-up booked')!;
+      expect(reply).toMatchObject({ parentId: rootNote.id, category: 'general', visibility: 'internal' });
+
+      const withNestedReply = await caseService.addCaseNote(createdCase.id, 'Confirmed by email', 'user123', { parentId: reply.id });
+      expect(withNestedReply.notes.find(note => note.content === 'Confirmed by email')?.parentId).toBe(rootNote.id);
+
+      await expect(caseService.addCaseNote(createdCase.id, 'Reply', 'user123', { parentId: 'missing-note' }))
+        .rejects.toThrow('Note with ID missing-note not found');
+    });
+  });
+
+  describe('Note edits and deletion', () => {
+    it('should keep the content history of edited notes', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const noteId = (await caseService.addCaseNote(createdCase.id, 'Calld the applicant', 'user123')).notes[0].id;
+
+      const editedCase = await caseService.editCaseNote(createdCase.id, noteId, { content: 'Called the applicant', category: 'phone_call' }, 'user123');
+      expect(editedCase.notes[0]).toMatchObject({ content: 'Called the applicant', category: 'phone_call', updatedBy: 'user123' });
+      await caseService.editCaseNote(createdCase.id, noteId, { visibility: 'applicant' }, 'user123');
+
+      const revisions = await caseService.getCaseNoteRevisions(createdCase.id, noteId);
+      expect(revisions.map(revision => [revision.version, revision.content])).toEqual([
+        [1, 'Calld the applicant'],
+        [2, 'Called the applicant']
+      ]);
+      expect(editedCase.auditTrail.find(entry => entry.action === 'note_edited')?.details).toMatchObject({
+        noteId,
+        fields: ['content', 'category']
+      });
+
+      await expect(caseService.editCaseNote(createdCase.id, noteId, { content: 'Called the applicant' }, 'user123'))
+        .rejects.toThrow('No changes to note');
+      await expect(caseService.editCaseNote(createdCase.id, noteId, { content: 'Rewritten' }, 'user456'))
+        .rejects.toThrow('Only the note author can edit it');
+    });
+
+    it('should soft delete notes for their author or a supervisor', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const noteId = (await caseService.addCaseNote(createdCase.id, 'Wrong case', 'user123')).notes[0].id;
+
+      await expect(caseService.deleteCaseNote(createdCase.id, noteId, 'user456', 'caseworker', 'Not mine'))
+        .rejects.toThrow('Only the note author, a supervisor or an admin can delete it');
+
+      const updatedCase = await caseService.deleteCaseNote(createdCase.id, noteId, 'supervisor-1', 'supervisor', 'Added to the wrong case');
+      expect(updatedCase.notes[0]).toMatchObject({ deletedBy: 'supervisor-1', deletionReason: 'Added to the wrong case' });
+      expect(updatedCase.auditTrail.find(entry => entry.action === 'note_deleted')?.details).toMatchObject({ noteId });
+
+      await expect(caseService.editCaseNote(createdCase.id, noteId, { content: 'Edited' }, 'user123'))
+        .rejects.toThrow('Note has been deleted');
+      await expect(caseService.addCaseNote(createdCase.id, 'Reply', 'user123', { parentId: noteId }))
+        .rejects.toThrow('Cannot reply to a deleted note');
+      expect((await caseService.searchCases('wrong')).total).toBe(0);
+    });
   });
 
   describe('getCaseById', () => {
@@ -430,6 +524,7 @@ describe('CaseService', () => {
       // Test valid transitions from ACTIVE
       await expect(caseService.updateCaseStatus(createdCase.id, CaseStatus.PENDING, 'user123')).resolves.toBeDefined();
       await expect(caseService.updateCaseStatus(createdCase.id, CaseStatus.ACTIVE, 'user123')).resolves.toBeDefined();
+      await readyForDecision(createdCase.id);
       await expect(caseService.updateCaseStatus(createdCase.id, CaseStatus.APPROVED, 'user123')).resolves.toBeDefined();
       await expect(caseService.updateCaseStatus(createdCase.id, CaseStatus.ARCHIVED, 'user123')).resolves.toBeDefined();
     });
@@ -443,6 +538,7 @@ describe('CaseService', () => {
       const createdCase = await caseService.createCase(applicationData, 'user123');
 
       // Set to ARCHIVED
+      await readyForDecision(createdCase.id);
       await caseService.updateCaseStatus(createdCase.id, CaseStatus.APPROVED, 'user123');
       await caseService.updateCaseStatus(createdCase.id, CaseStatus.ARCHIVED, 'user123');
 
@@ -453,6 +549,597 @@ describe('CaseService', () => {
     });
   });
 
+  describe('getAllowedStatusTransitions', () => {
+    it('should list the statuses reachable from the current status', () => {
+      expect(caseService.getAllowedStatusTransitions(CaseStatus.ACTIVE)).toEqual([
+        CaseStatus.PENDING, CaseStatus.APPROVED, CaseStatus.DENIED, CaseStatus.WITHDRAWN
+      ]);
+      expect(caseService.getAllowedStatusTransitions(CaseStatus.DENIED)).toEqual([CaseStatus.ARCHIVED]);
+      expect(caseService.getAllowedStatusTransitions(CaseStatus.ARCHIVED)).toEqual([]);
+    });
+  });
+
+  describe('Case Assignment', () => {
+    it('should assign, reassign and unassign a case with audit entries', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+
+      let updatedCase = await caseService.assignCase(createdCase.id, 'alice', 'supervisor-1');
+      expect(updatedCase.assignedTo).toBe('alice');
+
+      updatedCase = await caseService.reassignCase(createdCase.id, 'bob', 'supervisor-1', 'Workload balancing');
+      expect(updatedCase.assignedTo).toBe('bob');
+
+      updatedCase = await caseService.unassignCase(createdCase.id, 'supervisor-1');
+      expect(updatedCase.assignedTo).toBeUndefined();
+
+      const assignmentEntries = updatedCase.auditTrail
+        .filter(entry => entry.action.includes('assign'))
+        .map(entry => [entry.action, entry.details]);
+      expect(assignmentEntries).toEqual(expect.arrayContaining([
+        ['case_assigned', { assignedTo: 'alice' }],
+        ['case_reassigned', { previousAssignee: 'alice', assignedTo: 'bob', reason: 'Workload balancing' }],
+        ['case_unassigned', { previousAssignee: 'bob' }]
+      ]));
+    });
+
+    it('should reject assigning an already assigned case', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await caseService.assignCase(createdCase.id, 'alice', 'supervisor-1');
+
+      await expect(
+        caseService.assignCase(createdCase.id, 'bob', 'supervisor-1')
+      ).rejects.toThrow('Case is already assigned to alice');
+    });
+
+    it('should reject reassigning or unassigning an unassigned case', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+
+      await expect(caseService.reassignCase(createdCase.id, 'bob', 'supervisor-1')).rejects.toThrow('Case is not assigned');
+      await expect(caseService.unassignCase(createdCase.id, 'supervisor-1')).rejects.toThrow('Case is not assigned');
+    });
+
+    it('should auto-assign new cases when a strategy is configured', async () => {
+      const assignmentService = new AssignmentService(dataService, {
+        strategy: 'round_robin',
+        caseworkerIds: ['alice', 'bob']
+      });
+      const autoAssigningService = new CaseService(dataService, aiService, undefined, undefined, assignmentService);
+
+      const first = await autoAssigningService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const second = await autoAssigningService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+
+      expect([first.assignedTo, second.assignedTo]).toEqual(['alice', 'bob']);
+
+      const storedCase = await dataService.getCase(first.id);
+      expect(storedCase!.assignedTo).toBe('alice');
+      expect(storedCase!.auditTrail.find(entry => entry.action === 'case_assigned')).toMatchObject({
+        userId: 'system',
+        details: { assignedTo: 'alice', strategy: 'round_robin' }
+      });
+    });
+
+    it('should filter cases by assignee', async () => {
+      const mine = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await caseService.assignCase(mine.id, 'alice', 'supervisor-1');
+
+      const result = await caseService.getAllCases({ assignedTo: 'alice' });
+      expect(result.total).toBe(1);
+      expect(result.cases[0].id).toBe(mine.id);
+    });
+  });
+
+  describe('Soft delete', () => {
+    it('should hide deleted cases until they are restored', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+
+      const deletedCase = await caseService.deleteCase(createdCase.id, 'admin-1', 'Created in error');
+      expect(deletedCase.deletedBy).toBe('admin-1');
+      expect(await caseService.getCaseById(createdCase.id)).toBeNull();
+      expect(await caseService.getCaseById(createdCase.id, { includeDeleted: true })).not.toBeNull();
+      expect((await caseService.getAllCases()).total).toBe(0);
+      expect((await caseService.getAllCases({ deleted: true })).total).toBe(1);
+      await expect(caseService.deleteCase(createdCase.id, 'admin-1')).rejects.toThrow('Case is already deleted');
+
+      const restoredCase = await caseService.restoreCase(createdCase.id, 'admin-1');
+      expect(restoredCase.deletedAt).toBeUndefined();
+      expect(restoredCase.auditTrail.find(entry => entry.action === 'case_restored')?.details).toMatchObject({
+        deletedBy: 'admin-1'
+      });
+      await expect(caseService.restoreCase(createdCase.id, 'admin-1')).rejects.toThrow('Case is not deleted');
+    });
+  });
+
+  describe('Priority', () => {
+    it('should override the priority with an audited reason', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      expect(createdCase.priority).toBeUndefined();
+
+      await caseService.updateCasePriority(createdCase.id, 'high', 'supervisor-1', 'Applicant is in hospital');
+      const updatedCase = await caseService.updateCasePriority(createdCase.id, 'urgent', 'supervisor-1', 'Deadline next week');
+      expect(updatedCase.priority).toBe('urgent');
+
+      const priorityEntries = updatedCase.auditTrail
+        .filter(entry => entry.action === 'priority_changed')
+        .map(entry => entry.details);
+      expect(priorityEntries).toEqual(expect.arrayContaining([
+        { priority: 'high', reason: 'Applicant is in hospital' },
+        { previousPriority: 'high', priority: 'urgent', reason: 'Deadline next week' }
+      ]));
+
+      await expect(
+        caseService.updateCasePriority(createdCase.id, 'urgent', 'supervisor-1', 'Again')
+      ).rejects.toThrow('Case priority is already urgent');
+    });
+
+    it('should filter and sort cases by priority', async () => {
+      const low = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const urgent = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const unset = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await caseService.updateCasePriority(low.id, 'low', 'supervisor-1', 'Routine');
+      await caseService.updateCasePriority(urgent.id, 'urgent', 'supervisor-1', 'Escalated');
+
+      const filtered = await caseService.getAllCases({ priority: 'urgent' });
+      expect(filtered.cases.map(case_ => case_.id)).toEqual([urgent.id]);
+
+      const sorted = await caseService.getAllCases({ sortBy: 'priority', sortOrder: 'desc' });
+      expect(sorted.cases.map(case_ => case_.id)).toEqual([urgent.id, low.id, unset.id]);
+    });
+  });
+
+  describe('bulkUpdateCases', () => {
+    it('should report a result for each case and apply only the valid changes', async () => {
+      const activeCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const approvedCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await readyForDecision(approvedCase.id);
+      await caseService.updateCaseStatus(approvedCase.id, CaseStatus.APPROVED, 'user123');
+
+      const result = await caseService.bulkUpdateCases(
+        [activeCase.id, approvedCase.id, 'missing-case', activeCase.id],
+        { type: 'update_status', status: CaseStatus.PENDING },
+        'supervisor-1'
+      );
+
+      expect(result).toEqual({
+        results: [
+          { caseId: activeCase.id, success: true },
+          { caseId: approvedCase.id, success: false, error: 'Invalid status transition from approved to pending' },
+          { caseId: 'missing-case', success: false, error: 'Case with ID missing-case not found' }
+        ],
+        succeeded: 1,
+        failed: 2
+      });
+
+      const updatedCase = await dataService.getCase(activeCase.id);
+      expect(updatedCase!.status).toBe(CaseStatus.PENDING);
+      expect(updatedCase!.auditTrail.find(entry => entry.action === 'status_updated')).toMatchObject({
+        userId: 'supervisor-1',
+        details: { previousStatus: CaseStatus.ACTIVE, newStatus: CaseStatus.PENDING, bulk: true }
+      });
+      expect((await dataService.getCase(approvedCase.id))!.status).toBe(CaseStatus.APPROVED);
+    });
+
+    it('should assign unassigned cases and reassign assigned ones', async () => {
+      const unassigned = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const assigned = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const alreadyBobs = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await caseService.assignCase(assigned.id, 'alice', 'supervisor-1');
+      await caseService.assignCase(alreadyBobs.id, 'bob', 'supervisor-1');
+
+      const result = await caseService.bulkUpdateCases(
+        [unassigned.id, assigned.id, alreadyBobs.id],
+        { type: 'assign', assignedTo: 'bob', reason: 'Queue rebalancing' },
+        'supervisor-1'
+      );
+
+      expect(result.succeeded).toBe(2);
+      expect(result.results[2]).toEqual({ caseId: alreadyBobs.id, success: false, error: 'Case is already assigned to bob' });
+
+      const reassigned = await dataService.getCase(assigned.id);
+      expect(reassigned!.assignedTo).toBe('bob');
+      expect(reassigned!.auditTrail.find(entry => entry.action === 'case_reassigned')!.details).toEqual({
+        previousAssignee: 'alice',
+        assignedTo: 'bob',
+        reason: 'Queue rebalancing',
+        bulk: true
+      });
+      expect((await dataService.getCase(unassigned.id))!.assignedTo).toBe('bob');
+
+      const unassignResult = await caseService.bulkUpdateCases([unassigned.id], { type: 'unassign' }, 'supervisor-1');
+      expect(unassignResult.succeeded).toBe(1);
+      expect((await dataService.getCase(unassigned.id))!.assignedTo).toBeUndefined();
+    });
+
+    it('should fail every planned change when the transaction is rolled back', async () => {
+      const first = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const second = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const applySpy = vi.spyOn(dataService, 'applyCaseChanges').mockRejectedValueOnce(new Error('Failed to apply case changes: disk full'));
+
+      const result = await caseService.bulkUpdateCases([first.id, second.id], { type: 'assign', assignedTo: 'alice' }, 'supervisor-1');
+
+      expect(result.succeeded).toBe(0);
+      expect(result.results.map(item => item.error)).toEqual([
+        'Failed to apply case changes: disk full',
+        'Failed to apply case changes: disk full'
+      ]);
+      expect((await dataService.getCase(first.id))!.assignedTo).toBeUndefined();
+      applySpy.mockRestore();
+    });
+  });
+
+  describe('Tags', () => {
+    let tagService: TagService;
+
+    beforeEach(() => {
+      tagService = new TagService(dataService);
+    });
+
+    it('should tag and untag a case with audit entries', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const vip = await tagService.createTag({ name: 'VIP', color: 'yellow' }, 'supervisor-1');
+
+      const tagged = await caseService.addCaseTag(createdCase.id, vip.id, 'caseworker-1');
+      expect(tagged.tags!.map(tag => tag.name)).toEqual(['VIP']);
+      expect(tagged.updatedAt.getTime()).toBeGreaterThan(createdCase.updatedAt.getTime());
+      expect(tagged.auditTrail.find(entry => entry.action === 'tag_added')).toMatchObject({
+        userId: 'caseworker-1',
+        details: { tagId: vip.id, tagName: 'VIP' }
+      });
+      await expect(caseService.addCaseTag(createdCase.id, vip.id, 'caseworker-1')).rejects.toThrow('Case is already tagged VIP');
+
+      const untagged = await caseService.removeCaseTag(createdCase.id, vip.id, 'caseworker-1');
+      expect(untagged.tags).toEqual([]);
+      expect(untagged.auditTrail.some(entry => entry.action === 'tag_removed')).toBe(true);
+      await expect(caseService.removeCaseTag(createdCase.id, 'missing-tag', 'caseworker-1')).rejects.toThrow('Tag with ID missing-tag not found');
+    });
+
+    it('should filter the case list by every requested tag', async () => {
+      const both = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const vipOnly = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const vip = await tagService.createTag({ name: 'VIP' }, 'supervisor-1');
+      const interpreter = await tagService.createTag({ name: 'needs-interpreter' }, 'supervisor-1');
+      await caseService.addCaseTag(both.id, vip.id, 'user123');
+      await caseService.addCaseTag(both.id, interpreter.id, 'user123');
+      await caseService.addCaseTag(vipOnly.id, vip.id, 'user123');
+
+      const vipCases = await caseService.getAllCases({ tags: ['vip'] });
+      expect(vipCases.cases.map(c => c.id).sort()).toEqual([both.id, vipOnly.id].sort());
+
+      const bothTags = await caseService.getAllCases({ tags: ['VIP', 'Needs-Interpreter'] });
+      expect(bothTags.total).toBe(1);
+      expect(bothTags.cases[0].id).toBe(both.id);
+    });
+
+    it('should tag cases in bulk', async () => {
+      const untagged = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const alreadyTagged = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const mediaSensitive = await tagService.createTag({ name: 'media-sensitive' }, 'supervisor-1');
+      await caseService.addCaseTag(alreadyTagged.id, mediaSensitive.id, 'user123');
+
+      const result = await caseService.bulkUpdateCases(
+        [untagged.id, alreadyTagged.id],
+        { type: 'add_tag', tagId: mediaSensitive.id },
+        'supervisor-1'
+      );
+
+      expect(result.results).toEqual([
+        { caseId: untagged.id, success: true },
+        { caseId: alreadyTagged.id, success: false, error: 'Case is already tagged media-sensitive' }
+      ]);
+      const tagged = await dataService.getCase(untagged.id);
+      expect(tagged!.tags!.map(tag => tag.id)).toEqual([mediaSensitive.id]);
+      expect(tagged!.auditTrail.find(entry => entry.action === 'tag_added')!.details).toEqual({
+        tagId: mediaSensitive.id,
+        tagName: 'media-sensitive',
+        bulk: true
+      });
+
+      await expect(caseService.bulkUpdateCases([untagged.id], { type: 'remove_tag', tagId: 'missing-tag' }, 'supervisor-1'))
+        .rejects.toThrow('Tag with ID missing-tag not found');
+    });
+  });
+
+  describe('Application Revisions', () => {
+    it('should store each edit as a revision with a field-level diff', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+
+      const updatedCase = await caseService.updateApplicationData(createdCase.id, {
+        applicantEmail: ' John.Doe@Example.org ',
+        formData: { additionalInfo: null, passportNumber: ' X123 ' }
+      }, 'caseworker-1', 'Applicant corrected their email');
+
+      expect(updatedCase.applicationData.applicantEmail).toBe('john.doe@example.org');
+      expect(updatedCase.applicationData.formData).toEqual({ passportNumber: 'X123' });
+
+      const expectedChanges = [
+        { field: 'applicantEmail', from: 'john.doe@example.com', to: 'john.doe@example.org' },
+        { field: 'formData.additionalInfo', from: 'Test application data' },
+        { field: 'formData.passportNumber', to: 'X123' }
+      ];
+      const revisions = await caseService.getApplicationRevisions(createdCase.id);
+      expect(revisions.map(revision => [revision.version, revision.createdBy])).toEqual([[1, 'system'], [2, 'caseworker-1']]);
+      expect(revisions[0].applicationData.applicantEmail).toBe('john.doe@example.com');
+      expect(revisions[1].changes).toEqual(expectedChanges);
+
+      expect(updatedCase.auditTrail.find(entry => entry.action === 'application_updated')!.details).toEqual({
+        revision: 2,
+        changes: expectedChanges,
+        reason: 'Applicant corrected their email'
+      });
+    });
+
+    it('should validate the edited application and reject edits that change nothing', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+
+      await expect(
+        caseService.updateApplicationData(createdCase.id, { applicantEmail: 'not-an-email' }, 'caseworker-1')
+      ).rejects.toThrow('Invalid email format');
+      await expect(
+        caseService.updateApplicationData(createdCase.id, { applicantName: 'John Doe' }, 'caseworker-1')
+      ).rejects.toThrow('No changes to application data');
+
+      expect(await caseService.getApplicationRevisions(createdCase.id)).toHaveLength(1);
+    });
+
+    it('should restore an earlier revision as a new revision', async () => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await caseService.updateApplicationData(createdCase.id, { applicantName: 'Jon Doe' }, 'caseworker-1');
+
+      const restoredCase = await caseService.restoreApplicationRevision(createdCase.id, 1, 'supervisor-1');
+
+      expect(restoredCase.applicationData.applicantName).toBe('John Doe');
+      const revisions = await caseService.getApplicationRevisions(createdCase.id);
+      expect(revisions[2]).toMatchObject({
+        version: 3,
+        restoredFrom: 1,
+        changes: [{ field: 'applicantName', from: 'Jon Doe', to: 'John Doe' }]
+      });
+
+      await expect(
+        caseService.restoreApplicationRevision(createdCase.id, 1, 'supervisor-1')
+      ).rejects.toThrow('No changes to application data');
+      await expect(
+        caseService.restoreApplicationRevision(createdCase.id, 9, 'supervisor-1')
+      ).rejects.toThrow(`Revision 9 not found for case ${createdCase.id}`);
+    });
+  });
+
+  describe('Duplicates', () => {
+    it('should flag likely duplicates when a case is created', async () => {
+      const original = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const resubmission = await caseService.createCaseWithoutAI({
+        ...createTestApplicationData(),
+        applicantEmail: 'John.Doe@Example.com'
+      }, 'user123');
+
+      const duplicates = await caseService.findDuplicates(resubmission.id);
+      expect(duplicates).toHaveLength(1);
+      expect(duplicates[0]).toMatchObject({
+        case: { id: original.id },
+        reasons: ['email', 'same_type_within_window']
+      });
+
+      const storedCase = await dataService.getCase(resubmission.id);
+      expect(storedCase!.auditTrail.find(entry => entry.action === 'duplicates_detected')!.details).toEqual({
+        matches: [{ caseId: original.id, reasons: ['email', 'same_type_within_window'] }]
+      });
+    });
+
+    it('should merge notes, documents and audit history into the surviving case', async () => {
+      const document = {
+        id: 'doc-1',
+        filename: 'passport.pdf',
+        path: '/uploads/passport.pdf',
+        size: 1024,
+        mimeType: 'application/pdf',
+        uploadedAt: new Date('2024-01-15')
+      };
+      const surviving = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const duplicate = await caseService.createCaseWithoutAI({ ...createTestApplicationData(), documents: [document] }, 'user123');
+      await dataService.addCaseNote(duplicate.id, 'Applicant called about their resubmission', 'caseworker-1');
+
+      const result = await caseService.mergeCases(surviving.id, duplicate.id, 'supervisor-1', 'Resubmitted application');
+
+      expect(result).toMatchObject({
+        mergedCaseId: duplicate.id,
+        notesMoved: 1,
+        documentsAdded: 1,
+        auditEntriesMoved: 2
+      });
+      expect(result.case.applicationData.documents.map(doc => doc.id)).toEqual(['doc-1']);
+      expect(result.case.notes.map(note => note.content)).toEqual(['Applicant called about their resubmission']);
+      expect(result.case.auditTrail.find(entry => entry.action === 'case_merged')!.details).toEqual({
+        mergedCaseId: duplicate.id,
+        notesMoved: 1,
+        documentsAdded: 1,
+        auditEntriesMoved: 2,
+        revision: 2,
+        reason: 'Resubmitted application'
+      });
+      expect(result.case.auditTrail.filter(entry => entry.details?.mergedFrom === duplicate.id)).toHaveLength(2);
+
+      const mergedCase = await dataService.getCase(duplicate.id);
+      expect(mergedCase).toMatchObject({ status: CaseStatus.WITHDRAWN, mergedInto: surviving.id });
+      expect(mergedCase!.auditTrail.map(entry => entry.action)).toEqual(['case_merged_into']);
+      expect(await caseService.findDuplicates(surviving.id)).toEqual([]);
+    });
+
+    it('should move the links of the duplicate except those to the surviving case', async () => {
+      const surviving = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const duplicate = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const related = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await caseService.linkCases(related.id, duplicate.id, 'related_to', 'user123');
+      await caseService.linkCases(duplicate.id, surviving.id, 'related_to', 'user123');
+
+      await caseService.mergeCases(surviving.id, duplicate.id, 'supervisor-1');
+
+      expect((await caseService.getLinkedCases(related.id)).map(linked => linked.case.id)).toEqual([surviving.id]);
+      expect((await caseService.getLinkedCases(duplicate.id)).map(linked => linked.case.id)).toEqual([surviving.id]);
+    });
+
+    it('should reject merges the cases do not allow', async () => {
+      const surviving = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const approved = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await readyForDecision(approved.id);
+      await caseService.updateCaseStatus(approved.id, CaseStatus.APPROVED, 'user123');
+
+      await expect(caseService.mergeCases(surviving.id, surviving.id, 'supervisor-1')).rejects.toThrow('A case cannot be merged into itself');
+      await expect(caseService.mergeCases(surviving.id, approved.id, 'supervisor-1'))
+        .rejects.toThrow(`Only open cases can be merged; case ${approved.id} is approved`);
+    });
+  });
+
+  describe('Case Links', () => {
+    it('should link an appeal to the decided case and show it from both cases', async () => {
+      const original = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await readyForDecision(original.id);
+      await caseService.updateCaseStatus(original.id, CaseStatus.DENIED, 'user123');
+      const appeal = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+
+      const linked = await caseService.linkCases(appeal.id, original.id, 'appeal_of', 'caseworker-1', 'Appeal lodged by post');
+
+      expect(linked).toMatchObject({
+        link: { caseId: appeal.id, linkedCaseId: original.id, type: 'appeal_of', note: 'Appeal lodged by post', createdBy: 'caseworker-1' },
+        direction: 'outgoing',
+        case: { id: original.id, applicantName: 'John Doe', status: CaseStatus.DENIED, decision: { status: CaseStatus.DENIED } }
+      });
+
+      const [incoming] = await caseService.getLinkedCases(original.id);
+      expect(incoming).toMatchObject({ direction: 'incoming', case: { id: appeal.id, status: CaseStatus.ACTIVE } });
+      expect(incoming.case.decision).toBeUndefined();
+
+      const storedOriginal = await dataService.getCase(original.id);
+      expect(storedOriginal!.auditTrail.find(entry => entry.action === 'case_linked')!.details).toEqual({
+        linkId: linked.link.id,
+        linkedCaseId: appeal.id,
+        linkType: 'appeal_of',
+        direction: 'incoming',
+        note: 'Appeal lodged by post'
+      });
+    });
+
+    it('should reject appeals of open cases and a second appeal', async () => {
+      const open = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const decided = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await readyForDecision(decided.id);
+      await caseService.updateCaseStatus(decided.id, CaseStatus.DENIED, 'user123');
+      const other = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      await readyForDecision(other.id);
+      await caseService.updateCaseStatus(other.id, CaseStatus.APPROVED, 'user123');
+      const appeal = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+
+      await expect(caseService.linkCases(appeal.id, appeal.id, 'related_to', 'user123')).rejects.toThrow('A case cannot be linked to itself');
+      await expect(caseService.linkCases(appeal.id, open.id, 'appeal_of', 'user123'))
+        .rejects.toThrow(`Case ${open.id} has no final decision yet; it is active`);
+
+      await caseService.linkCases(appeal.id, decided.id, 'appeal_of', 'user123');
+      await expect(caseService.linkCases(appeal.id, other.id, 'appeal_of', 'user123'))
+        .rejects.toThrow(`Case ${appeal.id} is already linked as appeal_of case ${decided.id}`);
+    });
+
+    it('should treat related and family member links as the same from either case', async () => {
+      const first = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const second = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+
+      await caseService.linkCases(first.id, second.id, 'family_member', 'user123');
+
+      await expect(caseService.linkCases(second.id, first.id, 'family_member', 'user123'))
+        .rejects.toThrow(`Case ${second.id} is already linked to case ${first.id} as family_member`);
+      await expect(caseService.linkCases(second.id, first.id, 'related_to', 'user123')).resolves.toMatchObject({ direction: 'outgoing' });
+      expect((await caseService.getCaseById(first.id))!.linkedCases).toHaveLength(2);
+    });
+  });
+
+  describe('Step SLAs', () => {
+    const saveCaseInStep = async (step: ProcessStep, hoursInStep: number): Promise<Case> => {
+      const createdCase = await caseService.createCaseWithoutAI(createTestApplicationData(), 'user123');
+      const stepEnteredAt = new Date(Date.now() - hoursInStep * 60 * 60 * 1000);
+      await dataService.saveCase({ ...createdCase, currentStep: step, stepEnteredAt });
+      return createdCase;
+    };
+
+    it('should attach the SLA due date to retrieved cases', async () => {
+      const createdCase = await saveCaseInStep(ProcessStep.RECEIVED, 1);
+
+      const retrieved = await caseService.getCaseById(createdCase.id);
+      expect(retrieved!.sla).toMatchObject({ step: ProcessStep.RECEIVED, slaHours: 48, overdue: false, dueSoon: false });
+      expect(retrieved!.sla!.dueAt.getTime()).toBe(retrieved!.stepEnteredAt!.getTime() + 48 * 60 * 60 * 1000);
+    });
+
+    it('should filter cases by overdue and due soon flags', async () => {
+      const overdueCase = await saveCaseInStep(ProcessStep.RECEIVED, 50);
+      const dueSoonCase = await saveCaseInStep(ProcessStep.READY_FOR_DECISION, 60);
+      await saveCaseInStep(ProcessStep.IN_REVIEW, 1);
+
+      const overdue = await caseService.getAllCases({ overdue: true });
+      expect(overdue.cases.map(c => c.id)).toEqual([overdueCase.id]);
+
+      const dueSoon = await caseService.getAllCases({ dueSoon: true });
+      expect(dueSoon.cases.map(c => c.id)).toEqual([dueSoonCase.id]);
+
+      const onTrack = await caseService.getAllCases({ overdue: false, dueSoon: false });
+      expect(onTrack.total).toBe(1);
+    });
+
+    it('should record each breach once per step visit', async () => {
+      const overdueCase = await saveCaseInStep(ProcessStep.RECEIVED, 50);
+      await saveCaseInStep(ProcessStep.RECEIVED, 1);
+
+      expect(await caseService.recordSlaBreaches()).toBe(1);
+      expect(await caseService.recordSlaBreaches()).toBe(0);
+
+      const storedCase = await dataService.getCase(overdueCase.id);
+      const breaches = storedCase!.auditTrail.filter(entry => entry.action === 'sla_breached');
+      expect(breaches).toHaveLength(1);
+      expect(breaches[0]).toMatchObject({
+        userId: 'system',
+        details: { step: ProcessStep.RECEIVED, slaHours: 48 }
+      });
+    });
+
+    it('should not hold closed cases to an SLA', async () => {
+      const createdCase = await saveCaseInStep(ProcessStep.RECEIVED, 50);
+      await dataService.updateCase(createdCase.id, { status: CaseStatus.WITHDRAWN });
+
+      expect(await caseService.recordSlaBreaches()).toBe(0);
+      expect((await caseService.getCaseById(createdCase.id))!.sla).toBeUndefined();
+    });
+  });
+
+  describe('transitionStep', () => {
+    it('should move the case to the target step and log the transition', async () => {
+      const applicationData = createTestApplicationData();
+      (aiService.generateOverallSummary as any).mockResolvedValue(createTestAISummary('test-case-id'));
+
+      const createdCase = await caseService.createCase(applicationData, 'user123');
+      const updatedCase = await caseService.transitionStep(createdCase.id, ProcessStep.IN_REVIEW, 'user123', 'caseworker', 'Starting review');
+
+      expect(updatedCase.currentStep).toBe(ProcessStep.IN_REVIEW);
+      expect(updatedCase.status).toBe(createdCase.status);
+
+      const auditEntry = updatedCase.auditTrail.find(entry => entry.action === 'step_transitioned');
+      expect(auditEntry?.details).toMatchObject({
+        workflowId: 'standard_v1',
+        previousStep: ProcessStep.RECEIVED,
+        newStep: ProcessStep.IN_REVIEW,
+        userRole: 'caseworker',
+        reason: 'Starting review'
+      });
+    });
+
+    it('should reject transitions the workflow does not allow', async () => {
+      const applicationData = createTestApplicationData();
+      (aiService.generateOverallSummary as any).mockResolvedValue(createTestAISummary('test-case-id'));
+
+      const createdCase = await caseService.createCase(applicationData, 'user123');
+
+      await expect(
+        caseService.transitionStep(createdCase.id, ProcessStep.CONCLUDED, 'user123', 'admin')
+      ).rejects.toThrow('Invalid step transition from received to concluded');
+    });
+  });
+
   describe('Process Step Logic', () => {
     it('should set correct process steps for different statuses', async () => {
       const applicationData = createTestApplicationData();
@@ -467,6 +1154,7 @@ describe('CaseService', () => {
       expect(updatedCase.currentStep).toBe(ProcessStep.ADDITIONAL_INFO_REQUIRED);
 
       // Test APPROVED -> CONCLUDED
+      await readyForDecision(createdCase.id);
       updatedCase = await caseService.updateCaseStatus(createdCase.id, CaseStatus.APPROVED, 'user123');
       expect(updatedCase.currentStep).toBe(ProcessStep.CONCLUDED);
     });
@@ -491,6 +1179,7 @@ describe('CaseService', () => {
       expect(result.missingFieldsAnalysis).toEqual(mockMissingFieldsAnalysis);
       expect(result.case.status).toBe(CaseStatus.ACTIVE);
       expect(result.case.currentStep).toBe(ProcessStep.RECEIVED);
+      expect(result.case.priority).toBe(mockApplicationAnalysis.priorityLevel);
 
       // Verify AI services were called
       expect(aiService.detectMissingFields).toHaveBeenCalledWith(expect.objectContaining({
@@ -708,6 +1397,10 @@ describe('CaseService', () => {
   });
 
   // Helper functions
+  async function readyForDecision(caseId: string): Promise<void> {
+    await dataService.updateCase(caseId, { currentStep: ProcessStep.READY_FOR_DECISION });
+  }
+
   function createTestApplicationData(): ApplicationData {
     return {
       applicantName: 'John Doe',
@@ -120,6 +120,46 @@ describe('DataService', () => {
       expect(updatedCase!.assignedTo).toBe('user123');
     });
 
+    it('should clear the assigned user when set to null', async () => {
+      const testCase = createTestCase();
+      testCase.assignedTo = 'user123';
+      await dataService.saveCase(testCase);
+
+      await dataService.updateCase(testCase.id, { assignedTo: null });
+
+      const updatedCase = await dataService.getCase(testCase.id);
+      expect(updatedCase!.assignedTo).toBeUndefined();
+    });
+
+    it('should restart the step clock only when the step changes', async () => {
+      const testCase = createTestCase();
+      testCase.stepEnteredAt = new Date('2024-01-01T00:00:00.000Z');
+      await dataService.saveCase(testCase);
+
+      await dataService.updateCase(testCase.id, { currentStep: testCase.currentStep, status: CaseStatus.PENDING });
+      let updatedCase = await dataService.getCase(testCase.id);
+      expect(updatedCase!.stepEnteredAt).toEqual(testCase.stepEnteredAt);
+
+      await dataService.updateCase(testCase.id, { currentStep: ProcessStep.IN_REVIEW });
+      updatedCase = await dataService.getCase(testCase.id);
+      expect(updatedCase!.stepEnteredAt!.getTime()).toBeGreaterThan(testCase.stepEnteredAt.getTime());
+      expect(updatedCase!.stepEnteredAt).toEqual(updatedCase!.updatedAt);
+    });
+
+    it('should only apply an update to the expected version', async () => {
+      const testCase = createTestCase();
+      await dataService.saveCase(testCase);
+      const { version } = (await dataService.getCase(testCase.id))!;
+
+      await dataService.updateCase(testCase.id, { assignedTo: 'user123', expectedVersion: version });
+      await expect(
+        dataService.updateCase(testCase.id, { status: CaseStatus.APPROVED, expectedVersion: version })
+      ).rejects.toThrow(`Case ${testCase.id} has been modified since version ${version}`);
+
+      const updatedCase = await dataService.getCase(testCase.id);
+      expect(updatedCase).toMatchObject({ assignedTo: 'user123', status: testCase.status, version: version! + 1 });
+    });
+
     it('should throw error for non-existent case', async () => {
       await expect(
         dataService.updateCase('non-existent', { status: CaseStatus.APPROVED })
@@ -163,6 +203,167 @@ describe('DataService', () => {
     });
   });
 
+  describe('getOpenCaseCountsByAssignee', () => {
+    it('should count only open cases per assignee', async () => {
+      const statuses = [CaseStatus.ACTIVE, CaseStatus.PENDING, CaseStatus.APPROVED];
+      for (const status of statuses) {
+        const testCase = createTestCase();
+        testCase.status = status;
+        testCase.assignedTo = 'caseworker-1';
+        await dataService.saveCase(testCase);
+      }
+
+      const otherCase = createTestCase();
+      otherCase.assignedTo = 'caseworker-2';
+      await dataService.saveCase(otherCase);
+      await dataService.saveCase(createTestCase());
+
+      expect(await dataService.getOpenCaseCountsByAssignee()).toEqual({
+        'caseworker-1': 2,
+        'caseworker-2': 1
+      });
+    });
+  });
+
+  describe('listCases', () => {
+    const saveListCase = async (overrides: Partial<Case>, applicantName = 'John Doe', applicationType = 'standard'): Promise<Case> => {
+      const testCase = { ...createTestCase(), ...overrides };
+      testCase.applicationData = { ...testCase.applicationData, applicantName, applicationType };
+      await dataService.saveCase(testCase);
+      return testCase;
+    };
+
+    it('should filter by status, step, assignee, application type and creation date', async () => {
+      const match = await saveListCase({
+        status: CaseStatus.PENDING,
+        currentStep: ProcessStep.ADDITIONAL_INFO_REQUIRED,
+        assignedTo: 'alice',
+        createdAt: new Date('2024-02-10T00:00:00.000Z')
+      }, 'Jane Doe', 'visa');
+      await saveListCase({ status: CaseStatus.PENDING, assignedTo: 'alice', createdAt: new Date('2024-02-10T00:00:00.000Z') }, 'Other', 'visa');
+      await saveListCase({ currentStep: ProcessStep.ADDITIONAL_INFO_REQUIRED, createdAt: new Date('2024-03-10T00:00:00.000Z') }, 'Other', 'visa');
+
+      const result = await dataService.listCases({
+        status: CaseStatus.PENDING,
+        currentStep: ProcessStep.ADDITIONAL_INFO_REQUIRED,
+        assignedTo: 'alice',
+        applicationType: 'visa',
+        createdFrom: new Date('2024-02-01T00:00:00.000Z'),
+        createdTo: new Date('2024-02-28T00:00:00.000Z')
+      });
+
+      expect(result.total).toBe(1);
+      expect(result.cases[0].id).toBe(match.id);
+    });
+
+    it('should sort and paginate in the database', async () => {
+      for (const name of ['Charlie', 'alice', 'Bob']) {
+        await saveListCase({}, name);
+      }
+
+      const firstPage = await dataService.listCases({ sortBy: 'applicantName', sortOrder: 'asc', limit: 2, offset: 0 });
+      const secondPage = await dataService.listCases({ sortBy: 'applicantName', sortOrder: 'asc', limit: 2, offset: 2 });
+
+      expect(firstPage.total).toBe(3);
+      expect(firstPage.cases.map(c => c.applicationData.applicantName)).toEqual(['alice', 'Bob']);
+      expect(secondPage.cases.map(c => c.applicationData.applicantName)).toEqual(['Charlie']);
+    });
+
+    it('should return a projection without notes, summaries or audit entries', async () => {
+      const testCase = await saveListCase({});
+      await dataService.addCaseNote(testCase.id, 'Listed note', 'user123');
+
+      const { cases } = await dataService.listCases();
+      expect(cases[0].id).toBe(testCase.id);
+      expect(cases[0]).not.toHaveProperty('notes');
+      expect(cases[0]).not.toHaveProperty('auditTrail');
+      expect(cases[0]).not.toHaveProperty('aiSummaries');
+    });
+
+    it('should filter overdue cases using SLA rules', async () => {
+      const now = new Date('2024-03-01T12:00:00.000Z');
+      const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+      const overdue = await saveListCase({ stepEnteredAt: hoursAgo(50) });
+      const overriddenType = await saveListCase({ stepEnteredAt: hoursAgo(50) }, 'Slow Review', 'citizenship');
+      await saveListCase({ stepEnteredAt: hoursAgo(50), status: CaseStatus.APPROVED });
+      await saveListCase({ stepEnteredAt: hoursAgo(50), currentStep: ProcessStep.CONCLUDED });
+
+      const sla = {
+        rules: [
+          { step: ProcessStep.RECEIVED, applicationType: 'citizenship', hours: 100 },
+          { step: ProcessStep.RECEIVED, hours: 48 }
+        ],
+        dueSoonHours: 24,
+        now
+      };
+
+      const overdueResult = await dataService.listCases({ sla: { ...sla, overdue: true } });
+      expect(overdueResult.cases.map(c => c.id)).toEqual([overdue.id]);
+
+      const notOverdue = await dataService.listCases({ sla: { ...sla, overdue: false } });
+      expect(notOverdue.total).toBe(3);
+      expect(notOverdue.cases.map(c => c.id)).toContain(overriddenType.id);
+    });
+  });
+
+  describe('searchCases', () => {
+    it('should find cases by applicant details and form data, best matches first', async () => {
+      const acmeCase = createTestCase();
+      acmeCase.applicationData = {
+        ...acmeCase.applicationData,
+        applicantName: 'Acme Holdings',
+        applicationType: 'work_permit',
+        formData: { caseSummary: 'Work permit for an Acme engineer' }
+      };
+      const otherCase = createTestCase();
+      otherCase.applicationData = { ...otherCase.applicationData, formData: { caseSummary: 'Sponsored by Acme' } };
+      await dataService.saveCase(acmeCase);
+      await dataService.saveCase(otherCase);
+      await dataService.saveCase(createTestCase());
+
+      const { results, total } = await dataService.searchCases('acme');
+
+      expect(total).toBe(2);
+      expect(results.map(r => r.case.id)).toEqual([acmeCase.id, otherCase.id]);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+      expect(results[0].highlights).toEqual([
+        { field: 'application', snippet: expect.stringContaining('<mark>Acme</mark> Holdings') },
+        { field: 'formData', snippet: 'Work permit for an <mark>Acme</mark> engineer' }
+      ]);
+      expect(results[0]).not.toHaveProperty('case.notes');
+    });
+
+    it('should keep the index in sync with notes, summaries and application updates', async () => {
+      const testCase = createTestCase();
+      testCase.applicationData = { ...testCase.applicationData, applicantName: 'Zebedee Original' };
+      await dataService.saveCase(testCase);
+
+      await dataService.addCaseNote(testCase.id, 'Applicant called about the relocation', 'user123');
+      await dataService.saveSummary({ ...createTestAISummary(testCase.id), content: 'Employer sponsorship looks genuine' });
+      await dataService.updateCase(testCase.id, {
+        applicationData: { ...testCase.applicationData, applicantName: 'Renamed Applicant' }
+      });
+
+      expect((await dataService.searchCases('relocat')).results[0].highlights).toEqual([
+        { field: 'notes', snippet: 'Applicant called about the <mark>relocation</mark>' }
+      ]);
+      expect((await dataService.searchCases('sponsorship')).total).toBe(1);
+      expect((await dataService.searchCases('renamed')).total).toBe(1);
+      expect((await dataService.searchCases('zebedee')).total).toBe(0);
+    });
+
+    it('should require every word and escape HTML in snippets', async () => {
+      const testCase = createTestCase();
+      testCase.applicationData = { ...testCase.applicationData, formData: { caseSummary: '<b>Acme</b> & partners permit' } };
+      await dataService.saveCase(testCase);
+
+      expect((await dataService.searchCases('acme visa')).total).toBe(0);
+      expect((await dataService.searchCases('"acme" & (')).results[0].highlights[0].snippet)
+        .toBe('&lt;b&gt;<mark>Acme</mark>&lt;/b&gt; &amp; partners permit');
+      expect(await dataService.searchCases('***')).toEqual({ results: [], total: 0 });
+    });
+  });
+
   describe('saveSummary and getSummaries', () => {
     it('should save and retrieve AI summaries', async () => {
       const testCase = createTestCase();
@@ -232,6 +433,34 @@ describe('DataService', () => {
       const auditTrail = await dataService.getAuditTrail(testCase.id);
       expect(auditTrail).toHaveLength(2);
     });
+
+    it('should filter audit trail by action, user and date range', async () => {
+      const testCase = createTestCase();
+      await dataService.saveCase(testCase);
+
+      const created = createTestActivity(testCase.id);
+      created.timestamp = new Date('2024-01-01T10:00:00.000Z');
+      const statusChange = createTestActivity(testCase.id);
+      statusChange.id = randomUUID();
+      statusChange.action = 'status_updated';
+      statusChange.userId = 'reviewer-1';
+      statusChange.timestamp = new Date('2024-02-01T10:00:00.000Z');
+
+      await dataService.logActivity(created);
+      await dataService.logActivity(statusChange);
+
+      const byAction = await dataService.getAuditTrail(testCase.id, { actions: ['status_updated'] });
+      expect(byAction.map(entry => entry.id)).toEqual([statusChange.id]);
+
+      const byUser = await dataService.getAuditTrail(testCase.id, { userId: created.userId });
+      expect(byUser.map(entry => entry.id)).toEqual([created.id]);
+
+      const byRange = await dataService.getAuditTrail(testCase.id, {
+        from: new Date('2024-01-15T00:00:00.000Z'),
+        to: new Date('2024-03-01T00:00:00.000Z')
+      });
+      expect(byRange.map(entry => entry.id)).toEqual([statusChange.id]);
+    });
   });
 
   describe('logAIInteraction and getAIInteractionHistory', () => {
@@ -1000,14 +1229,18 @@ describe('DataService', () => {
         caseId: testCase.id,
         content: 'First note',
         createdBy: 'user1',
-        createdAt: new Date()
+        createdAt: new Date(),
+        category: 'general',
+        visibility: 'internal'
       },
       {
         id: randomUUID(),
         caseId: testCase.id,
         content: 'Second note',
         createdBy: 'user2',
-        createdAt: new Date()
+        createdAt: new Date(),
+        category: 'general',
+        visibility: 'internal'
       }
     ];
 
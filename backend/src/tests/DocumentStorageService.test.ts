@@ -0,0 +1,81 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  DocumentStorageService,
+  DEFAULT_DOCUMENT_STORAGE_CONFIG,
+  getDocumentStorageConfigFromEnv,
+  sniffMimeType
+} from '../services/DocumentStorageService.js';
+
+const PNG_CONTENT = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+describe('DocumentStorageService', () => {
+  const directory = path.join(process.cwd(), 'test_data', `documents_${Date.now()}`);
+  const storage = new DocumentStorageService({ ...DEFAULT_DOCUMENT_STORAGE_CONFIG, directory, maxSizeBytes: 1024 });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read the storage limits from the environment', () => {
+    expect(getDocumentStorageConfigFromEnv({})).toEqual(DEFAULT_DOCUMENT_STORAGE_CONFIG);
+    expect(getDocumentStorageConfigFromEnv({
+      DOCUMENT_STORAGE_DIR: '/srv/documents',
+      DOCUMENT_MAX_SIZE_MB: '2',
+      DOCUMENT_ALLOWED_TYPES: 'application/pdf, text/plain'
+    })).toEqual({ directory: '/srv/documents', maxSizeBytes: 2 * 1024 * 1024, allowedMimeTypes: ['application/pdf', 'text/plain'] });
+    expect(() => getDocumentStorageConfigFromEnv({ DOCUMENT_MAX_SIZE_MB: '0' })).toThrow('Invalid value for DOCUMENT_MAX_SIZE_MB');
+    expect(() => getDocumentStorageConfigFromEnv({ DOCUMENT_ALLOWED_TYPES: 'pdf' })).toThrow('Invalid value for DOCUMENT_ALLOWED_TYPES');
+  });
+
+  it('should identify files by their contents', () => {
+    expect(sniffMimeType(Buffer.from('%PDF-1.7\n'))).toBe('application/pdf');
+    expect(sniffMimeType(PNG_CONTENT)).toBe('image/png');
+    expect(sniffMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(sniffMimeType(Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('word/document.xml')])))
+      .toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    expect(sniffMimeType(Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14]))).toBe('application/zip');
+    expect(sniffMimeType(Buffer.from('Payslip for March\r\n'))).toBe('text/plain');
+    expect(sniffMimeType(Buffer.from([0x4d, 0x5a, 0x90, 0x00]))).toBeUndefined();
+  });
+
+  it('should store identical uploads once under their checksum', async () => {
+    const first = await storage.store(PNG_CONTENT);
+    const second = await storage.store(Buffer.from(PNG_CONTENT));
+
+    expect(first).toEqual(second);
+    expect(first).toMatchObject({ mimeType: 'image/png', size: PNG_CONTENT.length });
+    expect(first.storageKey).toBe(`${first.checksum.slice(0, 2)}/${first.checksum}`);
+    expect(fs.readdirSync(path.join(directory, first.checksum.slice(0, 2)))).toEqual([first.checksum]);
+  });
+
+  it('should reject empty, oversized and disallowed files', async () => {
+    await expect(storage.store(Buffer.alloc(0))).rejects.toThrow('File is empty');
+    await expect(storage.store(Buffer.concat([PNG_CONTENT, Buffer.alloc(1024)]))).rejects.toThrow('File exceeds the maximum size of 1 KB');
+    await expect(storage.store(Buffer.from('GIF89a\x01\x00'))).rejects.toThrow('Unsupported file type: image/gif');
+  });
+
+  it('should keep quarantined files where they can never be served', async () => {
+    const content = Buffer.from('infected macro document');
+    const quarantined = await storage.quarantine(content);
+
+    expect(quarantined).toMatchObject({ storageKey: `quarantine/${quarantined.checksum}`, mimeType: 'text/plain', size: content.length });
+    expect(fs.readFileSync(path.join(directory, 'quarantine', quarantined.checksum))).toEqual(content);
+    expect(() => storage.getFilePath(quarantined.storageKey)).toThrow('Invalid storage key');
+  });
+
+  it('should remove stored and quarantined files by storage key', async () => {
+    const stored = await storage.store(Buffer.from('%PDF-1.4\nremoved\n'));
+    const quarantined = await storage.quarantine(Buffer.from('removed infected document'));
+
+    await storage.remove(stored.storageKey);
+    await storage.remove(quarantined.storageKey);
+    // Removing a file that is already gone is not an error
+    await storage.remove(stored.storageKey);
+
+    expect(fs.existsSync(path.join(directory, stored.storageKey))).toBe(false);
+    expect(fs.existsSync(path.join(directory, quarantined.storageKey))).toBe(false);
+    await expect(storage.remove('../outside')).rejects.toThrow('Invalid storage key');
+  });
+});
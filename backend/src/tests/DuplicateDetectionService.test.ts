@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DuplicateDetectionService,
+  DEFAULT_DUPLICATE_CONFIG,
+  getDuplicateConfigFromEnv,
+  nameSimilarity,
+  normalizeDateOfBirth
+} from '../services/DuplicateDetectionService.js';
+import { DataService } from '../services/DataService.js';
+import { ApplicationData, CaseListItem, CaseStatus, ProcessStep } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-03-01T12:00:00.000Z');
+
+const createApplicationData = (overrides: Partial<ApplicationData> = {}): ApplicationData => ({
+  applicantName: 'Jane Doe',
+  applicantEmail: 'jane@example.com',
+  applicationType: 'standard',
+  submissionDate: NOW,
+  documents: [],
+  formData: { dateOfBirth: '1990-05-17' },
+  ...overrides
+});
+
+const createCandidate = (id: string, daysAgo: number, overrides: Partial<ApplicationData> = {}): CaseListItem => ({
+  id,
+  applicationData: createApplicationData(overrides),
+  status: CaseStatus.ACTIVE,
+  currentStep: ProcessStep.RECEIVED,
+  createdAt: new Date(NOW.getTime() - daysAgo * DAY_MS),
+  updatedAt: NOW
+});
+
+const createMockDataService = (candidates: CaseListItem[]) => ({
+  findDuplicateCandidates: vi.fn().mockResolvedValue(candidates)
+}) as unknown as DataService;
+
+describe('DuplicateDetectionService', () => {
+  describe('Normalization', () => {
+    it('should score names by similarity regardless of case, accents and word order', () => {
+      expect(nameSimilarity('Doe, Jöhn', 'john doe')).toBe(1);
+      expect(nameSimilarity('Jon Doe', 'John Doe')).toBeGreaterThan(0.85);
+      expect(nameSimilarity('Mary Smith', 'John Doe')).toBeLessThan(0.5);
+    });
+
+    it('should normalize dates of birth to calendar dates', () => {
+      expect(normalizeDateOfBirth('1990-05-17T00:00:00.000Z')).toBe('1990-05-17');
+      expect(normalizeDateOfBirth('unknown')).toBeUndefined();
+      expect(normalizeDateOfBirth(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('findDuplicates', () => {
+    it('should match on normalized email and flag resubmissions within the window', async () => {
+      const dataService = createMockDataService([
+        createCandidate('old-other-type', 400, { applicationType: 'citizenship' }),
+        createCandidate('recent-same-type', 10, { applicantEmail: ' JANE@example.com ' })
+      ]);
+      const service = new DuplicateDetectionService(dataService);
+
+      const matches = await service.findDuplicates(createApplicationData({ applicantEmail: 'Jane@Example.com' }), NOW, 'new-case');
+
+      expect(dataService.findDuplicateCandidates).toHaveBeenCalledWith({
+        email: 'jane@example.com',
+        dateOfBirth: '1990-05-17',
+        excludeCaseId: 'new-case'
+      });
+      expect(matches.map(match => [match.case.id, match.reasons])).toEqual([
+        ['recent-same-type', ['email', 'name_and_date_of_birth', 'same_type_within_window']],
+        ['old-other-type', ['email', 'name_and_date_of_birth']]
+      ]);
+    });
+
+    it('should require a similar name when only the date of birth matches', async () => {
+      const service = new DuplicateDetectionService(createMockDataService([
+        createCandidate('same-person', 5, { applicantName: 'Jayne  Doe', applicantEmail: 'jane.work@example.com' }),
+        createCandidate('different-person', 5, { applicantName: 'Robert Brown', applicantEmail: 'rob@example.com' })
+      ]));
+
+      const matches = await service.findDuplicates(createApplicationData(), NOW);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({
+        case: { id: 'same-person' },
+        reasons: ['name_and_date_of_birth', 'same_type_within_window']
+      });
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should read the window and name threshold from the environment', () => {
+      expect(getDuplicateConfigFromEnv({ DUPLICATE_WINDOW_DAYS: '30', DUPLICATE_NAME_SIMILARITY: '0.9' })).toEqual({
+        windowDays: 30,
+        nameSimilarityThreshold: 0.9
+      });
+      expect(getDuplicateConfigFromEnv({})).toEqual(DEFAULT_DUPLICATE_CONFIG);
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => getDuplicateConfigFromEnv({ DUPLICATE_NAME_SIMILARITY: '2' })).toThrow('Invalid value for DUPLICATE_NAME_SIMILARITY: 2');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { IdempotencyService, DEFAULT_IDEMPOTENCY_CONFIG, getIdempotencyConfigFromEnv } from '../services/IdempotencyService.js';
+import { DataService } from '../services/DataService.js';
+import { setupUnitTestDatabase } from './utils/testDatabaseFactory.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const SCOPE = 'POST /api/cases/';
+
+describe('IdempotencyService', () => {
+  let idempotencyService: IdempotencyService;
+  let dataService: DataService;
+
+  const dbHooks = setupUnitTestDatabase('IdempotencyService');
+
+  beforeAll(async () => {
+    await dbHooks.beforeAll();
+    process.env.NODE_ENV = 'test';
+
+    const { resetServices, getServices } = await import('../routes/serviceFactory.js');
+    resetServices();
+    dataService = getServices().dataService;
+    idempotencyService = new IdempotencyService(dataService, { ttlHours: 24 });
+  });
+
+  afterAll(async () => {
+    await dbHooks.afterAll();
+  });
+
+  beforeEach(async () => {
+    await dbHooks.beforeEach();
+  });
+
+  it('should read the key lifetime from the environment', () => {
+    expect(getIdempotencyConfigFromEnv({})).toEqual(DEFAULT_IDEMPOTENCY_CONFIG);
+    expect(getIdempotencyConfigFromEnv({ IDEMPOTENCY_KEY_TTL_HOURS: '2' })).toEqual({ ttlHours: 2 });
+    expect(() => getIdempotencyConfigFromEnv({ IDEMPOTENCY_KEY_TTL_HOURS: '-1' })).toThrow('Invalid value for IDEMPOTENCY_KEY_TTL_HOURS');
+  });
+
+  it('should replay the stored response for retries with the same body', async () => {
+    const now = new Date();
+    const body = { applicationData: { applicantName: 'Jane Doe' } };
+
+    expect(await idempotencyService.begin('key-1', SCOPE, body, now)).toEqual({ type: 'proceed' });
+    expect(await idempotencyService.begin('key-1', SCOPE, body, now)).toEqual({ type: 'in_progress' });
+
+    await idempotencyService.complete('key-1', SCOPE, 201, { success: true, data: { id: 'case-1' } }, { location: '/api/cases/case-1' });
+
+    expect(await idempotencyService.begin('key-1', SCOPE, body, now)).toEqual({
+      type: 'replay',
+      statusCode: 201,
+      headers: { location: '/api/cases/case-1' },
+      body: { success: true, data: { id: 'case-1' } }
+    });
+    expect(await idempotencyService.begin('key-1', SCOPE, { applicationData: { applicantName: 'John Doe' } }, now))
+      .toEqual({ type: 'mismatch' });
+    // The same key on another endpoint is a different request
+    expect(await idempotencyService.begin('key-1', 'POST /api/cases/case-1/notes', body, now)).toEqual({ type: 'proceed' });
+  });
+
+  it('should release keys after server errors and once they expire', async () => {
+    const now = new Date();
+    const body = { content: 'Called the applicant' };
+
+    await idempotencyService.begin('key-2', SCOPE, body, now);
+    await idempotencyService.complete('key-2', SCOPE, 500, { error: { code: 'CASE_CREATION_FAILED' } });
+    expect(await idempotencyService.begin('key-2', SCOPE, body, now)).toEqual({ type: 'proceed' });
+
+    await idempotencyService.complete('key-2', SCOPE, 201, { success: true });
+    const later = new Date(now.getTime() + 25 * HOUR_MS);
+    expect(await idempotencyService.begin('key-2', SCOPE, { content: 'Something else' }, later)).toEqual({ type: 'proceed' });
+  });
+
+  it('should release a key whose request ended without a response', async () => {
+    const now = new Date();
+    const body = { content: 'Called the applicant' };
+
+    await idempotencyService.begin('key-3', SCOPE, body, now);
+    await idempotencyService.release('key-3', SCOPE);
+    expect(await idempotencyService.begin('key-3', SCOPE, body, now)).toEqual({ type: 'proceed' });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import net from 'net';
+import {
+  ClamdScanner,
+  EicarTestScanner,
+  EICAR_TEST_STRING,
+  DEFAULT_CLAMD_CONFIG,
+  getClamdConfigFromEnv,
+  getMalwareScannerFromEnv,
+  parseClamdReply
+} from '../services/MalwareScanner.js';
+
+// A stand-in clamd that records the INSTREAM data it receives and answers with the given reply
+const startClamd = (reply: (stream: Buffer) => string | null): Promise<{ server: net.Server; port: number; received: Buffer[] }> =>
+  new Promise(resolve => {
+    const received: Buffer[] = [];
+    const server = net.createServer(socket => {
+      let buffer = Buffer.alloc(0);
+      socket.on('data', chunk => {
+        buffer = Buffer.concat([buffer, chunk]);
+        const command = 'zINSTREAM\0';
+        if (buffer.length < command.length) {
+          return;
+        }
+
+        // Decode the length-prefixed chunks up to the zero-length terminator
+        const chunks: Buffer[] = [];
+        let offset = command.length;
+        while (offset + 4 <= buffer.length) {
+          const length = buffer.readUInt32BE(offset);
+          if (length === 0) {
+            const stream = Buffer.concat(chunks);
+            received.push(stream);
+            const answer = reply(stream);
+            if (answer !== null) {
+              socket.end(`${answer}\0`);
+            }
+            return;
+          }
+          if (offset + 4 + length > buffer.length) {
+            return;
+          }
+          chunks.push(buffer.subarray(offset + 4, offset + 4 + length));
+          offset += 4 + length;
+        }
+      });
+    });
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: (server.address() as net.AddressInfo).port, received }));
+  });
+
+describe('MalwareScanner', () => {
+  let server: net.Server | undefined;
+
+  afterEach(async () => {
+    await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+    server = undefined;
+  });
+
+  it('should flag the EICAR test string with the local test scanner', async () => {
+    const scanner = new EicarTestScanner();
+
+    expect(await scanner.scan(Buffer.from(`attachment ${EICAR_TEST_STRING}\n`))).toEqual({
+      infected: true,
+      signature: 'Eicar-Test-Signature'
+    });
+    expect(await scanner.scan(Buffer.from('%PDF-1.4\n%%EOF\n'))).toEqual({ infected: false });
+  });
+
+  it('should parse clamd replies', () => {
+    expect(parseClamdReply('stream: OK\0')).toEqual({ infected: false });
+    expect(parseClamdReply('stream: Win.Test.EICAR_HDB-1 FOUND\0')).toEqual({ infected: true, signature: 'Win.Test.EICAR_HDB-1' });
+    expect(() => parseClamdReply('INSTREAM size limit exceeded. ERROR\0')).toThrow('clamd reported an error: INSTREAM size limit exceeded. ERROR');
+    expect(() => parseClamdReply('')).toThrow('clamd closed the connection without a reply');
+  });
+
+  it('should stream files to clamd in length-prefixed chunks', async () => {
+    const clamd = await startClamd(stream => stream.includes(EICAR_TEST_STRING) ? 'stream: Eicar-Signature FOUND' : 'stream: OK');
+    server = clamd.server;
+    const scanner = new ClamdScanner({ ...DEFAULT_CLAMD_CONFIG, port: clamd.port });
+
+    // Larger than one chunk so the file is split
+    const large = Buffer.alloc(150 * 1024, 'a');
+    expect(await scanner.scan(large)).toEqual({ infected: false });
+    expect(clamd.received[0]).toEqual(large);
+
+    expect(await scanner.scan(Buffer.from(EICAR_TEST_STRING))).toEqual({ infected: true, signature: 'Eicar-Signature' });
+  });
+
+  it('should fail when clamd cannot be reached or does not reply in time', async () => {
+    const clamd = await startClamd(() => null);
+    server = clamd.server;
+
+    const slow = new ClamdScanner({ ...DEFAULT_CLAMD_CONFIG, port: clamd.port, timeoutMs: 50 });
+    await expect(slow.scan(Buffer.from('document'))).rejects.toThrow('clamd did not reply within 50 ms');
+
+    const missing = new ClamdScanner({ ...DEFAULT_CLAMD_CONFIG, socketPath: '/nonexistent/clamd.sock' });
+    await expect(missing.scan(Buffer.from('document'))).rejects.toThrow('clamd connection failed');
+  });
+
+  it('should read the scanner settings from the environment', () => {
+    expect(getClamdConfigFromEnv({})).toEqual(DEFAULT_CLAMD_CONFIG);
+    expect(getClamdConfigFromEnv({ CLAMD_SOCKET: '/run/clamav/clamd.ctl', CLAMD_TIMEOUT_MS: '5000' })).toEqual({
+      ...DEFAULT_CLAMD_CONFIG,
+      socketPath: '/run/clamav/clamd.ctl',
+      timeoutMs: 5000
+    });
+    expect(() => getClamdConfigFromEnv({ CLAMD_PORT: '70000' })).toThrow('Invalid value for CLAMD_PORT');
+
+    expect(getMalwareScannerFromEnv({})).toBeInstanceOf(ClamdScanner);
+    expect(getMalwareScannerFromEnv({ MALWARE_SCANNER: 'eicar' })).toBeInstanceOf(EicarTestScanner);
+    expect(getMalwareScannerFromEnv({ MALWARE_SCANNER: 'none' })).toBeUndefined();
+    expect(() => getMalwareScannerFromEnv({ MALWARE_SCANNER: 'sophos' })).toThrow('Invalid value for MALWARE_SCANNER');
+  });
+});
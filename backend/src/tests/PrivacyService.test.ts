@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { PrivacyService, REDACTED } from '../services/PrivacyService.js';
+import { CaseService } from '../services/CaseService.js';
+import { DataService } from '../services/DataService.js';
+import { AIService } from '../services/AIService.js';
+import { DocumentStorageService, DEFAULT_DOCUMENT_STORAGE_CONFIG } from '../services/DocumentStorageService.js';
+import { ApplicationData, ProcessStep } from '../types/index.js';
+import { setupUnitTestDatabase } from './utils/testDatabaseFactory.js';
+
+const createApplicationData = (applicantEmail: string): ApplicationData => ({
+  applicantName: 'Jane Doe',
+  applicantEmail,
+  applicationType: 'standard',
+  submissionDate: new Date('2024-01-15'),
+  documents: [],
+  formData: { dateOfBirth: '1990-05-17', passportNumber: 'X1234567' }
+});
+
+describe('PrivacyService', () => {
+  let privacyService: PrivacyService;
+  let caseService: CaseService;
+  let dataService: DataService;
+
+  const dbHooks = setupUnitTestDatabase('PrivacyService');
+  const documentDirectory = path.join(process.cwd(), 'test_data', `privacy_documents_${Date.now()}`);
+
+  beforeAll(async () => {
+    await dbHooks.beforeAll();
+    process.env.NODE_ENV = 'test';
+
+    const { resetServices, getServices } = await import('../routes/serviceFactory.js');
+    resetServices();
+    dataService = getServices().dataService;
+    const documentStorageService = new DocumentStorageService({ ...DEFAULT_DOCUMENT_STORAGE_CONFIG, directory: documentDirectory });
+    privacyService = new PrivacyService(dataService, documentStorageService);
+    caseService = new CaseService(
+      dataService, {} as AIService, undefined, undefined, undefined, undefined, undefined, undefined, documentStorageService
+    );
+  });
+
+  afterAll(async () => {
+    await dbHooks.afterAll();
+    fs.rmSync(documentDirectory, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await dbHooks.beforeEach();
+  });
+
+  // A case with a note, an AI summary, an AI interaction and an edited application
+  const createSubjectCase = async (applicantEmail = 'jane@example.com') => {
+    const created = await caseService.createCaseWithoutAI(createApplicationData(applicantEmail), 'user123');
+    await caseService.addCaseNote(created.id, 'Jane phoned about her passport X1234567', 'caseworker-1');
+    await caseService.updateApplicationData(created.id, { applicantName: 'Jane Smith' }, 'caseworker-1', 'Married name');
+    await dataService.saveSummary({
+      id: randomUUID(),
+      caseId: created.id,
+      type: 'overall',
+      content: 'Jane Smith applies with passport X1234567',
+      recommendations: ['Verify Jane Smith identity'],
+      confidence: 0.9,
+      generatedAt: new Date(),
+      version: 1
+    });
+    await dataService.logAIInteraction({
+      id: randomUUID(),
+      caseId: created.id,
+      operation: 'generate_summary',
+      prompt: 'Summarize the application of Jane Smith, passport X1234567',
+      response: 'Jane Smith applies with passport X1234567',
+      model: 'test-model',
+      tokensUsed: 42,
+      duration: 100,
+      success: true,
+      timestamp: new Date(),
+      stepContext: ProcessStep.RECEIVED
+    });
+    return created;
+  };
+
+  it('should export every record held for an applicant email', async () => {
+    const subjectCase = await createSubjectCase();
+    await caseService.createCaseWithoutAI(createApplicationData('someone.else@example.com'), 'user123');
+
+    const bundle = await privacyService.exportSubjectData('  Jane@Example.com ');
+
+    expect(bundle.applicantEmail).toBe('jane@example.com');
+    expect(bundle.total).toBe(1);
+    const [record] = bundle.cases;
+    expect(record.case.id).toBe(subjectCase.id);
+    expect(record.case.notes.map(note => note.content)).toEqual(['Jane phoned about her passport X1234567']);
+    expect(record.case.aiSummaries).toHaveLength(1);
+    expect(record.applicationRevisions.map(revision => revision.version)).toEqual([1, 2]);
+    expect(record.aiInteractions[0].prompt).toContain('Jane Smith');
+
+    await expect(privacyService.exportSubjectData('nobody@example.com')).rejects.toThrow('No cases found for applicant email');
+  });
+
+  it('should redact the applicant across cases, notes, summaries, revisions and AI interactions', async () => {
+    const subjectCase = await createSubjectCase();
+    const otherCase = await createSubjectCase('someone.else@example.com');
+
+    const result = await privacyService.eraseSubjectData('jane@example.com', 'admin-1', 'Erasure request #42');
+    expect(result).toMatchObject({ caseIds: [subjectCase.id], notes: 1, summaries: 1, aiInteractions: 1, erasedBy: 'admin-1' });
+
+    const erased = await dataService.getCase(subjectCase.id);
+    expect(erased?.applicationData).toMatchObject({
+      applicantName: REDACTED,
+      applicantEmail: REDACTED,
+      applicationType: 'standard',
+      formData: { dateOfBirth: REDACTED, passportNumber: REDACTED }
+    });
+    expect(erased?.auditTrail.find(entry => entry.action === 'subject_data_erased')?.details).toEqual({
+      revisionsRedacted: 2,
+      reason: 'Erasure request #42'
+    });
+
+    const stored = JSON.stringify({
+      case: erased,
+      revisions: await dataService.getApplicationRevisions(subjectCase.id),
+      interactions: await dataService.getAIInteractionHistory(subjectCase.id)
+    });
+    expect(stored).not.toMatch(/Jane|jane@example\.com|X1234567/);
+    expect((await dataService.searchCases('passport')).results.map(result => result.case.id)).toEqual([otherCase.id]);
+
+    const untouched = await dataService.getCase(otherCase.id);
+    expect(untouched?.applicationData.applicantName).toBe('Jane Smith');
+
+    await expect(privacyService.eraseSubjectData('jane@example.com', 'admin-1')).rejects.toThrow('No cases found');
+  });
+
+  it('should export and erase the text extracted from the applicant\'s documents', async () => {
+    const subjectCase = await createSubjectCase();
+    const pdf = Buffer.from('%PDF-1.4\n1 0 obj\n<< /Length 40 >>\nstream\nBT 72 720 Td (Jane Smith X1234567) Tj ET\nendstream\nendobj\n%%EOF\n');
+    const { document } = await caseService.uploadDocument(subjectCase.id, { content: pdf, filename: 'passport.pdf' }, 'caseworker-1');
+
+    const bundle = await privacyService.exportSubjectData('jane@example.com');
+    expect(bundle.cases[0].documentTexts).toEqual([
+      expect.objectContaining({ documentId: document.id, text: 'Jane Smith X1234567' })
+    ]);
+
+    const result = await privacyService.eraseSubjectData('jane@example.com', 'admin-1');
+    expect(result.documentTexts).toBe(1);
+    expect(await dataService.getDocumentTexts([document.id])).toEqual([]);
+  });
+
+  it('should redact uploaded documents and delete files no other case shares', async () => {
+    const subjectCase = await createSubjectCase();
+    const otherCase = await caseService.createCaseWithoutAI(createApplicationData('john@example.com'), 'user123');
+    const passport = Buffer.from('%PDF-1.4\nJane Smith passport\n%%EOF\n');
+    const payslip = Buffer.from('%PDF-1.4\nshared payslip template\n%%EOF\n');
+
+    const { document } = await caseService.uploadDocument(
+      subjectCase.id, { content: passport, filename: 'jane-smith-passport.pdf', description: 'Passport of Jane Smith' }, 'caseworker-1'
+    );
+    await caseService.reviewDocument(subjectCase.id, document.id, { status: 'rejected', reason: 'Jane Smith\'s passport has expired' }, 'caseworker-1');
+    const { document: shared } = await caseService.uploadDocument(subjectCase.id, { content: payslip, filename: 'jane-payslip.pdf' }, 'caseworker-1');
+    await caseService.uploadDocument(otherCase.id, { content: payslip, filename: 'payslip.pdf' }, 'caseworker-1');
+
+    const result = await privacyService.eraseSubjectData('jane@example.com', 'admin-1');
+    expect(result.documents).toBe(2);
+
+    const erased = await dataService.getCaseDocument(document.id);
+    expect(erased).toMatchObject({ filename: REDACTED, description: REDACTED, reviewReason: REDACTED, storageKey: REDACTED });
+    expect((await dataService.getDocumentReviews(document.id)).map(review => review.reason)).toEqual([REDACTED]);
+    await expect(caseService.getDocumentContent(subjectCase.id, document.id)).rejects.toThrow('was erased');
+
+    // The passport file is gone; the payslip is still referenced by the other case
+    expect(fs.existsSync(path.join(documentDirectory, document.storageKey))).toBe(false);
+    expect(fs.existsSync(path.join(documentDirectory, shared.storageKey))).toBe(true);
+
+    const audit = JSON.stringify(await dataService.getAuditTrail(subjectCase.id));
+    expect(audit).not.toContain('jane-smith-passport.pdf');
+    expect(audit).not.toContain('has expired');
+  });
+});
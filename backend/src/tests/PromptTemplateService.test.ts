@@ -483,7 +483,7 @@ describe('PromptTemplateService', () => {
 
     it('should validate default template schemas', () => {
       // Test overall summary schema
-      const summaryTemplate = service.getTemplate('overall_summary_v1');
+      const summaryTemplate = service.getTemplate('overall_summary_v2');
       expect(summaryTemplate).toBeDefined();
       
       const validSummaryResponse = JSON.stringify({
@@ -492,7 +492,7 @@ describe('PromptTemplateService', () => {
         confidence: 0.85
       });
       
-      const summaryValidation = service.validateResponse('overall_summary_v1', validSummaryResponse);
+      const summaryValidation = service.validateResponse('overall_summary_v2', validSummaryResponse);
       expect(summaryValidation.isValid).toBe(true);
 
       // Test step recommendation schema
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { RetentionService, DEFAULT_RETENTION_CONFIG, getRetentionConfigFromEnv } from '../services/RetentionService.js';
+import { CaseService } from '../services/CaseService.js';
+import { DataService } from '../services/DataService.js';
+import { AIService } from '../services/AIService.js';
+import { DocumentStorageService, DEFAULT_DOCUMENT_STORAGE_CONFIG } from '../services/DocumentStorageService.js';
+import { ApplicationData, CaseStatus, ProcessStep } from '../types/index.js';
+import { setupUnitTestDatabase } from './utils/testDatabaseFactory.js';
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+const createApplicationData = (): ApplicationData => ({
+  applicantName: 'Jane Doe',
+  applicantEmail: 'jane@example.com',
+  applicationType: 'standard',
+  submissionDate: new Date('2024-01-15'),
+  documents: [],
+  formData: { dateOfBirth: '1990-05-17' }
+});
+
+describe('RetentionService', () => {
+  let retentionService: RetentionService;
+  let caseService: CaseService;
+  let dataService: DataService;
+
+  const dbHooks = setupUnitTestDatabase('RetentionService');
+  const documentDirectory = path.join(process.cwd(), 'test_data', `retention_documents_${Date.now()}`);
+
+  beforeAll(async () => {
+    await dbHooks.beforeAll();
+    process.env.NODE_ENV = 'test';
+
+    const { resetServices, getServices } = await import('../routes/serviceFactory.js');
+    resetServices();
+    dataService = getServices().dataService;
+    const documentStorageService = new DocumentStorageService({ ...DEFAULT_DOCUMENT_STORAGE_CONFIG, directory: documentDirectory });
+    retentionService = new RetentionService(dataService, { statuses: [CaseStatus.ARCHIVED], retentionYears: 7 }, documentStorageService);
+    caseService = new CaseService(
+      dataService, {} as AIService, undefined, undefined, undefined, undefined, undefined, undefined, documentStorageService
+    );
+  });
+
+  afterAll(async () => {
+    await dbHooks.afterAll();
+    fs.rmSync(documentDirectory, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await dbHooks.beforeEach();
+  });
+
+  const createArchivedCase = async (upload?: { content: Buffer; filename: string }) => {
+    const created = await caseService.createCaseWithoutAI(createApplicationData(), 'user123');
+    if (upload) {
+      const { document } = await caseService.uploadDocument(created.id, upload, 'caseworker-1');
+      await caseService.reviewDocument(created.id, document.id, { status: 'accepted' }, 'caseworker-1');
+    }
+    await dataService.updateCase(created.id, { currentStep: ProcessStep.READY_FOR_DECISION });
+    await caseService.updateCaseStatus(created.id, CaseStatus.APPROVED, 'caseworker-1');
+    await caseService.updateCaseStatus(created.id, CaseStatus.ARCHIVED, 'caseworker-1');
+    return created;
+  };
+
+  it('should read the policy from the environment', () => {
+    expect(getRetentionConfigFromEnv({})).toEqual(DEFAULT_RETENTION_CONFIG);
+    expect(getRetentionConfigFromEnv({ RETENTION_YEARS: '10', RETENTION_STATUSES: 'archived, withdrawn' })).toEqual({
+      statuses: [CaseStatus.ARCHIVED, CaseStatus.WITHDRAWN],
+      retentionYears: 10
+    });
+    expect(() => getRetentionConfigFromEnv({ RETENTION_YEARS: '0' })).toThrow('Invalid value for RETENTION_YEARS');
+    expect(() => getRetentionConfigFromEnv({ RETENTION_STATUSES: 'closed' })).toThrow('Invalid value for RETENTION_STATUSES');
+  });
+
+  it('should report archived cases past the retention period without purging them', async () => {
+    const archived = await createArchivedCase();
+    await caseService.createCaseWithoutAI(createApplicationData(), 'user123');
+
+    expect((await retentionService.getReport()).total).toBe(0);
+
+    const later = new Date(Date.now() + 8 * YEAR_MS);
+    const report = await retentionService.getReport(later);
+    expect(report.total).toBe(1);
+    expect(report.cases[0]).toMatchObject({
+      caseId: archived.id,
+      applicationType: 'standard',
+      status: CaseStatus.ARCHIVED
+    });
+    expect(report.cases[0].purgeableSince.getTime()).toBeLessThanOrEqual(later.getTime());
+
+    expect(await dataService.getCase(archived.id)).not.toBeNull();
+  });
+
+  it('should purge applicant data and keep an anonymized audit stub', async () => {
+    const archived = await createArchivedCase();
+    await caseService.addCaseNote(archived.id, 'Applicant phoned about her passport', 'caseworker-1');
+    const kept = await caseService.createCaseWithoutAI(createApplicationData(), 'user123');
+
+    const purged = await retentionService.purge('admin-1', new Date(Date.now() + 8 * YEAR_MS));
+    expect(purged.map(stub => stub.caseId)).toEqual([archived.id]);
+
+    expect(await dataService.getCase(archived.id)).toBeNull();
+    expect(await dataService.getCaseNotes(archived.id)).toEqual([]);
+    expect((await dataService.searchCases('passport')).total).toBe(0);
+    expect(await dataService.getCase(kept.id)).not.toBeNull();
+
+    const [stub] = await retentionService.getPurgedCases();
+    expect(stub).toMatchObject({ caseId: archived.id, applicationType: 'standard', status: CaseStatus.ARCHIVED, purgedBy: 'admin-1' });
+    expect(stub.auditTrail.map(entry => entry.action)).toEqual(expect.arrayContaining(['case_created', 'status_updated', 'note_added']));
+    expect(JSON.stringify(stub)).not.toMatch(/Jane|jane@example\.com|passport/);
+  });
+
+  it('should delete stored files that no remaining case references', async () => {
+    const passport = Buffer.from('%PDF-1.4\npassport scan\n%%EOF\n');
+    const payslip = Buffer.from('%PDF-1.4\npayslip\n%%EOF\n');
+    await createArchivedCase({ content: passport, filename: 'passport.pdf' });
+    await createArchivedCase({ content: payslip, filename: 'payslip.pdf' });
+    const kept = await caseService.createCaseWithoutAI(createApplicationData(), 'user123');
+    const { document: shared } = await caseService.uploadDocument(kept.id, { content: payslip, filename: 'payslip.pdf' }, 'caseworker-1');
+    const storedFiles = () => fs.readdirSync(documentDirectory, { recursive: true, withFileTypes: true }).filter(entry => entry.isFile()).length;
+    expect(storedFiles()).toBe(2);
+
+    await retentionService.purge('admin-1', new Date(Date.now() + 8 * YEAR_MS));
+
+    // Only the payslip, still attached to the open case, is left
+    expect(storedFiles()).toBe(1);
+    expect(fs.existsSync(path.join(documentDirectory, shared.storageKey))).toBe(true);
+  });
+});
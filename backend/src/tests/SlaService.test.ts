@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SlaService, DEFAULT_SLA_CONFIG, getSlaConfigFromEnv } from '../services/SlaService.js';
+import { Case, CaseStatus, ProcessStep } from '../types/index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = new Date('2024-03-01T12:00:00.000Z');
+
+const createTestCase = (hoursInStep: number, overrides: Partial<Case> = {}): Case => ({
+  id: 'sla-test-case',
+  applicationData: {
+    applicantName: 'Jane Doe',
+    applicantEmail: 'jane@example.com',
+    applicationType: 'standard',
+    submissionDate: new Date(),
+    documents: [],
+    formData: {}
+  },
+  status: CaseStatus.ACTIVE,
+  currentStep: ProcessStep.RECEIVED,
+  createdAt: new Date(NOW.getTime() - 100 * HOUR_MS),
+  updatedAt: NOW,
+  stepEnteredAt: new Date(NOW.getTime() - hoursInStep * HOUR_MS),
+  notes: [],
+  aiSummaries: [],
+  auditTrail: [],
+  ...overrides
+});
+
+describe('SlaService', () => {
+  let service: SlaService;
+
+  beforeEach(() => {
+    service = new SlaService();
+  });
+
+  describe('SLA Durations', () => {
+    it('should use the configured default for each step', () => {
+      expect(service.getSlaHours('standard', ProcessStep.RECEIVED)).toBe(48);
+      expect(service.getSlaHours('standard', ProcessStep.IN_REVIEW)).toBe(240);
+      expect(service.getSlaHours('standard', ProcessStep.CONCLUDED)).toBeUndefined();
+    });
+
+    it('should prefer the application type override', () => {
+      expect(service.getSlaHours('citizenship', ProcessStep.IN_REVIEW)).toBe(480);
+      expect(service.getSlaHours('citizenship', ProcessStep.RECEIVED)).toBe(48);
+    });
+  });
+
+  describe('Case SLA', () => {
+    it('should compute the due date from the step entry time', () => {
+      const caseData = createTestCase(10);
+      const sla = service.getCaseSla(caseData, NOW);
+
+      expect(sla).toEqual({
+        step: ProcessStep.RECEIVED,
+        stepEnteredAt: caseData.stepEnteredAt,
+        slaHours: 48,
+        dueAt: new Date(caseData.stepEnteredAt!.getTime() + 48 * HOUR_MS),
+        overdue: false,
+        dueSoon: false
+      });
+    });
+
+    it('should flag cases due soon and overdue', () => {
+      expect(service.getCaseSla(createTestCase(30), NOW)).toMatchObject({ overdue: false, dueSoon: true });
+      expect(service.getCaseSla(createTestCase(49), NOW)).toMatchObject({ overdue: true, dueSoon: false });
+    });
+
+    it('should fall back to the last update when the step entry time is unknown', () => {
+      const caseData = createTestCase(0);
+      delete caseData.stepEnteredAt;
+      expect(service.getCaseSla(caseData, NOW)!.stepEnteredAt).toEqual(NOW);
+    });
+
+    it('should skip closed cases and steps without an SLA', () => {
+      expect(service.getCaseSla(createTestCase(100, { status: CaseStatus.APPROVED }), NOW)).toBeUndefined();
+      expect(service.getCaseSla(createTestCase(100, { currentStep: ProcessStep.CONCLUDED }), NOW)).toBeUndefined();
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should read step durations and thresholds from the environment', () => {
+      const config = getSlaConfigFromEnv({
+        SLA_HOURS_IN_REVIEW: '120',
+        SLA_DUE_SOON_HOURS: '12',
+        SLA_CHECK_INTERVAL_MINUTES: '5'
+      });
+
+      expect(config.stepSlaHours[ProcessStep.IN_REVIEW]).toBe(120);
+      expect(config.stepSlaHours[ProcessStep.RECEIVED]).toBe(48);
+      expect(config.dueSoonHours).toBe(12);
+      expect(new SlaService(undefined, config).getCheckIntervalMs()).toBe(5 * 60 * 1000);
+    });
+
+    it('should use the defaults when nothing is configured', () => {
+      expect(getSlaConfigFromEnv({})).toEqual(DEFAULT_SLA_CONFIG);
+    });
+
+    it('should reject invalid durations', () => {
+      expect(() => getSlaConfigFromEnv({ SLA_HOURS_RECEIVED: 'soon' })).toThrow('Invalid value for SLA_HOURS_RECEIVED: soon');
+    });
+  });
+});
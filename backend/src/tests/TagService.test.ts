@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { TagService } from '../services/TagService.js';
+import { CaseService } from '../services/CaseService.js';
+import { DataService } from '../services/DataService.js';
+import { AIService } from '../services/AIService.js';
+import { ApplicationData } from '../types/index.js';
+import { setupUnitTestDatabase } from './utils/testDatabaseFactory.js';
+
+const createApplicationData = (): ApplicationData => ({
+  applicantName: 'Jane Doe',
+  applicantEmail: 'jane@example.com',
+  applicationType: 'standard',
+  submissionDate: new Date('2024-01-15'),
+  documents: [],
+  formData: {}
+});
+
+describe('TagService', () => {
+  let tagService: TagService;
+  let caseService: CaseService;
+  let dataService: DataService;
+
+  const dbHooks = setupUnitTestDatabase('TagService');
+
+  beforeAll(async () => {
+    await dbHooks.beforeAll();
+    process.env.NODE_ENV = 'test';
+
+    const { resetServices, getServices } = await import('../routes/serviceFactory.js');
+    resetServices();
+    dataService = getServices().dataService;
+    tagService = new TagService(dataService);
+    caseService = new CaseService(dataService, {} as AIService);
+  });
+
+  afterAll(async () => {
+    await dbHooks.afterAll();
+  });
+
+  beforeEach(async () => {
+    await dbHooks.beforeEach();
+  });
+
+  it('should create tags with normalized, case-insensitively unique names', async () => {
+    const tag = await tagService.createTag({ name: '  needs   interpreter ', description: 'Book an interpreter' }, 'supervisor-1');
+
+    expect(tag).toMatchObject({
+      name: 'needs interpreter',
+      color: 'gray',
+      description: 'Book an interpreter',
+      createdBy: 'supervisor-1',
+      caseCount: 0
+    });
+    await expect(tagService.createTag({ name: 'Needs Interpreter' }, 'supervisor-1'))
+      .rejects.toThrow('Tag "needs interpreter" already exists');
+  });
+
+  it('should list tags by name with their case counts', async () => {
+    const vip = await tagService.createTag({ name: 'VIP' }, 'supervisor-1');
+    await tagService.createTag({ name: 'media-sensitive', color: 'red' }, 'supervisor-1');
+    const createdCase = await caseService.createCaseWithoutAI(createApplicationData(), 'user123');
+    await caseService.addCaseTag(createdCase.id, vip.id, 'user123');
+
+    const tags = await tagService.listTags();
+    expect(tags.map(tag => [tag.name, tag.caseCount])).toEqual([['media-sensitive', 0], ['VIP', 1]]);
+  });
+
+  it('should rename and recolour a tag', async () => {
+    const vip = await tagService.createTag({ name: 'VIP', description: 'High profile' }, 'supervisor-1');
+    await tagService.createTag({ name: 'urgent' }, 'supervisor-1');
+
+    const updated = await tagService.updateTag(vip.id, { name: ' vip ', color: 'blue', description: '' });
+    expect(updated).toMatchObject({ name: 'vip', color: 'blue' });
+    expect(updated.description).toBeUndefined();
+
+    await expect(tagService.updateTag(vip.id, { name: 'URGENT' })).rejects.toThrow('Tag "urgent" already exists');
+    await expect(tagService.updateTag('missing-tag', { color: 'red' })).rejects.toThrow('Tag with ID missing-tag not found');
+  });
+
+  it('should take a deleted tag off every case and audit the removal', async () => {
+    const vip = await tagService.createTag({ name: 'VIP' }, 'supervisor-1');
+    const createdCase = await caseService.createCaseWithoutAI(createApplicationData(), 'user123');
+    await caseService.addCaseTag(createdCase.id, vip.id, 'user123');
+
+    expect(await tagService.deleteTag(vip.id, 'admin-1')).toEqual({ tagId: vip.id, casesUntagged: 1 });
+
+    const untagged = await dataService.getCase(createdCase.id);
+    expect(untagged!.tags).toEqual([]);
+    expect(untagged!.auditTrail.find(entry => entry.action === 'tag_removed')).toMatchObject({
+      userId: 'admin-1',
+      details: { tagId: vip.id, tagName: 'VIP', tagDeleted: true }
+    });
+    expect(await tagService.getTag(vip.id)).toBeNull();
+  });
+});
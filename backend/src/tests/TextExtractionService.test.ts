@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync, deflateSync } from 'zlib';
+import { TextExtractionService, MAX_EXTRACTED_TEXT_LENGTH } from '../services/TextExtractionService.js';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// A minimal PDF whose objects are the given stream dictionaries and contents
+const buildPdf = (streams: { dictionary: string; data: Buffer }[], trailer = ''): Buffer => Buffer.concat([
+  Buffer.from('%PDF-1.4\n'),
+  ...streams.flatMap(({ dictionary, data }, index) => [
+    Buffer.from(`${index + 1} 0 obj\n<< /Length ${data.length} ${dictionary} >>\nstream\n`, 'latin1'),
+    data,
+    Buffer.from('\nendstream\nendobj\n')
+  ]),
+  Buffer.from(`trailer\n<< /Size ${streams.length + 1} ${trailer} >>\n%%EOF\n`)
+]);
+
+// A ZIP archive with deflated entries, as a DOCX file is
+const buildZip = (entries: Record<string, string>): Buffer => {
+  const parts: Buffer[] = [];
+  const centralEntries: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(entries)) {
+    const content = Buffer.from(text);
+    const data = deflateRawSync(content);
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    parts.push(local, nameBytes, data);
+    centralEntries.push(central, nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralEntries);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centralEntries.length / 2, 8);
+  end.writeUInt16LE(centralEntries.length / 2, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, centralDirectory, end]);
+};
+
+describe('TextExtractionService', () => {
+  const extractor = new TextExtractionService();
+
+  it('should normalize plain text', () => {
+    const content = Buffer.from('\uFEFFPayslip   for March\r\n\r\n\r\n\r\nNet pay:\t2,100.00\r\n');
+
+    expect(extractor.extract(content, 'text/plain')).toEqual({
+      method: 'plain_text',
+      text: 'Payslip for March\n\nNet pay: 2,100.00',
+      truncated: false
+    });
+  });
+
+  it('should read the text layer of compressed PDF content streams', () => {
+    const content = Buffer.from(
+      'BT /F1 12 Tf 72 720 Td (Statement of account \\(March\\)) Tj 0 -14 Td ' +
+      '[(Closing) -250 (bal) 20 (ance:) -300 (\\2431,250.00)] TJ ET',
+      'latin1'
+    );
+    const pdf = buildPdf([
+      { dictionary: '/Filter /FlateDecode', data: deflateSync(content) },
+      { dictionary: '/Subtype /Image /Width 1 /Height 1', data: Buffer.from('BT (not text) Tj ET') }
+    ]);
+
+    expect(extractor.extract(pdf, 'application/pdf')).toEqual({
+      method: 'pdf_text_layer',
+      text: 'Statement of account (March)\nClosing balance: £1,250.00',
+      truncated: false
+    });
+  });
+
+  it('should decode hex and UTF-16 strings in uncompressed PDF streams', () => {
+    const pdf = buildPdf([{
+      dictionary: '',
+      data: Buffer.from('BT 1 0 0 1 72 700 Tm <42616e6b> Tj 1 0 0 1 72 680 Tm <FEFF0053007400e40064007400650072> Tj ET')
+    }]);
+
+    expect(extractor.extract(pdf, 'application/pdf')?.text).toBe('Bank\nStädter');
+  });
+
+  it('should not read encrypted PDFs or PDFs without readable text', () => {
+    const text = Buffer.from('BT (Confidential) Tj ET');
+    expect(extractor.extract(buildPdf([{ dictionary: '', data: text }], '/Encrypt 5 0 R'), 'application/pdf')).toBeNull();
+
+    // Subset fonts with custom encodings show glyph codes that decode to symbols
+    const glyphCodes = Buffer.from('BT <0102030405> Tj <1f1e1d> Tj ET');
+    expect(extractor.extract(buildPdf([{ dictionary: '', data: glyphCodes }]), 'application/pdf')).toBeNull();
+    expect(extractor.extract(Buffer.from('%PDF-1.4\n%%EOF\n'), 'application/pdf')).toBeNull();
+  });
+
+  it('should read the paragraphs of a DOCX document', () => {
+    const docx = buildZip({
+      '[Content_Types].xml': '<Types/>',
+      'word/document.xml':
+        '<w:document><w:body>' +
+        '<w:p><w:r><w:t>Proof of </w:t></w:r><w:r><w:t xml:space="preserve">address</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:t>Tenant:</w:t><w:tab/><w:t>Smith &amp; Jones &#8211; Flat 2</w:t></w:r></w:p>' +
+        '</w:body></w:document>'
+    });
+
+    expect(extractor.extract(docx, DOCX_MIME_TYPE)).toEqual({
+      method: 'docx',
+      text: 'Proof of address\nTenant: Smith & Jones – Flat 2',
+      truncated: false
+    });
+  });
+
+  it('should skip unsupported types and damaged files', () => {
+    expect(extractor.extract(Buffer.from([0x89, 0x50, 0x4e, 0x47]), 'image/png')).toBeNull();
+    expect(extractor.extract(Buffer.from([0xd0, 0xcf, 0x11, 0xe0]), 'application/msword')).toBeNull();
+    expect(extractor.extract(Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14]), DOCX_MIME_TYPE)).toBeNull();
+    expect(extractor.extract(buildZip({ 'word/styles.xml': '<w:styles/>' }), DOCX_MIME_TYPE)).toBeNull();
+  });
+
+  it('should truncate very long text', () => {
+    const result = extractor.extract(Buffer.from('a'.repeat(MAX_EXTRACTED_TEXT_LENGTH + 10)), 'text/plain');
+
+    expect(result?.text).toHaveLength(MAX_EXTRACTED_TEXT_LENGTH);
+    expect(result?.truncated).toBe(true);
+  });
+});
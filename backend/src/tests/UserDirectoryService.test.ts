@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { UserDirectoryService, getUserDirectoryConfigFromEnv } from '../services/UserDirectoryService.js';
+
+describe('UserDirectoryService', () => {
+  const directory = new UserDirectoryService(getUserDirectoryConfigFromEnv({
+    CASEWORKER_IDS: 'alice, bob',
+    USER_DIRECTORY: 'jsmith:supervisor,bob:supervisor,root:admin'
+  }));
+
+  it('should build the directory from the environment', () => {
+    expect(getUserDirectoryConfigFromEnv({})).toEqual({ users: [] });
+    expect(directory.listUsers()).toEqual([
+      { id: 'alice', role: 'caseworker' },
+      { id: 'bob', role: 'supervisor' },
+      { id: 'jsmith', role: 'supervisor' },
+      { id: 'root', role: 'admin' }
+    ]);
+    expect(directory.listUsers('J')).toEqual([{ id: 'jsmith', role: 'supervisor' }]);
+    expect(() => getUserDirectoryConfigFromEnv({ USER_DIRECTORY: 'jsmith:manager' }))
+      .toThrow('Invalid USER_DIRECTORY entry: jsmith:manager');
+  });
+
+  it('should resolve user and role mentions', () => {
+    expect(directory.resolveMentions('@JSmith please check the bank statement.', 'alice')).toEqual(['jsmith']);
+    expect(directory.resolveMentions('@supervisor please review, cc @root.', 'alice')).toEqual(['bob', 'jsmith', 'root']);
+  });
+
+  it('should ignore the author, unknown handles and email addresses', () => {
+    expect(directory.resolveMentions('@supervisor I will handle it', 'bob')).toEqual(['jsmith']);
+    expect(directory.resolveMentions('Asked @nobody and wrote to alice@example.com', 'root')).toEqual([]);
+  });
+});
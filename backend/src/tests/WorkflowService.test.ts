@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  WorkflowService,
+  STANDARD_WORKFLOW,
+  DEFAULT_WORKFLOW_ID,
+  getWorkflowStepValues
+} from '../services/WorkflowService.js';
+import { Case, CaseDocumentRecord, CaseStatus, DocumentReviewStatus, ProcessStep, WorkflowDefinition } from '../types/index.js';
+
+const createTestCase = (overrides: Partial<Case> = {}): Case => ({
+  id: 'workflow-test-case',
+  applicationData: {
+    applicantName: 'Jane Doe',
+    applicantEmail: 'jane@example.com',
+    applicationType: 'standard',
+    submissionDate: new Date(),
+    documents: [],
+    formData: {}
+  },
+  status: CaseStatus.ACTIVE,
+  currentStep: ProcessStep.RECEIVED,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  notes: [],
+  aiSummaries: [],
+  auditTrail: [],
+  ...overrides
+});
+
+const createTestNote = () => ({
+  id: 'note-1',
+  caseId: 'workflow-test-case',
+  content: 'Reviewed supporting documents',
+  createdBy: 'user123',
+  createdAt: new Date(),
+  category: 'general' as const,
+  visibility: 'internal' as const
+});
+
+const createTestDocument = (filename: string, reviewStatus: DocumentReviewStatus): CaseDocumentRecord => ({
+  id: `doc-${filename}`,
+  caseId: 'workflow-test-case',
+  filename,
+  mimeType: 'application/pdf',
+  size: 1024,
+  checksum: 'a'.repeat(64),
+  storageKey: `aa/${'a'.repeat(64)}`,
+  uploadedBy: 'user123',
+  uploadedAt: new Date(),
+  reviewStatus,
+  scanStatus: 'clean'
+});
+
+describe('WorkflowService', () => {
+  let service: WorkflowService;
+
+  beforeEach(() => {
+    service = new WorkflowService();
+  });
+
+  describe('Workflow Registry', () => {
+    it('should register the built-in standard workflow', () => {
+      expect(service.getWorkflow(DEFAULT_WORKFLOW_ID)).toBe(STANDARD_WORKFLOW);
+      expect(service.listWorkflows().map(w => w.id)).toEqual(['standard_v1', 'enhanced_review_v1']);
+    });
+
+    it('should expose every step used by the built-in workflows', () => {
+      expect(getWorkflowStepValues()).toEqual(Object.values(ProcessStep));
+    });
+
+    it('should reject workflows with transitions to unknown steps', () => {
+      const workflow: WorkflowDefinition = {
+        ...STANDARD_WORKFLOW,
+        id: 'broken',
+        steps: [STANDARD_WORKFLOW.steps[0]],
+        transitions: [{ from: ProcessStep.RECEIVED, to: ProcessStep.IN_REVIEW, label: 'Start Review' }]
+      };
+
+      expect(() => service.registerWorkflow(workflow)).toThrow('references an unknown step');
+    });
+
+    it('should reject workflows referencing unknown guards', () => {
+      const workflow: WorkflowDefinition = {
+        ...STANDARD_WORKFLOW,
+        id: 'unknown-guard',
+        transitions: [{ from: ProcessStep.RECEIVED, to: ProcessStep.IN_REVIEW, label: 'Start Review', guards: ['missing'] }]
+      };
+
+      expect(() => service.registerWorkflow(workflow)).toThrow('references unknown guard: missing');
+    });
+  });
+
+  describe('Step Transitions', () => {
+    it('should allow defined transitions whose guards pass', () => {
+      const evaluation = service.evaluateTransition(createTestCase(), ProcessStep.IN_REVIEW, 'caseworker');
+
+      expect(evaluation).toEqual({
+        to: ProcessStep.IN_REVIEW,
+        label: 'Start Review',
+        allowed: true,
+        failedGuards: []
+      });
+    });
+
+    it('should reject transitions the workflow does not define', () => {
+      const evaluation = service.evaluateTransition(createTestCase(), ProcessStep.CONCLUDED, 'admin');
+
+      expect(evaluation.allowed).toBe(false);
+      expect(evaluation.reason).toBe('invalid_transition');
+    });
+
+    it('should report failed guards', () => {
+      const caseData = createTestCase({ currentStep: ProcessStep.IN_REVIEW });
+      const evaluation = service.evaluateTransition(caseData, ProcessStep.READY_FOR_DECISION, 'caseworker');
+
+      expect(evaluation.allowed).toBe(false);
+      expect(evaluation.reason).toBe('guard_failed');
+      expect(evaluation.failedGuards).toEqual([
+        { guard: 'has_case_note', message: 'At least one case note documenting the review is required' }
+      ]);
+
+      const withNote = createTestCase({ currentStep: ProcessStep.IN_REVIEW, notes: [createTestNote()] });
+      expect(service.evaluateTransition(withNote, ProcessStep.READY_FOR_DECISION, 'caseworker').allowed).toBe(true);
+    });
+
+    it('should require every current document to be reviewed before decision', () => {
+      const caseData = createTestCase({
+        currentStep: ProcessStep.IN_REVIEW,
+        notes: [createTestNote()],
+        documents: [
+          createTestDocument('passport.pdf', 'pending'),
+          createTestDocument('permit.pdf', 'needs_replacement'),
+          createTestDocument('payslip.pdf', 'rejected'),
+          createTestDocument('old-passport.pdf', 'replaced'),
+          { ...createTestDocument('invoice.pdf', 'pending'), scanStatus: 'infected' }
+        ]
+      });
+
+      expect(service.evaluateTransition(caseData, ProcessStep.READY_FOR_DECISION, 'caseworker').failedGuards).toEqual([
+        { guard: 'documents_reviewed', message: 'Documents awaiting review or replacement: passport.pdf, permit.pdf' }
+      ]);
+
+      const reviewed = createTestCase({
+        ...caseData,
+        documents: caseData.documents!.map(document => ({
+          ...document,
+          reviewStatus: document.reviewStatus === 'replaced' ? 'replaced' : 'accepted'
+        }))
+      });
+      expect(service.evaluateTransition(reviewed, ProcessStep.READY_FOR_DECISION, 'caseworker').allowed).toBe(true);
+    });
+
+    it('should require an accepted upload of each document the application type requires', () => {
+      const caseData = createTestCase({ currentStep: ProcessStep.IN_REVIEW, notes: [createTestNote()] });
+      caseData.applicationData.applicationType = 'other';
+
+      // Without any uploads the required passport is missing
+      expect(service.evaluateTransition(caseData, ProcessStep.READY_FOR_DECISION, 'caseworker').failedGuards).toEqual([
+        { guard: 'documents_reviewed', message: 'Required documents missing or not accepted: Passport or national ID' }
+      ]);
+
+      const untyped = { ...caseData, documents: [createTestDocument('scan.pdf', 'accepted')] };
+      const rejected = { ...caseData, documents: [{ ...createTestDocument('passport.pdf', 'rejected'), documentType: 'passport' }] };
+      const infected = {
+        ...caseData,
+        documents: [{ ...createTestDocument('passport.pdf', 'accepted'), documentType: 'passport', scanStatus: 'infected' as const }]
+      };
+      for (const blocked of [untyped, rejected, infected]) {
+        expect(service.evaluateTransition(blocked, ProcessStep.READY_FOR_DECISION, 'caseworker').allowed).toBe(false);
+      }
+
+      const accepted = { ...caseData, documents: [{ ...createTestDocument('passport.pdf', 'accepted'), documentType: 'passport' }] };
+      expect(service.evaluateTransition(accepted, ProcessStep.READY_FOR_DECISION, 'caseworker').allowed).toBe(true);
+    });
+
+    it('should block transitions on decided cases', () => {
+      const caseData = createTestCase({ status: CaseStatus.APPROVED });
+      const evaluation = service.evaluateTransition(caseData, ProcessStep.IN_REVIEW, 'caseworker');
+
+      expect(evaluation.reason).toBe('guard_failed');
+      expect(evaluation.failedGuards[0].guard).toBe('case_open');
+    });
+
+    it('should enforce role restrictions', () => {
+      const caseData = createTestCase({ currentStep: ProcessStep.READY_FOR_DECISION });
+
+      expect(service.evaluateTransition(caseData, ProcessStep.IN_REVIEW, 'caseworker').reason).toBe('forbidden');
+      expect(service.evaluateTransition(caseData, ProcessStep.IN_REVIEW, 'supervisor').allowed).toBe(true);
+    });
+
+    it('should list the transitions leaving the current step', () => {
+      const caseData = createTestCase({ currentStep: ProcessStep.IN_REVIEW });
+      const transitions = service.getAvailableTransitions(caseData, 'caseworker');
+
+      expect(transitions.map(t => [t.to, t.allowed])).toEqual([
+        [ProcessStep.ADDITIONAL_INFO_REQUIRED, true],
+        [ProcessStep.READY_FOR_DECISION, false]
+      ]);
+    });
+
+    it('should use custom guards registered at runtime', () => {
+      service.registerGuard('never', () => 'Never allowed');
+      service.registerWorkflow({
+        ...STANDARD_WORKFLOW,
+        transitions: [{ from: ProcessStep.RECEIVED, to: ProcessStep.IN_REVIEW, label: 'Start Review', guards: ['never'] }]
+      });
+
+      const evaluation = service.evaluateTransition(createTestCase(), ProcessStep.IN_REVIEW, 'admin');
+      expect(evaluation.failedGuards).toEqual([{ guard: 'never', message: 'Never allowed' }]);
+    });
+  });
+
+  describe('Workflow Variants', () => {
+    it('should select the workflow from the application type profile', () => {
+      const citizenship = createTestCase();
+      citizenship.applicationData.applicationType = 'citizenship';
+
+      expect(service.getWorkflowForCase(citizenship).id).toBe('enhanced_review_v1');
+      expect(service.getWorkflowForCase(createTestCase()).id).toBe(DEFAULT_WORKFLOW_ID);
+    });
+
+    it('should require supervisor sign-off before decision in the enhanced review workflow', () => {
+      const caseData = createTestCase({
+        currentStep: ProcessStep.IN_REVIEW,
+        notes: [createTestNote()],
+        documents: ['passport', 'proof_of_address', 'financial_statement'].map(documentType => ({
+          ...createTestDocument(`${documentType}.pdf`, 'accepted'),
+          documentType
+        }))
+      });
+      caseData.applicationData.applicationType = 'residence_permit';
+
+      expect(service.evaluateTransition(caseData, ProcessStep.READY_FOR_DECISION, 'caseworker').reason).toBe('forbidden');
+      expect(service.evaluateTransition(caseData, ProcessStep.READY_FOR_DECISION, 'supervisor').allowed).toBe(true);
+    });
+  });
+
+  describe('Status Driven Steps', () => {
+    it('should map status changes to steps and keep the current step otherwise', () => {
+      expect(service.getStepForStatus(STANDARD_WORKFLOW, CaseStatus.DENIED, ProcessStep.IN_REVIEW)).toBe(ProcessStep.CONCLUDED);
+      expect(service.getStepForStatus(STANDARD_WORKFLOW, CaseStatus.PENDING, ProcessStep.IN_REVIEW)).toBe(ProcessStep.ADDITIONAL_INFO_REQUIRED);
+      expect(service.getStepForStatus(STANDARD_WORKFLOW, CaseStatus.ACTIVE, ProcessStep.IN_REVIEW)).toBe(ProcessStep.IN_REVIEW);
+    });
+  });
+});
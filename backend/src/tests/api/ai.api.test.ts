@@ -43,6 +43,43 @@ describe('API Tests - AI Service Endpoints', () => {
       });
     });
 
+    it('should seed the priority of a case created at intake', async () => {
+      const created = await request(app)
+        .post('/api/cases')
+        .send({ applicationData: { applicantName: 'John Doe', applicantEmail: 'john@example.com', applicationType: 'standard' } })
+        .expect(201);
+      const caseId = created.body.data.case.id;
+      expect(created.body.data.case.priority).toBeUndefined();
+
+      const response = await request(app)
+        .post('/api/ai/analyze-application')
+        .set('x-user-id', 'caseworker-1')
+        .send({ caseId })
+        .expect(200);
+
+      const { analysis, case: analyzedCase } = response.body.data;
+      expect(analyzedCase.priority).toBe(analysis.priorityLevel);
+      expect(analyzedCase.auditTrail.find((entry: { action: string }) => entry.action === 'priority_changed')).toMatchObject({
+        userId: 'caseworker-1',
+        details: { priority: analysis.priorityLevel, reason: 'Seeded from the application analysis' }
+      });
+
+      // A priority set by staff is never replaced by a later analysis
+      await request(app)
+        .put(`/api/cases/${caseId}/priority`)
+        .set('If-Match', '*')
+        .send({ priority: 'urgent', reason: 'Applicant travels next week' })
+        .expect(200);
+      const reanalyzed = await request(app).post('/api/ai/analyze-application').send({ caseId }).expect(200);
+      expect(reanalyzed.body.data.case.priority).toBe('urgent');
+      expect(reanalyzed.body.data.case.auditTrail.filter((entry: { action: string }) => entry.action === 'priority_changed')).toHaveLength(2);
+
+      await request(app)
+        .post('/api/ai/analyze-application')
+        .send({ caseId: '00000000-0000-4000-8000-000000000000' })
+        .expect(404);
+    });
+
     it('should handle JSON request body', async () => {
       const applicationData = { 
         applicantName: 'Test User',
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+// Import setup first to ensure database is configured before importing the app
+import { setupDatabaseHooks } from './setup.js';
+import app from '@/index.js';
+
+describe('API Tests - Application Type Endpoints', () => {
+  setupDatabaseHooks();
+
+  describe('GET /api/application-types', () => {
+    it('should list the application type profiles', async () => {
+      const response = await request(app)
+        .get('/api/application-types')
+        .expect(200);
+
+      expect(response.headers['content-type']).toMatch(/application\/json/);
+      expect(response.body).toMatchObject({
+        success: true,
+        data: {
+          total: 5
+        }
+      });
+      expect(response.body.data.applicationTypes.map((profile: { type: string }) => profile.type)).toEqual([
+        'visa', 'work_permit', 'residence_permit', 'citizenship', 'other'
+      ]);
+    });
+  });
+
+  describe('GET /api/application-types/:type', () => {
+    it('should return a single profile', async () => {
+      const response = await request(app)
+        .get('/api/application-types/work_permit')
+        .expect(200);
+
+      expect(response.body.data.applicationType).toMatchObject({
+        type: 'work_permit',
+        label: 'Work Permit',
+        workflowId: 'standard_v1',
+        categories: expect.arrayContaining([
+          { value: 'skilled_worker', label: 'Skilled Worker', processingTime: '8-16 weeks' }
+        ]),
+        requiredFields: expect.arrayContaining([
+          { field: 'applicantFirm', label: 'Applicant Firm' }
+        ])
+      });
+    });
+
+    it('should return 404 for an unknown type', async () => {
+      const response = await request(app)
+        .get('/api/application-types/unknown')
+        .expect(404);
+
+      expect(response.body).toMatchObject({
+        error: {
+          code: 'APPLICATION_TYPE_NOT_FOUND',
+          message: 'Application type unknown not found'
+        }
+      });
+    });
+  });
+
+  describe('POST /api/cases with a profiled application type', () => {
+    it('should reject applications missing fields required by the profile', async () => {
+      const response = await request(app)
+        .post('/api/cases')
+        .send({
+          applicationData: {
+            applicantName: 'Jane Doe',
+            applicantEmail: 'jane@example.com',
+            applicationType: 'citizenship',
+            formData: { applicationCategory: 'naturalization' }
+          }
+        })
+        .expect(400);
+
+      expect(response.body.error).toMatchObject({
+        code: 'CASE_CREATION_FAILED',
+        message: expect.stringContaining('Case Summary is required for Citizenship')
+      });
+    });
+
+    it('should reject categories the profile does not offer', async () => {
+      const response = await request(app)
+        .post('/api/cases')
+        .send({
+          applicationData: {
+            applicantName: 'Jane Doe',
+            applicantEmail: 'jane@example.com',
+            applicationType: 'visa',
+            formData: { applicationCategory: 'refugee', caseSummary: 'Visiting family for two weeks' }
+          }
+        })
+        .expect(400);
+
+      expect(response.body.error.message).toContain('Invalid application category for Visa Application: refugee');
+    });
+  });
+});
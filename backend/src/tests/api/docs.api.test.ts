@@ -139,10 +139,10 @@ describe('API Tests - Documentation and System Endpoints', () => {
           .get(testEndpoint);
 
         // Check which endpoints are implemented vs not implemented
-        const unimplementedEndpoints = ['/api/cases/:id/status', '/api/cases/:id/audit'];
+        const unimplementedEndpoints = ['/api/cases/:id/status'];
         
         if (unimplementedEndpoints.includes(endpoint)) {
-          // These endpoints are not implemented yet
+          // Only PUT is implemented for these endpoints, so GET falls through
           expect(response.status).toBe(404);
           expect(response.body).toMatchObject({
             error: 'API endpoints not yet implemented'
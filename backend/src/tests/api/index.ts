@@ -8,6 +8,7 @@
 // Import all API test suites
 import './health.api.test.js';
 import './cases.api.test.js';
+import './applicationTypes.api.test.js';
 import './ai.api.test.js';
 import './models.api.test.js';
 import './evaluation.api.test.js';
@@ -69,17 +70,89 @@ export const testSuites = [
     description: 'Tests for case management API endpoints (core and advanced)',
     endpoints: [
       '/api/cases',
+      '/api/cases/search',
+      '/api/cases/bulk',
       '/api/cases/:id',
       '/api/cases/:id/status',
+      '/api/cases/:id/restore',
+      '/api/cases/:id/priority',
+      '/api/cases/:id/assign',
+      '/api/cases/:id/reassign',
+      '/api/cases/:id/unassign',
+      '/api/cases/:id/application',
+      '/api/cases/:id/application/revisions',
+      '/api/cases/:id/duplicates',
+      '/api/cases/:id/merge',
+      '/api/cases/:id/links',
+      '/api/cases/:id/tags',
+      '/api/cases/:id/workflow',
+      '/api/cases/:id/step',
       '/api/cases/:id/notes',
+      '/api/cases/:id/notes/:noteId',
+      '/api/cases/:id/notes/:noteId/revisions',
       '/api/cases/:id/ai-summary',
       '/api/cases/:id/ai-refresh',
       '/api/cases/:id/audit',
-      '/api/cases/:id/documents'
+      '/api/cases/:id/documents',
+      '/api/cases/:id/documents/:docId/content',
+      '/api/cases/:id/documents/:docId/review',
+      '/api/cases/:id/documents/:docId/reviews'
     ],
     requirements: ['1.1', '1.2', '1.6', '2.3', '2.4', '4.3', '4.6'],
     tasks: ['5.3 (core: POST /api/cases, GET /api/cases/:id)', '5.6 (advanced: status, notes, audit, documents, listing)']
   },
+  {
+    name: 'Application Type Endpoints',
+    file: 'applicationTypes.api.test.ts',
+    description: 'Tests for application type profile endpoints',
+    endpoints: [
+      '/api/application-types',
+      '/api/application-types/:type'
+    ],
+    requirements: ['1.1', '1.2']
+  },
+  {
+    name: 'Tag Endpoints',
+    file: 'tags.api.test.ts',
+    description: 'Tests for tag management endpoints',
+    endpoints: [
+      '/api/tags',
+      '/api/tags/:id'
+    ],
+    requirements: ['1.6']
+  },
+  {
+    name: 'Retention Endpoints',
+    file: 'retention.api.test.ts',
+    description: 'Tests for retention report and purge endpoints',
+    endpoints: [
+      '/api/retention/report',
+      '/api/retention/purge',
+      '/api/retention/purged'
+    ],
+    requirements: ['1.6']
+  },
+  {
+    name: 'Privacy Endpoints',
+    file: 'privacy.api.test.ts',
+    description: 'Tests for data subject export and erasure endpoints',
+    endpoints: [
+      '/api/privacy/export',
+      '/api/privacy/erase'
+    ],
+    requirements: ['1.6']
+  },
+  {
+    name: 'Mention Endpoints',
+    file: 'mentions.api.test.ts',
+    description: 'Tests for the @mention inbox and the user directory',
+    endpoints: [
+      '/api/me/mentions',
+      '/api/me/mentions/read',
+      '/api/users'
+    ],
+    requirements: ['2.4']
+  },
   {
     name: 'AI Service Endpoints',
     file: 'ai.api.test.ts',
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+// Import setup first to ensure database is configured before importing the app
+import { setupDatabaseHooks, testDataHelpers } from './setup.js';
+import app from '@/index.js';
+
+describe('API Tests - Mention Endpoints', () => {
+  // Registered before the database hooks so the services are created with this directory
+  beforeAll(() => {
+    process.env.USER_DIRECTORY = 'jsmith:supervisor,caseworker-1:caseworker';
+  });
+
+  setupDatabaseHooks();
+
+  afterAll(() => {
+    delete process.env.USER_DIRECTORY;
+  });
+
+  describe('GET /api/users', () => {
+    it('should list the users who can be mentioned', async () => {
+      const response = await request(app).get('/api/users?q=js').expect(200);
+
+      expect(response.body.data).toEqual({
+        users: [{ id: 'jsmith', role: 'supervisor' }],
+        total: 1
+      });
+    });
+  });
+
+  describe('GET /api/me/mentions', () => {
+    it('should notify mentioned users until they read the mention', async () => {
+      const testCase = await testDataHelpers.createTestCase();
+
+      const noteResponse = await request(app)
+        .post(`/api/cases/${testCase.id}/notes`)
+        .set('x-user-id', 'caseworker-1')
+        .send({ content: '@supervisor please check the bank statement, thanks @nobody' })
+        .expect(201);
+      const noteId = noteResponse.body.data.case.notes[0].id;
+
+      const inbox = await request(app)
+        .get('/api/me/mentions?unread=true')
+        .set('x-user-id', 'jsmith')
+        .expect(200);
+      expect(inbox.body.data).toMatchObject({ unreadCount: 1, total: 1 });
+      expect(inbox.body.data.mentions[0]).toMatchObject({
+        noteId,
+        caseId: testCase.id,
+        userId: 'jsmith',
+        mentionedBy: 'caseworker-1',
+        excerpt: '@supervisor please check the bank statement, thanks @nobody'
+      });
+
+      // The author is not notified of their own note
+      const authorInbox = await request(app)
+        .get('/api/me/mentions')
+        .set('x-user-id', 'caseworker-1')
+        .expect(200);
+      expect(authorInbox.body.data.total).toBe(0);
+
+      const markRead = await request(app)
+        .post('/api/me/mentions/read')
+        .set('x-user-id', 'jsmith')
+        .send({ mentionIds: [inbox.body.data.mentions[0].id] })
+        .expect(200);
+      expect(markRead.body.data.updated).toBe(1);
+
+      const unread = await request(app)
+        .get('/api/me/mentions?unread=true')
+        .set('x-user-id', 'jsmith')
+        .expect(200);
+      expect(unread.body.data).toMatchObject({ mentions: [], unreadCount: 0 });
+
+      const all = await request(app)
+        .get('/api/me/mentions')
+        .set('x-user-id', 'jsmith')
+        .expect(200);
+      expect(all.body.data.mentions[0].readAt).toBeDefined();
+    });
+
+    it('should reject invalid query parameters', async () => {
+      const response = await request(app).get('/api/me/mentions?unread=yes').expect(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+// Import setup first to ensure database is configured before importing the app
+import { setupDatabaseHooks, testDataHelpers } from './setup.js';
+import app from '@/index.js';
+import { getServices } from '@/routes/serviceFactory.js';
+
+describe('API Tests - Privacy Endpoints', () => {
+  setupDatabaseHooks();
+
+  it('should restrict data subject requests to admins and validate the email', async () => {
+    const response = await request(app)
+      .post('/api/privacy/export')
+      .set('x-user-role', 'supervisor')
+      .send({ email: 'test@example.com' })
+      .expect(403);
+    expect(response.body.error.code).toBe('INSUFFICIENT_ROLE');
+
+    const invalid = await request(app)
+      .post('/api/privacy/erase')
+      .set('x-user-role', 'admin')
+      .send({ email: 'not-an-email' })
+      .expect(400);
+    expect(invalid.body.error.code).toBe('VALIDATION_ERROR');
+
+    const unknown = await request(app)
+      .post('/api/privacy/export')
+      .set('x-user-role', 'admin')
+      .send({ email: 'nobody@example.com' })
+      .expect(404);
+    expect(unknown.body.error.code).toBe('SUBJECT_NOT_FOUND');
+  });
+
+  it('should export an applicant\'s data and then erase it', async () => {
+    const testCase = await testDataHelpers.createTestCase();
+    await getServices().caseService.addCaseNote(testCase.id, 'Called the applicant at test@example.com', 'caseworker-1');
+
+    const exported = await request(app)
+      .post('/api/privacy/export')
+      .set('x-user-role', 'admin')
+      .send({ email: 'TEST@example.com' })
+      .expect(200);
+    expect(exported.body.data.total).toBe(1);
+    expect(exported.body.data.cases[0].case.id).toBe(testCase.id);
+    expect(exported.body.data.cases[0].case.notes[0].content).toContain('test@example.com');
+
+    const erased = await request(app)
+      .post('/api/privacy/erase')
+      .set('x-user-role', 'admin')
+      .set('x-user-id', 'admin-1')
+      .send({ email: 'test@example.com', reason: 'Erasure request' })
+      .expect(200);
+    expect(erased.body.data).toMatchObject({ caseIds: [testCase.id], notes: 1, erasedBy: 'admin-1' });
+
+    const caseResponse = await request(app).get(`/api/cases/${testCase.id}`).expect(200);
+    expect(JSON.stringify(caseResponse.body.data.case)).not.toContain('test@example.com');
+    expect(caseResponse.body.data.case.auditTrail.map((entry: { action: string }) => entry.action)).toContain('subject_data_erased');
+  });
+
+  it('should delete the stored idempotent responses of erased cases', async () => {
+    const newCase = {
+      applicationData: {
+        applicantName: 'Jane Doe',
+        applicantEmail: 'jane@example.com',
+        applicationType: 'standard',
+        submissionDate: new Date().toISOString(),
+        documents: [],
+        formData: {}
+      }
+    };
+    const created = await request(app).post('/api/cases').set('Idempotency-Key', 'intake-1').send(newCase).expect(201);
+
+    const erased = await request(app)
+      .post('/api/privacy/erase')
+      .set('x-user-role', 'admin')
+      .send({ email: 'jane@example.com', reason: 'Erasure request' })
+      .expect(200);
+    expect(erased.body.data).toMatchObject({ caseIds: [created.body.data.case.id], idempotencyKeys: 1 });
+
+    // The stored response held the applicant's details, so a retry is no longer replayed
+    const retry = await request(app).post('/api/cases').set('Idempotency-Key', 'intake-1').send(newCase).expect(201);
+    expect(retry.headers['idempotent-replayed']).toBeUndefined();
+    expect(retry.body.data.case.id).not.toBe(created.body.data.case.id);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+// Import setup first to ensure database is configured before importing the app
+import { setupDatabaseHooks, testDataHelpers } from './setup.js';
+import app from '@/index.js';
+import { getServices, setServices } from '@/routes/serviceFactory.js';
+import { RetentionService } from '@/services/RetentionService.js';
+import { CaseStatus } from '@/types/index.js';
+
+describe('API Tests - Retention Endpoints', () => {
+  setupDatabaseHooks();
+
+  beforeEach(() => {
+    // Purge archived cases as soon as they are decided so the tests need not wait years
+    const services = getServices();
+    setServices({
+      ...services,
+      retentionService: new RetentionService(services.dataService, { statuses: [CaseStatus.ARCHIVED], retentionYears: 0 })
+    });
+  });
+
+  const archiveCase = async (caseId: string) => {
+    await request(app).post(`/api/cases/${caseId}/notes`).send({ content: 'Review complete' }).expect(201);
+    await request(app).post(`/api/cases/${caseId}/step`).set('If-Match', '*').send({ step: 'in_review' }).expect(200);
+    await request(app).post(`/api/cases/${caseId}/step`).set('If-Match', '*').send({ step: 'ready_for_decision' }).expect(200);
+    await request(app).put(`/api/cases/${caseId}/status`).set('If-Match', '*').send({ status: 'approved' }).expect(200);
+    await request(app).put(`/api/cases/${caseId}/status`).set('If-Match', '*').send({ status: 'archived' }).expect(200);
+  };
+
+  it('should restrict retention endpoints to admins', async () => {
+    const response = await request(app)
+      .get('/api/retention/report')
+      .set('x-user-role', 'supervisor')
+      .expect(403);
+    expect(response.body.error.code).toBe('INSUFFICIENT_ROLE');
+
+    await request(app).post('/api/retention/purge').expect(403);
+  });
+
+  it('should report purgeable cases in a dry run and then purge them', async () => {
+    const archived = await testDataHelpers.createTestCase();
+    const active = await testDataHelpers.createTestCase();
+    await archiveCase(archived.id);
+
+    const report = await request(app)
+      .get('/api/retention/report')
+      .set('x-user-role', 'admin')
+      .expect(200);
+    expect(report.body.data).toMatchObject({
+      policy: { statuses: ['archived'], retentionYears: 0 },
+      total: 1,
+      cases: [{ caseId: archived.id, status: 'archived' }]
+    });
+    await request(app).get(`/api/cases/${archived.id}`).expect(200);
+
+    const purge = await request(app)
+      .post('/api/retention/purge')
+      .set('x-user-role', 'admin')
+      .set('x-user-id', 'admin-1')
+      .expect(200);
+    expect(purge.body.data.total).toBe(1);
+    expect(purge.body.data.purged[0]).toMatchObject({ caseId: archived.id, purgedBy: 'admin-1' });
+
+    await request(app).get(`/api/cases/${archived.id}`).expect(404);
+    await request(app).get(`/api/cases/${active.id}`).expect(200);
+
+    const purged = await request(app)
+      .get('/api/retention/purged')
+      .set('x-user-role', 'admin')
+      .expect(200);
+    expect(purged.body.data.total).toBe(1);
+    expect(JSON.stringify(purged.body.data)).not.toContain(archived.applicationData.applicantEmail);
+  });
+});
@@ -1,4 +1,5 @@
 import { beforeAll, afterAll, beforeEach } from 'vitest';
+import path from 'path';
 import { setupAPITestDatabase } from '../utils/testDatabaseFactory.js';
 import { resetServices, setServices, getServices } from '@/routes/serviceFactory.js';
 import { MockAIService } from '../mocks/MockAIService.js';
@@ -16,6 +17,8 @@ export function setupDatabaseHooks() {
   beforeAll(async () => {
     // Set test environment first
     process.env.NODE_ENV = 'test';
+    // Keep uploaded test files out of the development data directory
+    process.env.DOCUMENT_STORAGE_DIR = path.join(process.cwd(), 'test_data', 'documents');
     
     // Setup test database
     await dbHooks.beforeAll();
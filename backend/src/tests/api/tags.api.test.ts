@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+// Import setup first to ensure database is configured before importing the app
+import { setupDatabaseHooks, testDataHelpers } from './setup.js';
+import app from '@/index.js';
+
+describe('API Tests - Tag Endpoints', () => {
+  setupDatabaseHooks();
+
+  describe('POST /api/tags', () => {
+    it('should create a tag', async () => {
+      const response = await request(app)
+        .post('/api/tags')
+        .set('x-user-id', 'supervisor-1')
+        .send({ name: 'VIP', color: 'yellow', description: 'High profile applicant' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        data: {
+          tag: { name: 'VIP', color: 'yellow', description: 'High profile applicant', createdBy: 'supervisor-1', caseCount: 0 }
+        },
+        message: 'Tag created successfully'
+      });
+    });
+
+    it('should reject invalid and duplicate names', async () => {
+      const invalid = await request(app)
+        .post('/api/tags')
+        .send({ name: '#vip', color: 'purple' })
+        .expect(400);
+      expect(invalid.body.error.code).toBe('VALIDATION_ERROR');
+
+      await request(app).post('/api/tags').send({ name: 'media-sensitive' }).expect(201);
+      const duplicate = await request(app)
+        .post('/api/tags')
+        .send({ name: 'Media-Sensitive' })
+        .expect(409);
+      expect(duplicate.body.error).toMatchObject({
+        code: 'TAG_CREATION_FAILED',
+        message: 'Failed to create tag: Tag "media-sensitive" already exists'
+      });
+    });
+  });
+
+  describe('GET /api/tags', () => {
+    it('should list tags with their case counts', async () => {
+      const tag = await request(app).post('/api/tags').send({ name: 'needs-interpreter' }).expect(201);
+      const testCase = await testDataHelpers.createTestCase();
+      await request(app).post(`/api/cases/${testCase.id}/tags`).set('If-Match', '*').send({ tagId: tag.body.data.tag.id }).expect(200);
+
+      const response = await request(app).get('/api/tags').expect(200);
+
+      expect(response.body.data).toMatchObject({
+        total: 1,
+        tags: [{ name: 'needs-interpreter', caseCount: 1 }]
+      });
+    });
+  });
+
+  describe('PATCH /api/tags/:id', () => {
+    it('should update a tag', async () => {
+      const created = await request(app).post('/api/tags').send({ name: 'VIP' }).expect(201);
+
+      const response = await request(app)
+        .patch(`/api/tags/${created.body.data.tag.id}`)
+        .send({ color: 'red' })
+        .expect(200);
+      expect(response.body.data.tag).toMatchObject({ name: 'VIP', color: 'red' });
+
+      const empty = await request(app).patch(`/api/tags/${created.body.data.tag.id}`).send({}).expect(400);
+      expect(empty.body.error.code).toBe('VALIDATION_ERROR');
+
+      const missing = await request(app).patch('/api/tags/missing-tag').send({ color: 'red' }).expect(404);
+      expect(missing.body.error.code).toBe('TAG_NOT_FOUND');
+    });
+  });
+
+  describe('DELETE /api/tags/:id', () => {
+    it('should delete a tag and take it off its cases', async () => {
+      const created = await request(app).post('/api/tags').send({ name: 'VIP' }).expect(201);
+      const tagId = created.body.data.tag.id;
+      const testCase = await testDataHelpers.createTestCase();
+      await request(app).post(`/api/cases/${testCase.id}/tags`).set('If-Match', '*').send({ tagId }).expect(200);
+
+      const response = await request(app).delete(`/api/tags/${tagId}`).expect(200);
+      expect(response.body.data).toEqual({ tagId, casesUntagged: 1 });
+
+      const caseResponse = await request(app).get(`/api/cases/${testCase.id}`).expect(200);
+      expect(caseResponse.body.data.case.tags).toEqual([]);
+      await request(app).get(`/api/tags/${tagId}`).expect(404);
+    });
+  });
+});
@@ -5,7 +5,13 @@ export interface Case {
   current_step: ProcessStep;
   created_at: string; // ISO date string
   updated_at: string; // ISO date string
+  step_entered_at?: string; // ISO date string
   assigned_to?: string;
+  merged_into?: string;
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+  deleted_at?: string; // ISO date string
+  deleted_by?: string;
+  version: number; // Incremented on every write to the row
 }
 
 export interface AISummary {
@@ -26,6 +32,32 @@ export interface CaseNote {
   content: string;
   created_by: string;
   created_at: string; // ISO date string
+  parent_id?: string;
+  category: 'general' | 'interview' | 'phone_call' | 'document_review';
+  visibility: 'internal' | 'applicant';
+  updated_at?: string;
+  updated_by?: string;
+  deleted_at?: string;
+  deleted_by?: string;
+  deletion_reason?: string;
+}
+
+export interface NoteMention {
+  id: string;
+  note_id: string;
+  user_id: string;
+  mentioned_by: string;
+  created_at: string; // ISO date string
+  read_at?: string;
+}
+
+export interface CaseNoteRevision {
+  id: string;
+  note_id: string;
+  version: number;
+  content: string;
+  created_by: string;
+  created_at: string; // ISO date string
 }
 
 export interface AuditEntry {
@@ -37,6 +69,125 @@ export interface AuditEntry {
   timestamp: string; // ISO date string
 }
 
+export interface ApplicationRevision {
+  id: string;
+  case_id: string;
+  version: number;
+  application_data: string; // JSON string
+  changes: string; // JSON array string
+  created_by: string;
+  created_at: string; // ISO date string
+  restored_from?: number;
+}
+
+export interface CaseDocumentRecord {
+  id: string;
+  case_id: string;
+  filename: string;
+  mime_type: string;
+  size: number;
+  checksum: string;
+  storage_key: string;
+  description?: string;
+  document_type?: string;
+  uploaded_by: string;
+  uploaded_at: string; // ISO date string
+  review_status: DocumentReviewStatus;
+  review_reason?: string;
+  reviewed_by?: string;
+  reviewed_at?: string; // ISO date string
+  expiry_date?: string; // YYYY-MM-DD
+  replaces_document_id?: string;
+  scan_status: DocumentScanStatus;
+  scan_signature?: string;
+  scanned_at?: string; // ISO date string
+}
+
+export type DocumentScanStatus = 'not_scanned' | 'clean' | 'infected';
+
+export type DocumentReviewStatus = 'pending' | 'accepted' | 'rejected' | 'needs_replacement' | 'replaced';
+
+export interface CaseDocumentReview {
+  id: string;
+  document_id: string;
+  status: DocumentReviewStatus;
+  reason?: string;
+  expiry_date?: string; // YYYY-MM-DD
+  reviewed_by: string;
+  reviewed_at: string; // ISO date string
+}
+
+export interface CaseDocumentText {
+  document_id: string;
+  method: 'plain_text' | 'pdf_text_layer' | 'docx';
+  text: string;
+  truncated: number; // 0 or 1
+  extracted_at: string; // ISO date string
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: 'gray' | 'blue' | 'green' | 'yellow' | 'red';
+  description?: string;
+  created_by: string;
+  created_at: string; // ISO date string
+  updated_at: string; // ISO date string
+  case_count?: number;
+}
+
+export interface PurgedCase {
+  case_id: string;
+  application_type: string;
+  status: CaseStatus;
+  created_at: string; // ISO date string
+  concluded_at: string; // ISO date string
+  purged_at: string; // ISO date string
+  purged_by: string;
+  audit_trail: string; // JSON array string
+}
+
+// A case eligible for purging under the retention policy
+export interface RetentionCandidateRow {
+  id: string;
+  application_type: string;
+  status: CaseStatus;
+  created_at: string; // ISO date string
+  concluded_at: string; // ISO date string
+}
+
+export interface IdempotencyKey {
+  idempotency_key: string;
+  scope: string; // Method and path the key was used on
+  request_hash: string;
+  status_code: number | null; // Null while the first request is still running
+  response_headers: string | null; // JSON object of the headers replayed with the response
+  response_body: string | null; // JSON string
+  created_at: string; // ISO date string
+  expires_at: string; // ISO date string
+}
+
+export interface CaseLink {
+  id: string;
+  case_id: string;
+  linked_case_id: string;
+  link_type: 'appeal_of' | 'renewal_of' | 'related_to' | 'family_member';
+  note?: string;
+  created_by: string;
+  created_at: string; // ISO date string
+}
+
+// A link joined with the case on its other side
+export interface LinkedCaseRow extends CaseLink {
+  direction: 'outgoing' | 'incoming';
+  other_case_id: string;
+  other_application_data: string; // JSON string
+  other_status: CaseStatus;
+  other_current_step: ProcessStep;
+  other_updated_at: string; // ISO date string
+  decision?: string; // JSON object string from the latest final status change
+}
+
 export interface AIInteraction {
   id: string;
   case_id: string;
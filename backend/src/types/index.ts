@@ -18,6 +18,113 @@ export enum CaseStatus {
   ARCHIVED = 'archived'
 }
 
+export type UserRole = 'caseworker' | 'supervisor' | 'admin';
+
+export interface WorkflowStepDefinition {
+  step: ProcessStep;
+  label: string;
+  description: string;
+  terminal?: boolean;
+}
+
+export interface WorkflowTransition {
+  from: ProcessStep;
+  to: ProcessStep;
+  label: string;
+  // Roles allowed to perform the transition; omitted means any role
+  requiredRoles?: UserRole[];
+  // Names of guards registered with the WorkflowService that must all pass
+  guards?: string[];
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  version: string;
+  initialStep: ProcessStep;
+  steps: WorkflowStepDefinition[];
+  transitions: WorkflowTransition[];
+  // Steps a case is moved to automatically when its status changes
+  statusSteps: Partial<Record<CaseStatus, ProcessStep>>;
+}
+
+export interface StepTransitionEvaluation {
+  to: ProcessStep;
+  label: string;
+  allowed: boolean;
+  reason?: 'invalid_transition' | 'forbidden' | 'guard_failed';
+  failedGuards: { guard: string; message: string }[];
+}
+
+export interface ApplicationCategory {
+  value: string;
+  label: string;
+  // Expected processing time shown to applicants, e.g. "4-8 weeks"
+  processingTime?: string;
+}
+
+export interface RequiredDocument {
+  type: string;
+  label: string;
+  description?: string;
+}
+
+export interface RequiredFormField {
+  // Key in ApplicationData.formData
+  field: string;
+  label: string;
+}
+
+export interface ApplicationTypeProfile {
+  type: string;
+  label: string;
+  description: string;
+  categories: ApplicationCategory[];
+  requiredDocuments: RequiredDocument[];
+  requiredFields: RequiredFormField[];
+  // Fallback when the selected category has no processing time of its own
+  defaultProcessingTime: string;
+  // ID of the WorkflowDefinition governing cases of this type
+  workflowId: string;
+  // Per-step SLA overrides for this type; other steps use the configured defaults
+  stepSlaHours?: StepSlaHours;
+}
+
+// Hours a case may spend in each step; steps without an entry have no SLA
+export type StepSlaHours = Partial<Record<ProcessStep, number>>;
+
+export interface SlaConfig {
+  stepSlaHours: StepSlaHours;
+  // Cases due within this many hours are flagged as due soon
+  dueSoonHours: number;
+  // How often the breach checker scans open cases
+  checkIntervalMinutes: number;
+}
+
+// SLA durations flattened for SQL; type-specific rules come before the step defaults
+export interface SlaRule {
+  step: ProcessStep;
+  applicationType?: string;
+  hours: number;
+}
+
+export interface CaseSla {
+  step: ProcessStep;
+  stepEnteredAt: Date;
+  slaHours: number;
+  dueAt: Date;
+  overdue: boolean;
+  dueSoon: boolean;
+}
+
+export type AssignmentStrategy = 'round_robin' | 'least_open_cases';
+
+export interface AssignmentConfig {
+  // Auto-assignment on case creation is disabled when no strategy is configured
+  strategy?: AssignmentStrategy | undefined;
+  caseworkerIds: string[];
+}
+
 export interface CaseDocument {
   id: string;
   filename: string;
@@ -27,6 +134,114 @@ export interface CaseDocument {
   mimeType: string;
 }
 
+// Review state of an uploaded document; replaced documents have been superseded by a newer upload
+export type DocumentScanStatus = 'not_scanned' | 'clean' | 'infected';
+
+export type DocumentReviewStatus = 'pending' | 'accepted' | 'rejected' | 'needs_replacement' | 'replaced';
+
+// A file uploaded to a case; its bytes are kept in document storage under storageKey
+export interface CaseDocumentRecord {
+  id: string;
+  caseId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  // SHA-256 of the file contents, hex encoded
+  checksum: string;
+  storageKey: string;
+  description?: string;
+  // The application type's required document this file provides, e.g. passport
+  documentType?: string;
+  uploadedBy: string;
+  uploadedAt: Date;
+  reviewStatus: DocumentReviewStatus;
+  // Why the document was rejected or must be replaced
+  reviewReason?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  // Expiry of a passport, permit or similar document, as YYYY-MM-DD
+  expiryDate?: string;
+  // Earlier upload this document replaces
+  replacesDocumentId?: string;
+  // Infected files are quarantined: they are never served and not added to the application documents
+  scanStatus: DocumentScanStatus;
+  // Malware the scanner reported
+  scanSignature?: string;
+  scannedAt?: Date;
+}
+
+// One review decision in a document's history
+export interface CaseDocumentReview {
+  id: string;
+  documentId: string;
+  status: DocumentReviewStatus;
+  reason?: string;
+  expiryDate?: string;
+  reviewedBy: string;
+  reviewedAt: Date;
+}
+
+// Decisions a reviewer can record; 'replaced' is only set by uploading a replacement
+export type DocumentReviewDecision = Exclude<DocumentReviewStatus, 'pending' | 'replaced'>;
+
+export interface DocumentReviewInput {
+  status: DocumentReviewDecision;
+  reason?: string | undefined;
+  // Omit to keep the current expiry date, null to clear it
+  expiryDate?: string | null | undefined;
+}
+
+export interface DocumentStorageConfig {
+  // Files are stored under this directory, named by their checksum
+  directory: string;
+  maxSizeBytes: number;
+  // Types accepted after sniffing the file contents
+  allowedMimeTypes: string[];
+}
+
+// A file accepted by document storage
+export interface StoredFile {
+  checksum: string;
+  storageKey: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface MalwareScanResult {
+  infected: boolean;
+  // Name of the malware found, as reported by the scanner
+  signature?: string;
+}
+
+// Checks uploaded files for malware before they are stored
+export interface MalwareScanner {
+  readonly name: string;
+  scan(content: Buffer): Promise<MalwareScanResult>;
+}
+
+export interface ClamdConfig {
+  // Unix socket of the clamd daemon; when unset clamd is reached over TCP at host and port
+  socketPath?: string;
+  host: string;
+  port: number;
+  timeoutMs: number;
+}
+
+// How text was read from an uploaded file
+export type TextExtractionMethod = 'plain_text' | 'pdf_text_layer' | 'docx';
+
+export interface ExtractedText {
+  method: TextExtractionMethod;
+  text: string;
+  // Set when the text was cut at the stored length limit
+  truncated: boolean;
+}
+
+export interface DocumentText extends ExtractedText {
+  documentId: string;
+  extractedAt: Date;
+}
+
 export interface ApplicationData {
   applicantName: string;
   applicantEmail: string;
@@ -36,12 +251,76 @@ export interface ApplicationData {
   formData: Record<string, any>;
 }
 
+// One field that differs between two versions of the application data; formData fields are prefixed with "formData."
+export interface ApplicationFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+// A stored version of a case's application data. Version 1 is the data the case was created with.
+export interface ApplicationRevision {
+  id: string;
+  caseId: string;
+  version: number;
+  applicationData: ApplicationData;
+  changes: ApplicationFieldChange[];
+  createdBy: string;
+  createdAt: Date;
+  restoredFrom?: number;
+}
+
+// Partial application data edit; formData keys are merged and a null value removes the field
+export interface ApplicationDataUpdate {
+  applicantName?: string;
+  applicantEmail?: string;
+  submissionDate?: Date;
+  formData?: Record<string, unknown>;
+}
+
+export type NoteCategory = 'general' | 'interview' | 'phone_call' | 'document_review';
+
+// Internal notes stay with staff; applicant notes may be shared with the applicant
+export type NoteVisibility = 'internal' | 'applicant';
+
 export interface CaseNote {
   id: string;
   caseId: string;
   content: string;
   createdBy: string;
   createdAt: Date;
+  // Replies point at the top-level note of their thread
+  parentId?: string;
+  category: NoteCategory;
+  visibility: NoteVisibility;
+  updatedAt?: Date;
+  updatedBy?: string;
+  deletedAt?: Date;
+  deletedBy?: string;
+  deletionReason?: string;
+}
+
+export interface CaseNoteOptions {
+  parentId?: string;
+  category?: NoteCategory;
+  visibility?: NoteVisibility;
+}
+
+// Partial note edit; at least one field must be given
+export interface CaseNoteUpdate {
+  content?: string;
+  category?: NoteCategory;
+  visibility?: NoteVisibility;
+}
+
+// An earlier content of an edited note; version 1 is the content the note was created with
+export interface CaseNoteRevision {
+  id: string;
+  noteId: string;
+  version: number;
+  content: string;
+  createdBy: string;
+  createdAt: Date;
 }
 
 export interface AuditEntry {
@@ -53,6 +332,108 @@ export interface AuditEntry {
   timestamp: Date;
 }
 
+// Column updates for a case; null clears the assignment or the soft delete. The version is maintained by DataService;
+// expectedVersion makes the update fail if the case has changed since that version was read.
+export type CaseUpdates = Partial<Omit<Case, 'assignedTo' | 'deletedAt' | 'deletedBy' | 'version'>> & {
+  assignedTo?: string | null;
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
+  expectedVersion?: number | undefined;
+};
+
+// A validated case update together with the audit entries recording it
+export interface CaseChange {
+  caseId: string;
+  updates?: CaseUpdates;
+  tagChange?: CaseTagChange;
+  activities: ActivityLog[];
+}
+
+// Adding or removing one tag on a case
+export interface CaseTagChange {
+  tagId: string;
+  action: 'add' | 'remove';
+  userId: string;
+  // The version of the case the change was based on; the change fails if the case has moved on
+  expectedVersion?: number | undefined;
+}
+
+export type BulkCaseOperation =
+  | { type: 'update_status'; status: CaseStatus }
+  | { type: 'assign'; assignedTo: string; reason?: string | undefined }
+  | { type: 'unassign'; reason?: string | undefined }
+  | { type: 'add_tag'; tagId: string }
+  | { type: 'remove_tag'; tagId: string };
+
+export interface BulkCaseItemResult {
+  caseId: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkCaseResult {
+  results: BulkCaseItemResult[];
+  succeeded: number;
+  failed: number;
+}
+
+// Case list rows leave out notes, summaries, audit entries, links, tags and documents, which are only loaded for single-case reads
+export type CaseListItem = Omit<Case, 'notes' | 'aiSummaries' | 'auditTrail' | 'linkedCases' | 'tags' | 'documents'>;
+
+export type CaseSortField = 'createdAt' | 'updatedAt' | 'stepEnteredAt' | 'applicantName' | 'status' | 'currentStep' | 'priority';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface CaseSlaFilter {
+  rules: SlaRule[];
+  dueSoonHours: number;
+  now: Date;
+  overdue?: boolean;
+  dueSoon?: boolean;
+}
+
+export interface CaseListFilters {
+  status?: CaseStatus;
+  currentStep?: ProcessStep;
+  assignedTo?: string;
+  applicationType?: string;
+  priority?: CasePriority;
+  createdFrom?: Date;
+  createdTo?: Date;
+  // Tag names; cases must carry every one of them
+  tags?: string[];
+  // List soft-deleted cases instead of live ones
+  deleted?: boolean;
+  sla?: CaseSlaFilter;
+  sortBy?: CaseSortField;
+  sortOrder?: SortOrder;
+  // Omit limit to return every matching case
+  limit?: number;
+  offset?: number;
+}
+
+export type CaseSearchField = 'application' | 'formData' | 'notes' | 'summaries';
+
+export interface CaseSearchHighlight {
+  field: CaseSearchField;
+  // HTML-escaped excerpt with matched terms wrapped in <mark> tags
+  snippet: string;
+}
+
+export interface CaseSearchResult {
+  case: CaseListItem;
+  // Relevance score; higher is a better match
+  score: number;
+  highlights: CaseSearchHighlight[];
+}
+
+export interface AuditTrailFilters {
+  actions?: string[];
+  userId?: string;
+  from?: Date;
+  to?: Date;
+}
+
 export interface AISummary {
   id: string;
   caseId: string;
@@ -83,6 +464,8 @@ export interface AIInteraction {
   promptVersion?: string;
 }
 
+export type CasePriority = 'low' | 'medium' | 'high' | 'urgent';
+
 export interface Case {
   id: string;
   applicationData: ApplicationData;
@@ -90,12 +473,252 @@ export interface Case {
   currentStep: ProcessStep;
   createdAt: Date;
   updatedAt: Date;
+  // When the case entered its current step
+  stepEnteredAt?: Date;
   assignedTo?: string;
+  // Surviving case this case was merged into as a duplicate
+  mergedInto?: string;
+  // Seeded from the AI application analysis at intake; staff may override it
+  priority?: CasePriority;
+  // Set while the case is soft-deleted; an admin can restore it
+  deletedAt?: Date;
+  deletedBy?: string;
+  // Row version, incremented on every write; served as the ETag for optimistic concurrency
+  version?: number;
+  // Computed SLA state for open cases in a step with an SLA
+  sla?: CaseSla;
+  // Appeals, renewals and other cases linked to this one
+  linkedCases?: LinkedCase[];
+  // Files uploaded to the case with their review state
+  documents?: CaseDocumentRecord[];
+  tags?: Tag[];
   notes: CaseNote[];
   aiSummaries: AISummary[];
   auditTrail: AuditEntry[];
 }
 
+export interface RetentionConfig {
+  // Cases in these statuses are purged once the retention period has passed
+  statuses: CaseStatus[];
+  // Years a case is kept after its final decision
+  retentionYears: number;
+}
+
+export interface RetentionCandidate {
+  caseId: string;
+  applicationType: string;
+  status: CaseStatus;
+  createdAt: Date;
+  // Time of the final decision, or the last update when none was audited
+  concludedAt: Date;
+  purgeableSince: Date;
+}
+
+export interface RetentionReport {
+  policy: RetentionConfig;
+  asOf: Date;
+  cases: RetentionCandidate[];
+  total: number;
+}
+
+// What remains of a purged case: no applicant data, only the shape of its history
+export interface PurgedCase {
+  caseId: string;
+  applicationType: string;
+  status: CaseStatus;
+  createdAt: Date;
+  concludedAt: Date;
+  purgedAt: Date;
+  purgedBy: string;
+  auditTrail: Array<{ action: string; userId: string; timestamp: Date }>;
+}
+
+// Everything held about an applicant on one case, for a subject access request
+export interface SubjectCaseRecord {
+  case: Case;
+  applicationRevisions: ApplicationRevision[];
+  aiInteractions: AIInteraction[];
+  // Text extracted from the case's uploaded documents
+  documentTexts: DocumentText[];
+}
+
+export interface SubjectAccessExport {
+  applicantEmail: string;
+  generatedAt: Date;
+  cases: SubjectCaseRecord[];
+  total: number;
+}
+
+// Redacted copies of one case's application data, revisions and audit details, written in one transaction
+export interface SubjectErasure {
+  caseId: string;
+  applicationData: ApplicationData;
+  revisions: Array<{ id: string; applicationData: ApplicationData; changes: ApplicationFieldChange[] }>;
+  auditDetails: Array<{ id: string; details: Record<string, unknown> }>;
+  activity: ActivityLog;
+}
+
+export interface SubjectErasureCounts {
+  notes: number;
+  summaries: number;
+  aiInteractions: number;
+  documentTexts: number;
+  documents: number;
+  // Stored responses of idempotent requests for the case
+  idempotencyKeys: number;
+}
+
+export interface SubjectErasureResult extends SubjectErasureCounts {
+  caseIds: string[];
+  erasedAt: Date;
+  erasedBy: string;
+}
+
+export interface IdempotencyConfig {
+  // How long a stored response is replayed for retries with the same key
+  ttlHours: number;
+}
+
+export interface IdempotencyRecord {
+  key: string;
+  scope: string;
+  requestHash: string;
+  // Absent while the first request with the key is still running
+  response?: { statusCode: number; headers: Record<string, string>; body: unknown };
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// A user that can be @mentioned in case notes
+export interface DirectoryUser {
+  id: string;
+  role: UserRole;
+}
+
+export interface UserDirectoryConfig {
+  users: DirectoryUser[];
+}
+
+// A user @mentioned in a case note; unread until readAt is set
+export interface NoteMention {
+  id: string;
+  noteId: string;
+  caseId: string;
+  userId: string;
+  mentionedBy: string;
+  createdAt: Date;
+  readAt?: Date;
+}
+
+// A mention as listed for the mentioned user, with the start of the note
+export interface MentionNotification extends NoteMention {
+  excerpt: string;
+}
+
+export interface DuplicateConfig {
+  // Cases of the same application type submitted within this many days count as resubmissions
+  windowDays: number;
+  // Minimum similarity (0-1) between normalized applicant names
+  nameSimilarityThreshold: number;
+}
+
+export type DuplicateMatchReason = 'email' | 'name_and_date_of_birth' | 'same_type_within_window';
+
+export interface DuplicateMatch {
+  case: CaseListItem;
+  reasons: DuplicateMatchReason[];
+  nameSimilarity: number;
+}
+
+// Identity details existing cases are matched against
+export interface DuplicateCandidateCriteria {
+  email: string;
+  dateOfBirth?: string;
+  excludeCaseId?: string;
+}
+
+// A validated merge of a duplicate case into the surviving case
+export interface CaseMerge {
+  survivingCaseId: string;
+  mergedCaseId: string;
+  // The version of the surviving case the merge was based on
+  expectedVersion?: number | undefined;
+  survivingCaseUpdates?: CaseUpdates;
+  mergedCaseUpdates: CaseUpdates;
+  revision?: ApplicationRevision;
+  activities: ActivityLog[];
+}
+
+export interface CaseMergeResult {
+  case: Case;
+  mergedCaseId: string;
+  notesMoved: number;
+  documentsAdded: number;
+  auditEntriesMoved: number;
+}
+
+export type TagColor = 'gray' | 'blue' | 'green' | 'yellow' | 'red';
+
+// A label such as "VIP" or "needs-interpreter" that can be put on any number of cases
+export interface Tag {
+  id: string;
+  name: string;
+  color: TagColor;
+  description?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Number of cases carrying the tag, included when listing tags
+  caseCount?: number;
+}
+
+export interface TagInput {
+  name: string;
+  color?: TagColor | undefined;
+  description?: string | undefined;
+}
+
+export interface TagUpdate {
+  name?: string | undefined;
+  color?: TagColor | undefined;
+  description?: string | undefined;
+}
+
+export type CaseLinkType = 'appeal_of' | 'renewal_of' | 'related_to' | 'family_member';
+
+// Outgoing links were created on this case ("this case is an appeal of ..."); incoming links point at it
+export type CaseLinkDirection = 'outgoing' | 'incoming';
+
+export interface CaseLink {
+  id: string;
+  caseId: string;
+  linkedCaseId: string;
+  type: CaseLinkType;
+  note?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+// Final decision on a concluded case
+export interface CaseDecision {
+  status: CaseStatus;
+  decidedAt: Date;
+}
+
+// A link as seen from one of its cases, with a summary of the case on the other side
+export interface LinkedCase {
+  link: CaseLink;
+  direction: CaseLinkDirection;
+  case: {
+    id: string;
+    applicantName: string;
+    applicationType: string;
+    status: CaseStatus;
+    currentStep: ProcessStep;
+    decision?: CaseDecision;
+  };
+}
+
 export interface AIRecommendation {
   id: string;
   caseId: string;
@@ -111,7 +734,7 @@ export interface ApplicationAnalysis {
   keyPoints: string[];
   potentialIssues: string[];
   recommendedActions: string[];
-  priorityLevel: 'low' | 'medium' | 'high' | 'urgent';
+  priorityLevel: CasePriority;
   estimatedProcessingTime: string;
   requiredDocuments: string[];
   analysisTimestamp: Date;
@@ -171,8 +794,8 @@ export interface ErrorResponse {
 // Backend-specific service interfaces
 export interface CaseService {
   createCase(applicationData: ApplicationData): Promise<Case>;
-  updateCaseStatus(caseId: string, status: CaseStatus, userId: string): Promise<Case>;
-  addCaseNote(caseId: string, note: string, userId: string): Promise<Case>;
+  updateCaseStatus(caseId: string, status: CaseStatus, userId: string, userRole?: UserRole): Promise<Case>;
+  addCaseNote(caseId: string, note: string, userId: string, options?: CaseNoteOptions): Promise<Case>;
   getCaseById(caseId: string): Promise<Case>;
   getCasesByStatus(status: CaseStatus): Promise<Case[]>;
 }
@@ -189,7 +812,7 @@ export interface AIService {
 export interface DataService {
   saveCase(caseData: Case): Promise<void>;
   saveSummary(summary: AISummary): Promise<void>;
-  getAuditTrail(caseId: string): Promise<AuditEntry[]>;
+  getAuditTrail(caseId: string, filters?: AuditTrailFilters): Promise<AuditEntry[]>;
   logActivity(activity: ActivityLog): Promise<void>;
   logAIInteraction(interaction: AIInteraction): Promise<void>;
   getAIInteractionHistory(caseId: string): Promise<AIInteraction[]>;
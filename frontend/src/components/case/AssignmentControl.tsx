@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Button, Input } from '@/components/ui';
+import { useUpdateCaseAssignment } from '@/hooks/useCases';
+
+interface AssignmentControlProps {
+  caseId: string;
+  assignedTo?: string;
+}
+
+const AssignmentControl: React.FC<AssignmentControlProps> = ({ caseId, assignedTo }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [assignee, setAssignee] = useState('');
+  const updateAssignment = useUpdateCaseAssignment();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assignee.trim()) return;
+
+    updateAssignment.mutate(
+      { id: caseId, action: assignedTo ? 'reassign' : 'assign', assignedTo: assignee.trim() },
+      {
+        onSuccess: () => {
+          setIsEditing(false);
+          setAssignee('');
+        },
+      }
+    );
+  };
+
+  if (isEditing) {
+    return (
+      <form onSubmit={handleSubmit} className="mt-1 flex items-center gap-2">
+        <Input
+          aria-label="Assignee"
+          placeholder="Caseworker ID"
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+          autoFocus
+        />
+        <Button type="submit" size="sm" loading={updateAssignment.isPending} disabled={!assignee.trim()}>
+          Save
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+          Cancel
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="mt-1 flex items-center gap-2 text-sm">
+      <span className={assignedTo ? 'text-gray-900' : 'text-gray-500 italic'}>
+        {assignedTo || 'Unassigned'}
+      </span>
+      <button
+        type="button"
+        className="text-emerald-600 hover:text-emerald-700 font-medium"
+        onClick={() => setIsEditing(true)}
+      >
+        {assignedTo ? 'Reassign' : 'Assign'}
+      </button>
+      {assignedTo && (
+        <button
+          type="button"
+          className="text-gray-500 hover:text-gray-700 font-medium disabled:opacity-50"
+          disabled={updateAssignment.isPending}
+          onClick={() => updateAssignment.mutate({ id: caseId, action: 'unassign' })}
+        >
+          Unassign
+        </button>
+      )}
+      {updateAssignment.error && (
+        <span className="text-red-600">Unable to update assignment</span>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentControl;
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Badge, Select, LoadingSpinner, ErrorMessage } from '@/components/ui';
+import { useAuditTrail } from '@/hooks/useCases';
+import { AuditEntry } from '@/types';
+import { formatDateTime, formatCaseStatus, formatCaseLink, humanizeString } from '@/utils/formatting';
+
+interface AuditTimelineProps {
+  caseId: string;
+}
+
+type BadgeVariant = 'default' | 'success' | 'warning' | 'danger' | 'info';
+
+// Display label and badge colour for the actions CaseService records
+const actionStyles: Record<string, { label: string; variant: BadgeVariant }> = {
+  case_created: { label: 'Case Created', variant: 'success' },
+  status_updated: { label: 'Status Changed', variant: 'info' },
+  step_transitioned: { label: 'Step Changed', variant: 'info' },
+  case_assigned: { label: 'Assigned', variant: 'default' },
+  case_reassigned: { label: 'Reassigned', variant: 'default' },
+  case_unassigned: { label: 'Unassigned', variant: 'warning' },
+  sla_breached: { label: 'SLA Breached', variant: 'danger' },
+  application_updated: { label: 'Application Edited', variant: 'info' },
+  application_restored: { label: 'Application Restored', variant: 'warning' },
+  document_uploaded: { label: 'Document Uploaded', variant: 'info' },
+  document_reviewed: { label: 'Document Reviewed', variant: 'info' },
+  document_quarantined: { label: 'Document Quarantined', variant: 'danger' },
+  duplicates_detected: { label: 'Possible Duplicate', variant: 'warning' },
+  case_merged: { label: 'Duplicate Merged', variant: 'info' },
+  case_merged_into: { label: 'Merged Into Another Case', variant: 'warning' },
+  case_linked: { label: 'Case Linked', variant: 'info' },
+  priority_changed: { label: 'Priority Changed', variant: 'warning' },
+  tag_added: { label: 'Tag Added', variant: 'default' },
+  tag_removed: { label: 'Tag Removed', variant: 'default' },
+  case_deleted: { label: 'Case Deleted', variant: 'danger' },
+  case_restored: { label: 'Case Restored', variant: 'success' },
+  subject_data_erased: { label: 'Applicant Data Erased', variant: 'danger' },
+  note_added: { label: 'Note Added', variant: 'default' },
+  note_edited: { label: 'Note Edited', variant: 'default' },
+  note_deleted: { label: 'Note Deleted', variant: 'warning' },
+  ai_summary_updated: { label: 'AI Summary Regenerated', variant: 'info' },
+  ai_summary_update_failed: { label: 'AI Summary Update Failed', variant: 'danger' },
+  ai_summary_regeneration_failed: { label: 'AI Summary Regeneration Failed', variant: 'danger' },
+  ai_analysis_failed: { label: 'AI Analysis Failed', variant: 'danger' },
+  application_processed: { label: 'Application Processed', variant: 'success' },
+  missing_fields_detected: { label: 'Missing Fields Detected', variant: 'warning' },
+  case_marked_incomplete: { label: 'Marked Incomplete', variant: 'warning' },
+};
+
+const filterOptions = [
+  { value: '', label: 'All activity' },
+  { value: 'status_updated', label: 'Status changes' },
+  { value: 'step_transitioned', label: 'Step changes' },
+  { value: 'case_assigned,case_reassigned,case_unassigned', label: 'Assignments' },
+  { value: 'priority_changed', label: 'Priority changes' },
+  { value: 'sla_breached', label: 'SLA breaches' },
+  { value: 'application_updated,application_restored', label: 'Application edits' },
+  { value: 'document_uploaded,document_reviewed,document_quarantined', label: 'Documents' },
+  { value: 'duplicates_detected,case_merged,case_merged_into', label: 'Duplicates' },
+  { value: 'case_linked', label: 'Linked cases' },
+  { value: 'tag_added,tag_removed', label: 'Tags' },
+  { value: 'case_deleted,case_restored,subject_data_erased', label: 'Deletions and erasure' },
+  { value: 'note_added,note_edited,note_deleted', label: 'Notes' },
+  { value: 'ai_summary_updated,ai_summary_update_failed,ai_summary_regeneration_failed', label: 'AI regenerations' },
+];
+
+/**
+ * Summarise the details of an audit entry in one line
+ */
+const describeEntry = (entry: AuditEntry): string | null => {
+  const details = entry.details || {};
+
+  switch (entry.action) {
+    case 'status_updated':
+      return `${formatCaseStatus(details.previousStatus)} → ${formatCaseStatus(details.newStatus)}` +
+        (details.previousStep !== details.newStep ? ` (step: ${formatCaseStatus(details.newStep)})` : '');
+    case 'step_transitioned':
+      return `${formatCaseStatus(details.previousStep)} → ${formatCaseStatus(details.newStep)}` +
+        (details.reason ? ` — ${details.reason}` : '');
+    case 'case_assigned':
+      return `Assigned to ${details.assignedTo}` + (details.strategy ? ` (auto: ${humanizeString(details.strategy)})` : '');
+    case 'case_reassigned':
+      return `${details.previousAssignee} → ${details.assignedTo}` + (details.reason ? ` — ${details.reason}` : '');
+    case 'case_unassigned':
+      return `Removed ${details.previousAssignee}` + (details.reason ? ` — ${details.reason}` : '');
+    case 'sla_breached':
+      return `${formatCaseStatus(details.step)} was due ${formatDateTime(details.dueAt)}`;
+    case 'application_updated':
+    case 'application_restored':
+      return (details.restoredFrom ? `Restored revision ${details.restoredFrom}: ` : `Revision ${details.revision}: `)
+        + (details.changes || []).map((change: { field: string }) => humanizeString(change.field.replace(/^formData\./, ''))).join(', ')
+        + (details.reason ? ` — ${details.reason}` : '');
+    case 'document_uploaded':
+      return `${details.filename} (${details.mimeType}, ${Math.max(1, Math.round(details.size / 1024))} KB), revision ${details.revision}`;
+    case 'document_reviewed':
+      return `${details.filename}: ${humanizeString(details.previousStatus)} → ${humanizeString(details.status)}`
+        + (details.expiryDate !== undefined ? `, expiry ${details.expiryDate || 'cleared'}` : '')
+        + (details.reason ? ` — ${details.reason}` : '');
+    case 'document_quarantined':
+      return `${details.filename}: ${details.signature || 'malware'} detected by ${details.scanner}`;
+    case 'duplicates_detected':
+      return `${details.matches?.length || 0} possible duplicate(s): ` + (details.matches || []).map((match: { caseId: string }) => match.caseId).join(', ');
+    case 'case_merged':
+      return `Merged ${details.mergedCaseId}: ${details.notesMoved} note(s), ${details.documentsAdded} document(s), ${details.auditEntriesMoved} audit entries`
+        + (details.reason ? ` — ${details.reason}` : '');
+    case 'case_merged_into':
+      return `Merged into ${details.survivingCaseId}` + (details.reason ? ` — ${details.reason}` : '');
+    case 'case_linked':
+      return `${formatCaseLink(details.linkType, details.direction)} ${details.linkedCaseId}` + (details.note ? ` — ${details.note}` : '');
+    case 'priority_changed':
+      return (details.previousPriority ? `${humanizeString(details.previousPriority)} → ` : 'Set to ')
+        + `${humanizeString(details.priority)} — ${details.reason}`;
+    case 'tag_added':
+      return `Tagged ${details.tagName}`;
+    case 'tag_removed':
+      return `Untagged ${details.tagName}` + (details.tagDeleted ? ' (tag deleted)' : '');
+    case 'case_deleted':
+      return details.reason || null;
+    case 'case_restored':
+      return `Deleted by ${details.deletedBy} on ${formatDateTime(details.deletedAt)}` + (details.reason ? ` — ${details.reason}` : '');
+    case 'subject_data_erased':
+      return `${details.revisionsRedacted} revision(s) redacted` + (details.reason ? ` — ${details.reason}` : '');
+    case 'note_added':
+      return `${details.noteLength} characters` + (details.parentId ? ' (reply)' : '')
+        + (details.mentions?.length ? `, mentioned ${details.mentions.join(', ')}` : '');
+    case 'note_edited':
+      return `Changed ${(details.fields || []).map(humanizeString).join(', ')}`;
+    case 'note_deleted':
+      return details.reason || null;
+    case 'ai_summary_updated':
+      return `Triggered by ${humanizeString(details.trigger || 'manual refresh')}, version ${details.summaryVersion}`;
+    case 'ai_summary_update_failed':
+    case 'ai_summary_regeneration_failed':
+    case 'ai_analysis_failed':
+      return details.error || null;
+    default:
+      return null;
+  }
+};
+
+const AuditTimeline: React.FC<AuditTimelineProps> = ({ caseId }) => {
+  const [action, setAction] = useState('');
+  const { data: entries, isLoading, error } = useAuditTrail(caseId, action ? { action } : undefined);
+
+  // Oldest first so the timeline reads in the order things happened
+  const orderedEntries = [...(entries || [])].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  return (
+    <div className="space-y-4">
+      <Select
+        aria-label="Filter activity"
+        options={filterOptions}
+        value={action}
+        onChange={(e) => setAction(e.target.value)}
+      />
+
+      {isLoading && (
+        <div className="text-center py-8">
+          <LoadingSpinner />
+          <p className="mt-2 text-sm text-gray-600">Loading case history...</p>
+        </div>
+      )}
+
+      {error && <ErrorMessage message="Unable to load case history" />}
+
+      {!isLoading && !error && orderedEntries.length === 0 && (
+        <div className="text-center py-8">
+          <p className="text-sm text-gray-500">No activity recorded</p>
+        </div>
+      )}
+
+      {orderedEntries.length > 0 && (
+        <ol className="relative border-l border-gray-200 ml-2" aria-label="Case history">
+          {orderedEntries.map((entry) => {
+            const style = actionStyles[entry.action] || { label: humanizeString(entry.action), variant: 'default' as const };
+            const description = describeEntry(entry);
+
+            return (
+              <li key={entry.id} className="mb-6 ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+                <div className="flex items-center gap-2">
+                  <Badge variant={style.variant} size="sm">{style.label}</Badge>
+                  <time className="text-xs text-gray-500" dateTime={new Date(entry.timestamp).toISOString()}>
+                    {formatDateTime(entry.timestamp)}
+                  </time>
+                </div>
+                {description && (
+                  <p className="mt-1 text-sm text-gray-700">{description}</p>
+                )}
+                <p className="mt-1 text-xs text-gray-500">By {entry.userId}</p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default AuditTimeline;
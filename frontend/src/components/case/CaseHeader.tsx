@@ -1,7 +1,10 @@
 import React from 'react';
 import { Badge, LoadingSpinner, ErrorMessage } from '@/components/ui';
 import { useCase } from '@/hooks/useCases';
-import { formatDate } from '@/utils/formatting';
+import { formatDate, formatDateTime } from '@/utils/formatting';
+import AssignmentControl from './AssignmentControl';
+import CaseTags from './CaseTags';
+import PriorityControl from './PriorityControl';
 
 interface CaseHeaderProps {
   caseId: string;
@@ -71,9 +74,11 @@ const CaseHeader: React.FC<CaseHeaderProps> = ({ caseId }) => {
             </Badge>
           </div>
         </div>
+
+        <CaseTags caseId={caseData.id} tags={caseData.tags || []} />
         
         {/* Case metadata */}
-        <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-4 gap-4">
           <div>
             <dt className="text-sm font-medium text-gray-500">Applicant</dt>
             <dd className="mt-1 text-sm text-gray-900">{caseData.applicationData.applicantName}</dd>
@@ -86,10 +91,24 @@ const CaseHeader: React.FC<CaseHeaderProps> = ({ caseId }) => {
             <dt className="text-sm font-medium text-gray-500">Submission Date</dt>
             <dd className="mt-1 text-sm text-gray-900">{formatDate(caseData.applicationData.submissionDate)}</dd>
           </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Step Due</dt>
+            <dd className="mt-1 flex items-center gap-2 text-sm text-gray-900">
+              {caseData.sla ? (
+                <>
+                  <span>{formatDateTime(caseData.sla.dueAt)}</span>
+                  {caseData.sla.overdue && <Badge variant="danger" size="sm">Overdue</Badge>}
+                  {caseData.sla.dueSoon && <Badge variant="warning" size="sm">Due soon</Badge>}
+                </>
+              ) : (
+                <span className="text-gray-500 italic">No SLA</span>
+              )}
+            </dd>
+          </div>
         </div>
 
         {/* Additional metadata */}
-        <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-4 gap-4">
           <div>
             <dt className="text-sm font-medium text-gray-500">Email</dt>
             <dd className="mt-1 text-sm text-gray-900">{caseData.applicationData.applicantEmail}</dd>
@@ -102,6 +121,18 @@ const CaseHeader: React.FC<CaseHeaderProps> = ({ caseId }) => {
             <dt className="text-sm font-medium text-gray-500">Last Updated</dt>
             <dd className="mt-1 text-sm text-gray-900">{formatDate(caseData.updatedAt)}</dd>
           </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Assigned To</dt>
+            <dd>
+              <AssignmentControl caseId={caseData.id} assignedTo={caseData.assignedTo} />
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm font-medium text-gray-500">Priority</dt>
+            <dd>
+              <PriorityControl caseId={caseData.id} priority={caseData.priority} />
+            </dd>
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Badge, Button, Select } from '@/components/ui';
+import { useTags, useChangeCaseTag } from '@/hooks/useTags';
+import { Tag } from '@/types';
+import { getTagVariant } from '@/utils/formatting';
+
+interface CaseTagsProps {
+  caseId: string;
+  tags: Tag[];
+}
+
+const CaseTags: React.FC<CaseTagsProps> = ({ caseId, tags }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [tagId, setTagId] = useState('');
+  const { data: allTags } = useTags();
+  const changeTag = useChangeCaseTag();
+
+  const availableTags = (allTags || []).filter(tag => !tags.some(caseTag => caseTag.id === tag.id));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tagId) return;
+
+    changeTag.mutate(
+      { id: caseId, tagId, action: 'add' },
+      {
+        onSuccess: () => {
+          setIsAdding(false);
+          setTagId('');
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+      {tags.map(tag => (
+        <Badge key={tag.id} variant={getTagVariant(tag.color)} size="sm">
+          <span title={tag.description}>{tag.name}</span>
+          <button
+            type="button"
+            aria-label={`Remove tag ${tag.name}`}
+            className="ml-1 opacity-60 hover:opacity-100 disabled:opacity-30"
+            disabled={changeTag.isPending}
+            onClick={() => changeTag.mutate({ id: caseId, tagId: tag.id, action: 'remove' })}
+          >
+            ×
+          </button>
+        </Badge>
+      ))}
+
+      {isAdding ? (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <Select
+            aria-label="Tag"
+            placeholder="Select a tag"
+            options={availableTags.map(tag => ({ value: tag.id, label: tag.name }))}
+            value={tagId}
+            onChange={(e) => setTagId(e.target.value)}
+          />
+          <Button type="submit" size="sm" loading={changeTag.isPending} disabled={!tagId}>
+            Add
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setIsAdding(false)}>
+            Cancel
+          </Button>
+        </form>
+      ) : (
+        <button
+          type="button"
+          className="text-emerald-600 hover:text-emerald-700 font-medium"
+          onClick={() => setIsAdding(true)}
+        >
+          Add tag
+        </button>
+      )}
+
+      {changeTag.error && (
+        <span className="text-red-600">Unable to update tags</span>
+      )}
+    </div>
+  );
+};
+
+export default CaseTags;
@@ -7,6 +7,9 @@ import ProcessStepIndicator from './ProcessStepIndicator';
 import AIInsightPanel from './AIInsightPanel';
 import NotesSection from './NotesSection';
 import ActionButtons from './ActionButtons';
+import AuditTimeline from './AuditTimeline';
+import LinkedCases from './LinkedCases';
+import DocumentViewer from './DocumentViewer';
 
 interface CaseViewProps {
   className?: string;
@@ -69,6 +72,14 @@ const CaseView: React.FC<CaseViewProps> = ({ className = '' }) => {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Column - Main Case Content */}
         <div className="lg:col-span-2 space-y-6">
+          {/* Documents Section - previewed alongside the AI insights */}
+          <Card>
+            <div className="p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Documents</h3>
+              <DocumentViewer caseId={id} applicationType={caseData?.applicationData.applicationType} />
+            </div>
+          </Card>
+
           {/* Process Steps Section */}
           <Card>
             <div className="p-6">
@@ -84,6 +95,14 @@ const CaseView: React.FC<CaseViewProps> = ({ className = '' }) => {
               <NotesSection caseId={id} />
             </div>
           </Card>
+
+          {/* Case History Section */}
+          <Card>
+            <div className="p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Case History</h3>
+              <AuditTimeline caseId={id} />
+            </div>
+          </Card>
         </div>
 
         {/* Right Column - AI Insights and Actions */}
@@ -103,6 +122,14 @@ const CaseView: React.FC<CaseViewProps> = ({ className = '' }) => {
               <ActionButtons caseId={id} />
             </div>
           </Card>
+
+          {/* Linked Cases */}
+          <Card>
+            <div className="p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Linked Cases</h3>
+              <LinkedCases caseId={id} />
+            </div>
+          </Card>
         </div>
       </div>
     </div>
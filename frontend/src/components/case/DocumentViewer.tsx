@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { Badge, Button, Input, LoadingSpinner, ErrorMessage } from '@/components/ui';
+import { useCaseDocuments, useDocumentReviews, useReviewDocument } from '@/hooks/useCases';
+import { useApplicationTypes } from '@/hooks/useApplicationTypes';
+import { caseService } from '@/services';
+import { CaseDocumentRecord, DocumentReviewDecision, DocumentReviewStatus } from '@/types';
+import { formatDate } from '@/utils/formatting';
+
+interface DocumentViewerProps {
+  caseId: string;
+  // Used to label uploads with the required document they provide
+  applicationType?: string;
+}
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const REVIEW_STATUS_BADGES: Record<DocumentReviewStatus, { label: string; variant: 'default' | 'success' | 'warning' | 'danger' | 'info' }> = {
+  pending: { label: 'Pending review', variant: 'info' },
+  accepted: { label: 'Accepted', variant: 'success' },
+  rejected: { label: 'Rejected', variant: 'danger' },
+  needs_replacement: { label: 'Needs replacement', variant: 'warning' },
+  replaced: { label: 'Replaced', variant: 'default' },
+};
+
+// Expiry dates are calendar dates, so compare them with today's local date rather than parsing them as UTC
+const isExpired = (expiryDate: string): boolean => expiryDate < new Date().toLocaleDateString('en-CA');
+
+const ReviewStatusBadge: React.FC<{ status: DocumentReviewStatus }> = ({ status }) => (
+  <Badge size="sm" variant={REVIEW_STATUS_BADGES[status].variant}>{REVIEW_STATUS_BADGES[status].label}</Badge>
+);
+
+// Quarantined files stand in for their review status: they can never be viewed or reviewed
+const DocumentStatusBadge: React.FC<{ document: CaseDocumentRecord }> = ({ document }) =>
+  document.scanStatus === 'infected'
+    ? <Badge size="sm" variant="danger">Quarantined</Badge>
+    : <ReviewStatusBadge status={document.reviewStatus} />;
+
+const ExpiryDate: React.FC<{ expiryDate: string }> = ({ expiryDate }) => (
+  <span className={isExpired(expiryDate) ? 'font-medium text-red-600' : 'text-gray-500'}>
+    {isExpired(expiryDate) ? 'Expired' : 'Expires'} {expiryDate}
+  </span>
+);
+
+interface DocumentReviewsProps {
+  caseId: string;
+  documentId: string;
+}
+
+// Earlier review decisions on a document, oldest first
+const DocumentReviews: React.FC<DocumentReviewsProps> = ({ caseId, documentId }) => {
+  const { data: reviews, isLoading, error } = useDocumentReviews(caseId, documentId);
+
+  if (isLoading) {
+    return <LoadingSpinner size="sm" />;
+  }
+  if (error) {
+    return <ErrorMessage message="Unable to load review history" />;
+  }
+  if (!reviews || reviews.length === 0) {
+    return <p className="text-xs text-gray-500">Not reviewed yet</p>;
+  }
+
+  return (
+    <ol className="space-y-2 border-l-2 border-gray-200 pl-3">
+      {reviews.map((review) => (
+        <li key={review.id} className="text-xs text-gray-600">
+          <div className="flex flex-wrap items-center gap-2">
+            <ReviewStatusBadge status={review.status} />
+            <span>by {review.reviewedBy} • {formatDate(review.reviewedAt)}</span>
+            {review.expiryDate && <span>• expiry {review.expiryDate}</span>}
+          </div>
+          {review.reason && <p className="mt-1 whitespace-pre-wrap">{review.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+interface DocumentReviewPanelProps {
+  caseId: string;
+  document: CaseDocumentRecord;
+}
+
+// Review decision on the selected document; rejections and replacement requests ask for a reason
+const DocumentReviewPanel: React.FC<DocumentReviewPanelProps> = ({ caseId, document }) => {
+  const reviewMutation = useReviewDocument();
+  const [expiryDate, setExpiryDate] = useState(document.expiryDate || '');
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleReview = (status: DocumentReviewDecision) => {
+    let reason: string | undefined;
+    if (status !== 'accepted') {
+      const answer = window.prompt(status === 'rejected' ? 'Why is this document rejected?' : 'What needs to be replaced?');
+      if (!answer?.trim()) {
+        return;
+      }
+      reason = answer.trim();
+    }
+
+    reviewMutation.mutate({
+      id: caseId,
+      documentId: document.id,
+      input: {
+        status,
+        ...(reason && { reason }),
+        ...(expiryDate !== (document.expiryDate || '') && { expiryDate: expiryDate || null }),
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded border border-gray-200 p-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <ReviewStatusBadge status={document.reviewStatus} />
+        {document.reviewedBy && document.reviewedAt && (
+          <span>by {document.reviewedBy} • {formatDate(document.reviewedAt)}</span>
+        )}
+        {document.expiryDate && <ExpiryDate expiryDate={document.expiryDate} />}
+      </div>
+      {document.reviewReason && (
+        <p className="whitespace-pre-wrap text-sm text-gray-700">{document.reviewReason}</p>
+      )}
+
+      {document.reviewStatus !== 'replaced' && (
+        <div className="flex flex-wrap items-end gap-2">
+          <Input
+            type="date"
+            label="Expiry date"
+            value={expiryDate}
+            onChange={(event) => setExpiryDate(event.target.value)}
+            className="w-44"
+          />
+          <Button size="sm" onClick={() => handleReview('accepted')} loading={reviewMutation.isPending}>
+            Accept
+          </Button>
+          <Button size="sm" variant="secondary" onClick={() => handleReview('needs_replacement')} disabled={reviewMutation.isPending}>
+            Request replacement
+          </Button>
+          <Button size="sm" variant="danger" onClick={() => handleReview('rejected')} disabled={reviewMutation.isPending}>
+            Reject
+          </Button>
+        </div>
+      )}
+
+      {reviewMutation.error && (
+        <p className="text-xs text-red-600">{reviewMutation.error.message}</p>
+      )}
+
+      <button type="button" className="text-xs text-blue-600 hover:underline" onClick={() => setShowHistory(!showHistory)}>
+        {showHistory ? 'Hide review history' : 'Review history'}
+      </button>
+      {showHistory && <DocumentReviews caseId={caseId} documentId={document.id} />}
+    </div>
+  );
+};
+
+interface DocumentPreviewProps {
+  caseId: string;
+  document: CaseDocumentRecord;
+}
+
+// PDFs and text load in the browser's own viewer, images inline; other types can only be downloaded
+const DocumentPreview: React.FC<DocumentPreviewProps> = ({ caseId, document }) => {
+  if (document.scanStatus === 'infected') {
+    return (
+      <div className="rounded border border-red-200 bg-red-50 py-8 text-center text-sm text-red-700">
+        Malware was detected in this file{document.scanSignature && ` (${document.scanSignature})`}. It has been quarantined and cannot be opened.
+      </div>
+    );
+  }
+
+  const contentUrl = caseService.getDocumentContentUrl(caseId, document.id);
+
+  if (document.mimeType === 'image/png' || document.mimeType === 'image/jpeg') {
+    return (
+      <img
+        src={contentUrl}
+        alt={document.description || document.filename}
+        className="max-h-[32rem] w-full rounded border border-gray-200 object-contain bg-gray-50"
+      />
+    );
+  }
+
+  if (document.mimeType === 'application/pdf' || document.mimeType === 'text/plain') {
+    return (
+      <iframe
+        src={contentUrl}
+        title={document.filename}
+        className="h-[32rem] w-full rounded border border-gray-200 bg-white"
+      />
+    );
+  }
+
+  return (
+    <div className="rounded border border-dashed border-gray-300 py-8 text-center text-sm text-gray-500">
+      This file type cannot be previewed. Download it to view.
+    </div>
+  );
+};
+
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ caseId, applicationType }) => {
+  const { data: documents, isLoading, error } = useCaseDocuments(caseId);
+  const { data: applicationTypes = [] } = useApplicationTypes();
+  const requiredDocuments = applicationTypes.find(profile => profile.type === applicationType)?.requiredDocuments || [];
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (isLoading) {
+    return <LoadingSpinner size="sm" />;
+  }
+  if (error) {
+    return <ErrorMessage message="Unable to load case documents" />;
+  }
+  if (!documents || documents.length === 0) {
+    return <p className="text-sm text-gray-500">No documents uploaded</p>;
+  }
+
+  const selected = documents.find(document => document.id === selectedId) || documents[0];
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y divide-gray-100 rounded border border-gray-200">
+        {documents.map((document) => (
+          <li key={document.id}>
+            <button
+              type="button"
+              aria-pressed={document.id === selected.id}
+              className={`flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm ${
+                document.id === selected.id ? 'bg-blue-50 text-blue-900' : 'text-gray-900 hover:bg-gray-50'
+              }`}
+              onClick={() => setSelectedId(document.id)}
+            >
+              <span className="min-w-0">
+                <span className="block truncate font-medium">{document.filename}</span>
+                {document.documentType && (
+                  <span className="block truncate text-xs text-gray-700">
+                    {requiredDocuments.find(required => required.type === document.documentType)?.label || document.documentType}
+                  </span>
+                )}
+                {document.description && (
+                  <span className="block truncate text-xs text-gray-500">{document.description}</span>
+                )}
+              </span>
+              <span className="flex shrink-0 flex-col items-end gap-1 text-xs text-gray-500">
+                <DocumentStatusBadge document={document} />
+                <span>
+                  {formatSize(document.size)} • {formatDate(document.uploadedAt)}
+                </span>
+                {document.expiryDate && <ExpiryDate expiryDate={document.expiryDate} />}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <DocumentPreview key={selected.id} caseId={caseId} document={selected} />
+
+      {selected.scanStatus !== 'infected' && (
+        <DocumentReviewPanel key={`${selected.id}-review`} caseId={caseId} document={selected} />
+      )}
+
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>Uploaded by {selected.uploadedBy}</span>
+        {selected.scanStatus !== 'infected' && (
+          <a
+            href={caseService.getDocumentContentUrl(caseId, selected.id, { download: true })}
+            className="text-blue-600 hover:underline"
+          >
+            Download
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentViewer;
\ No newline at end of file
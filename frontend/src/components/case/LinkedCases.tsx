@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge, Button, Input, Select, LoadingSpinner, ErrorMessage } from '@/components/ui';
+import { useLinkedCases, useLinkCase } from '@/hooks/useCases';
+import { CaseLinkType } from '@/types';
+import { formatDate, formatCaseStatus, formatCaseLink, getStatusVariant } from '@/utils/formatting';
+
+interface LinkedCasesProps {
+  caseId: string;
+}
+
+const linkTypeOptions: { value: CaseLinkType; label: string }[] = [
+  { value: 'appeal_of', label: 'Appeal of' },
+  { value: 'renewal_of', label: 'Renewal of' },
+  { value: 'related_to', label: 'Related to' },
+  { value: 'family_member', label: 'Family member' },
+];
+
+const LinkedCases: React.FC<LinkedCasesProps> = ({ caseId }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [linkedCaseId, setLinkedCaseId] = useState('');
+  const [type, setType] = useState<CaseLinkType>('related_to');
+  const { data: linkedCases, isLoading, error } = useLinkedCases(caseId);
+  const linkCase = useLinkCase();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!linkedCaseId.trim()) return;
+
+    linkCase.mutate(
+      { id: caseId, linkedCaseId: linkedCaseId.trim(), type },
+      {
+        onSuccess: () => {
+          setIsAdding(false);
+          setLinkedCaseId('');
+        },
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-4">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <ErrorMessage message="Unable to load linked cases" />
+      )}
+
+      {!linkedCases || linkedCases.length === 0 ? (
+        <p className="text-sm text-gray-500">No linked cases</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {linkedCases.map(({ link, direction, case: linked }) => (
+            <li key={link.id} className="py-3 first:pt-0 last:pb-0">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium uppercase tracking-wide text-gray-500">
+                    {formatCaseLink(link.type, direction)}
+                  </p>
+                  <Link to={`/cases/${linked.id}`} className="text-sm font-medium text-emerald-600 hover:text-emerald-700">
+                    {linked.applicantName}
+                  </Link>
+                  <p className="text-xs text-gray-500 truncate">{linked.id}</p>
+                </div>
+                <Badge variant={getStatusVariant(linked.status)}>{formatCaseStatus(linked.status)}</Badge>
+              </div>
+              {linked.decision && (
+                <p className="mt-1 text-xs text-gray-600">
+                  Decided {formatCaseStatus(linked.decision.status).toLowerCase()} on {formatDate(linked.decision.decidedAt)}
+                </p>
+              )}
+              {link.note && (
+                <p className="mt-1 text-xs text-gray-600">{link.note}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isAdding ? (
+        <form onSubmit={handleSubmit} className="space-y-2 border-t border-gray-200 pt-4">
+          <Select
+            aria-label="Link type"
+            options={linkTypeOptions}
+            value={type}
+            onChange={(e) => setType(e.target.value as CaseLinkType)}
+          />
+          <Input
+            aria-label="Linked case ID"
+            placeholder="Case ID"
+            value={linkedCaseId}
+            onChange={(e) => setLinkedCaseId(e.target.value)}
+            autoFocus
+          />
+          {linkCase.error && (
+            <p className="text-sm text-red-600">Unable to link case</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setIsAdding(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" loading={linkCase.isPending} disabled={!linkedCaseId.trim()}>
+              Link
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          className="text-sm text-emerald-600 hover:text-emerald-700 font-medium"
+          onClick={() => setIsAdding(true)}
+        >
+          Link a case
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LinkedCases;
@@ -0,0 +1,122 @@
+import React, { useRef, useState } from 'react';
+import { Textarea } from '@/components/ui';
+import { useUsers } from '@/hooks/useUsers';
+import { UserRole } from '@/types';
+
+type MentionTextareaProps = Omit<React.ComponentProps<typeof Textarea>, 'value' | 'onChange'> & {
+  value: string;
+  onChange: (value: string) => void;
+};
+
+interface MentionSuggestion {
+  handle: string;
+  description: string;
+}
+
+// @role mentions notify everyone with the role
+const ROLE_SUGGESTIONS: MentionSuggestion[] = (['caseworker', 'supervisor', 'admin'] as UserRole[]).map(role => ({
+  handle: role,
+  description: `Everyone with the ${role} role`,
+}));
+
+// The @handle being typed just before the caret, if any; an @ inside a word (an email address) does not start one
+const MENTION_AT_CARET = /(?:^|[^\w@])@([\w.-]*)$/;
+
+const MAX_SUGGESTIONS = 6;
+
+// Textarea for note content that suggests users and roles to @mention
+const MentionTextarea: React.FC<MentionTextareaProps> = ({ value, onChange, onKeyDown, ...props }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { data: users } = useUsers();
+
+  const suggestions = query === null ? [] : [
+    ...(users || []).map(user => ({ handle: user.id, description: user.role })),
+    ...ROLE_SUGGESTIONS,
+  ]
+    .filter(suggestion => suggestion.handle.toLowerCase().startsWith(query.toLowerCase()))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = MENTION_AT_CARET.exec(text.slice(0, caret));
+    setQuery(match ? match[1] : null);
+    setActiveIndex(0);
+  };
+
+  const selectSuggestion = (suggestion: MentionSuggestion) => {
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@[\w.-]*$/, `@${suggestion.handle} `);
+    onChange(before + value.slice(caret));
+    setQuery(null);
+
+    // Put the caret after the inserted mention once the new value has rendered
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if ((e.key === 'Enter' && !e.ctrlKey && !e.metaKey) || e.key === 'Tab') {
+        e.preventDefault();
+        selectSuggestion(suggestions[activeIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setQuery(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery(null)}
+        aria-autocomplete="list"
+      />
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-10 mt-1 w-64 rounded-md border border-gray-200 bg-white py-1 text-sm shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.handle}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`cursor-pointer px-3 py-1.5 ${index === activeIndex ? 'bg-blue-50 text-blue-900' : 'text-gray-900'}`}
+              // Keep focus in the textarea so the blur does not close the list before the click lands
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectSuggestion(suggestion);
+              }}
+            >
+              <span className="font-medium">@{suggestion.handle}</span>
+              <span className="ml-2 text-xs text-gray-500">{suggestion.description}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
\ No newline at end of file
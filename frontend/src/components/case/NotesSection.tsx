@@ -1,20 +1,263 @@
 import React, { useState } from 'react';
-import { Button, Textarea, LoadingSpinner, ErrorMessage } from '@/components/ui';
-import { useCaseNotes, useAddCaseNote } from '@/hooks/useCases';
+import { Button, Select, Badge, LoadingSpinner, ErrorMessage } from '@/components/ui';
+import MentionTextarea from './MentionTextarea';
+import { useCaseNotes, useAddCaseNote, useUpdateCaseNote, useDeleteCaseNote, useCaseNoteRevisions } from '@/hooks/useCases';
+import { CaseNote, NoteCategory, NoteVisibility } from '@/types';
 import { formatDate } from '@/utils/formatting';
 
 interface NotesSectionProps {
   caseId: string;
 }
 
+const CATEGORY_OPTIONS: { value: NoteCategory; label: string }[] = [
+  { value: 'general', label: 'General' },
+  { value: 'interview', label: 'Interview' },
+  { value: 'phone_call', label: 'Phone call' },
+  { value: 'document_review', label: 'Document review' },
+];
+
+const VISIBILITY_OPTIONS: { value: NoteVisibility; label: string }[] = [
+  { value: 'internal', label: 'Internal' },
+  { value: 'applicant', label: 'Shareable with applicant' },
+];
+
+const categoryLabel = (category: NoteCategory): string =>
+  CATEGORY_OPTIONS.find(option => option.value === category)?.label || category;
+
+interface NoteRevisionsProps {
+  caseId: string;
+  noteId: string;
+}
+
+// Earlier contents of an edited note, oldest first
+const NoteRevisions: React.FC<NoteRevisionsProps> = ({ caseId, noteId }) => {
+  const { data: revisions, isLoading, error } = useCaseNoteRevisions(caseId, noteId);
+
+  if (isLoading) {
+    return <LoadingSpinner size="sm" />;
+  }
+  if (error) {
+    return <ErrorMessage message="Unable to load note history" />;
+  }
+
+  return (
+    <ol className="mt-2 space-y-2 border-l-2 border-gray-200 pl-3">
+      {revisions?.map((revision) => (
+        <li key={revision.id} className="text-xs text-gray-600">
+          <div className="font-medium">
+            Version {revision.version} by {revision.createdBy} • {formatDate(revision.createdAt)}
+          </div>
+          <p className="whitespace-pre-wrap">{revision.content}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+interface NoteItemProps {
+  caseId: string;
+  note: CaseNote;
+  replies?: CaseNote[];
+}
+
+const NoteItem: React.FC<NoteItemProps> = ({ caseId, note, replies = [] }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState(note.content);
+  const [editCategory, setEditCategory] = useState<NoteCategory>(note.category);
+  const [editVisibility, setEditVisibility] = useState<NoteVisibility>(note.visibility);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const [reply, setReply] = useState('');
+  const addNoteMutation = useAddCaseNote();
+  const updateNoteMutation = useUpdateCaseNote();
+  const deleteNoteMutation = useDeleteCaseNote();
+
+  const handleSave = () => {
+    updateNoteMutation.mutate(
+      {
+        id: caseId,
+        noteId: note.id,
+        update: {
+          ...(editContent.trim() !== note.content && { content: editContent.trim() }),
+          ...(editCategory !== note.category && { category: editCategory }),
+          ...(editVisibility !== note.visibility && { visibility: editVisibility }),
+        },
+      },
+      { onSuccess: () => setIsEditing(false) }
+    );
+  };
+
+  const handleDelete = () => {
+    const reason = window.prompt('Why is this note being deleted?');
+    if (reason?.trim()) {
+      deleteNoteMutation.mutate({ id: caseId, noteId: note.id, reason: reason.trim() });
+    }
+  };
+
+  const handleReply = () => {
+    if (reply.trim()) {
+      addNoteMutation.mutate(
+        { id: caseId, content: reply.trim(), options: { parentId: note.id } },
+        {
+          onSuccess: () => {
+            setReply('');
+            setIsReplying(false);
+          },
+        }
+      );
+    }
+  };
+
+  const unchanged = editContent.trim() === note.content && editCategory === note.category && editVisibility === note.visibility;
+  const mutationError = updateNoteMutation.error || deleteNoteMutation.error || addNoteMutation.error;
+
+  return (
+    <div className={`border rounded-lg p-4 ${note.parentId ? 'bg-white border-gray-100' : 'bg-gray-50 border-gray-200'}`}>
+      {note.deletedAt ? (
+        <p className="text-sm italic text-gray-500">
+          Note deleted by {note.deletedBy} • {formatDate(note.deletedAt)}
+          {note.deletionReason && `: ${note.deletionReason}`}
+        </p>
+      ) : isEditing ? (
+        <div className="space-y-2">
+          <MentionTextarea
+            rows={3}
+            className="w-full"
+            value={editContent}
+            onChange={setEditContent}
+            disabled={updateNoteMutation.isPending}
+          />
+          <div className="flex flex-wrap gap-2">
+            <Select
+              aria-label="Note category"
+              options={CATEGORY_OPTIONS}
+              value={editCategory}
+              onChange={(e) => setEditCategory(e.target.value as NoteCategory)}
+            />
+            <Select
+              aria-label="Note visibility"
+              options={VISIBILITY_OPTIONS}
+              value={editVisibility}
+              onChange={(e) => setEditVisibility(e.target.value as NoteVisibility)}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={handleSave}
+              disabled={!editContent.trim() || unchanged}
+              loading={updateNoteMutation.isPending}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            {note.category !== 'general' && (
+              <Badge size="sm" variant="info">{categoryLabel(note.category)}</Badge>
+            )}
+            {note.visibility === 'applicant' && (
+              <Badge size="sm" variant="warning">Shareable with applicant</Badge>
+            )}
+          </div>
+          <p className="text-sm text-gray-900 whitespace-pre-wrap">
+            {note.content}
+          </p>
+          <div className="mt-2 flex flex-wrap items-center gap-x-3 text-xs text-gray-500">
+            <span>
+              Added by {note.createdBy} • {formatDate(note.createdAt)}
+              {note.updatedAt && ` • edited by ${note.updatedBy} ${formatDate(note.updatedAt)}`}
+            </span>
+            {!note.parentId && (
+              <button type="button" className="text-blue-600 hover:underline" onClick={() => setIsReplying(!isReplying)}>
+                Reply
+              </button>
+            )}
+            <button
+              type="button"
+              className="text-blue-600 hover:underline"
+              onClick={() => {
+                setEditContent(note.content);
+                setEditCategory(note.category);
+                setEditVisibility(note.visibility);
+                setIsEditing(true);
+              }}
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              className="text-red-600 hover:underline"
+              onClick={handleDelete}
+              disabled={deleteNoteMutation.isPending}
+            >
+              Delete
+            </button>
+            {note.updatedAt && (
+              <button type="button" className="text-blue-600 hover:underline" onClick={() => setShowHistory(!showHistory)}>
+                {showHistory ? 'Hide history' : 'History'}
+              </button>
+            )}
+          </div>
+          {showHistory && <NoteRevisions caseId={caseId} noteId={note.id} />}
+        </>
+      )}
+
+      {mutationError && (
+        <p className="mt-2 text-xs text-red-600">{mutationError.message}</p>
+      )}
+
+      {/* Thread replies, oldest first */}
+      {(replies.length > 0 || isReplying) && (
+        <div className="mt-3 ml-4 space-y-2">
+          {replies.map((replyNote) => (
+            <NoteItem key={replyNote.id} caseId={caseId} note={replyNote} />
+          ))}
+          {isReplying && (
+            <div className="space-y-2">
+              <MentionTextarea
+                placeholder="Write a reply..."
+                rows={2}
+                className="w-full"
+                value={reply}
+                onChange={setReply}
+                disabled={addNoteMutation.isPending}
+              />
+              <div className="flex justify-end">
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={handleReply}
+                  disabled={!reply.trim()}
+                  loading={addNoteMutation.isPending}
+                >
+                  Reply
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const NotesSection: React.FC<NotesSectionProps> = ({ caseId }) => {
   const [newNote, setNewNote] = useState('');
+  const [category, setCategory] = useState<NoteCategory>('general');
+  const [visibility, setVisibility] = useState<NoteVisibility>('internal');
   const { data: notes, isLoading, error } = useCaseNotes(caseId);
   const addNoteMutation = useAddCaseNote();
 
   const handleAddNote = () => {
     if (newNote.trim()) {
-      addNoteMutation.mutate({ id: caseId, content: newNote.trim() });
+      addNoteMutation.mutate({ id: caseId, content: newNote.trim(), options: { category, visibility } });
       setNewNote('');
     }
   };
@@ -25,6 +268,12 @@ const NotesSection: React.FC<NotesSectionProps> = ({ caseId }) => {
     }
   };
 
+  // Notes arrive newest first; replies are shown under their thread in the order they were written
+  const noteIds = new Set(notes?.map(note => note.id));
+  const threads = notes?.filter(note => !note.parentId || !noteIds.has(note.parentId)) || [];
+  const repliesTo = (noteId: string) =>
+    (notes || []).filter(note => note.parentId === noteId).reverse();
+
   // Show loading state
   if (isLoading) {
     return (
@@ -46,24 +295,13 @@ const NotesSection: React.FC<NotesSectionProps> = ({ caseId }) => {
 
       {/* Existing notes */}
       <div className="space-y-3">
-        {!notes || notes.length === 0 ? (
+        {threads.length === 0 ? (
           <div className="text-center py-8">
             <p className="text-sm text-gray-500">No notes yet</p>
           </div>
         ) : (
-          notes.map((note) => (
-            <div key={note.id} className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <p className="text-sm text-gray-900">
-                    {note.content}
-                  </p>
-                  <div className="mt-2 text-xs text-gray-500">
-                    Added by {note.createdBy} • {formatDate(note.createdAt)}
-                  </div>
-                </div>
-              </div>
-            </div>
+          threads.map((note) => (
+            <NoteItem key={note.id} caseId={caseId} note={note} replies={repliesTo(note.id)} />
           ))
         )}
       </div>
@@ -71,18 +309,32 @@ const NotesSection: React.FC<NotesSectionProps> = ({ caseId }) => {
       {/* Add note form */}
       <div className="border-t border-gray-200 pt-4">
         <div className="space-y-3">
-          <Textarea
-            placeholder="Add a note to this case..."
+          <MentionTextarea
+            placeholder="Add a note to this case... Type @ to mention a colleague"
             rows={3}
             className="w-full"
             value={newNote}
-            onChange={(e) => setNewNote(e.target.value)}
+            onChange={setNewNote}
             onKeyDown={handleKeyPress}
             disabled={addNoteMutation.isPending}
           />
-          <div className="flex justify-end">
-            <Button 
-              variant="primary" 
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap gap-2">
+              <Select
+                aria-label="Note category"
+                options={CATEGORY_OPTIONS}
+                value={category}
+                onChange={(e) => setCategory(e.target.value as NoteCategory)}
+              />
+              <Select
+                aria-label="Note visibility"
+                options={VISIBILITY_OPTIONS}
+                value={visibility}
+                onChange={(e) => setVisibility(e.target.value as NoteVisibility)}
+              />
+            </div>
+            <Button
+              variant="primary"
               size="sm"
               onClick={handleAddNote}
               disabled={!newNote.trim() || addNoteMutation.isPending}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Badge, Button, Input, Select } from '@/components/ui';
+import { useUpdateCasePriority } from '@/hooks/useCases';
+import { CasePriority } from '@/types';
+import { getPriorityVariant, humanizeString } from '@/utils/formatting';
+
+interface PriorityControlProps {
+  caseId: string;
+  priority?: CasePriority;
+}
+
+const priorityOptions: { value: CasePriority; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'urgent', label: 'Urgent' },
+];
+
+const PriorityControl: React.FC<PriorityControlProps> = ({ caseId, priority }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [newPriority, setNewPriority] = useState<CasePriority>(priority || 'medium');
+  const [reason, setReason] = useState('');
+  const updatePriority = useUpdateCasePriority();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    updatePriority.mutate(
+      { id: caseId, priority: newPriority, reason: reason.trim() },
+      {
+        onSuccess: () => {
+          setIsEditing(false);
+          setReason('');
+        },
+      }
+    );
+  };
+
+  if (isEditing) {
+    return (
+      <form onSubmit={handleSubmit} className="mt-1 space-y-2">
+        <Select
+          aria-label="Priority"
+          options={priorityOptions}
+          value={newPriority}
+          onChange={(e) => setNewPriority(e.target.value as CasePriority)}
+        />
+        <Input
+          aria-label="Reason"
+          placeholder="Reason for the change"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          autoFocus
+        />
+        {updatePriority.error && (
+          <p className="text-sm text-red-600">Unable to update priority</p>
+        )}
+        <div className="flex gap-2">
+          <Button
+            type="submit"
+            size="sm"
+            loading={updatePriority.isPending}
+            disabled={!reason.trim() || newPriority === priority}
+          >
+            Save
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="mt-1 flex items-center gap-2 text-sm">
+      {priority ? (
+        <Badge variant={getPriorityVariant(priority)} size="sm">{humanizeString(priority)}</Badge>
+      ) : (
+        <span className="text-gray-500 italic">Not set</span>
+      )}
+      <button
+        type="button"
+        className="text-emerald-600 hover:text-emerald-700 font-medium"
+        onClick={() => {
+          setNewPriority(priority || 'medium');
+          setIsEditing(true);
+        }}
+      >
+        Change
+      </button>
+    </div>
+  );
+};
+
+export default PriorityControl;
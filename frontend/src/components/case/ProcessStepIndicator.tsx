@@ -1,95 +1,55 @@
 import React from 'react';
-import { ProcessStep, Case } from '@/types';
+import { Case, StepTransitionEvaluation } from '@/types';
+import { Button, LoadingSpinner, ErrorMessage } from '@/components/ui';
+import { useCaseWorkflow, useTransitionCaseStep } from '@/hooks/useCases';
 
 interface ProcessStepIndicatorProps {
   caseId: string;
   caseData?: Case;
 }
 
+/**
+ * Explain why a transition is currently unavailable
+ */
+const describeBlockedTransition = (transition: StepTransitionEvaluation): string => {
+  if (transition.reason === 'forbidden') {
+    return 'Requires supervisor approval';
+  }
+  return transition.failedGuards.map((failedGuard) => failedGuard.message).join('; ');
+};
+
 const ProcessStepIndicator: React.FC<ProcessStepIndicatorProps> = ({ caseId, caseData }) => {
-  // Define all possible steps in order
-  const allSteps = [
-    { step: ProcessStep.RECEIVED, label: 'Received', value: 'received' },
-    { step: ProcessStep.IN_REVIEW, label: 'In Review', value: 'in_review' },
-    { step: ProcessStep.ADDITIONAL_INFO_REQUIRED, label: 'Additional Info Required', value: 'additional_info_required' },
-    { step: ProcessStep.READY_FOR_DECISION, label: 'Ready for Decision', value: 'ready_for_decision' },
-    { step: ProcessStep.CONCLUDED, label: 'Concluded', value: 'concluded' },
-  ];
+  const { data, isLoading, error } = useCaseWorkflow(caseId);
+  const transitionStep = useTransitionCaseStep();
 
-  // If no case data, show placeholder
-  if (!caseData) {
-    const placeholderSteps = [
-      { step: ProcessStep.RECEIVED, label: 'Received', completed: true },
-      { step: ProcessStep.IN_REVIEW, label: 'In Review', completed: false, current: true },
-      { step: ProcessStep.ADDITIONAL_INFO_REQUIRED, label: 'Additional Info Required', completed: false },
-      { step: ProcessStep.READY_FOR_DECISION, label: 'Ready for Decision', completed: false },
-      { step: ProcessStep.CONCLUDED, label: 'Concluded', completed: false },
-    ];
-    
+  if (isLoading) {
     return (
-      <div className="space-y-4">
-        <p className="text-sm text-gray-600">
-          Process step indicator will be implemented in future tasks (Case: {caseId})
-        </p>
-        {/* Placeholder step visualization */}
-        <nav aria-label="Progress">
-          <ol className="space-y-4">
-            {placeholderSteps.map((stepInfo, stepIdx) => (
-              <li key={stepInfo.step} className="flex items-center">
-                <div className="flex items-center">
-                  <div
-                    className={`flex h-8 w-8 items-center justify-center rounded-full border-2 ${
-                      stepInfo.completed
-                        ? 'border-green-600 bg-green-600'
-                        : stepInfo.current
-                        ? 'border-blue-600 bg-blue-600'
-                        : 'border-gray-300 bg-white'
-                    }`}
-                  >
-                    {stepInfo.completed ? (
-                      <svg className="h-5 w-5 text-white" viewBox="0 0 20 20" fill="currentColor">
-                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                      </svg>
-                    ) : (
-                      <span className={`text-sm font-medium ${stepInfo.current ? 'text-white' : 'text-gray-500'}`}>
-                        {stepIdx + 1}
-                      </span>
-                    )}
-                  </div>
-                  <span className={`ml-3 text-sm font-medium ${stepInfo.current ? 'text-blue-600' : stepInfo.completed ? 'text-green-600' : 'text-gray-500'}`}>
-                    {stepInfo.label}
-                  </span>
-                </div>
-              </li>
-            ))}
-          </ol>
-        </nav>
+      <div className="text-center py-8">
+        <LoadingSpinner />
+        <p className="mt-2 text-sm text-gray-600">Loading workflow...</p>
       </div>
     );
   }
 
-  // Use real case data to determine step status
-  const currentStepValue = caseData.currentStep;
-  const steps = allSteps.map((stepInfo, stepIdx) => {
-    const stepValue = stepInfo.value;
-    const currentStepIndex = allSteps.findIndex(s => s.value === currentStepValue);
-    const isCompleted = stepIdx < currentStepIndex;
-    const isCurrent = stepValue === currentStepValue;
-    
-    return {
-      ...stepInfo,
-      completed: isCompleted,
-      current: isCurrent,
-    };
-  });
+  if (error || !data) {
+    return <ErrorMessage message="Unable to load case workflow" />;
+  }
+
+  // Prefer the cached case so the indicator updates as soon as a mutation returns
+  const currentStepValue = caseData?.currentStep ?? data.currentStep;
+  const currentStepIndex = data.workflow.steps.findIndex((s) => s.step === currentStepValue);
+  const steps = data.workflow.steps.map((stepInfo, stepIdx) => ({
+    ...stepInfo,
+    completed: stepIdx < currentStepIndex || (stepInfo.terminal && stepIdx === currentStepIndex),
+    current: stepIdx === currentStepIndex && !stepInfo.terminal,
+  }));
+
+  const handleTransition = (transition: StepTransitionEvaluation) => {
+    transitionStep.mutate({ id: caseId, step: transition.to });
+  };
 
   return (
     <div className="space-y-4">
-      <p className="text-sm text-gray-600">
-        Process step indicator will be implemented in future tasks (Case: {caseId})
-      </p>
-      
-      {/* Placeholder step visualization */}
       <nav aria-label="Progress">
         <ol className="space-y-4">
           {steps.map((stepInfo, stepIdx) => (
@@ -114,16 +74,52 @@ const ProcessStepIndicator: React.FC<ProcessStepIndicatorProps> = ({ caseId, cas
                     </span>
                   )}
                 </div>
-                <span className={`ml-3 text-sm font-medium ${stepInfo.current ? 'text-blue-600' : stepInfo.completed ? 'text-green-600' : 'text-gray-500'}`}>
-                  {stepInfo.label}
-                </span>
+                <div className="ml-3">
+                  <span className={`text-sm font-medium ${stepInfo.current ? 'text-blue-600' : stepInfo.completed ? 'text-green-600' : 'text-gray-500'}`}>
+                    {stepInfo.label}
+                  </span>
+                  {stepInfo.current && (
+                    <p className="text-xs text-gray-500">{stepInfo.description}</p>
+                  )}
+                </div>
               </div>
             </li>
           ))}
         </ol>
       </nav>
+
+      {data.availableTransitions.length > 0 && (
+        <div className="border-t border-gray-200 pt-4 space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {data.availableTransitions.map((transition) => (
+              <Button
+                key={transition.to}
+                variant="secondary"
+                size="sm"
+                disabled={!transition.allowed || transitionStep.isPending}
+                loading={transitionStep.isPending && transitionStep.variables?.step === transition.to}
+                title={transition.allowed ? undefined : describeBlockedTransition(transition)}
+                onClick={() => handleTransition(transition)}
+              >
+                {transition.label}
+              </Button>
+            ))}
+          </div>
+          {data.availableTransitions
+            .filter((transition) => !transition.allowed)
+            .map((transition) => (
+              <p key={transition.to} className="text-xs text-gray-500">
+                {transition.label}: {describeBlockedTransition(transition)}
+              </p>
+            ))}
+        </div>
+      )}
+
+      {transitionStep.error && (
+        <ErrorMessage message={transitionStep.error.message || 'Failed to update case step'} />
+      )}
     </div>
   );
 };
 
-export default ProcessStepIndicator;
\ No newline at end of file
+export default ProcessStepIndicator;
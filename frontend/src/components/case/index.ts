@@ -3,4 +3,10 @@ export { default as CaseHeader } from './CaseHeader';
 export { default as ProcessStepIndicator } from './ProcessStepIndicator';
 export { default as AIInsightPanel } from './AIInsightPanel';
 export { default as NotesSection } from './NotesSection';
-export { default as ActionButtons } from './ActionButtons';
\ No newline at end of file
+export { default as ActionButtons } from './ActionButtons';
+export { default as AuditTimeline } from './AuditTimeline';
+export { default as AssignmentControl } from './AssignmentControl';
+export { default as LinkedCases } from './LinkedCases';
+export { default as CaseTags } from './CaseTags';
+export { default as PriorityControl } from './PriorityControl';
+export { default as DocumentViewer } from './DocumentViewer';
\ No newline at end of file
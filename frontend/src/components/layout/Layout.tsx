@@ -1,4 +1,5 @@
 import { Outlet, Link, useLocation } from 'react-router-dom';
+import MentionsMenu from './MentionsMenu';
 
 const Layout = () => {
   const location = useLocation();
@@ -37,6 +38,7 @@ const Layout = () => {
                   ))}
                 </div>
               </div>
+              <MentionsMenu />
             </div>
           </div>
         </nav>
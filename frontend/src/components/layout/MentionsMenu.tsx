@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMyMentions, useMarkMentionsRead } from '@/hooks/useUsers';
+import { formatDate } from '@/utils/formatting';
+
+// Unread @mentions in case notes, with links to the cases
+const MentionsMenu = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { data } = useMyMentions();
+  const markReadMutation = useMarkMentionsRead();
+  const navigate = useNavigate();
+
+  const mentions = data?.mentions || [];
+  const unreadCount = data?.unreadCount || 0;
+
+  return (
+    <div className="relative flex items-center">
+      <button
+        type="button"
+        className="inline-flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium text-gray-500 hover:text-gray-700"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        Mentions
+        {unreadCount > 0 && (
+          <span className="rounded-full bg-red-600 px-2 py-0.5 text-xs font-semibold text-white">{unreadCount}</span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full z-20 mt-2 w-80 rounded-md border border-gray-200 bg-white shadow-lg">
+          <div className="flex items-center justify-between border-b border-gray-100 px-4 py-2">
+            <span className="text-sm font-medium text-gray-900">Mentions</span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                className="text-xs text-blue-600 hover:underline"
+                onClick={() => markReadMutation.mutate(undefined)}
+                disabled={markReadMutation.isPending}
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          {mentions.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">No mentions yet</p>
+          ) : (
+            <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+              {mentions.map((mention) => (
+                <li key={mention.id} className={mention.readAt ? '' : 'bg-blue-50'}>
+                  <button
+                    type="button"
+                    className="block w-full px-4 py-2 text-left hover:bg-gray-50"
+                    onClick={() => {
+                      if (!mention.readAt) {
+                        markReadMutation.mutate([mention.id]);
+                      }
+                      setIsOpen(false);
+                      navigate(`/cases/${mention.caseId}`);
+                    }}
+                  >
+                    <p className="text-xs text-gray-500">
+                      {mention.mentionedBy} • {formatDate(mention.createdAt)}
+                    </p>
+                    <p className="line-clamp-2 text-sm text-gray-900">{mention.excerpt}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MentionsMenu;
\ No newline at end of file
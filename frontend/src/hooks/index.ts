@@ -1,2 +1,5 @@
 export * from './useCases';
-export * from './useForm';
\ No newline at end of file
+export * from './useForm';
+export * from './useApplicationTypes';
+export * from './useTags';
+export * from './useUsers';
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { applicationTypeService } from '../services';
+
+// Query keys for React Query
+export const applicationTypeKeys = {
+  all: ['application-types'] as const,
+};
+
+// Hook to get all application type profiles
+export const useApplicationTypes = () => {
+  return useQuery({
+    queryKey: applicationTypeKeys.all,
+    queryFn: () => applicationTypeService.getApplicationTypes(),
+    staleTime: 1000 * 60 * 60, // 1 hour - profiles change only with deployments
+  });
+};
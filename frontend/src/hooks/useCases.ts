@@ -1,25 +1,50 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { QueryClient, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { caseService } from '../services';
-import { ApplicationData, CaseStatus } from '../types';
+import { ApplicationData, ApplicationDataUpdate, AuditTrailFilters, BulkCaseOperation, Case, CaseLinkType, CaseNoteOptions, CaseNoteUpdate, CaseListParams, DocumentReviewInput, CasePriority, CaseStatus, ProcessStep } from '../types';
 
 // Query keys for React Query
 export const caseKeys = {
   all: ['cases'] as const,
   lists: () => [...caseKeys.all, 'list'] as const,
   list: (filters: Record<string, any>) => [...caseKeys.lists(), { filters }] as const,
+  search: (q: string, page: number) => [...caseKeys.all, 'search', { q, page }] as const,
   details: () => [...caseKeys.all, 'detail'] as const,
   detail: (id: string) => [...caseKeys.details(), id] as const,
   aiSummary: (id: string) => [...caseKeys.detail(id), 'ai-summary'] as const,
-  auditTrail: (id: string) => [...caseKeys.detail(id), 'audit'] as const,
+  auditTrails: (id: string) => [...caseKeys.detail(id), 'audit'] as const,
+  auditTrail: (id: string, filters: Record<string, any> = {}) => [...caseKeys.auditTrails(id), { filters }] as const,
   notes: (id: string) => [...caseKeys.detail(id), 'notes'] as const,
+  noteRevisions: (id: string, noteId: string) => [...caseKeys.notes(id), noteId, 'revisions'] as const,
+  documents: (id: string) => [...caseKeys.detail(id), 'documents'] as const,
+  documentReviews: (id: string, documentId: string) => [...caseKeys.documents(id), documentId, 'reviews'] as const,
+  workflow: (id: string) => [...caseKeys.detail(id), 'workflow'] as const,
+  revisions: (id: string) => [...caseKeys.detail(id), 'revisions'] as const,
+  duplicates: (id: string) => [...caseKeys.detail(id), 'duplicates'] as const,
+  links: (id: string) => [...caseKeys.detail(id), 'links'] as const,
+};
+
+// Version of the case as the user last loaded it, sent with edits so stale ones are rejected.
+// Edits are only offered on a loaded case, so a missing version never falls back to overwriting.
+export const loadedVersion = (queryClient: QueryClient, id: string): number => {
+  const version = queryClient.getQueryData<Case>(caseKeys.detail(id))?.version;
+  if (version === undefined) {
+    throw new Error('Load the case before changing it');
+  }
+  return version;
+};
+
+// A 412 means someone else changed the case after it was loaded: offer to reload it
+export const promptCaseReload = (queryClient: QueryClient, id: string, error: unknown): void => {
+  if (axios.isAxiosError(error) && error.response?.status === 412
+    && window.confirm('This case was changed by someone else since you loaded it. Reload it to see the latest version?')) {
+    // Also refetches the case's audit trail, workflow and revisions
+    queryClient.invalidateQueries({ queryKey: caseKeys.detail(id) });
+  }
 };
 
 // Hook to get all cases
-export const useCases = (params?: {
-  status?: CaseStatus;
-  page?: number;
-  limit?: number;
-}) => {
+export const useCases = (params?: CaseListParams) => {
   return useQuery({
     queryKey: caseKeys.list(params || {}),
     queryFn: () => caseService.getCases(params),
@@ -53,15 +78,64 @@ export const useAISummary = (id: string) => {
 };
 
 // Hook to get audit trail for a case
-export const useAuditTrail = (id: string) => {
+export const useAuditTrail = (id: string, filters?: AuditTrailFilters) => {
   return useQuery({
-    queryKey: caseKeys.auditTrail(id),
-    queryFn: () => caseService.getAuditTrail(id),
+    queryKey: caseKeys.auditTrail(id, filters || {}),
+    queryFn: () => caseService.getAuditTrail(id, filters),
     enabled: !!id,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 };
 
+// Hook to search cases; disabled until the query has text
+export const useCaseSearch = (q: string, page: number = 1) => {
+  return useQuery({
+    queryKey: caseKeys.search(q, page),
+    queryFn: () => caseService.searchCases(q, { page }),
+    enabled: q.trim().length > 0,
+    staleTime: 1000 * 30, // 30 seconds
+  });
+};
+
+// Hook to get the application data revisions of a case
+export const useApplicationRevisions = (id: string) => {
+  return useQuery({
+    queryKey: caseKeys.revisions(id),
+    queryFn: () => caseService.getApplicationRevisions(id),
+    enabled: !!id,
+  });
+};
+
+// Hook to get potential duplicates of a case
+export const useCaseDuplicates = (id: string) => {
+  return useQuery({
+    queryKey: caseKeys.duplicates(id),
+    queryFn: () => caseService.getCaseDuplicates(id),
+    enabled: !!id,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+};
+
+// Hook to get cases linked to a case
+export const useLinkedCases = (id: string) => {
+  return useQuery({
+    queryKey: caseKeys.links(id),
+    queryFn: () => caseService.getLinkedCases(id),
+    enabled: !!id,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+};
+
+// Hook to get the workflow and available step transitions for a case
+export const useCaseWorkflow = (id: string) => {
+  return useQuery({
+    queryKey: caseKeys.workflow(id),
+    queryFn: () => caseService.getCaseWorkflow(id),
+    enabled: !!id,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+};
+
 // Hook to get notes for a case
 export const useCaseNotes = (id: string) => {
   return useQuery({
@@ -72,13 +146,49 @@ export const useCaseNotes = (id: string) => {
   });
 };
 
+// Hook to get the files uploaded to a case
+export const useCaseDocuments = (id: string) => {
+  return useQuery({
+    queryKey: caseKeys.documents(id),
+    queryFn: () => caseService.getCaseDocuments(id),
+    enabled: !!id,
+    staleTime: 1000 * 60 * 2, // 2 minutes
+  });
+};
+
+// Hook to get the review history of a document
+export const useDocumentReviews = (id: string, documentId: string, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: caseKeys.documentReviews(id, documentId),
+    queryFn: () => caseService.getDocumentReviews(id, documentId),
+    enabled: !!id && !!documentId && enabled,
+  });
+};
+
+// Hook to record a review decision on a document
+export const useReviewDocument = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, documentId, input }: { id: string; documentId: string; input: DocumentReviewInput }) =>
+      caseService.reviewDocument(id, documentId, input),
+    onSuccess: (document) => {
+      // Also refetches the review history of the document
+      queryClient.invalidateQueries({ queryKey: caseKeys.documents(document.caseId) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(document.caseId) });
+      // Unreviewed documents block the move to ready for decision
+      queryClient.invalidateQueries({ queryKey: caseKeys.workflow(document.caseId) });
+    },
+  });
+};
+
 // Hook to create a new case
 export const useCreateCase = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (applicationData: ApplicationData) => 
-      caseService.createCase(applicationData),
+    mutationFn: ({ applicationData, idempotencyKey }: { applicationData: ApplicationData; idempotencyKey?: string }) =>
+      caseService.createCase(applicationData, idempotencyKey),
     onSuccess: () => {
       // Invalidate and refetch cases list
       queryClient.invalidateQueries({ queryKey: caseKeys.lists() });
@@ -86,19 +196,120 @@ export const useCreateCase = () => {
   });
 };
 
+// Hook to soft delete a case
+export const useDeleteCase = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) =>
+      caseService.deleteCase(id, reason, loadedVersion(queryClient, id)),
+    onSuccess: (data) => {
+      queryClient.removeQueries({ queryKey: caseKeys.detail(data.id) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.lists() });
+    },
+    onError: (error, { id }) => promptCaseReload(queryClient, id, error),
+  });
+};
+
+// Hook to restore a soft-deleted case
+export const useRestoreCase = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) =>
+      caseService.restoreCase(id, reason, loadedVersion(queryClient, id)),
+    onSuccess: (data) => {
+      queryClient.setQueryData(caseKeys.detail(data.id), data);
+      queryClient.invalidateQueries({ queryKey: caseKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(data.id) });
+    },
+    onError: (error, { id }) => promptCaseReload(queryClient, id, error),
+  });
+};
+
+// Hook to override case priority
+export const useUpdateCasePriority = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, priority, reason }: { id: string; priority: CasePriority; reason: string }) =>
+      caseService.updateCasePriority(id, priority, reason, loadedVersion(queryClient, id)),
+    onSuccess: (data) => {
+      queryClient.setQueryData(caseKeys.detail(data.id), data);
+      queryClient.invalidateQueries({ queryKey: caseKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(data.id) });
+    },
+    onError: (error, { id }) => promptCaseReload(queryClient, id, error),
+  });
+};
+
 // Hook to update case status
 export const useUpdateCaseStatus = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: ({ id, status }: { id: string; status: CaseStatus }) =>
-      caseService.updateCaseStatus(id, status),
+      caseService.updateCaseStatus(id, status, loadedVersion(queryClient, id)),
     onSuccess: (data) => {
       // Update the specific case in cache
       queryClient.setQueryData(caseKeys.detail(data.id), data);
       // Invalidate cases list to reflect status change
       queryClient.invalidateQueries({ queryKey: caseKeys.lists() });
+      // Refresh the timeline with the new status change entry
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(data.id) });
+      // Status changes can move the step and close workflow guards
+      queryClient.invalidateQueries({ queryKey: caseKeys.workflow(data.id) });
+    },
+    onError: (error, { id }) => promptCaseReload(queryClient, id, error),
+  });
+};
+
+// Hook to move a case to another process step
+export const useTransitionCaseStep = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, step, reason }: { id: string; step: ProcessStep; reason?: string }) =>
+      caseService.transitionCaseStep(id, step, reason, loadedVersion(queryClient, id)),
+    onSuccess: (data) => {
+      // Update the specific case in cache
+      queryClient.setQueryData(caseKeys.detail(data.id), data);
+      // Available transitions depend on the new step
+      queryClient.invalidateQueries({ queryKey: caseKeys.workflow(data.id) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(data.id) });
+    },
+    onError: (error, { id }) => promptCaseReload(queryClient, id, error),
+  });
+};
+
+// Hook to assign, reassign or unassign a case
+export const useUpdateCaseAssignment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, action, assignedTo, reason }: {
+      id: string;
+      action: 'assign' | 'reassign' | 'unassign';
+      assignedTo?: string;
+      reason?: string;
+    }) => {
+      const version = loadedVersion(queryClient, id);
+      if (action === 'unassign') {
+        return caseService.unassignCase(id, reason, version);
+      }
+      return action === 'assign'
+        ? caseService.assignCase(id, assignedTo!, version)
+        : caseService.reassignCase(id, assignedTo!, reason, version);
+    },
+    onSuccess: (data) => {
+      // Update the specific case in cache
+      queryClient.setQueryData(caseKeys.detail(data.id), data);
+      // Assignee filters on the cases list depend on this
+      queryClient.invalidateQueries({ queryKey: caseKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(data.id) });
     },
+    onError: (error, { id }) => promptCaseReload(queryClient, id, error),
   });
 };
 
@@ -107,8 +318,8 @@ export const useAddCaseNote = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, content }: { id: string; content: string }) =>
-      caseService.addCaseNote(id, content),
+    mutationFn: ({ id, content, options }: { id: string; content: string; options?: CaseNoteOptions }) =>
+      caseService.addCaseNote(id, content, options),
     onSuccess: (data) => {
       // Update the specific case in cache
       queryClient.setQueryData(caseKeys.detail(data.id), data);
@@ -116,6 +327,52 @@ export const useAddCaseNote = () => {
       queryClient.invalidateQueries({ queryKey: caseKeys.notes(data.id) });
       // Invalidate AI summary as it may need to be regenerated
       queryClient.invalidateQueries({ queryKey: caseKeys.aiSummary(data.id) });
+      // Refresh the timeline with the note and AI regeneration entries
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(data.id) });
+      // Notes can satisfy workflow guards
+      queryClient.invalidateQueries({ queryKey: caseKeys.workflow(data.id) });
+    },
+  });
+};
+
+// Hook to get the content history of an edited note
+export const useCaseNoteRevisions = (id: string, noteId: string, enabled: boolean = true) => {
+  return useQuery({
+    queryKey: caseKeys.noteRevisions(id, noteId),
+    queryFn: () => caseService.getCaseNoteRevisions(id, noteId),
+    enabled: !!id && !!noteId && enabled,
+  });
+};
+
+// Hook to edit a case note
+export const useUpdateCaseNote = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, noteId, update }: { id: string; noteId: string; update: CaseNoteUpdate }) =>
+      caseService.updateCaseNote(id, noteId, update),
+    onSuccess: (data) => {
+      queryClient.setQueryData(caseKeys.detail(data.id), data);
+      // Also refetches the revisions of the edited note
+      queryClient.invalidateQueries({ queryKey: caseKeys.notes(data.id) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(data.id) });
+    },
+  });
+};
+
+// Hook to soft delete a case note
+export const useDeleteCaseNote = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, noteId, reason }: { id: string; noteId: string; reason: string }) =>
+      caseService.deleteCaseNote(id, noteId, reason),
+    onSuccess: (data) => {
+      queryClient.setQueryData(caseKeys.detail(data.id), data);
+      queryClient.invalidateQueries({ queryKey: caseKeys.notes(data.id) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(data.id) });
+      // Notes can satisfy workflow guards
+      queryClient.invalidateQueries({ queryKey: caseKeys.workflow(data.id) });
     },
   });
 };
@@ -140,4 +397,79 @@ export const useRefreshAIInsights = () => {
       console.error('useRefreshAIInsights: Refresh failed for case:', id, 'Error:', error);
     },
   });
-};
\ No newline at end of file
+};
+
+// Hook to edit application data or restore an earlier revision
+export const useUpdateApplicationData = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, update, restoreVersion }: { id: string; update?: ApplicationDataUpdate; restoreVersion?: number }) =>
+      restoreVersion !== undefined
+        ? caseService.restoreApplicationRevision(id, restoreVersion, update?.reason, loadedVersion(queryClient, id))
+        : caseService.updateApplicationData(id, update || {}, loadedVersion(queryClient, id)),
+    onSuccess: (data) => {
+      queryClient.setQueryData(caseKeys.detail(data.id), data);
+      queryClient.invalidateQueries({ queryKey: caseKeys.revisions(data.id) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(data.id) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.lists() });
+    },
+    onError: (error, { id }) => promptCaseReload(queryClient, id, error),
+  });
+};
+
+// Hook to merge a duplicate case into the surviving case
+export const useMergeCase = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, duplicateCaseId, reason }: { id: string; duplicateCaseId: string; reason?: string }) =>
+      caseService.mergeCase(id, duplicateCaseId, reason, loadedVersion(queryClient, id)),
+    onSuccess: (data) => {
+      queryClient.setQueryData(caseKeys.detail(data.case.id), data.case);
+      // Both cases changed: notes and history moved and the duplicate was withdrawn
+      queryClient.invalidateQueries({ queryKey: caseKeys.detail(data.mergedCaseId) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.duplicates(data.case.id) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(data.case.id) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.notes(data.case.id) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.lists() });
+    },
+    onError: (error, { id }) => promptCaseReload(queryClient, id, error),
+  });
+};
+
+// Hook to link a case to another case
+export const useLinkCase = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, linkedCaseId, type, note }: { id: string; linkedCaseId: string; type: CaseLinkType; note?: string }) =>
+      caseService.linkCase(id, linkedCaseId, type, note),
+    onSuccess: (_data, variables) => {
+      // The link is listed and audited on both cases
+      [variables.id, variables.linkedCaseId].forEach(caseId => {
+        queryClient.invalidateQueries({ queryKey: caseKeys.links(caseId) });
+        queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(caseId) });
+      });
+    },
+  });
+};
+
+// Hook to apply a bulk status change or assignment
+export const useBulkUpdateCases = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ caseIds, operation }: { caseIds: string[]; operation: BulkCaseOperation }) =>
+      caseService.bulkUpdateCases(caseIds, operation),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: caseKeys.lists() });
+      data.results
+        .filter(result => result.success)
+        .forEach(result => {
+          queryClient.invalidateQueries({ queryKey: caseKeys.detail(result.caseId) });
+          queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(result.caseId) });
+        });
+    },
+  });
+};
@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { caseService, tagService } from '../services';
+import { TagInput } from '../types';
+import { caseKeys, loadedVersion, promptCaseReload } from './useCases';
+
+// Query keys for React Query
+export const tagKeys = {
+  all: ['tags'] as const,
+};
+
+// Hook to get all tags
+export const useTags = () => {
+  return useQuery({
+    queryKey: tagKeys.all,
+    queryFn: () => tagService.getTags(),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+};
+
+// Hook to create a tag
+export const useCreateTag = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: TagInput) => tagService.createTag(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+  });
+};
+
+// Hook to tag or untag a case
+export const useChangeCaseTag = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, tagId, action }: { id: string; tagId: string; action: 'add' | 'remove' }) => {
+      const version = loadedVersion(queryClient, id);
+      return action === 'add' ? caseService.addCaseTag(id, tagId, version) : caseService.removeCaseTag(id, tagId, version);
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(caseKeys.detail(data.id), data);
+      queryClient.invalidateQueries({ queryKey: caseKeys.auditTrails(data.id) });
+      queryClient.invalidateQueries({ queryKey: caseKeys.lists() });
+      // Case counts per tag have changed
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+    onError: (error, { id }) => promptCaseReload(queryClient, id, error),
+  });
+};
@@ -0,0 +1,38 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { userService } from '../services';
+
+// Query keys for React Query
+export const userKeys = {
+  all: ['users'] as const,
+  mentions: () => [...userKeys.all, 'me', 'mentions'] as const,
+};
+
+// Hook to get the users who can be @mentioned
+export const useUsers = () => {
+  return useQuery({
+    queryKey: userKeys.all,
+    queryFn: () => userService.getUsers(),
+    staleTime: 1000 * 60 * 60, // 1 hour - the directory changes only with deployments
+  });
+};
+
+// Hook to get the current user's mentions
+export const useMyMentions = () => {
+  return useQuery({
+    queryKey: userKeys.mentions(),
+    queryFn: () => userService.getMyMentions(),
+    refetchInterval: 1000 * 60, // Poll for new mentions every minute
+  });
+};
+
+// Hook to mark mentions read
+export const useMarkMentionsRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (mentionIds?: string[]) => userService.markMentionsRead(mentionIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: userKeys.mentions() });
+    },
+  });
+};
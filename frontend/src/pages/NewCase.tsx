@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, Button, Input, Textarea, Select } from '@/components/ui';
 import { caseService } from '@/services/caseService';
+import { useApplicationTypes } from '@/hooks/useApplicationTypes';
 import { ApplicationData } from '@/types';
 
 interface NewCaseFormData {
@@ -29,6 +30,8 @@ interface NewCaseFormData {
   // Documents
   documents: File[];
   documentDescriptions: string[];
+  // Required document of the application type each file provides
+  documentTypes: string[];
 }
 
 interface ValidationErrors {
@@ -60,7 +63,8 @@ const NewCase = () => {
     applicationCategory: '',
     caseSummary: '',
     documents: [],
-    documentDescriptions: []
+    documentDescriptions: [],
+    documentTypes: []
   });
 
   const [errors, setErrors] = useState<ValidationErrors>({});
@@ -77,6 +81,18 @@ const NewCase = () => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitSuccess, setSubmitSuccess] = useState<string | null>(null);
+  // A retried or double-clicked submit resends the same payload under the same Idempotency-Key,
+  // so the backend replays the first response instead of creating a duplicate case
+  const pendingSubmission = useRef<{ idempotencyKey: string; applicationData: ApplicationData } | null>(null);
+
+  // Editing the form after a failed submit makes it a new request
+  useEffect(() => {
+    pendingSubmission.current = null;
+  }, [formData]);
+
+  // Application types, categories and requirements come from the backend profiles
+  const { data: applicationTypes = [], isLoading: applicationTypesLoading } = useApplicationTypes();
+  const selectedProfile = applicationTypes.find(profile => profile.type === formData.applicationType);
 
   // Form steps for progress indicator
   const formSteps = [
@@ -139,12 +155,12 @@ const NewCase = () => {
     documents: (files: File[]) => {
       if (files.length === 0) return 'At least one document is required';
       
-      const allowedTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'image/jpeg', 'image/png'];
+      const allowedTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'image/jpeg', 'image/png', 'text/plain'];
       const maxSize = 10 * 1024 * 1024; // 10MB
       
       for (const file of files) {
         if (!allowedTypes.includes(file.type)) {
-          return 'Only PDF, DOC, DOCX, JPG, and PNG files are allowed';
+          return 'Only PDF, DOC, DOCX, JPG, PNG and TXT files are allowed';
         }
         if (file.size > maxSize) {
           return 'Each file must be less than 10MB';
@@ -174,9 +190,9 @@ const NewCase = () => {
   const handleInputChange = (field: keyof NewCaseFormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     
-    // Reset application category when application type changes
+    // Reset application category and document types when application type changes
     if (field === 'applicationType') {
-      setFormData(prev => ({ ...prev, applicationCategory: '' }));
+      setFormData(prev => ({ ...prev, applicationCategory: '', documentTypes: [] }));
       setErrors(prev => ({ ...prev, applicationCategory: '' }));
     }
     
@@ -242,41 +258,6 @@ const NewCase = () => {
       }
     });
     
-    // Simulate upload progress for each file
-    newFiles.forEach(file => {
-      const fileName = file.name;
-      setFileUploadStatus(prev => ({
-        ...prev,
-        [fileName]: { progress: 0, status: 'uploading' }
-      }));
-      
-      // Simulate upload progress with proper state management
-      let progress = 0;
-      const simulateUpload = () => {
-        progress += 10;
-        setFileUploadStatus(prev => {
-          if (progress >= 100) {
-            return {
-              ...prev,
-              [fileName]: { progress: 100, status: 'success' }
-            };
-          } else {
-            return {
-              ...prev,
-              [fileName]: { progress, status: 'uploading' }
-            };
-          }
-        });
-        
-        if (progress < 100) {
-          setTimeout(simulateUpload, 200);
-        }
-      };
-      
-      // Start the simulation immediately
-      simulateUpload();
-    });
-    
     // Validate files
     const error = validateField('documents', updatedFiles);
     setErrors(prev => ({
@@ -289,6 +270,7 @@ const NewCase = () => {
     const fileToRemove = formData.documents[index];
     const updatedFiles = formData.documents.filter((_, i) => i !== index);
     const updatedDescriptions = formData.documentDescriptions.filter((_, i) => i !== index);
+    const updatedTypes = formData.documentTypes.filter((_, i) => i !== index);
     
     // Clean up preview URL and upload status
     if (fileToRemove) {
@@ -307,7 +289,8 @@ const NewCase = () => {
     setFormData(prev => ({ 
       ...prev, 
       documents: updatedFiles,
-      documentDescriptions: updatedDescriptions
+      documentDescriptions: updatedDescriptions,
+      documentTypes: updatedTypes
     }));
     
     // Validate files
@@ -324,6 +307,12 @@ const NewCase = () => {
     setFormData(prev => ({ ...prev, documentDescriptions: updatedDescriptions }));
   };
 
+  const handleDocumentTypeChange = (index: number, documentType: string) => {
+    const updatedTypes = [...formData.documentTypes];
+    updatedTypes[index] = documentType;
+    setFormData(prev => ({ ...prev, documentTypes: updatedTypes }));
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -393,6 +382,14 @@ const NewCase = () => {
       }
     });
 
+    // Fields the selected application type additionally requires
+    selectedProfile?.requiredFields.forEach(({ field, label }) => {
+      const value = formData[field as keyof NewCaseFormData];
+      if (!newErrors[field] && typeof value === 'string' && !value.trim()) {
+        newErrors[field] = `${label} is required for ${selectedProfile.label}`;
+      }
+    });
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -420,19 +417,13 @@ const NewCase = () => {
     
     try {
       // Transform form data to match backend ApplicationData interface
-      const applicationData: ApplicationData = {
+      const applicationData: ApplicationData = pendingSubmission.current?.applicationData ?? {
         applicantName: formData.applicantName,
         applicantEmail: formData.applicantEmail,
         applicationType: formData.applicationType,
         submissionDate: new Date(),
-        documents: formData.documents.map((file, index) => ({
-          id: `doc_${Date.now()}_${index}`,
-          filename: file.name,
-          path: `/uploads/${file.name}`, // This would be set by backend after upload
-          uploadedAt: new Date(),
-          size: file.size,
-          mimeType: file.type
-        })),
+        // Uploaded to the case once it exists
+        documents: [],
         formData: {
           applicantFirm: formData.applicantFirm,
           phoneNumber: formData.phoneNumber,
@@ -448,12 +439,46 @@ const NewCase = () => {
         }
       };
 
+      const idempotencyKey = pendingSubmission.current?.idempotencyKey ?? crypto.randomUUID();
+      pendingSubmission.current = { idempotencyKey, applicationData };
+
       console.log('Submitting application data:', applicationData);
       
       // Submit to backend API with timeout handling
-      const newCase = await caseService.createCase(applicationData);
+      const newCase = await caseService.createCase(applicationData, idempotencyKey);
       
       console.log('Case created successfully:', newCase);
+
+      // Seed the priority from an analysis of the saved application; the case is usable without it
+      caseService.analyzeCase(newCase.id).catch(error => console.warn('Failed to seed case priority:', error));
+
+      // Upload the documents one at a time; files already uploaded by an earlier attempt are skipped
+      const failedUploads: string[] = [];
+      for (const [index, file] of formData.documents.entries()) {
+        if (fileUploadStatus[file.name]?.status === 'success') {
+          continue;
+        }
+        setFileUploadStatus(prev => ({ ...prev, [file.name]: { progress: 0, status: 'uploading' } }));
+        try {
+          await caseService.uploadDocument(newCase.id, file, {
+            description: formData.documentDescriptions[index],
+            documentType: formData.documentTypes[index],
+            onProgress: (progress) => setFileUploadStatus(prev => ({ ...prev, [file.name]: { progress, status: 'uploading' } })),
+          });
+          setFileUploadStatus(prev => ({ ...prev, [file.name]: { progress: 100, status: 'success' } }));
+        } catch (uploadError) {
+          failedUploads.push(file.name);
+          setFileUploadStatus(prev => ({
+            ...prev,
+            [file.name]: { progress: 0, status: 'error', error: uploadError instanceof Error ? uploadError.message : 'Upload failed' },
+          }));
+        }
+      }
+
+      if (failedUploads.length > 0) {
+        setSubmitError(`Case ${newCase.id} was created, but ${failedUploads.join(', ')} could not be uploaded. Submit again to retry the upload.`);
+        return;
+      }
       
       // Show success message
       setSubmitSuccess(`Case created successfully! Case ID: ${newCase.id}`);
@@ -501,7 +526,8 @@ const NewCase = () => {
       applicationCategory: '',
       caseSummary: '',
       documents: [],
-      documentDescriptions: []
+      documentDescriptions: [],
+      documentTypes: []
     });
     setErrors({});
     setTouched(new Set());
@@ -522,82 +548,16 @@ const NewCase = () => {
 
   // Helper function to get category options based on application type
   const getCategoryOptions = (applicationType: string) => {
-    switch (applicationType) {
-      case 'visa':
-        return [
-          { value: "tourist", label: "Tourist Visa" },
-          { value: "business", label: "Business Visa" },
-          { value: "student", label: "Student Visa" },
-          { value: "work", label: "Work Visa" },
-          { value: "family", label: "Family Visa" }
-        ];
-      case 'work_permit':
-        return [
-          { value: "skilled_worker", label: "Skilled Worker" },
-          { value: "temporary_worker", label: "Temporary Worker" },
-          { value: "seasonal_worker", label: "Seasonal Worker" },
-          { value: "intracompany", label: "Intra-company Transfer" }
-        ];
-      case 'residence_permit':
-        return [
-          { value: "permanent", label: "Permanent Residence" },
-          { value: "temporary", label: "Temporary Residence" },
-          { value: "family", label: "Family Residence" },
-          { value: "refugee", label: "Refugee Status" }
-        ];
-      case 'citizenship':
-        return [
-          { value: "naturalization", label: "Naturalization" },
-          { value: "birth", label: "Birth Right" },
-          { value: "marriage", label: "Marriage" },
-          { value: "investment", label: "Investment" }
-        ];
-      case 'other':
-        return [
-          { value: "special_case", label: "Special Case" },
-          { value: "appeal", label: "Appeal" },
-          { value: "renewal", label: "Renewal" }
-        ];
-      default:
-        return [];
-    }
+    const profile = applicationTypes.find(p => p.type === applicationType);
+    return (profile?.categories || []).map(({ value, label }) => ({ value, label }));
   };
 
   // Helper function to get processing time based on type and category
   const getProcessingTime = (applicationType: string, applicationCategory: string) => {
-    const processingTimes: { [key: string]: { [key: string]: string } } = {
-      visa: {
-        tourist: "2-4 weeks",
-        business: "4-8 weeks",
-        student: "6-12 weeks",
-        work: "8-16 weeks"
-      },
-      work_permit: {
-        skilled_worker: "8-16 weeks",
-        temporary_worker: "4-8 weeks",
-        seasonal_worker: "2-6 weeks",
-        intracompany: "6-12 weeks"
-      },
-      residence_permit: {
-        permanent: "12-24 months",
-        temporary: "6-12 months",
-        family: "8-16 months",
-        refugee: "18-36 months"
-      },
-      citizenship: {
-        naturalization: "12-18 months",
-        birth: "6-12 months",
-        marriage: "8-16 months",
-        investment: "12-24 months"
-      },
-      other: {
-        special_case: "Varies",
-        appeal: "6-12 months",
-        renewal: "2-4 weeks"
-      }
-    };
-    
-    return processingTimes[applicationType]?.[applicationCategory] || "Processing time varies";
+    const profile = applicationTypes.find(p => p.type === applicationType);
+    if (!profile) return "Processing time varies";
+    const category = profile.categories.find(c => c.value === applicationCategory);
+    return category?.processingTime || profile.defaultProcessingTime;
   };
 
   // AI Analysis function
@@ -1134,14 +1094,9 @@ const NewCase = () => {
                         onBlur={() => handleFieldBlur('applicationType')}
                         error={touched.has('applicationType') ? errors.applicationType : undefined}
                         className={isFieldCompleted('applicationType', formData.applicationType) ? 'field-completed' : ''}
-                        placeholder="Select application type"
-                        options={[
-                          { value: "visa", label: "Visa Application" },
-                          { value: "work_permit", label: "Work Permit" },
-                          { value: "residence_permit", label: "Residence Permit" },
-                          { value: "citizenship", label: "Citizenship" },
-                          { value: "other", label: "Other" }
-                        ]}
+                        placeholder={applicationTypesLoading ? "Loading application types..." : "Select application type"}
+                        disabled={applicationTypesLoading}
+                        options={applicationTypes.map(profile => ({ value: profile.type, label: profile.label }))}
                       />
                       {isFieldCompleted('applicationType', formData.applicationType) && (
                         <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
@@ -1194,6 +1149,21 @@ const NewCase = () => {
                      </div>
                    </div>
                  </div>
+
+                {/* Required Documents for the selected application type */}
+                {selectedProfile && selectedProfile.requiredDocuments.length > 0 && (
+                  <div className="mt-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
+                    <h4 className="text-sm font-medium text-gray-800">Documents required for {selectedProfile.label}</h4>
+                    <ul className="mt-2 space-y-1 text-sm text-gray-600 list-disc list-inside">
+                      {selectedProfile.requiredDocuments.map(document => (
+                        <li key={document.type}>
+                          {document.label}
+                          {document.description && <span className="text-gray-500"> — {document.description}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </Card>
 
@@ -1288,12 +1258,12 @@ const NewCase = () => {
                       Drop files here or click to upload
                     </p>
                     <p className="text-sm text-gray-500 mb-4">
-                      PDF, DOC, DOCX, JPG, PNG files up to 10MB each
+                      PDF, DOC, DOCX, JPG, PNG, TXT files up to 10MB each
                     </p>
                     <input
                       type="file"
                       multiple
-                      accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
+                      accept=".pdf,.doc,.docx,.jpg,.jpeg,.png,.txt"
                       onChange={(e) => handleFileUpload(e.target.files)}
                       className="hidden"
                       id="file-upload"
@@ -1390,6 +1360,24 @@ const NewCase = () => {
                                 </div>
                               )}
                               
+                              {/* Document Type */}
+                              {selectedProfile && selectedProfile.requiredDocuments.length > 0 && (
+                                <div className="mb-3">
+                                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                                    Document Type (optional)
+                                  </label>
+                                  <Select
+                                    value={formData.documentTypes[index] || ''}
+                                    onChange={(e) => handleDocumentTypeChange(index, e.target.value)}
+                                    options={[
+                                      { value: '', label: 'Other supporting document' },
+                                      ...selectedProfile.requiredDocuments.map(document => ({ value: document.type, label: document.label }))
+                                    ]}
+                                    className="text-sm"
+                                  />
+                                </div>
+                              )}
+
                               {/* Description Input */}
                               <div>
                                 <label className="block text-xs font-medium text-gray-700 mb-1">
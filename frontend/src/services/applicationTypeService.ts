@@ -0,0 +1,10 @@
+import api from './api';
+import { ApplicationTypeProfile } from '../types';
+
+export const applicationTypeService = {
+  // Get all application type profiles
+  getApplicationTypes: async (): Promise<ApplicationTypeProfile[]> => {
+    const response = await api.get('/application-types');
+    return response.data.data.applicationTypes;
+  },
+};
@@ -1,14 +1,20 @@
 import api from './api';
-import { Case, ApplicationData, CaseStatus } from '../types';
+import { Case, CaseNote, CaseNoteOptions, CaseNoteUpdate, CaseNoteRevision, CaseDocumentRecord, CaseDocumentReview, DocumentReviewInput, CaseListItem, CaseListParams, CaseSearchResponse, ApplicationDataUpdate, ApplicationRevision, BulkCaseOperation, CaseMergeResult, DuplicateMatch, CaseLinkType, LinkedCase, BulkCaseResponse, ApplicationData, CaseStatus, CasePriority, ProcessStep, AuditEntry, AuditTrailFilters, CaseWorkflow } from '../types';
+
+// Send the case version a change is based on so the API can reject it if someone saved in between
+const ifMatch = (version: number) => ({ headers: { 'If-Match': `"${version}"` } });
 
 export const caseService = {
   // Get all cases with optional filtering
-  getCases: async (params?: {
-    status?: CaseStatus;
-    page?: number;
-    limit?: number;
-  }): Promise<{ cases: Case[]; total: number; page: number; limit: number }> => {
-    const response = await api.get('/cases', { params });
+  getCases: async (params?: CaseListParams): Promise<{ cases: CaseListItem[]; total: number; page: number; limit: number }> => {
+    // The API takes tag names as a single comma-separated value
+    const response = await api.get('/cases', { params: { ...params, tags: params?.tags?.join(',') || undefined } });
+    return response.data.data;
+  },
+
+  // Full-text search across applications, notes and AI summaries
+  searchCases: async (q: string, params?: { page?: number; limit?: number }): Promise<CaseSearchResponse> => {
+    const response = await api.get('/cases/search', { params: { q, ...params } });
     return response.data.data;
   },
 
@@ -18,10 +24,10 @@ export const caseService = {
     return response.data.data.case;
   },
 
-  // Create a new case
-  createCase: async (applicationData: ApplicationData): Promise<Case> => {
+  // Create a new case; retries with the same idempotency key return the case created by the first attempt
+  createCase: async (applicationData: ApplicationData, idempotencyKey?: string): Promise<Case> => {
     try {
-      const response = await api.post('/cases', { applicationData });
+      const response = await api.post('/cases', { applicationData }, idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined);
       
       // Handle the response structure from backend
       if (response.data && response.data.success && response.data.data && response.data.data.case) {
@@ -39,23 +45,241 @@ export const caseService = {
   },
 
   // Update case status
-  updateCaseStatus: async (id: string, status: CaseStatus): Promise<Case> => {
-    const response = await api.put(`/cases/${id}/status`, { status });
+  updateCaseStatus: async (id: string, status: CaseStatus, version: number): Promise<Case> => {
+    const response = await api.put(`/cases/${id}/status`, { status }, ifMatch(version));
+    return response.data.data.case;
+  },
+
+  // Soft delete a case (admins only)
+  deleteCase: async (id: string, reason: string | undefined, version: number): Promise<Case> => {
+    const response = await api.delete(`/cases/${id}`, { data: { reason }, ...ifMatch(version) });
     return response.data.data.case;
   },
 
-  // Add a note to a case
-  addCaseNote: async (id: string, content: string): Promise<Case> => {
-    const response = await api.post(`/cases/${id}/notes`, { content });
+  // Restore a soft-deleted case (admins only)
+  restoreCase: async (id: string, reason: string | undefined, version: number): Promise<Case> => {
+    const response = await api.post(`/cases/${id}/restore`, { reason }, ifMatch(version));
+    return response.data.data.case;
+  },
+
+  // Override the priority of a case, giving a reason for the audit trail
+  updateCasePriority: async (id: string, priority: CasePriority, reason: string, version: number): Promise<Case> => {
+    const response = await api.put(`/cases/${id}/priority`, { priority, reason }, ifMatch(version));
+    return response.data.data.case;
+  },
+
+  // Assign an unassigned case to a caseworker
+  assignCase: async (id: string, assignedTo: string, version: number): Promise<Case> => {
+    const response = await api.post(`/cases/${id}/assign`, { assignedTo }, ifMatch(version));
+    return response.data.data.case;
+  },
+
+  // Move an assigned case to a different caseworker
+  reassignCase: async (id: string, assignedTo: string, reason: string | undefined, version: number): Promise<Case> => {
+    const response = await api.post(`/cases/${id}/reassign`, { assignedTo, reason }, ifMatch(version));
+    return response.data.data.case;
+  },
+
+  // Return a case to the unassigned queue
+  unassignCase: async (id: string, reason: string | undefined, version: number): Promise<Case> => {
+    const response = await api.post(`/cases/${id}/unassign`, { reason }, ifMatch(version));
+    return response.data.data.case;
+  },
+
+  // Correct applicant details or form data; each edit is stored as a revision
+  updateApplicationData: async (id: string, update: ApplicationDataUpdate, version: number): Promise<Case> => {
+    const response = await api.patch(`/cases/${id}/application`, update, ifMatch(version));
+    return response.data.data.case;
+  },
+
+  // Get every version of a case's application data, oldest first
+  getApplicationRevisions: async (id: string): Promise<ApplicationRevision[]> => {
+    const response = await api.get(`/cases/${id}/application/revisions`);
+    return response.data.data.revisions;
+  },
+
+  // Restore the application data of an earlier revision
+  restoreApplicationRevision: async (id: string, revision: number, reason: string | undefined, version: number): Promise<Case> => {
+    const response = await api.post(`/cases/${id}/application/revisions/${revision}/restore`, { reason }, ifMatch(version));
     return response.data.data.case;
   },
 
-  // Get notes for a case
-  getCaseNotes: async (id: string): Promise<any[]> => {
+  // Find existing cases that may be duplicates of this one
+  getCaseDuplicates: async (id: string): Promise<DuplicateMatch[]> => {
+    const response = await api.get(`/cases/${id}/duplicates`);
+    return response.data.data.duplicates;
+  },
+
+  // Merge a duplicate case into this one
+  mergeCase: async (id: string, duplicateCaseId: string, reason: string | undefined, version: number): Promise<CaseMergeResult> => {
+    const response = await api.post(`/cases/${id}/merge`, { duplicateCaseId, reason }, ifMatch(version));
+    return response.data.data;
+  },
+
+  // Get appeals, renewals and other cases linked to a case
+  getLinkedCases: async (id: string): Promise<LinkedCase[]> => {
+    const response = await api.get(`/cases/${id}/links`);
+    return response.data.data.links;
+  },
+
+  // Link a case to another case, e.g. as an appeal of it
+  linkCase: async (id: string, linkedCaseId: string, type: CaseLinkType, note?: string): Promise<LinkedCase> => {
+    const response = await api.post(`/cases/${id}/links`, { linkedCaseId, type, note });
+    return response.data.data.link;
+  },
+
+  // Tag a case
+  addCaseTag: async (id: string, tagId: string, version: number): Promise<Case> => {
+    const response = await api.post(`/cases/${id}/tags`, { tagId }, ifMatch(version));
+    return response.data.data.case;
+  },
+
+  // Remove a tag from a case
+  removeCaseTag: async (id: string, tagId: string, version: number): Promise<Case> => {
+    const response = await api.delete(`/cases/${id}/tags/${tagId}`, ifMatch(version));
+    return response.data.data.case;
+  },
+
+  // Apply a status change, assignment or tag to several cases; each case gets its own result
+  bulkUpdateCases: async (caseIds: string[], operation: BulkCaseOperation): Promise<BulkCaseResponse> => {
+    const response = await api.post('/cases/bulk', { caseIds, operation });
+    return response.data.data;
+  },
+
+  // Get the workflow governing a case and the step transitions currently available
+  getCaseWorkflow: async (id: string): Promise<CaseWorkflow> => {
+    const response = await api.get(`/cases/${id}/workflow`);
+    return response.data.data;
+  },
+
+  // Move a case to another process step
+  transitionCaseStep: async (id: string, step: ProcessStep, reason: string | undefined, version: number): Promise<Case> => {
+    try {
+      const response = await api.post(`/cases/${id}/step`, { step, reason }, ifMatch(version));
+      return response.data.data.case;
+    } catch (error: any) {
+      // Conflicts are passed on as they are so the hooks can offer a reload
+      if (error.response?.data?.error && error.response.status !== 412) {
+        throw new Error(error.response.data.error.message || 'Failed to update case step');
+      }
+      throw error;
+    }
+  },
+
+  // Add a note to a case, optionally as a reply with a category and visibility
+  addCaseNote: async (id: string, content: string, options?: CaseNoteOptions): Promise<Case> => {
+    const response = await api.post(`/cases/${id}/notes`, { content, ...options });
+    return response.data.data.case;
+  },
+
+  // Get notes for a case, including deleted ones
+  getCaseNotes: async (id: string): Promise<CaseNote[]> => {
     const response = await api.get(`/cases/${id}/notes`);
     return response.data.data.notes;
   },
 
+  // Edit a note (author only)
+  updateCaseNote: async (id: string, noteId: string, update: CaseNoteUpdate): Promise<Case> => {
+    try {
+      const response = await api.patch(`/cases/${id}/notes/${noteId}`, update);
+      return response.data.data.case;
+    } catch (error: any) {
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error.message || 'Failed to update note');
+      }
+      throw error;
+    }
+  },
+
+  // Soft delete a note with a reason
+  deleteCaseNote: async (id: string, noteId: string, reason: string): Promise<Case> => {
+    try {
+      const response = await api.delete(`/cases/${id}/notes/${noteId}`, { data: { reason } });
+      return response.data.data.case;
+    } catch (error: any) {
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error.message || 'Failed to delete note');
+      }
+      throw error;
+    }
+  },
+
+  // Upload a file to a case; the server checks its real type and size
+  uploadDocument: async (
+    id: string,
+    file: File,
+    options: {
+      description?: string;
+      documentType?: string;
+      replacesDocumentId?: string;
+      onProgress?: (percent: number) => void;
+    } = {}
+  ): Promise<{ case: Case; document: CaseDocumentRecord }> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (options.description) {
+      formData.append('description', options.description);
+    }
+    if (options.documentType) {
+      formData.append('documentType', options.documentType);
+    }
+    if (options.replacesDocumentId) {
+      formData.append('replacesDocumentId', options.replacesDocumentId);
+    }
+
+    try {
+      const response = await api.post(`/cases/${id}/documents`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        onUploadProgress: (event) => {
+          if (event.total) {
+            options.onProgress?.(Math.round((event.loaded / event.total) * 100));
+          }
+        },
+      });
+      return response.data.data;
+    } catch (error: any) {
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error.message || 'Failed to upload document');
+      }
+      throw error;
+    }
+  },
+
+  // Files uploaded to a case, oldest first
+  getCaseDocuments: async (id: string): Promise<CaseDocumentRecord[]> => {
+    const response = await api.get(`/cases/${id}/documents`);
+    return response.data.data.documents;
+  },
+
+  // Accept, reject or request a replacement of a document
+  reviewDocument: async (id: string, documentId: string, input: DocumentReviewInput): Promise<CaseDocumentRecord> => {
+    try {
+      const response = await api.put(`/cases/${id}/documents/${documentId}/review`, input);
+      return response.data.data.document;
+    } catch (error: any) {
+      if (error.response?.data?.error) {
+        throw new Error(error.response.data.error.message || 'Failed to review document');
+      }
+      throw error;
+    }
+  },
+
+  // Review history of a document, oldest first
+  getDocumentReviews: async (id: string, documentId: string): Promise<CaseDocumentReview[]> => {
+    const response = await api.get(`/cases/${id}/documents/${documentId}/reviews`);
+    return response.data.data.reviews;
+  },
+
+  // URL serving a document's content; the browser loads it directly so PDFs can be viewed and ranged
+  getDocumentContentUrl: (id: string, documentId: string, options: { download?: boolean } = {}): string =>
+    api.getUri({ url: `/cases/${id}/documents/${documentId}/content`, params: options.download ? { download: true } : {} }),
+
+  // Content history of an edited note, oldest first
+  getCaseNoteRevisions: async (id: string, noteId: string): Promise<CaseNoteRevision[]> => {
+    const response = await api.get(`/cases/${id}/notes/${noteId}/revisions`);
+    return response.data.data.revisions;
+  },
+
   // Get AI summary for a case
   getAISummary: async (id: string): Promise<any> => {
     const response = await api.get(`/cases/${id}/ai-summary`);
@@ -68,10 +292,10 @@ export const caseService = {
     return response.data.data;
   },
 
-  // Get audit trail for a case
-  getAuditTrail: async (id: string): Promise<any[]> => {
-    const response = await api.get(`/cases/${id}/audit`);
-    return response.data.data;
+  // Get audit trail for a case, optionally filtered by action, user or date range
+  getAuditTrail: async (id: string, params?: AuditTrailFilters): Promise<AuditEntry[]> => {
+    const response = await api.get(`/cases/${id}/audit`, { params });
+    return response.data.data.auditTrail;
   },
 
   // Analyze application data
@@ -94,6 +318,12 @@ export const caseService = {
     }
   },
 
+  // Analyze the application of a saved case, seeding its priority if it has none yet
+  analyzeCase: async (caseId: string): Promise<Case> => {
+    const response = await api.post('/ai/analyze-application', { caseId });
+    return response.data.data.case;
+  },
+
   // Detect missing fields in application data
   detectMissingFields: async (applicationData: ApplicationData): Promise<any> => {
     const response = await api.post('/ai/detect-missing-fields', { applicationData });
@@ -1,2 +1,5 @@
 export { default as api } from './api';
-export { caseService } from './caseService';
\ No newline at end of file
+export { caseService } from './caseService';
+export { applicationTypeService } from './applicationTypeService';
+export { tagService } from './tagService';
+export { userService } from './userService';
\ No newline at end of file
@@ -0,0 +1,28 @@
+import api from './api';
+import { Tag, TagInput } from '../types';
+
+export const tagService = {
+  // Get all tags with their case counts
+  getTags: async (): Promise<Tag[]> => {
+    const response = await api.get('/tags');
+    return response.data.data.tags;
+  },
+
+  // Create a tag
+  createTag: async (input: TagInput): Promise<Tag> => {
+    const response = await api.post('/tags', input);
+    return response.data.data.tag;
+  },
+
+  // Rename, recolour or describe a tag
+  updateTag: async (id: string, update: Partial<TagInput>): Promise<Tag> => {
+    const response = await api.patch(`/tags/${id}`, update);
+    return response.data.data.tag;
+  },
+
+  // Delete a tag, removing it from every case
+  deleteTag: async (id: string): Promise<{ tagId: string; casesUntagged: number }> => {
+    const response = await api.delete(`/tags/${id}`);
+    return response.data.data;
+  },
+};
@@ -0,0 +1,22 @@
+import api from './api';
+import { DirectoryUser, MentionNotification } from '../types';
+
+export const userService = {
+  // Get the users who can be @mentioned in notes
+  getUsers: async (): Promise<DirectoryUser[]> => {
+    const response = await api.get('/users');
+    return response.data.data.users;
+  },
+
+  // Get the notes mentioning the current user, newest first
+  getMyMentions: async (): Promise<{ mentions: MentionNotification[]; unreadCount: number }> => {
+    const response = await api.get('/me/mentions');
+    return response.data.data;
+  },
+
+  // Mark mentions read, or every unread mention when no IDs are given
+  markMentionsRead: async (mentionIds?: string[]): Promise<number> => {
+    const response = await api.post('/me/mentions/read', mentionIds ? { mentionIds } : {});
+    return response.data.data.updated;
+  },
+};
@@ -26,6 +26,56 @@ export interface CaseDocument {
   mimeType: string;
 }
 
+// A file uploaded to a case, stored by the SHA-256 checksum of its contents
+export type DocumentScanStatus = 'not_scanned' | 'clean' | 'infected';
+
+export type DocumentReviewStatus = 'pending' | 'accepted' | 'rejected' | 'needs_replacement' | 'replaced';
+
+export type DocumentReviewDecision = Exclude<DocumentReviewStatus, 'pending' | 'replaced'>;
+
+export interface CaseDocumentRecord {
+  id: string;
+  caseId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+  storageKey: string;
+  description?: string;
+  // Required document of the application type, e.g. passport
+  documentType?: string;
+  uploadedBy: string;
+  uploadedAt: Date;
+  reviewStatus: DocumentReviewStatus;
+  reviewReason?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  // YYYY-MM-DD
+  expiryDate?: string;
+  replacesDocumentId?: string;
+  // Infected files are quarantined and cannot be viewed
+  scanStatus: DocumentScanStatus;
+  scanSignature?: string;
+  scannedAt?: Date;
+}
+
+export interface CaseDocumentReview {
+  id: string;
+  documentId: string;
+  status: DocumentReviewStatus;
+  reason?: string;
+  expiryDate?: string;
+  reviewedBy: string;
+  reviewedAt: Date;
+}
+
+export interface DocumentReviewInput {
+  status: DocumentReviewDecision;
+  reason?: string;
+  // null clears the expiry date
+  expiryDate?: string | null;
+}
+
 export interface ApplicationData {
   applicantName: string;
   applicantEmail: string;
@@ -35,12 +85,67 @@ export interface ApplicationData {
   formData: Record<string, any>;
 }
 
+export type NoteCategory = 'general' | 'interview' | 'phone_call' | 'document_review';
+
+// Internal notes stay with staff; applicant notes may be shared with the applicant
+export type NoteVisibility = 'internal' | 'applicant';
+
 export interface CaseNote {
   id: string;
   caseId: string;
   content: string;
   createdBy: string;
   createdAt: Date;
+  parentId?: string;
+  category: NoteCategory;
+  visibility: NoteVisibility;
+  updatedAt?: Date;
+  updatedBy?: string;
+  deletedAt?: Date;
+  deletedBy?: string;
+  deletionReason?: string;
+}
+
+export interface CaseNoteOptions {
+  parentId?: string;
+  category?: NoteCategory;
+  visibility?: NoteVisibility;
+}
+
+export interface CaseNoteUpdate {
+  content?: string;
+  category?: NoteCategory;
+  visibility?: NoteVisibility;
+}
+
+// One content of an edited note; version 1 is the content the note was created with
+export interface CaseNoteRevision {
+  id: string;
+  noteId: string;
+  version: number;
+  content: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export type UserRole = 'caseworker' | 'supervisor' | 'admin';
+
+// A user who can be @mentioned in case notes
+export interface DirectoryUser {
+  id: string;
+  role: UserRole;
+}
+
+// A note in which the current user was @mentioned
+export interface MentionNotification {
+  id: string;
+  noteId: string;
+  caseId: string;
+  userId: string;
+  mentionedBy: string;
+  createdAt: Date;
+  readAt?: Date;
+  excerpt: string;
 }
 
 export interface AuditEntry {
@@ -52,6 +157,59 @@ export interface AuditEntry {
   timestamp: Date;
 }
 
+export interface ApplicationCategory {
+  value: string;
+  label: string;
+  processingTime?: string;
+}
+
+export interface ApplicationTypeProfile {
+  type: string;
+  label: string;
+  description: string;
+  categories: ApplicationCategory[];
+  requiredDocuments: { type: string; label: string; description?: string }[];
+  requiredFields: { field: string; label: string }[];
+  defaultProcessingTime: string;
+  workflowId: string;
+}
+
+export interface WorkflowStepDefinition {
+  step: ProcessStep;
+  label: string;
+  description: string;
+  terminal?: boolean;
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  version: string;
+  initialStep: ProcessStep;
+  steps: WorkflowStepDefinition[];
+}
+
+export interface StepTransitionEvaluation {
+  to: ProcessStep;
+  label: string;
+  allowed: boolean;
+  reason?: 'invalid_transition' | 'forbidden' | 'guard_failed';
+  failedGuards: { guard: string; message: string }[];
+}
+
+export interface CaseWorkflow {
+  workflow: WorkflowDefinition;
+  currentStep: ProcessStep;
+  availableTransitions: StepTransitionEvaluation[];
+}
+
+export interface AuditTrailFilters {
+  action?: string;
+  userId?: string;
+  from?: string;
+  to?: string;
+}
+
 export interface AISummary {
   id: string;
   caseId: string;
@@ -79,6 +237,17 @@ export interface AIInteraction {
   timestamp: Date;
 }
 
+export interface CaseSla {
+  step: ProcessStep;
+  stepEnteredAt: Date;
+  slaHours: number;
+  dueAt: Date;
+  overdue: boolean;
+  dueSoon: boolean;
+}
+
+export type CasePriority = 'low' | 'medium' | 'high' | 'urgent';
+
 export interface Case {
   id: string;
   applicationData: ApplicationData;
@@ -86,12 +255,182 @@ export interface Case {
   currentStep: ProcessStep;
   createdAt: Date;
   updatedAt: Date;
+  stepEnteredAt?: Date;
   assignedTo?: string;
+  // Set on duplicates that were merged into another case
+  mergedInto?: string;
+  // Suggested by the AI analysis at intake; staff may override it
+  priority?: CasePriority;
+  // Set while the case is soft-deleted; only admins can see such cases
+  deletedAt?: Date;
+  deletedBy?: string;
+  // Row version; sent back as If-Match so edits based on an outdated case are rejected
+  version?: number;
+  // Present for open cases whose current step has an SLA
+  sla?: CaseSla;
+  // Appeals, renewals and other cases linked to this one
+  linkedCases?: LinkedCase[];
+  tags?: Tag[];
   notes: CaseNote[];
   aiSummaries: AISummary[];
   auditTrail: AuditEntry[];
 }
 
+// List rows from GET /api/cases omit notes, summaries, audit entries, linked cases and tags
+export type CaseListItem = Omit<Case, 'notes' | 'aiSummaries' | 'auditTrail' | 'linkedCases' | 'tags'>;
+
+export interface CaseListParams {
+  status?: CaseStatus;
+  step?: ProcessStep;
+  assignedTo?: string;
+  applicationType?: string;
+  priority?: CasePriority;
+  createdFrom?: string;
+  createdTo?: string;
+  overdue?: boolean;
+  dueSoon?: boolean;
+  // Tag names; a case must carry all of them
+  tags?: string[];
+  // Admins only: list soft-deleted cases instead of active ones
+  deleted?: boolean;
+  sortBy?: 'createdAt' | 'updatedAt' | 'stepEnteredAt' | 'applicantName' | 'status' | 'currentStep' | 'priority';
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+export interface CaseSearchHighlight {
+  field: 'application' | 'formData' | 'notes' | 'summaries';
+  // HTML-escaped by the server; only <mark> tags are added
+  snippet: string;
+}
+
+export interface CaseSearchResult {
+  case: CaseListItem;
+  score: number;
+  highlights: CaseSearchHighlight[];
+}
+
+export interface CaseSearchResponse {
+  query: string;
+  results: CaseSearchResult[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface ApplicationFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ApplicationRevision {
+  id: string;
+  caseId: string;
+  version: number;
+  applicationData: ApplicationData;
+  changes: ApplicationFieldChange[];
+  createdBy: string;
+  createdAt: Date;
+  restoredFrom?: number;
+}
+
+// Partial application edit; a null form value removes the field
+export interface ApplicationDataUpdate {
+  applicantName?: string;
+  applicantEmail?: string;
+  submissionDate?: string;
+  formData?: Record<string, unknown>;
+  reason?: string;
+}
+
+export type DuplicateMatchReason = 'email' | 'name_and_date_of_birth' | 'same_type_within_window';
+
+export interface DuplicateMatch {
+  case: CaseListItem;
+  reasons: DuplicateMatchReason[];
+  nameSimilarity: number;
+}
+
+export interface CaseMergeResult {
+  case: Case;
+  mergedCaseId: string;
+  notesMoved: number;
+  documentsAdded: number;
+  auditEntriesMoved: number;
+}
+
+export type CaseLinkType = 'appeal_of' | 'renewal_of' | 'related_to' | 'family_member';
+
+export interface CaseLink {
+  id: string;
+  caseId: string;
+  linkedCaseId: string;
+  type: CaseLinkType;
+  note?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+// A link as seen from one of its cases: outgoing links were created on it, incoming links point at it
+export interface LinkedCase {
+  link: CaseLink;
+  direction: 'outgoing' | 'incoming';
+  case: {
+    id: string;
+    applicantName: string;
+    applicationType: string;
+    status: CaseStatus;
+    currentStep: ProcessStep;
+    // Final decision, once the linked case is concluded
+    decision?: {
+      status: CaseStatus;
+      decidedAt: Date;
+    };
+  };
+}
+
+export type TagColor = 'gray' | 'blue' | 'green' | 'yellow' | 'red';
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: TagColor;
+  description?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Only returned by GET /api/tags
+  caseCount?: number;
+}
+
+export interface TagInput {
+  name: string;
+  color?: TagColor;
+  description?: string;
+}
+
+export type BulkCaseOperation =
+  | { type: 'update_status'; status: CaseStatus }
+  | { type: 'assign'; assignedTo: string; reason?: string }
+  | { type: 'unassign'; reason?: string }
+  | { type: 'add_tag'; tagId: string }
+  | { type: 'remove_tag'; tagId: string };
+
+export interface BulkCaseItemResult {
+  caseId: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkCaseResponse {
+  operation: BulkCaseOperation['type'];
+  results: BulkCaseItemResult[];
+  succeeded: number;
+  failed: number;
+}
+
 export interface AIRecommendation {
   id: string;
   caseId: string;
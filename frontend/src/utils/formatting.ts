@@ -126,4 +126,42 @@ export const getStatusVariant = (status: string): 'default' | 'success' | 'warni
   };
   
   return statusVariants[status] || 'default';
-};
\ No newline at end of file
+};
+
+// Get the badge variant for a case priority
+export const getPriorityVariant = (priority: string): 'default' | 'success' | 'warning' | 'danger' | 'info' => {
+  const priorityVariants: Record<string, 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+    'low': 'default',
+    'medium': 'info',
+    'high': 'warning',
+    'urgent': 'danger',
+  };
+
+  return priorityVariants[priority] || 'default';
+};
+
+// Get the badge variant for a tag colour
+export const getTagVariant = (color: string): 'default' | 'success' | 'warning' | 'danger' | 'info' => {
+  const tagVariants: Record<string, 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+    'gray': 'default',
+    'blue': 'info',
+    'green': 'success',
+    'yellow': 'warning',
+    'red': 'danger',
+  };
+
+  return tagVariants[color] || 'default';
+};
+/**
+ * Describe a case link from the side of the case being viewed, e.g. "Appeal of" or "Appealed by"
+ */
+export const formatCaseLink = (type: string, direction: 'outgoing' | 'incoming'): string => {
+  const linkLabels: Record<string, { outgoing: string; incoming: string }> = {
+    'appeal_of': { outgoing: 'Appeal of', incoming: 'Appealed by' },
+    'renewal_of': { outgoing: 'Renewal of', incoming: 'Renewed by' },
+    'related_to': { outgoing: 'Related to', incoming: 'Related to' },
+    'family_member': { outgoing: 'Family member', incoming: 'Family member' },
+  };
+
+  return linkLabels[type]?.[direction] || humanizeString(type);
+};